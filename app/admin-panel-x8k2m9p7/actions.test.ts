@@ -0,0 +1,41 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import * as actions from './actions';
+
+// No admin session cookie on the request.
+vi.mock('next/headers', () => ({
+  cookies: () => ({ get: () => undefined }),
+}));
+vi.mock('next/cache', () => ({
+  revalidatePath: vi.fn(),
+}));
+
+const supabaseClient = vi.hoisted(() => ({
+  createAdminClient: vi.fn(() => {
+    throw new Error('createAdminClient called before the admin check');
+  }),
+}));
+vi.mock('@/lib/supabase-client', async importOriginal => ({
+  ...(await importOriginal<typeof import('@/lib/supabase-client')>()),
+  createAdminClient: supabaseClient.createAdminClient,
+}));
+
+const actionNames = Object.entries(actions)
+  .filter(([, value]) => typeof value === 'function')
+  .map(([name]) => name);
+
+describe('admin server actions without a session', () => {
+  beforeEach(() => {
+    supabaseClient.createAdminClient.mockClear();
+  });
+
+  it('exports actions to check', () => {
+    expect(actionNames.length).toBeGreaterThan(0);
+  });
+
+  it.each(actionNames)('%s refuses the request', async name => {
+    const action = (actions as unknown as Record<string, (...args: unknown[]) => Promise<unknown>>)[name];
+    const result = await action('id', 'killer', new FormData());
+    expect(result).toMatchObject({ success: false, code: 'unauthorized' });
+    expect(supabaseClient.createAdminClient).not.toHaveBeenCalled();
+  });
+});
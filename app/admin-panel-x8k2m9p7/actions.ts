@@ -8,13 +8,62 @@ import {
   deleteArtist as deleteArtistService, 
   updateArtist as updateArtistService 
 } from '@/lib/artists-service';
-import { updatePlayerPriority } from '@/lib/players-service';
+import { ensurePlayerProfile, normalizePlayerProfile, PlayerProfileInput, updatePlayerPriority, updatePlayerProfile } from '@/lib/players-service';
+import { deletePlayerAlias, getPlayerAliases, mergeUsernames } from '@/lib/player-aliases';
+import { getPlayerClaims, PlayerClaimStatus, reviewPlayerClaim } from '@/lib/player-claims';
+import { commitP100Import, ImportOptions, planP100Import } from '@/lib/p100-import';
+import { BlacklistRuleInput, getBlacklistBlocks, getBlacklistRules, normalizeBlacklistRule } from '@/lib/blacklist-service';
+import { applyBlacklistCleanup, BlacklistCleanupMode, getBlacklistCleanups, previewBlacklistCleanup, undoBlacklistCleanup } from '@/lib/blacklist-cleanup';
+import {
+  PrivateScreenshotKind,
+  SubmissionListFilters,
+  discardOriginalScreenshot,
+  findScreenshotMatches,
+  getOriginalScreenshotUrl,
+  getSubmissionsPage,
+  reviewSubmission,
+  updateSubmissionClaims,
+} from '@/lib/submissions-service';
+import { getSubmissionEvents } from '@/lib/submission-edits';
+import {
+  RejectionReasonInput,
+  createRejectionReason,
+  deleteRejectionReason,
+  getRejectionReasonById,
+  getRejectionReasons,
+  getRejectionReasonsWithCounts,
+  updateRejectionReason,
+} from '@/lib/rejection-reasons-service';
+import { requireAdmin } from '@/lib/admin-guard';
+import {
+  ScreenshotRetentionPolicy,
+  SubmissionRateLimits,
+  getScreenshotRetention,
+  getSubmissionRateLimits,
+  saveScreenshotRetention,
+  saveSubmissionRateLimits,
+} from '@/lib/app-settings';
+import { applyScreenshotRetention, purgeScreenshots, screenshotStoragePath } from '@/lib/screenshot-retention';
+import { recordAudit, getAuditEntries, AuditLogFilters } from '@/lib/audit-log';
+import { addArtworkToCharacter } from '@/lib/artwork-management';
+import { isManagedStorageBucket, replaceCharacterImageUrl, sanitizeFileName } from '@/lib/storage-files';
+import { getCharacterExportRows, getDatabaseBackup } from '@/lib/p100-export';
+import { TrashKind, getTrash, purgeTrashItem, restoreTrashItem, softDeleteCharacter, softDeletePlayer } from '@/lib/trash-service';
+import { hashModeratorPassword } from '@/lib/admin-auth';
+import { ModeratorRole, isModeratorRole } from '@/lib/moderator-roles';
+import {
+  getModerators as getModeratorsService,
+  getModeratorById as getModeratorByIdService,
+  createModerator as createModeratorService,
+  updateModerator as updateModeratorService,
+  deleteModerator as deleteModeratorService,
+} from '@/lib/moderators-service';
 
 // --- UTILITY ACTION (used by other actions) ---
 
-async function uploadImageToStorage(file: File, bucket: string, path: string): Promise<string> {
+async function uploadImageToStorage(file: File, bucket: string, path: string, upsert = true): Promise<string> {
   const supabase = createAdminClient();
-  const { error } = await supabase.storage.from(bucket).upload(path, file, { cacheControl: '3600', upsert: true });
+  const { error } = await supabase.storage.from(bucket).upload(path, file, { cacheControl: '3600', upsert });
   if (error) {
     console.error('Storage Upload Error:', error);
     throw new Error(`Failed to upload to ${bucket}: ${error.message}`);
@@ -25,37 +74,67 @@ async function uploadImageToStorage(file: File, bucket: string, path: string): P
 
 // --- SUBMISSION ACTIONS ---
 
+export async function getSubmissionsPageAction(filters: SubmissionListFilters) {
+  const { error: authError } = await requireAdmin('submissions');
+  if (authError) return authError;
+
+  try {
+    const data = await getSubmissionsPage(createAdminClient(), filters);
+    return { success: true, data };
+  } catch (error: any) {
+    return { success: false, message: error.message || 'Failed to fetch submissions.' };
+  }
+}
+
+export async function updateSubmissionUsernameAction(submissionId: string, username: string) {
+  const { session, error: authError } = await requireAdmin('submissions');
+  if (authError) return authError;
+
+  const trimmed = username.trim();
+  if (!trimmed) return { success: false, message: 'Username cannot be empty.' };
+  try {
+    const supabase = createAdminClient();
+    const { data: before } = await supabase.from('p100_submissions').select('*').eq('id', submissionId).single();
+    const { data: after } = await supabase.from('p100_submissions').update({ username: trimmed }).eq('id', submissionId).select().single().throwOnError();
+    await recordAudit(supabase, session, { action: 'update_submission_username', table: 'p100_submissions', recordId: submissionId, before, after });
+
+    revalidatePath('/admin');
+    return { success: true, message: 'Username updated.' };
+  } catch (error: any) {
+    return { success: false, message: error.message || 'Failed to update username.' };
+  }
+}
+
+/**
+ * @param rejectionReason Free text; appended to the canned reason when one is given.
+ * @param rejectionReasonId Id from rejection_reasons.
+ */
 export async function updateSubmissionStatusAction(
   submissionId: string, 
   status: 'approved' | 'rejected', 
   rejectionReason: string | undefined,
-  submission: { username: string, killer_id?: string, survivor_id?: string }
+  rejectionReasonId?: string | null
 ) {
+  const { session, error: authError } = await requireAdmin('submissions');
+  if (authError) return authError;
+
   try {
     const supabase = createAdminClient();
-    await supabase.from('p100_submissions').update({ 
-      status, 
-      rejection_reason: status === 'rejected' ? rejectionReason : null,
-      reviewed_at: new Date().toISOString(),
-      reviewed_by: 'admin'
-    }).eq('id', submissionId).throwOnError();
-
-    if (status === 'approved') {
-      const characterColumn = submission.killer_id ? 'killer_id' : 'survivor_id';
-      const characterId = submission.killer_id || submission.survivor_id;
-      
-      const { data: existingPlayer } = await supabase.from('p100_players').select('id').eq('username', submission.username).eq(characterColumn, characterId).single();
-
-      if (!existingPlayer) {
-        await supabase.from('p100_players').insert({ 
-          username: submission.username, 
-          [characterColumn]: characterId, 
-          p200: false,
-          legacy: false,
-          favorite: false
-        }).throwOnError();
-      }
+    let reasonText = rejectionReason?.trim() || null;
+    if (status === 'rejected' && rejectionReasonId) {
+      const reason = await getRejectionReasonById(supabase, rejectionReasonId);
+      if (!reason) return { success: false, message: 'That rejection reason no longer exists.' };
+      reasonText = reasonText ? `${reason.label}: ${reasonText}` : reason.label;
+    }
+    const { data: before } = await supabase.from('p100_submissions').select('*').eq('id', submissionId).single();
+    const result = await reviewSubmission(supabase, submissionId, status, reasonText, session.username, rejectionReasonId ?? null);
+    // The original upload is only kept while the submission waits for review.
+    await discardOriginalScreenshot(supabase, submissionId);
+    await recordAudit(supabase, session, { action: `submission_${status}`, table: 'p100_submissions', recordId: submissionId, before, after: result.submission });
+    if (result.player_created) {
+      await recordAudit(supabase, session, { action: 'create_player', table: 'p100_players', recordId: result.player_id, after: { id: result.player_id, source_submission: submissionId } });
     }
+
     revalidatePath('/admin');
     return { success: true, message: `Submission ${status}.` };
   } catch (error: any) {
@@ -63,19 +142,55 @@ export async function updateSubmissionStatusAction(
   }
 }
 
+export interface BulkReviewItemResult {
+  id: string;
+  success: boolean;
+  message: string;
+}
+
+export async function bulkUpdateSubmissionStatusAction(
+  submissionIds: string[],
+  status: 'approved' | 'rejected',
+  rejectionReason: string | undefined,
+  rejectionReasonId?: string | null
+) {
+  const { error: authError } = await requireAdmin('submissions');
+  if (authError) return authError;
+
+  // One review at a time, so each item keeps its own transaction and audit entry.
+  const results: BulkReviewItemResult[] = [];
+  for (const id of submissionIds) {
+    const result = await updateSubmissionStatusAction(id, status, rejectionReason, rejectionReasonId);
+    results.push({ id, success: result.success, message: result.message });
+  }
+  const failed = results.filter(r => !r.success).length;
+  return {
+    success: failed === 0,
+    message: failed === 0
+      ? `${results.length} submissions ${status}.`
+      : `${results.length - failed} of ${results.length} submissions ${status}; ${failed} failed.`,
+    results,
+  };
+}
+
 export async function deleteSubmissionScreenshotAction(submissionId: string, screenshotUrl: string) {
+  const { session, error: authError } = await requireAdmin('submissions');
+  if (authError) return authError;
+
   try {
     const supabase = createAdminClient();
-    const urlRegex = /storage\/v1\/object\/public\/([^/]+)\/(.*)/;
-    const match = screenshotUrl.match(urlRegex);
-    if (!match) throw new Error("Could not parse screenshot URL.");
+    if (!screenshotStoragePath(screenshotUrl)) throw new Error("Could not parse screenshot URL.");
 
-    const bucketName = match[1];
-    const filePath = decodeURIComponent(match[2]);
-
-    const { error } = await supabase.storage.from(bucketName).remove([filePath]);
-    if (error) throw error;
-    await supabase.from('p100_submissions').update({ screenshot_url: '' }).eq('id', submissionId).throwOnError();
+    const { data: before } = await supabase.from('p100_submissions').select('*').eq('id', submissionId).single();
+    await purgeScreenshots(supabase, [{ id: submissionId, screenshot_url: screenshotUrl }]);
+    const { data: after } = await supabase.from('p100_submissions').select('*').eq('id', submissionId).single();
+    await recordAudit(supabase, session, {
+      action: 'delete_screenshot',
+      table: 'p100_submissions',
+      recordId: submissionId,
+      before,
+      after,
+    });
     
     revalidatePath('/admin');
     return { success: true, message: 'Screenshot deleted.' };
@@ -84,61 +199,65 @@ export async function deleteSubmissionScreenshotAction(submissionId: string, scr
   }
 }
 
-export async function bulkDeleteScreenshotsAction(submissions: { id: string; screenshot_url: string }[]) {
-  const pathsToDelete: string[] = [];
-  const idsToUpdate: string[] = [];
-  const urlRegex = /storage\/v1\/object\/public\/([^/]+)\/(.*)/;
+export async function bulkDeleteScreenshotsAction(submissions: { id: string; screenshot_url: string | null }[]) {
+  const { session, error: authError } = await requireAdmin('submissions');
+  if (authError) return authError;
 
-  for (const sub of submissions) {
-      const match = sub.screenshot_url.match(urlRegex);
-      if (match && match[1] === 'screenshots') {
-          pathsToDelete.push(decodeURIComponent(match[2]));
-          idsToUpdate.push(sub.id);
-      }
-  }
-  if (pathsToDelete.length === 0) {
+  const targets = submissions.filter(sub => screenshotStoragePath(sub.screenshot_url));
+  if (targets.length === 0) {
     return { success: false, message: 'No valid screenshot paths found to delete.' };
   }
   try {
     const supabase = createAdminClient();
-    const { error: storageError } = await supabase.storage.from('screenshots').remove(pathsToDelete);
-    if (storageError) throw storageError;
-    await supabase.from('p100_submissions').update({ screenshot_url: '' }).in('id', idsToUpdate).throwOnError();
+    const { data: before } = await supabase.from('p100_submissions').select('*').in('id', targets.map(t => t.id));
+    const purgedIds = await purgeScreenshots(supabase, targets);
+    await recordAudit(supabase, session, {
+      action: 'bulk_delete_screenshots',
+      table: 'p100_submissions',
+      recordId: null,
+      before,
+      after: { ids: purgedIds, screenshot_url: null },
+    });
 
     revalidatePath('/admin');
-    return { success: true, message: `Successfully deleted ${pathsToDelete.length} screenshots.` };
+    return { success: true, message: `Successfully deleted ${purgedIds.length} screenshots.` };
   } catch (error: any) {
     return { success: false, message: error.message || 'Failed to delete all screenshots.' };
   }
 }
 
 export async function addArtworkToCharacterAction(formData: FormData) {
+  const { session, error: authError } = await requireAdmin('artworks');
+  if (authError) return authError;
+
   try {
     const supabase = createAdminClient();
 
     const artworkFile = formData.get('artworkFile') as File;
     const characterId = formData.get('characterId') as string;
     const characterType = formData.get('characterType') as 'killer' | 'survivor';
-    const artistId = formData.get('artistId') as string;
-    const placement = formData.get('placement') as 'gallery' | 'header' | 'legacy_header';
+    const artistId = formData.get('artistId') as string | null;
+    const placement = formData.get('placement') as 'gallery' | 'header' | 'legacy_header' | 'background';
 
-    if (!artworkFile || !characterId || !artistId) {
-      throw new Error('Artwork file, character, and artist are required.');
+    if (!artworkFile || !characterId) {
+      throw new Error('Artwork file and character are required.');
     }
-    
-    // To create a nice filename, we fetch the artist's name
-    const { data: artist, error: artistError } = await supabase.from('artists').select('name').eq('id', artistId).single();
-    if (artistError) throw new Error('Could not find selected artist.');
 
-    const artistSlug = (artist.name || 'unknown').toLowerCase().replace(/\s+/g, '-');
+    // The artist name goes after "-by-" URL-encoded, so analytics can decode it back.
     const timestamp = Date.now();
     const fileExtension = artworkFile.name.split('.').pop();
-    const fileName = `${characterId}-${artistSlug}-${timestamp}.${fileExtension}`;
-    
+    let fileName = `${sanitizeFileName(`${characterId}-${timestamp}`)}.${fileExtension}`;
+    if (artistId) {
+      const { data: artist, error: artistError } = await supabase.from('artists').select('name').eq('id', artistId).single();
+      if (artistError) throw new Error('Could not find selected artist.');
+      const artistIdentifier = encodeURIComponent((artist.name || 'unknown').trim());
+      fileName = `${sanitizeFileName(`${characterId}-${timestamp}`)}-by-${artistIdentifier}.${fileExtension}`;
+    }
+
     const artworkUrl = await uploadImageToStorage(artworkFile, 'artworks', fileName);
     
     const tableName = characterType === 'killer' ? 'killers' : 'survivors';
-    const { data: character, error: fetchError } = await supabase.from(tableName).select('artist_urls, legacy_header_urls').eq('id', characterId).single();
+    const { data: character, error: fetchError } = await supabase.from(tableName).select('artist_urls, legacy_header_urls, header_url, background_image_url').eq('id', characterId).single();
     if (fetchError) throw fetchError;
     
     let updateData = {};
@@ -150,9 +269,15 @@ export async function addArtworkToCharacterAction(formData: FormData) {
     } else if (placement === 'legacy_header') {
       const currentUrls = character.legacy_header_urls || [];
       updateData = { legacy_header_urls: [...currentUrls, artworkUrl] };
+    } else if (placement === 'background') {
+      updateData = { background_image_url: artworkUrl };
     }
     
     await supabase.from(tableName).update(updateData).eq('id', characterId).throwOnError();
+    if (placement === 'background') {
+      await addArtworkToCharacter(characterId, characterType, artworkUrl, 'background', undefined, supabase);
+    }
+    await recordAudit(supabase, session, { action: 'add_artwork', table: tableName, recordId: characterId, before: character, after: updateData });
     
     revalidatePath('/admin');
     revalidatePath(`/${tableName}/${characterId}`); // Invalidate the character's public page cache
@@ -164,9 +289,151 @@ export async function addArtworkToCharacterAction(formData: FormData) {
   }
 }
 
+/**
+ * Links an artwork to a character in the artwork system (character_artworks).
+ * The artwork is either an uploaded file or an existing URL.
+ */
+export async function linkCharacterArtworkAction(formData: FormData) {
+  const { session, error: authError } = await requireAdmin('artworks');
+  if (authError) return authError;
+
+  try {
+    const supabase = createAdminClient();
+
+    const artworkFile = formData.get('artworkFile') as File | null;
+    const characterId = formData.get('characterId') as string;
+    const characterType = formData.get('characterType') as 'killer' | 'survivor';
+    const usageType = formData.get('usageType') as 'gallery' | 'header' | 'legacy_header' | 'background';
+    const artistId = formData.get('artistId') as string | null;
+    let artworkUrl = ((formData.get('artworkUrl') as string | null) || '').trim();
+
+    if (!characterId || !usageType) throw new Error('Character and usage type are required.');
+
+    let artist: { name: string; url: string | null; platform: string | null } | null = null;
+    if (artistId) {
+      const { data, error } = await supabase.from('artists').select('name, url, platform').eq('id', artistId).single();
+      if (error) throw new Error('Could not find selected artist.');
+      artist = data;
+    }
+
+    if (artworkFile && artworkFile.size > 0) {
+      const fileExt = artworkFile.name.split('.').pop();
+      const artistSuffix = artist ? `-by-${artist.name.replace(/[^a-zA-Z0-9]/g, '_')}` : '';
+      const fileName = `${characterId}/${characterId}-${Date.now()}${artistSuffix}.${fileExt}`;
+      artworkUrl = await uploadImageToStorage(artworkFile, 'artworks', fileName, false);
+    }
+    if (!artworkUrl) throw new Error('No artwork URL or file provided');
+
+    const { data: artwork } = await supabase
+      .from('artworks')
+      .upsert({
+        artwork_url: artworkUrl,
+        artist_name: artist?.name || null,
+        artist_url: artist?.url || null,
+        platform: artist?.platform || null,
+        updated_at: new Date().toISOString(),
+      }, { onConflict: 'artwork_url' })
+      .select()
+      .single()
+      .throwOnError();
+
+    const { data: link, error: linkError } = await supabase
+      .from('character_artworks')
+      .insert({ character_id: characterId, character_type: characterType, artwork_id: artwork.id, usage_type: usageType })
+      .select()
+      .single();
+    if (linkError?.code === '23505') {
+      return { success: false, code: 'duplicate' as const, message: 'This artwork is already linked to this character' };
+    }
+    if (linkError) throw linkError;
+    await recordAudit(supabase, session, { action: 'link_artwork', table: 'character_artworks', recordId: link.id, after: { ...link, artwork_url: artworkUrl } });
+
+    revalidatePath('/admin');
+    return { success: true, message: 'Artwork added successfully!' };
+  } catch (error: any) {
+    return { success: false, message: error.message || 'Failed to add artwork.' };
+  }
+}
+
+/** Removes the link between an artwork and a character; the file itself is kept. */
+export async function removeCharacterArtworkAction(characterId: string, characterType: 'killer' | 'survivor', artworkId: string) {
+  const { session, error: authError } = await requireAdmin('artworks');
+  if (authError) return authError;
+
+  try {
+    const supabase = createAdminClient();
+    const { data: before } = await supabase
+      .from('character_artworks')
+      .delete()
+      .eq('character_id', characterId)
+      .eq('character_type', characterType)
+      .eq('artwork_id', artworkId)
+      .select()
+      .throwOnError();
+    await recordAudit(supabase, session, { action: 'unlink_artwork', table: 'character_artworks', recordId: artworkId, before });
+
+    revalidatePath('/admin');
+    return { success: true, message: 'Artwork removed.' };
+  } catch (error: any) {
+    return { success: false, message: error.message || 'Failed to remove artwork.' };
+  }
+}
+
+/** Every character artwork link with its artist, from v_character_artworks. */
+export async function getCharacterArtworksAction() {
+  const { error: authError } = await requireAdmin('artworks');
+  if (authError) return authError;
+
+  try {
+    const { data } = await createAdminClient().from('v_character_artworks').select('*').throwOnError();
+    return { success: true, data: data || [] };
+  } catch (error: any) {
+    return { success: false, message: error.message || 'Failed to fetch character artworks.' };
+  }
+}
+
+/** Sets or clears the artist credited for an artwork. */
+export async function setArtworkArtistAction(artworkUrl: string, artistId: string | null) {
+  const { session, error: authError } = await requireAdmin('artworks');
+  if (authError) return authError;
+
+  try {
+    const supabase = createAdminClient();
+    let artist: { name: string; url: string | null; platform: string | null } | null = null;
+    if (artistId) {
+      const { data, error } = await supabase.from('artists').select('name, url, platform').eq('id', artistId).single();
+      if (error) throw new Error('Could not find selected artist.');
+      artist = data;
+    }
+
+    const { data: before } = await supabase.from('artworks').select('*').eq('artwork_url', artworkUrl).maybeSingle();
+    const { data: after } = await supabase
+      .from('artworks')
+      .upsert({
+        artwork_url: artworkUrl,
+        artist_name: artist?.name || null,
+        artist_url: artist?.url || null,
+        platform: artist?.platform || null,
+        updated_at: new Date().toISOString(),
+      }, { onConflict: 'artwork_url' })
+      .select()
+      .single()
+      .throwOnError();
+    await recordAudit(supabase, session, { action: 'update_artwork_artist', table: 'artworks', recordId: after?.id, before, after });
+
+    revalidatePath('/admin');
+    return { success: true, message: artist ? `Artist set to ${artist.name}` : 'Artist cleared' };
+  } catch (error: any) {
+    return { success: false, message: error.message || 'Failed to update artist.' };
+  }
+}
+
 // --- CHARACTER & PLAYER ACTIONS ---
 
 export async function createNewCharacterAction(formData: FormData) {
+  const { session, error: authError } = await requireAdmin('characters');
+  if (authError) return authError;
+
   try {
       const supabase = createAdminClient();
       const timestamp = Date.now();
@@ -204,9 +471,10 @@ export async function createNewCharacterAction(formData: FormData) {
       const { data: chars } = await supabase.from(tableName).select(orderField);
       const maxOrder = Math.max(...(chars?.map((c: any) => c[orderField] || 0) || [0]), 0);
       
-      await supabase.from(tableName).insert({
-        id, name, image_url: imageUrl, background_image_url: backgroundImageUrl, header_url: headerUrl, artist_urls: artistUrls, [orderField]: maxOrder + 1,
-      }).throwOnError();
+      const { data: created } = await supabase.from(tableName).insert({
+        id, name, image_url: imageUrl, background_image_url: backgroundImageUrl, header_url: headerUrl, artist_urls: artistUrls, legacy_header_urls: [], [orderField]: maxOrder + 1,
+      }).select().single().throwOnError();
+      await recordAudit(supabase, session, { action: 'create_character', table: tableName, recordId: id, after: created });
       
       revalidatePath('/admin');
       return { success: true, message: `${type} "${name}" created!` };
@@ -216,15 +484,34 @@ export async function createNewCharacterAction(formData: FormData) {
 }
 
 export async function saveCharacterAction(characterData: any, type: 'killer' | 'survivor') {
+  const { session, error: authError } = await requireAdmin('characters');
+  if (authError) return authError;
+
   try {
     const supabase = createAdminClient();
     const tableName = type === 'killer' ? 'killers' : 'survivors';
-    const { id, created_at, ...updateData } = characterData;
+    // _artworks is the admin page's copy of the artwork links, not a column.
+    const { created_at, _artworks, ...updateData } = characterData;
+    const { data: before } = updateData.id
+      ? await supabase.from(tableName).select('*').eq('id', updateData.id).maybeSingle()
+      : { data: null };
 
-    if (id && created_at) { // Existing character
-      await supabase.from(tableName).update(updateData).eq('id', id).throwOnError();
+    let after: any;
+    if (before) { // Existing character
+      ({ data: after } = await supabase.from(tableName).update(updateData).eq('id', before.id).select().single().throwOnError());
+      await recordAudit(supabase, session, { action: 'update_character', table: tableName, recordId: before.id, before, after });
     } else { // New character
-      await supabase.from(tableName).insert(updateData).throwOnError();
+      ({ data: after } = await supabase.from(tableName).insert(updateData).select().single().throwOnError());
+      await recordAudit(supabase, session, { action: 'create_character', table: tableName, recordId: after?.id, after });
+    }
+
+    // Keep the artwork system in step with the background column.
+    if (after && updateData.background_image_url) {
+      try {
+        await addArtworkToCharacter(after.id, type, updateData.background_image_url, 'background', undefined, supabase);
+      } catch (artworkErr) {
+        console.warn(`Artwork sync failed (background still saved to ${tableName} table):`, artworkErr);
+      }
     }
     revalidatePath('/admin');
     return { success: true, message: `${type} saved successfully.` };
@@ -240,32 +527,38 @@ export async function saveCharacterAction(characterData: any, type: 'killer' | '
 }
 
 export async function deleteCharacterAction(characterId: string, type: 'killer' | 'survivor') {
+  const { session, error: authError } = await requireAdmin('characters');
+  if (authError) return authError;
+
   try {
     const supabase = createAdminClient();
-    const playerColumn = type === 'killer' ? 'killer_id' : 'survivor_id';
     const tableName = type === 'killer' ? 'killers' : 'survivors';
-    
-    await supabase.from('p100_players').delete().eq(playerColumn, characterId);
-    await supabase.from('p100_submissions').delete().eq(playerColumn, characterId);
-    await supabase.from(tableName).delete().eq('id', characterId);
+    const before = await softDeleteCharacter(supabase, type, characterId, session.username);
+    await recordAudit(supabase, session, { action: 'delete_character', table: tableName, recordId: characterId, before });
 
     revalidatePath('/admin');
-    return { success: true, message: `${type} deleted.` };
+    return { success: true, message: `${type} moved to trash.` };
   } catch (error: any) {
     return { success: false, message: `Failed to delete ${type}: ${error.message}` };
   }
 }
 
 export async function savePlayerAction(playerData: any) {
+  const { session, error: authError } = await requireAdmin('players');
+  if (authError) return authError;
+
   try {
     const supabase = createAdminClient();
     const { id, killers, survivors, ...updateData } = playerData;
     updateData.username = updateData.username.trim();
 
     if (id) {
-      await supabase.from('p100_players').update(updateData).eq('id', id).throwOnError();
+      const { data: before } = await supabase.from('p100_players').select('*').eq('id', id).single();
+      const { data: after } = await supabase.from('p100_players').update(updateData).eq('id', id).select().single().throwOnError();
+      await recordAudit(supabase, session, { action: 'update_player', table: 'p100_players', recordId: id, before, after });
     } else {
-      await supabase.from('p100_players').insert(updateData).throwOnError();
+      const { data: after } = await supabase.from('p100_players').insert(updateData).select().single().throwOnError();
+      await recordAudit(supabase, session, { action: 'create_player', table: 'p100_players', recordId: after?.id, after });
     }
     revalidatePath('/admin');
     return { success: true, message: 'Player saved.' };
@@ -275,30 +568,196 @@ export async function savePlayerAction(playerData: any) {
 }
 
 export async function deletePlayerAction(playerId: string) {
+  const { session, error: authError } = await requireAdmin('players');
+  if (authError) return authError;
+
   try {
     const supabase = createAdminClient();
-    await supabase.from('p100_players').delete().eq('id', playerId).throwOnError();
+    const before = await softDeletePlayer(supabase, playerId, session.username);
+    await recordAudit(supabase, session, { action: 'delete_player', table: 'p100_players', recordId: playerId, before });
     revalidatePath('/admin');
-    return { success: true, message: 'Player deleted.' };
+    return { success: true, message: 'Player moved to trash.' };
   } catch (error: any) {
     return { success: false, message: error.message || 'Failed to delete player.' };
   }
 }
 
+export async function mergeUsernamesAction(fromUsername: string, toUsername: string) {
+  const { session, error: authError } = await requireAdmin('players');
+  if (authError) return authError;
+
+  try {
+    const supabase = createAdminClient();
+    const from = fromUsername.trim();
+    const to = toUsername.trim();
+    const result = await mergeUsernames(supabase, from, to, session.username);
+    await recordAudit(supabase, session, { action: 'merge_usernames', table: 'player_aliases', recordId: from, after: { alias: from, canonical_username: to, ...result } });
+    revalidatePath('/admin');
+    revalidatePath(`/profile/${encodeURIComponent(from)}`);
+    revalidatePath(`/profile/${encodeURIComponent(to)}`);
+    return {
+      success: true,
+      message: `Merged "${from}" into "${to}": ${result.players_moved + result.players_merged} P100(s), ${result.submissions_moved} submission(s).`,
+    };
+  } catch (error: any) {
+    return { success: false, message: error.message || 'Failed to merge usernames.' };
+  }
+}
+
+// Pasted lists above this size are refused before parsing.
+const MAX_IMPORT_TEXT_LENGTH = 1024 * 1024;
+
+/** Dry run of a CSV/TSV import: what each row would do, nothing written. */
+export async function previewP100ImportAction(text: string, options: ImportOptions) {
+  const { error: authError } = await requireAdmin('players');
+  if (authError) return authError;
+  if (text.length > MAX_IMPORT_TEXT_LENGTH) return { success: false, message: 'The file is too large (1 MB max).' };
+
+  try {
+    const plan = await planP100Import(createAdminClient(), text, options);
+    return { success: true, data: plan };
+  } catch (error: any) {
+    return { success: false, message: error.message || 'Failed to read import.' };
+  }
+}
+
+/**
+ * Imports the list. The plan is worked out again from the text rather than
+ * trusted from the preview, then applied in one transaction.
+ */
+export async function commitP100ImportAction(text: string, options: ImportOptions, updateConflicts: boolean) {
+  const { session, error: authError } = await requireAdmin('players');
+  if (authError) return authError;
+  if (text.length > MAX_IMPORT_TEXT_LENGTH) return { success: false, message: 'The file is too large (1 MB max).' };
+
+  try {
+    const supabase = createAdminClient();
+    const plan = await planP100Import(supabase, text, options);
+    const result = await commitP100Import(supabase, plan, updateConflicts);
+    await recordAudit(supabase, session, {
+      action: 'import_p100_players',
+      table: 'p100_players',
+      after: { counts: plan.counts, inserted_ids: result.inserted_ids, updated_ids: result.updated_ids, skipped: result.skipped },
+    });
+    revalidatePath('/admin');
+    return {
+      success: true,
+      message: `Imported ${result.inserted} new P100(s)${result.updated ? `, updated ${result.updated}` : ''}${result.skipped ? `, skipped ${result.skipped} added meanwhile` : ''}.`,
+    };
+  } catch (error: any) {
+    return { success: false, message: error.message || 'Failed to import.' };
+  }
+}
+
+export async function getPlayerAliasesAction() {
+  const { error: authError } = await requireAdmin('players');
+  if (authError) return authError;
+
+  try {
+    const aliases = await getPlayerAliases(createAdminClient());
+    return { success: true, data: aliases };
+  } catch (error: any) {
+    return { success: false, message: error.message || 'Failed to fetch aliases.' };
+  }
+}
+
+export async function deletePlayerAliasAction(alias: string) {
+  const { session, error: authError } = await requireAdmin('players');
+  if (authError) return authError;
+
+  try {
+    const supabase = createAdminClient();
+    const { data: before } = await supabase.from('player_aliases').select('*').eq('alias', alias).single();
+    await deletePlayerAlias(supabase, alias);
+    await recordAudit(supabase, session, { action: 'delete_alias', table: 'player_aliases', recordId: alias, before });
+    revalidatePath(`/profile/${encodeURIComponent(alias)}`);
+    return { success: true, message: 'Alias removed.' };
+  } catch (error: any) {
+    return { success: false, message: error.message || 'Failed to remove alias.' };
+  }
+}
+
+export async function getPlayerProfileAction(username: string) {
+  const { error: authError } = await requireAdmin('players');
+  if (authError) return authError;
+
+  try {
+    const profile = await ensurePlayerProfile(createAdminClient(), username.trim());
+    return { success: true, data: profile };
+  } catch (error: any) {
+    return { success: false, message: error.message || 'Failed to fetch player profile.' };
+  }
+}
+
+export async function savePlayerProfileAction(playerId: string, input: PlayerProfileInput) {
+  const { session, error: authError } = await requireAdmin('players');
+  if (authError) return authError;
+
+  try {
+    const normalized = normalizePlayerProfile(input);
+    if ('error' in normalized) return { success: false, message: normalized.error };
+
+    const supabase = createAdminClient();
+    const { data: before } = await supabase.from('players').select('*').eq('id', playerId).single();
+    const after = await updatePlayerProfile(supabase, playerId, normalized.profile);
+    await recordAudit(supabase, session, { action: 'update_player_profile', table: 'players', recordId: playerId, before, after });
+    revalidatePath(`/profile/${encodeURIComponent(after.username)}`);
+    return { success: true, message: 'Profile saved.' };
+  } catch (error: any) {
+    return { success: false, message: error.message || 'Failed to save player profile.' };
+  }
+}
+
+export async function getPlayerClaimsAction(status?: PlayerClaimStatus) {
+  const { error: authError } = await requireAdmin('players');
+  if (authError) return authError;
+
+  try {
+    const claims = await getPlayerClaims(createAdminClient(), status);
+    return { success: true, data: claims };
+  } catch (error: any) {
+    return { success: false, message: error.message || 'Failed to fetch player claims.' };
+  }
+}
+
+export async function reviewPlayerClaimAction(claimId: string, status: 'verified' | 'rejected' | 'revoked') {
+  const { session, error: authError } = await requireAdmin('players');
+  if (authError) return authError;
+
+  try {
+    const supabase = createAdminClient();
+    const { before, after } = await reviewPlayerClaim(supabase, claimId, status, session.username);
+    await recordAudit(supabase, session, { action: `claim_${status}`, table: 'player_claims', recordId: claimId, before, after });
+    return { success: true, message: `Claim on "${after.username}" ${status}.` };
+  } catch (error: any) {
+    return { success: false, message: error.message || 'Failed to review claim.' };
+  }
+}
+
 // Player priority update
 export async function updatePlayerPriorityAction(playerId: string, priority: number) {
+  const { session, error: authError } = await requireAdmin('players');
+  if (authError) return authError;
+
   try {
     if (!playerId) return { success: false, message: 'Player ID required.' };
     if (!Number.isFinite(priority)) return { success: false, message: 'Priority must be a number.' };
     const supabase = createAdminClient();
-    await updatePlayerPriority(supabase, playerId, priority);
-    revalidatePath('/admin');
-    // Try to find related character to revalidate its public page
+    // Also used to find the related character to revalidate its public page
     const { data: playerRow } = await supabase
       .from('p100_players')
-      .select('killer_id, survivor_id')
+      .select('*')
       .eq('id', playerId)
       .single();
+    const updated = await updatePlayerPriority(supabase, playerId, priority);
+    await recordAudit(supabase, session, {
+      action: 'update_player_priority',
+      table: 'p100_players',
+      recordId: playerId,
+      before: playerRow ? { priority: playerRow.priority } : null,
+      after: { priority: updated.priority },
+    });
+    revalidatePath('/admin');
     if (playerRow?.killer_id) {
       revalidatePath(`/killers/${playerRow.killer_id}`);
     } else if (playerRow?.survivor_id) {
@@ -313,6 +772,9 @@ export async function updatePlayerPriorityAction(playerId: string, priority: num
 // --- ARTIST ACTIONS ---
 
 export async function getArtistsAction() {
+    const { error: authError } = await requireAdmin('artists');
+    if (authError) return authError;
+
     try {
         const adminClient = createAdminClient();
         const artists = await getArtistsService(adminClient);
@@ -323,13 +785,19 @@ export async function getArtistsAction() {
 }
 
 export async function saveArtistAction(artistData: any) {
+    const { session, error: authError } = await requireAdmin('artists');
+    if (authError) return authError;
+
     try {
         const adminClient = createAdminClient();
         const { id, created_at, slug, ...updateData } = artistData;
         if (id) {
-            await updateArtistService(adminClient, id, updateData);
+            const { data: before } = await adminClient.from('artists').select('*').eq('id', id).single();
+            const after = await updateArtistService(adminClient, id, updateData);
+            await recordAudit(adminClient, session, { action: 'update_artist', table: 'artists', recordId: id, before, after });
         } else {
-            await createArtistService(adminClient, updateData);
+            const after = await createArtistService(adminClient, updateData);
+            await recordAudit(adminClient, session, { action: 'create_artist', table: 'artists', recordId: after?.id, after });
         }
         revalidatePath('/admin');
         return { success: true, message: 'Artist saved successfully.' };
@@ -339,9 +807,14 @@ export async function saveArtistAction(artistData: any) {
 }
 
 export async function deleteArtistAction(artistId: string) {
+    const { session, error: authError } = await requireAdmin('artists');
+    if (authError) return authError;
+
     try {
         const adminClient = createAdminClient();
+        const { data: before } = await adminClient.from('artists').select('*').eq('id', artistId).single();
         await deleteArtistService(adminClient, artistId);
+        await recordAudit(adminClient, session, { action: 'delete_artist', table: 'artists', recordId: artistId, before });
         revalidatePath('/admin');
         return { success: true, message: 'Artist deleted.' };
     } catch (error: any) {
@@ -352,6 +825,10 @@ export async function deleteArtistAction(artistId: string) {
 // --- STORAGE ACTIONS ---
 
 export async function getStorageItemsAction(bucket: string) {
+  const { error: authError } = await requireAdmin('storage');
+  if (authError) return authError;
+  if (!isManagedStorageBucket(bucket)) return { success: false, message: `Files in "${bucket}" cannot be managed here.` };
+
   try {
     const supabase = createAdminClient();
     const allItems: any[] = [];
@@ -381,6 +858,9 @@ export async function getStorageItemsAction(bucket: string) {
 }
 
 export async function uploadFilesAction(formData: FormData) {
+  const { session, error: authError } = await requireAdmin('storage');
+  if (authError) return authError;
+
   try {
     const files = formData.getAll('files') as File[];
     const bucket = formData.get('bucket') as string;
@@ -388,14 +868,14 @@ export async function uploadFilesAction(formData: FormData) {
     if (!files || files.length === 0 || !bucket) {
       throw new Error('Files and bucket are required.');
     }
-    await Promise.all(
-      files.map(file => {
-        const path = folder && folder !== 'Root'
-            ? `${folder}/${Date.now()}-${file.name}`
-            : `${Date.now()}-${file.name}`;
-        return uploadImageToStorage(file, bucket, path);
-      })
-    );
+    if (!isManagedStorageBucket(bucket)) {
+      throw new Error(`Files in "${bucket}" cannot be managed here.`);
+    }
+    const paths = files.map(file => folder && folder !== 'Root'
+        ? `${folder}/${Date.now()}-${sanitizeFileName(file.name)}`
+        : `${Date.now()}-${sanitizeFileName(file.name)}`);
+    await Promise.all(files.map((file, i) => uploadImageToStorage(file, bucket, paths[i])));
+    await recordAudit(createAdminClient(), session, { action: 'upload_files', table: 'storage', recordId: bucket, after: { bucket, paths } });
     revalidatePath('/admin');
     return { success: true, message: `${files.length} file(s) uploaded.` };
   } catch (error: any) {
@@ -404,9 +884,14 @@ export async function uploadFilesAction(formData: FormData) {
 }
 
 export async function createFolderAction(bucket: string, folderName: string) {
+  const { session, error: authError } = await requireAdmin('storage');
+  if (authError) return authError;
+  if (!isManagedStorageBucket(bucket)) return { success: false, message: `Files in "${bucket}" cannot be managed here.` };
+
   try {
     const placeholderFile = new File([''], '.placeholder', { type: 'text/plain' });
     await uploadImageToStorage(placeholderFile, bucket, `${folderName}/.placeholder`);
+    await recordAudit(createAdminClient(), session, { action: 'create_folder', table: 'storage', recordId: `${bucket}/${folderName}`, after: { bucket, folder: folderName } });
     revalidatePath('/admin');
     return { success: true, message: `Folder "${folderName}" created.` };
   } catch (error: any) {
@@ -415,13 +900,588 @@ export async function createFolderAction(bucket: string, folderName: string) {
 }
 
 export async function deleteStorageItemAction(bucket: string, path: string) {
+  const { session, error: authError } = await requireAdmin('storage');
+  if (authError) return authError;
+  if (!isManagedStorageBucket(bucket)) return { success: false, message: `Files in "${bucket}" cannot be managed here.` };
+
   try {
     const supabase = createAdminClient();
     const { error } = await supabase.storage.from(bucket).remove([path]);
     if (error) throw error;
+    await recordAudit(supabase, session, { action: 'delete_file', table: 'storage', recordId: `${bucket}/${path}`, before: { bucket, path } });
     revalidatePath('/admin');
     return { success: true, message: 'File deleted.' };
   } catch (error: any) {
     return { success: false, message: error.message || 'Failed to delete file.' };
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Renames a file within its folder and points every character image link at
+ * the new URL. The extension of the old name is kept.
+ */
+export async function renameStorageItemAction(bucket: string, oldPath: string, newFileName: string) {
+  const { session, error: authError } = await requireAdmin('storage');
+  if (authError) return authError;
+  if (!isManagedStorageBucket(bucket)) return { success: false, message: `Files in "${bucket}" cannot be managed here.` };
+
+  const oldName = oldPath.split('/').pop() || '';
+  const fileExtension = oldName.includes('.') ? `.${oldName.split('.').pop()}` : '';
+  let newName = sanitizeFileName(newFileName.trim());
+  if (fileExtension && !newName.endsWith(fileExtension)) {
+    newName = newName.split('.')[0] + fileExtension;
+  }
+  if (!newName || newName === fileExtension) return { success: false, message: 'New file name cannot be empty.' };
+  if (newName === oldName) return { success: true, message: 'File name unchanged.', data: { renamed: false, oldName, newName } };
+
+  const pathParts = oldPath.split('/');
+  pathParts.pop();
+  const newPath = pathParts.length > 0 ? `${pathParts.join('/')}/${newName}` : newName;
+
+  try {
+    const supabase = createAdminClient();
+    const { error: moveError } = await supabase.storage.from(bucket).move(oldPath, newPath);
+    if (moveError) throw new Error(`Storage error: ${moveError.message}`);
+
+    const { data: { publicUrl: oldPublicUrl } } = supabase.storage.from(bucket).getPublicUrl(oldPath);
+    const { data: { publicUrl: newPublicUrl } } = supabase.storage.from(bucket).getPublicUrl(newPath);
+    const updatedRows = await replaceCharacterImageUrl(supabase, oldPublicUrl, newPublicUrl);
+    await recordAudit(supabase, session, { action: 'rename_file', table: 'storage', recordId: `${bucket}/${newPath}`, before: { bucket, path: oldPath }, after: { bucket, path: newPath, updated_rows: updatedRows } });
+
+    revalidatePath('/admin');
+    return { success: true, message: `Renamed "${oldName}" to "${newName}".`, data: { renamed: true, oldName, newName } };
+  } catch (error: any) {
+    return { success: false, message: error.message || 'Failed to rename file.' };
+  }
+}
+
+// --- MODERATOR ACTIONS ---
+
+const MIN_MODERATOR_PASSWORD_LENGTH = 12;
+
+export async function getModeratorsAction() {
+  const { error: authError } = await requireAdmin('moderators');
+  if (authError) return authError;
+
+  try {
+    const moderators = await getModeratorsService(createAdminClient());
+    return { success: true, data: moderators };
+  } catch (error: any) {
+    return { success: false, message: 'Failed to fetch moderators.' };
+  }
+}
+
+export async function createModeratorAction(username: string, password: string, role: ModeratorRole) {
+  const { session, error: authError } = await requireAdmin('moderators');
+  if (authError) return authError;
+
+  const trimmed = (username || '').trim();
+  if (!/^[A-Za-z0-9_.-]{3,32}$/.test(trimmed)) {
+    return { success: false, message: 'Username must be 3-32 letters, numbers, dots, dashes or underscores.' };
+  }
+  if (!password || password.length < MIN_MODERATOR_PASSWORD_LENGTH) {
+    return { success: false, message: `Password must be at least ${MIN_MODERATOR_PASSWORD_LENGTH} characters.` };
+  }
+  if (!isModeratorRole(role)) return { success: false, message: 'Invalid role.' };
+
+  try {
+    const supabase = createAdminClient();
+    const passwordHash = await hashModeratorPassword(password);
+    const created = await createModeratorService(supabase, trimmed, passwordHash, role);
+    await recordAudit(supabase, session, { action: 'create_moderator', table: 'moderators', recordId: created.id, after: created });
+    return { success: true, message: `Moderator "${trimmed}" created.` };
+  } catch (error: any) {
+    if (error?.code === '23505') return { success: false, message: 'That username is already taken.' };
+    return { success: false, message: error.message || 'Failed to create moderator.' };
+  }
+}
+
+export async function updateModeratorAction(moderatorId: string, updates: { role?: ModeratorRole; password?: string }) {
+  const { session, error: authError } = await requireAdmin('moderators');
+  if (authError) return authError;
+
+  if (updates.role !== undefined && !isModeratorRole(updates.role)) return { success: false, message: 'Invalid role.' };
+  if (updates.role && updates.role !== 'owner' && moderatorId === session.sub) {
+    return { success: false, message: 'You cannot remove your own owner role.' };
+  }
+  if (updates.password !== undefined && updates.password.length < MIN_MODERATOR_PASSWORD_LENGTH) {
+    return { success: false, message: `Password must be at least ${MIN_MODERATOR_PASSWORD_LENGTH} characters.` };
+  }
+
+  try {
+    const supabase = createAdminClient();
+    const before = await getModeratorByIdService(supabase, moderatorId);
+    await updateModeratorService(supabase, moderatorId, {
+      ...(updates.role ? { role: updates.role } : {}),
+      ...(updates.password ? { password_hash: await hashModeratorPassword(updates.password) } : {}),
+    });
+    // Password hashes are never written to the log; only the fact that it changed.
+    await recordAudit(supabase, session, {
+      action: updates.password ? 'reset_moderator_password' : 'update_moderator',
+      table: 'moderators',
+      recordId: moderatorId,
+      before,
+      after: before ? { ...before, ...(updates.role ? { role: updates.role } : {}) } : null,
+    });
+    return { success: true, message: 'Moderator updated.' };
+  } catch (error: any) {
+    return { success: false, message: error.message || 'Failed to update moderator.' };
+  }
+}
+
+export async function deleteModeratorAction(moderatorId: string) {
+  const { session, error: authError } = await requireAdmin('moderators');
+  if (authError) return authError;
+
+  if (moderatorId === session.sub) return { success: false, message: 'You cannot delete your own account.' };
+
+  try {
+    const supabase = createAdminClient();
+    const before = await getModeratorByIdService(supabase, moderatorId);
+    await deleteModeratorService(supabase, moderatorId);
+    await recordAudit(supabase, session, { action: 'delete_moderator', table: 'moderators', recordId: moderatorId, before });
+    return { success: true, message: 'Moderator deleted.' };
+  } catch (error: any) {
+    return { success: false, message: error.message || 'Failed to delete moderator.' };
+  }
+}
+
+// --- BLACKLIST ACTIONS ---
+
+export async function getBlacklistAction() {
+  const { error: authError } = await requireAdmin('blacklist');
+  if (authError) return authError;
+
+  try {
+    const rules = await getBlacklistRules(createAdminClient());
+    return { success: true, data: rules };
+  } catch (error: any) {
+    return { success: false, message: error.message || 'Failed to fetch blacklist.' };
+  }
+}
+
+export async function getBlacklistBlocksAction() {
+  const { error: authError } = await requireAdmin('blacklist');
+  if (authError) return authError;
+
+  try {
+    const blocks = await getBlacklistBlocks(createAdminClient());
+    return { success: true, data: blocks };
+  } catch (error: any) {
+    return { success: false, message: error.message || 'Failed to fetch blocked attempts.' };
+  }
+}
+
+export async function addToBlacklistAction(input: BlacklistRuleInput) {
+  const { session, error: authError } = await requireAdmin('blacklist');
+  if (authError) return authError;
+
+  const normalized = normalizeBlacklistRule(input.rule_type, input.value);
+  if ('error' in normalized) return { success: false, message: normalized.error };
+  if (input.expires_at && Number.isNaN(new Date(input.expires_at).getTime())) {
+    return { success: false, message: 'Invalid expiry date' };
+  }
+
+  try {
+    const supabase = createAdminClient();
+    const { data: after, error } = await supabase
+      .from('blacklisted_users')
+      .insert([{
+        rule_type: input.rule_type,
+        value: normalized.value,
+        reason: input.reason?.trim() || null,
+        expires_at: input.expires_at ? new Date(input.expires_at).toISOString() : null,
+        created_by: session.username,
+      }])
+      .select()
+      .single();
+    if (error) {
+      if (error.code === '23505') return { success: false, message: 'That rule already exists' };
+      throw error;
+    }
+    await recordAudit(supabase, session, { action: 'blacklist_add', table: 'blacklisted_users', recordId: after?.id, after });
+    return { success: true, message: 'Rule added to blacklist', data: after };
+  } catch (error: any) {
+    return { success: false, message: error.message || 'Failed to add rule to blacklist' };
+  }
+}
+
+/**
+ * Removes a blacklist rule.
+ * @param undoCleanups - Also restore the entries cleaned up under this rule.
+ */
+export async function removeFromBlacklistAction(id: string, undoCleanups = false) {
+  const { session, error: authError } = await requireAdmin('blacklist');
+  if (authError) return authError;
+
+  try {
+    const supabase = createAdminClient();
+    if (undoCleanups) {
+      for (const cleanup of await getBlacklistCleanups(supabase, id)) {
+        if (cleanup.undone_at) continue;
+        const after = await undoBlacklistCleanup(supabase, cleanup.id, session.username);
+        await recordAudit(supabase, session, { action: 'blacklist_cleanup_undo', table: 'blacklist_cleanups', recordId: cleanup.id, before: cleanup, after });
+      }
+    }
+    const { data: before } = await supabase.from('blacklisted_users').select('*').eq('id', id).single();
+    await supabase.from('blacklisted_users').delete().eq('id', id).throwOnError();
+    await recordAudit(supabase, session, { action: 'blacklist_remove', table: 'blacklisted_users', recordId: id, before });
+    return { success: true, message: 'Rule removed from blacklist' };
+  } catch (error: any) {
+    return { success: false, message: error.message || 'Failed to remove rule from blacklist' };
+  }
+}
+
+export async function getBlacklistCleanupAction(ruleId: string) {
+  const { error: authError } = await requireAdmin('blacklist');
+  if (authError) return authError;
+
+  try {
+    const supabase = createAdminClient();
+    const [preview, cleanups] = await Promise.all([
+      previewBlacklistCleanup(supabase, ruleId),
+      getBlacklistCleanups(supabase, ruleId),
+    ]);
+    return { success: true, data: { preview, cleanups } };
+  } catch (error: any) {
+    return { success: false, message: error.message || 'Failed to preview cleanup.' };
+  }
+}
+
+export async function applyBlacklistCleanupAction(ruleId: string, mode: BlacklistCleanupMode) {
+  const { session, error: authError } = await requireAdmin('blacklist');
+  if (authError) return authError;
+
+  try {
+    const supabase = createAdminClient();
+    const after = await applyBlacklistCleanup(supabase, ruleId, mode, session.username);
+    await recordAudit(supabase, session, { action: `blacklist_cleanup_${mode}`, table: 'blacklist_cleanups', recordId: after.id, after });
+    revalidatePath('/admin');
+    return {
+      success: true,
+      message: `${mode === 'hide' ? 'Hid' : 'Trashed'} ${after.player_ids.length} P100(s) and removed ${after.submission_ids.length} pending submission(s).`,
+    };
+  } catch (error: any) {
+    return { success: false, message: error.message || 'Failed to clean up entries.' };
+  }
+}
+
+export async function undoBlacklistCleanupAction(cleanupId: string) {
+  const { session, error: authError } = await requireAdmin('blacklist');
+  if (authError) return authError;
+
+  try {
+    const supabase = createAdminClient();
+    const { data: before } = await supabase.from('blacklist_cleanups').select('*').eq('id', cleanupId).single();
+    const after = await undoBlacklistCleanup(supabase, cleanupId, session.username);
+    await recordAudit(supabase, session, { action: 'blacklist_cleanup_undo', table: 'blacklist_cleanups', recordId: cleanupId, before, after });
+    revalidatePath('/admin');
+    return { success: true, message: 'Cleanup undone.' };
+  } catch (error: any) {
+    return { success: false, message: error.message || 'Failed to undo cleanup.' };
+  }
+}
+
+// --- TRASH ACTIONS ---
+
+const trashArea = (kind: TrashKind) => (kind === 'player' ? 'players' : 'characters');
+const trashTable = (kind: TrashKind) => (kind === 'player' ? 'p100_players' : kind === 'killer' ? 'killers' : 'survivors');
+
+export async function getTrashAction() {
+  const { error: authError } = await requireAdmin('trash');
+  if (authError) return authError;
+
+  try {
+    const items = await getTrash(createAdminClient());
+    return { success: true, data: items };
+  } catch (error: any) {
+    return { success: false, message: error.message || 'Failed to fetch trash.' };
+  }
+}
+
+export async function restoreTrashItemAction(kind: TrashKind, id: string) {
+  const { session, error: authError } = await requireAdmin(trashArea(kind));
+  if (authError) return authError;
+
+  try {
+    const supabase = createAdminClient();
+    const before = await restoreTrashItem(supabase, kind, id);
+    await recordAudit(supabase, session, { action: `restore_${kind}`, table: trashTable(kind), recordId: id, before, after: { deleted_at: null } });
+    revalidatePath('/admin');
+    return { success: true, message: 'Restored from trash.' };
+  } catch (error: any) {
+    return { success: false, message: error.message || 'Failed to restore.' };
+  }
+}
+
+export async function purgeTrashItemAction(kind: TrashKind, id: string) {
+  const { session, error: authError } = await requireAdmin(trashArea(kind));
+  if (authError) return authError;
+
+  try {
+    const supabase = createAdminClient();
+    const before = await purgeTrashItem(supabase, kind, id);
+    await recordAudit(supabase, session, { action: `purge_${kind}`, table: trashTable(kind), recordId: id, before });
+    return { success: true, message: 'Permanently deleted.' };
+  } catch (error: any) {
+    return { success: false, message: error.message || 'Failed to purge.' };
+  }
+}
+
+export async function getOriginalScreenshotUrlAction(submissionId: string, kind: PrivateScreenshotKind = 'original') {
+  const { error: authError } = await requireAdmin('submissions');
+  if (authError) return authError;
+
+  try {
+    const url = await getOriginalScreenshotUrl(createAdminClient(), submissionId, kind);
+    if (!url) return { success: false, message: `The ${kind === 'evidence' ? 'evidence' : 'original'} was discarded after review.` };
+    return { success: true, url };
+  } catch (error: any) {
+    return { success: false, message: error.message || 'Failed to open original screenshot.' };
+  }
+}
+
+export async function updateSubmissionClaimsAction(submissionId: string, flags: { p200: boolean; legacy: boolean }) {
+  const { session, error: authError } = await requireAdmin('submissions');
+  if (authError) return authError;
+
+  try {
+    const supabase = createAdminClient();
+    const { data: before } = await supabase.from('p100_submissions').select('id, p200, legacy').eq('id', submissionId).single();
+    const after = await updateSubmissionClaims(supabase, submissionId, flags);
+    await recordAudit(supabase, session, { action: 'update_submission_claims', table: 'p100_submissions', recordId: submissionId, before, after: { id: submissionId, p200: after.p200, legacy: after.legacy } });
+    revalidatePath('/admin');
+    return { success: true, message: 'Claims updated.' };
+  } catch (error: any) {
+    return { success: false, message: error.message || 'Failed to update claims.' };
+  }
+}
+
+export async function getSubmissionHistoryAction(submissionId: string) {
+  const { error: authError } = await requireAdmin('submissions');
+  if (authError) return authError;
+
+  try {
+    const events = await getSubmissionEvents(createAdminClient(), submissionId);
+    return { success: true, data: events };
+  } catch (error: any) {
+    return { success: false, message: error.message || 'Failed to fetch submission history.' };
+  }
+}
+
+export async function getScreenshotMatchesAction(submissionIds: string[]) {
+  const { error: authError } = await requireAdmin('submissions');
+  if (authError) return authError;
+
+  try {
+    const matches = await findScreenshotMatches(createAdminClient(), submissionIds);
+    return { success: true, data: matches };
+  } catch (error: any) {
+    return { success: false, message: error.message || 'Failed to check for duplicate screenshots.' };
+  }
+}
+
+// --- REJECTION REASON ACTIONS ---
+
+export async function getRejectionReasonsAction(withCounts = false) {
+  const { error: authError } = await requireAdmin('submissions');
+  if (authError) return authError;
+
+  try {
+    const supabase = createAdminClient();
+    const reasons = withCounts ? await getRejectionReasonsWithCounts(supabase) : await getRejectionReasons(supabase);
+    return { success: true, data: reasons };
+  } catch (error: any) {
+    return { success: false, message: error.message || 'Failed to fetch rejection reasons.' };
+  }
+}
+
+export async function saveRejectionReasonAction(reasonId: string | null, input: RejectionReasonInput) {
+  const { session, error: authError } = await requireAdmin('submissions');
+  if (authError) return authError;
+
+  const label = (input.label || '').trim();
+  if (!label) return { success: false, message: 'Reason text is required.' };
+
+  try {
+    const supabase = createAdminClient();
+    const values = {
+      label,
+      sort_order: Number.isFinite(input.sort_order) ? Math.trunc(input.sort_order) : 0,
+      is_active: input.is_active !== false,
+    };
+    const before = reasonId ? await getRejectionReasonById(supabase, reasonId) : null;
+    const after = reasonId
+      ? await updateRejectionReason(supabase, reasonId, values)
+      : await createRejectionReason(supabase, values);
+    await recordAudit(supabase, session, {
+      action: reasonId ? 'update_rejection_reason' : 'create_rejection_reason',
+      table: 'rejection_reasons',
+      recordId: after.id,
+      before,
+      after,
+    });
+    return { success: true, message: 'Rejection reason saved.' };
+  } catch (error: any) {
+    if (error?.code === '23505') return { success: false, message: 'That reason already exists.' };
+    return { success: false, message: error.message || 'Failed to save rejection reason.' };
+  }
+}
+
+export async function deleteRejectionReasonAction(reasonId: string) {
+  const { session, error: authError } = await requireAdmin('submissions');
+  if (authError) return authError;
+
+  try {
+    const supabase = createAdminClient();
+    const before = await getRejectionReasonById(supabase, reasonId);
+    await deleteRejectionReason(supabase, reasonId);
+    await recordAudit(supabase, session, { action: 'delete_rejection_reason', table: 'rejection_reasons', recordId: reasonId, before });
+    return { success: true, message: 'Rejection reason deleted.' };
+  } catch (error: any) {
+    return { success: false, message: error.message || 'Failed to delete rejection reason.' };
+  }
+}
+
+// --- SETTINGS ACTIONS ---
+
+export async function getSubmissionRateLimitsAction() {
+  const { error: authError } = await requireAdmin('settings');
+  if (authError) return authError;
+
+  try {
+    const limits = await getSubmissionRateLimits(createAdminClient());
+    return { success: true, data: limits };
+  } catch (error: any) {
+    return { success: false, message: error.message || 'Failed to fetch rate limits.' };
+  }
+}
+
+export async function saveSubmissionRateLimitsAction(limits: SubmissionRateLimits) {
+  const { session, error: authError } = await requireAdmin('settings');
+  if (authError) return authError;
+
+  const values = [limits.perIp, limits.perUsername, limits.windowMinutes];
+  if (values.some(v => !Number.isInteger(v) || v < 0) || limits.windowMinutes < 1) {
+    return { success: false, message: 'Limits must be whole numbers and the window at least 1 minute.' };
+  }
+
+  try {
+    const supabase = createAdminClient();
+    const before = await getSubmissionRateLimits(supabase);
+    const after = { perIp: limits.perIp, perUsername: limits.perUsername, windowMinutes: limits.windowMinutes };
+    await saveSubmissionRateLimits(supabase, after, session.username);
+    await recordAudit(supabase, session, { action: 'update_submission_rate_limits', table: 'app_settings', recordId: 'submission_rate_limits', before, after });
+    return { success: true, message: 'Rate limits saved.' };
+  } catch (error: any) {
+    return { success: false, message: error.message || 'Failed to save rate limits.' };
+  }
+}
+
+export async function getScreenshotRetentionAction() {
+  const { error: authError } = await requireAdmin('settings');
+  if (authError) return authError;
+
+  try {
+    const policy = await getScreenshotRetention(createAdminClient());
+    return { success: true, data: policy };
+  } catch (error: any) {
+    return { success: false, message: error.message || 'Failed to fetch retention policy.' };
+  }
+}
+
+export async function saveScreenshotRetentionAction(policy: ScreenshotRetentionPolicy) {
+  const { session, error: authError } = await requireAdmin('settings');
+  if (authError) return authError;
+
+  if ([policy.approvedDays, policy.rejectedDays].some(v => !Number.isInteger(v) || v < 0)) {
+    return { success: false, message: 'Retention days must be whole numbers (0 keeps screenshots forever).' };
+  }
+
+  try {
+    const supabase = createAdminClient();
+    const before = await getScreenshotRetention(supabase);
+    const after = { approvedDays: policy.approvedDays, rejectedDays: policy.rejectedDays };
+    await saveScreenshotRetention(supabase, after, session.username);
+    await recordAudit(supabase, session, { action: 'update_screenshot_retention', table: 'app_settings', recordId: 'screenshot_retention', before, after });
+    return { success: true, message: 'Retention policy saved.' };
+  } catch (error: any) {
+    return { success: false, message: error.message || 'Failed to save retention policy.' };
+  }
+}
+
+/**
+ * Runs the saved retention policy now. With dryRun it only reports what the
+ * scheduled job would delete.
+ */
+export async function runScreenshotRetentionAction(dryRun: boolean) {
+  const { session, error: authError } = await requireAdmin('settings');
+  if (authError) return authError;
+
+  try {
+    const supabase = createAdminClient();
+    const policy = await getScreenshotRetention(supabase);
+    const result = await applyScreenshotRetention(supabase, policy, dryRun);
+    if (!dryRun && result.purged > 0) {
+      await recordAudit(supabase, session, {
+        action: 'purge_screenshots',
+        table: 'p100_submissions',
+        before: { policy },
+        after: { ids: result.purgedIds },
+      });
+      revalidatePath('/admin');
+    }
+    return { success: true, data: result };
+  } catch (error: any) {
+    return { success: false, message: error.message || 'Failed to apply retention policy.' };
+  }
+}
+
+// --- EXPORT ACTIONS ---
+
+/** A character's P100 list for download, hidden rows and priority included. */
+export async function exportCharacterP100sAction(type: 'killer' | 'survivor', characterId: string) {
+  const { error: authError } = await requireAdmin('characters');
+  if (authError) return authError;
+
+  try {
+    const rows = await getCharacterExportRows(createAdminClient(), type, characterId);
+    return { success: true, data: rows };
+  } catch (error: any) {
+    return { success: false, message: error.message || 'Failed to export P100 list.' };
+  }
+}
+
+/** Every content table as JSON, for off-site backups. */
+export async function exportDatabaseBackupAction() {
+  const { session, error: authError } = await requireAdmin('settings');
+  if (authError) return authError;
+
+  try {
+    const supabase = createAdminClient();
+    const backup = await getDatabaseBackup(supabase);
+    const counts = Object.fromEntries(Object.entries(backup.tables).map(([table, rows]) => [table, rows.length]));
+    await recordAudit(supabase, session, { action: 'export_backup', table: 'app_settings', after: { exported_at: backup.exported_at, counts } });
+    return { success: true, data: backup };
+  } catch (error: any) {
+    return { success: false, message: error.message || 'Failed to export backup.' };
+  }
+}
+
+// --- AUDIT LOG ACTIONS ---
+
+export async function getAuditLogAction(filters: AuditLogFilters) {
+  const { error: authError } = await requireAdmin('audit');
+  if (authError) return authError;
+
+  try {
+    const supabase = createAdminClient();
+    const [{ entries, total }, { data: actorRows }] = await Promise.all([
+      getAuditEntries(supabase, filters),
+      supabase.from('moderators').select('username').order('username'),
+    ]);
+    return { success: true, data: entries, total, actors: (actorRows || []).map((r: any) => r.username as string) };
+  } catch (error: any) {
+    return { success: false, message: error.message || 'Failed to fetch audit log.' };
+  }
+}
@@ -3,10 +3,9 @@
 
 import { useState, useEffect, useMemo, useCallback } from 'react';
 import { useSearchParams, notFound } from 'next/navigation';
-import supabase, { createAdminClient, sanitizeInput, validateInput } from '@/lib/supabase-client';
+import supabase, { sanitizeInput, validateInput } from '@/lib/supabase-client';
 import React from 'react';
-// You will need to export updateArtist from your service file
-import { getArtists, createArtist, deleteArtist, updateArtist, Artist, ArtistInsert } from '@/lib/artists-service';
+import { getArtists, Artist, ArtistInsert } from '@/lib/artists-service';
 import Navigation from '@/components/ui/Navigation';
 import BackgroundWrapper from '@/components/BackgroundWrapper';
 import { useToast } from '@/hooks/use-toast';
@@ -21,6 +20,89 @@ import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrig
 import { Textarea } from '@/components/ui/textarea';
 import { ChevronLeft, ChevronRight, Trash2, Pencil, Eye, EyeOff } from 'lucide-react';
 import DOMPurify from 'dompurify';
+import {
+  getSubmissionsPageAction,
+  updateSubmissionStatusAction,
+  bulkUpdateSubmissionStatusAction,
+  updateSubmissionUsernameAction,
+  deleteSubmissionScreenshotAction,
+  bulkDeleteScreenshotsAction,
+  addArtworkToCharacterAction,
+  linkCharacterArtworkAction,
+  removeCharacterArtworkAction,
+  getCharacterArtworksAction,
+  setArtworkArtistAction,
+  createNewCharacterAction,
+  saveCharacterAction,
+  deleteCharacterAction,
+  savePlayerAction,
+  deletePlayerAction,
+  updatePlayerPriorityAction,
+  saveArtistAction,
+  deleteArtistAction,
+  getStorageItemsAction,
+  uploadFilesAction,
+  createFolderAction,
+  deleteStorageItemAction,
+  renameStorageItemAction,
+  addToBlacklistAction,
+  removeFromBlacklistAction,
+  getBlacklistAction,
+  getBlacklistBlocksAction,
+  getBlacklistCleanupAction,
+  applyBlacklistCleanupAction,
+  undoBlacklistCleanupAction,
+  getAuditLogAction,
+  getTrashAction,
+  restoreTrashItemAction,
+  purgeTrashItemAction,
+  getModeratorsAction,
+  createModeratorAction,
+  updateModeratorAction,
+  deleteModeratorAction,
+  getRejectionReasonsAction,
+  saveRejectionReasonAction,
+  deleteRejectionReasonAction,
+  getSubmissionRateLimitsAction,
+  saveSubmissionRateLimitsAction,
+  getScreenshotMatchesAction,
+  getOriginalScreenshotUrlAction,
+  updateSubmissionClaimsAction,
+  getSubmissionHistoryAction,
+  mergeUsernamesAction,
+  getPlayerAliasesAction,
+  deletePlayerAliasAction,
+  getPlayerProfileAction,
+  savePlayerProfileAction,
+  getPlayerClaimsAction,
+  reviewPlayerClaimAction,
+  getScreenshotRetentionAction,
+  saveScreenshotRetentionAction,
+  runScreenshotRetentionAction,
+  exportCharacterP100sAction,
+  previewP100ImportAction,
+  commitP100ImportAction,
+  exportDatabaseBackupAction,
+} from './actions';
+import type { BulkReviewItemResult } from './actions';
+import SubmissionReviewMode from '@/components/SubmissionReviewMode';
+import { AdminArea, MODERATOR_ROLES, ModeratorRole, canAccessArea } from '@/lib/moderator-roles';
+import type { Moderator } from '@/lib/moderators-service';
+import { AUDIT_LOG_PAGE_SIZE, AuditLogEntry } from '@/lib/audit-log';
+import { TRASH_RETENTION_DAYS, TrashItem } from '@/lib/trash-service';
+import type { RejectionReason, RejectionReasonWithCount } from '@/lib/rejection-reasons-service';
+import { DEFAULT_SCREENSHOT_RETENTION, DEFAULT_SUBMISSION_RATE_LIMITS, ScreenshotRetentionPolicy, SubmissionRateLimits } from '@/lib/app-settings';
+import type { RetentionRunResult } from '@/lib/screenshot-retention';
+import { ExportFormat, exportFileName, formatExport } from '@/lib/p100-export';
+import type { ImportPlan, ImportRowStatus } from '@/lib/p100-import';
+import type { ScreenshotMatch } from '@/lib/submissions-service';
+import type { SubmissionEvent } from '@/lib/submission-edits';
+import type { PlayerAlias } from '@/lib/player-aliases';
+import { PLAYER_PLATFORMS, PlayerProfile } from '@/lib/players-service';
+import type { PlayerClaim, PlayerClaimStatus } from '@/lib/player-claims';
+import { BLACKLIST_RULE_TYPES, BlacklistBlock, BlacklistRule, BlacklistRuleType } from '@/lib/blacklist-service';
+import type { BlacklistCleanup, BlacklistCleanupMode, BlacklistCleanupPreview } from '@/lib/blacklist-cleanup';
+import { MANAGED_STORAGE_BUCKETS } from '@/lib/storage-files';
 
 // Interfaces
 interface Submission {
@@ -28,14 +110,22 @@ interface Submission {
   username: string;
   killer_id?: string;
   survivor_id?: string;
-  screenshot_url: string;
-  status: 'pending' | 'approved' | 'rejected';
+  screenshot_url: string | null;
+  screenshot_purged_at?: string | null;
+  status: 'pending' | 'approved' | 'rejected' | 'withdrawn';
   rejection_reason?: string;
   submitted_at: string;
   reviewed_at?: string | null;
   reviewed_by?: string | null;
   comment?: string;
   legacy?: boolean;
+  p200?: boolean;
+  claim_notes?: string | null;
+  claim_evidence_path?: string | null;
+  batch_id?: string | null;
+  edited_at?: string | null;
+  submitter_ip?: string | null;
+  submitter_fingerprint?: string | null;
 }
 
 interface Character {
@@ -61,12 +151,6 @@ interface ArtworkRecord {
   artist_id: string | null;
 }
 
-interface LoginAttempts {
-  count: number;
-  lastAttempt: number;
-  isLocked: boolean;
-}
-
 interface SubmissionStats {
   total: number;
   pending: number;
@@ -74,9 +158,6 @@ interface SubmissionStats {
   rejected: number;
 }
 
-// Rate limiting configuration
-const MAX_LOGIN_ATTEMPTS = 5;
-const LOCKOUT_DURATION = 15 * 60 * 1000; // 15 minutes
 const SUBMISSIONS_PAGE_SIZE = 100;
 const ARTWORKS_PAGE_SIZE = 100;
 
@@ -119,16 +200,34 @@ const formatFileSize = (bytes: number, decimals = 2) => {
     return `${parseFloat((bytes / Math.pow(k, i)).toFixed(dm))} ${sizes[i]}`;
 };
 
-const sanitizeFileName = (filename: string): string => {
-  // Keep Unicode letters and numbers to support international artist names.
-  // Still remove path separators and unsafe punctuation; collapse spaces to dashes.
-  const decoded = decodeURIComponent(filename);
-  return decoded
-    .replace(/[\\/]/g, '-') // never allow path separators
-    .replace(/\s+/g, '-') // spaces -> dashes for stability
-    // Allow Unicode letters (\p{L}), numbers (\p{N}), dash, underscore and dot
-    // Everything else is stripped for a storage-safe base name
-    .replace(/[^\p{L}\p{N}\-_.]/gu, '');
+// Which role area each dashboard tab belongs to. Tabs are listed in display order.
+const TAB_AREAS: Record<string, AdminArea> = {
+  'submissions': 'submissions',
+  'rejection-reasons': 'submissions',
+  'quick-artwork': 'artworks',
+  'quick-character': 'characters',
+  'killers-table': 'characters',
+  'survivors-table': 'characters',
+  'players-table': 'players',
+  'artists-table': 'artists',
+  'storage-manager': 'storage',
+  'artworks': 'artworks',
+  'blacklist': 'blacklist',
+  'moderators': 'moderators',
+  'audit': 'audit',
+  'trash': 'trash',
+  'settings': 'settings',
+};
+
+// Tables that show up in the audit log, for the table filter.
+const AUDIT_TABLES = ['p100_submissions', 'p100_players', 'player_aliases', 'players', 'player_claims', 'killers', 'survivors', 'artists', 'blacklisted_users', 'blacklist_cleanups', 'moderators', 'rejection_reasons', 'app_settings', 'storage'];
+
+// Labels and badge colours for the rows of an import preview.
+const IMPORT_STATUS_STYLES: Record<ImportRowStatus, { label: string; className: string }> = {
+  new: { label: 'New', className: 'bg-green-700' },
+  duplicate: { label: 'Duplicate', className: 'bg-gray-600' },
+  conflict: { label: 'Conflicting flags', className: 'bg-orange-600' },
+  error: { label: 'Error', className: 'bg-red-700' },
 };
 
 interface NewCharacterForm {
@@ -162,7 +261,10 @@ export default function AdminPage() {
   
   // Auth and Loading States
   const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const [loginUsername, setLoginUsername] = useState('');
   const [password, setPassword] = useState('');
+  const [adminUsername, setAdminUsername] = useState('');
+  const [adminRole, setAdminRole] = useState<ModeratorRole | null>(null);
   const [authLoading, setAuthLoading] = useState(false);
   const [loading, setLoading] = useState(false);
   const [isPlayersLoading, setIsPlayersLoading] = useState(false);
@@ -179,12 +281,50 @@ export default function AdminPage() {
   const [artists, setArtists] = useState<Artist[]>([]);
   const [submissionStats, setSubmissionStats] = useState<SubmissionStats>({ total: 0, pending: 0, approved: 0, rejected: 0 });
   
+  // Moderators state
+  const [moderators, setModerators] = useState<Moderator[]>([]);
+  const [newModerator, setNewModerator] = useState<{ username: string; password: string; role: ModeratorRole }>({ username: '', password: '', role: 'reviewer' });
+  const [isSavingModerator, setIsSavingModerator] = useState(false);
+
+  // Rejection reasons state
+  const [rejectionReasons, setRejectionReasons] = useState<RejectionReason[]>([]);
+  const [rejectionReasonStats, setRejectionReasonStats] = useState<RejectionReasonWithCount[]>([]);
+  const [newRejectionReason, setNewRejectionReason] = useState({ label: '', sort_order: 0 });
+  const [isSavingRejectionReason, setIsSavingRejectionReason] = useState(false);
+
+  // Settings state
+  const [rateLimits, setRateLimits] = useState<SubmissionRateLimits>(DEFAULT_SUBMISSION_RATE_LIMITS);
+  const [isSavingRateLimits, setIsSavingRateLimits] = useState(false);
+  const [retentionPolicy, setRetentionPolicy] = useState<ScreenshotRetentionPolicy>(DEFAULT_SCREENSHOT_RETENTION);
+  const [retentionReport, setRetentionReport] = useState<RetentionRunResult | null>(null);
+  const [isRunningRetention, setIsRunningRetention] = useState(false);
+  const [isExportingBackup, setIsExportingBackup] = useState(false);
+
+  // Trash state
+  const [trashItems, setTrashItems] = useState<TrashItem[]>([]);
+  const [trashLoading, setTrashLoading] = useState(false);
+
+  // Audit log state
+  const [auditEntries, setAuditEntries] = useState<AuditLogEntry[]>([]);
+  const [auditTotal, setAuditTotal] = useState(0);
+  const [auditActors, setAuditActors] = useState<string[]>([]);
+  const [auditFilters, setAuditFilters] = useState({ actor: '', table: '', from: '', to: '' });
+  const [auditPage, setAuditPage] = useState(0);
+  const [auditLoading, setAuditLoading] = useState(false);
+  const [expandedAuditId, setExpandedAuditId] = useState<number | null>(null);
+
   // Blacklist state
-  const [blacklistedUsers, setBlacklistedUsers] = useState<any[]>([]);
+  const [blacklistedUsers, setBlacklistedUsers] = useState<BlacklistRule[]>([]);
+  const [blacklistBlocks, setBlacklistBlocks] = useState<BlacklistBlock[]>([]);
   const [blacklistSearch, setBlacklistSearch] = useState('');
-  const [newBlacklistUsername, setNewBlacklistUsername] = useState('');
+  const [newBlacklistType, setNewBlacklistType] = useState<BlacklistRuleType>('username');
+  const [newBlacklistValue, setNewBlacklistValue] = useState('');
   const [newBlacklistReason, setNewBlacklistReason] = useState('');
-  const [newBlacklistSuper, setNewBlacklistSuper] = useState(false);
+  const [newBlacklistExpiry, setNewBlacklistExpiry] = useState('');
+  const [cleanupRule, setCleanupRule] = useState<BlacklistRule | null>(null);
+  const [cleanupPreview, setCleanupPreview] = useState<BlacklistCleanupPreview | null>(null);
+  const [cleanupHistory, setCleanupHistory] = useState<BlacklistCleanup[]>([]);
+  const [isCleaningUp, setIsCleaningUp] = useState(false);
   const [isAddingToBlacklist, setIsAddingToBlacklist] = useState(false);
   
   // UI State
@@ -192,12 +332,23 @@ export default function AdminPage() {
   
   // Filter States
   const [filter, setFilter] = useState<'all' | 'killer' | 'survivor'>('all');
-  const [statusFilter, setStatusFilter] = useState<'all' | 'pending' | 'approved' | 'rejected'>('pending');
+  const [statusFilter, setStatusFilter] = useState<'all' | 'pending' | 'approved' | 'rejected' | 'withdrawn'>('pending');
+  const [batchFilter, setBatchFilter] = useState<string | null>(null);
   const [submissionSearch, setSubmissionSearch] = useState('');
   const [selectedSubmissions, setSelectedSubmissions] = useState<Set<string>>(new Set());
   const [bulkRejectOpen, setBulkRejectOpen] = useState(false);
   const [bulkRejectReason, setBulkRejectReason] = useState('');
+  const [bulkRejectReasonId, setBulkRejectReasonId] = useState('none');
+  // Reason picked in the per-row reject dialog; only one can be open at a time.
+  const [rowRejectReasonId, setRowRejectReasonId] = useState('none');
   const [isBulkProcessing, setIsBulkProcessing] = useState(false);
+  const [bulkResults, setBulkResults] = useState<BulkReviewItemResult[] | null>(null);
+  const [isReviewMode, setIsReviewMode] = useState(false);
+  // Pending submissions whose screenshot looks like another pending or approved one
+  const [screenshotMatches, setScreenshotMatches] = useState<Record<string, ScreenshotMatch[]>>({});
+  const [comparingSubmission, setComparingSubmission] = useState<Submission | null>(null);
+  const [historySubmission, setHistorySubmission] = useState<Submission | null>(null);
+  const [submissionHistory, setSubmissionHistory] = useState<SubmissionEvent[]>([]);
   const [editingSubmissionUsername, setEditingSubmissionUsername] = useState<string | null>(null);
   const [editingSubmissionValue, setEditingSubmissionValue] = useState('');
   const [lastApprovedGlobal, setLastApprovedGlobal] = useState<string | null>(null);
@@ -228,8 +379,6 @@ export default function AdminPage() {
   const [characterImageSearch, setCharacterImageSearch] = useState('');
   const [selectedArtworkCharacter, setSelectedArtworkCharacter] = useState<{ type: 'killer' | 'survivor'; id: string } | null>(null);
   // Storage browser state
-  const [storageArtworks, setStorageArtworks] = useState<StorageItem[]>([]);
-  const [storageLoading, setStorageLoading] = useState(false);
   const [storageSearch, setStorageSearch] = useState('');
   const [artworkArtists, setArtworkArtists] = useState<Record<string, string | null>>({});
   const [updatingArtist, setUpdatingArtist] = useState<string | null>(null);
@@ -371,17 +520,9 @@ export default function AdminPage() {
                               if (!confirm(`Delete this ${artwork.usageType} artwork?`)) return;
                               
                               try {
-                                const supabaseAdmin = createAdminClient();
-                                
-                                // Delete from character_artworks (this is the link)
-                                const { error } = await supabaseAdmin
-                                  .from('character_artworks')
-                                  .delete()
-                                  .eq('character_id', character.id)
-                                  .eq('character_type', type)
-                                  .eq('artwork_id', artwork.artworkId);
-                                
-                                if (error) throw error;
+                                // Only the character_artworks link is removed; the file stays in storage.
+                                const result = await removeCharacterArtworkAction(character.id, type, artwork.artworkId);
+                                if (!result.success) throw new Error(result.message);
                                 
                                 toast({
                                   title: 'Deleted',
@@ -418,21 +559,10 @@ export default function AdminPage() {
                             const selectedArtist = value !== 'none' ? artists.find(a => a.id === value) : null;
                             
                             // Update or create artwork in database
-                            const { error } = await supabase
-                              .from('artworks')
-                              .upsert({
-                                artwork_url: artwork.url,
-                                artist_name: selectedArtist?.name || null,
-                                artist_url: selectedArtist ? (selectedArtist as any).url : null,
-                                platform: selectedArtist ? (selectedArtist as any).platform : null,
-                                updated_at: new Date().toISOString()
-                              }, {
-                                onConflict: 'artwork_url',
-                                ignoreDuplicates: false
-                              });
+                            const result = await setArtworkArtistAction(artwork.url, selectedArtist?.id ?? null);
                             
-                            if (error) {
-                              console.error('Error updating artwork artist:', error);
+                            if (!result.success) {
+                              console.error('Error updating artwork artist:', result.message);
                               toast({ 
                                 title: 'Error', 
                                 description: 'Failed to update artist',
@@ -514,9 +644,9 @@ export default function AdminPage() {
   const [playerSort, setPlayerSort] = useState<'added_at_desc' | 'added_at_asc' | 'username_asc' | 'username_desc' | 'character_asc' | 'character_desc'>('added_at_desc');
   const [selectedCharacterId, setSelectedCharacterId] = useState<string>('all');
 
-  // Rate Limiting State
-  const [loginAttempts, setLoginAttempts] = useState<LoginAttempts>({ count: 0, lastAttempt: 0, isLocked: false });
+  // Lockout State (enforced by /api/admin/login, mirrored here for the countdown)
   const [lockoutTimeRemaining, setLockoutTimeRemaining] = useState(0);
+  const isLockedOut = lockoutTimeRemaining > 0;
 
   // Pagination State for Submissions
   const [submissionsOffset, setSubmissionsOffset] = useState(0);
@@ -527,6 +657,21 @@ export default function AdminPage() {
   const [editingKiller, setEditingKiller] = useState<any>(null);
   const [editingSurvivor, setEditingSurvivor] = useState<any>(null);
   const [editingPlayer, setEditingPlayer] = useState<any>(null);
+  const [showMergeDialog, setShowMergeDialog] = useState(false);
+  const [mergeForm, setMergeForm] = useState({ from: '', to: '' });
+  const [isMerging, setIsMerging] = useState(false);
+  const [playerAliases, setPlayerAliases] = useState<PlayerAlias[]>([]);
+  const [showImportDialog, setShowImportDialog] = useState(false);
+  const [importText, setImportText] = useState('');
+  const [importCharacter, setImportCharacter] = useState('none');
+  const [importPlan, setImportPlan] = useState<ImportPlan | null>(null);
+  const [importUpdateConflicts, setImportUpdateConflicts] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [editingProfile, setEditingProfile] = useState<PlayerProfile | null>(null);
+  const [isSavingProfile, setIsSavingProfile] = useState(false);
+  const [showClaimsDialog, setShowClaimsDialog] = useState(false);
+  const [claimsFilter, setClaimsFilter] = useState<PlayerClaimStatus>('pending');
+  const [playerClaims, setPlayerClaims] = useState<PlayerClaim[]>([]);
   const [editingArtist, setEditingArtist] = useState<any>(null);
   const [showBulkDeleteConfirm, setShowBulkDeleteConfirm] = useState(false);
   
@@ -562,7 +707,7 @@ export default function AdminPage() {
   const [selectedFiles, setSelectedFiles] = useState<string[]>([]);
 
   // List of available buckets
-  const buckets = ['killerimages', 'backgrounds', 'survivorbackgrounds', 'survivors', 'screenshots', 'artworks'];
+  const buckets = MANAGED_STORAGE_BUCKETS;
 
   // New Character Form States
   const [newCharacterForm, setNewCharacterForm] = useState<NewCharacterForm>({
@@ -589,24 +734,22 @@ export default function AdminPage() {
 
   // Initial Auth Check and Data Fetch
   useEffect(() => {
-    const isSessionAuthenticated = sessionStorage.getItem('admin_authenticated') === 'true';
-    if (isSessionAuthenticated) {
-      setIsAuthenticated(true);
-      fetchInitialData();
-    }
-    const attempts = localStorage.getItem('admin_login_attempts');
-    if (attempts) {
-      const parsedAttempts = JSON.parse(attempts) as LoginAttempts;
-      const now = Date.now();
-      if (parsedAttempts.isLocked && (now - parsedAttempts.lastAttempt) < LOCKOUT_DURATION) {
-        setLoginAttempts(parsedAttempts);
-        setLockoutTimeRemaining(Math.ceil((LOCKOUT_DURATION - (now - parsedAttempts.lastAttempt)) / 1000));
-      } else {
-        const resetAttempts = { count: 0, lastAttempt: 0, isLocked: false };
-        setLoginAttempts(resetAttempts);
-        localStorage.setItem('admin_login_attempts', JSON.stringify(resetAttempts));
+    const checkSession = async () => {
+      try {
+        const res = await fetch('/api/admin/session', { cache: 'no-store' });
+        const json = await res.json();
+        if (json.authenticated) {
+          applyAdminIdentity(json.username, json.role);
+          setIsAuthenticated(true);
+          fetchInitialData();
+        } else if (json.retryAfter > 0) {
+          setLockoutTimeRemaining(json.retryAfter);
+        }
+      } catch (error) {
+        console.error('Error checking admin session:', error);
       }
-    }
+    };
+    checkSession();
   }, []);
 
   // Debounced effect to re-fetch players when filters change
@@ -625,7 +768,7 @@ export default function AdminPage() {
       if (!isAuthenticated) return;
       // When filters change, always reset and fetch from the beginning
       fetchSubmissions(true);
-  }, [submissionSort, filter, statusFilter, isAuthenticated]);
+  }, [submissionSort, filter, statusFilter, batchFilter, isAuthenticated]);
 
   // Re-fetch artworks when search changes
   useEffect(() => {
@@ -639,12 +782,8 @@ export default function AdminPage() {
     if (lockoutTimeRemaining > 0) {
       const timer = setTimeout(() => setLockoutTimeRemaining(lockoutTimeRemaining - 1), 1000);
       return () => clearTimeout(timer);
-    } else if (loginAttempts.isLocked && lockoutTimeRemaining <= 0) {
-      const resetAttempts = { count: 0, lastAttempt: 0, isLocked: false };
-      setLoginAttempts(resetAttempts);
-      localStorage.setItem('admin_login_attempts', JSON.stringify(resetAttempts));
     }
-  }, [lockoutTimeRemaining, loginAttempts.isLocked]);
+  }, [lockoutTimeRemaining]);
 
   // Fetch storage items when bucket changes ONLY if storage tab active (defer heavy listing)
   useEffect(() => {
@@ -686,6 +825,7 @@ export default function AdminPage() {
     await Promise.all([
       fetchSubmissions(true),
       fetchSubmissionStats(),
+      fetchRejectionReasons(),
       fetchCharacters(),
       fetchAllCharacters(),
       fetchAllArtworks(),
@@ -695,6 +835,38 @@ export default function AdminPage() {
     setLoading(false);
   };
 
+  const fetchScreenshotMatches = async (submissionIds: string[], reset: boolean) => {
+    if (reset) setScreenshotMatches({});
+    if (submissionIds.length === 0) return;
+    const result = await getScreenshotMatchesAction(submissionIds);
+    if (result.success && 'data' in result) {
+      setScreenshotMatches(prev => ({ ...prev, ...result.data }));
+    } else {
+      console.error('Error checking duplicate screenshots:', result.message);
+    }
+  };
+
+  // Originals live in a private bucket, so they are opened through a short-lived signed URL.
+  const openSubmissionHistory = async (submission: Submission) => {
+    setHistorySubmission(submission);
+    setSubmissionHistory([]);
+    const result = await getSubmissionHistoryAction(submission.id);
+    if (result.success && 'data' in result) {
+      setSubmissionHistory(result.data || []);
+    } else {
+      toast({ title: 'Error', description: result.message || 'Failed to fetch submission history.', variant: 'destructive' });
+    }
+  };
+
+  const openOriginalScreenshot = async (submissionId: string, kind: 'original' | 'evidence' = 'original') => {
+    const result = await getOriginalScreenshotUrlAction(submissionId, kind);
+    if (result.success && 'url' in result && result.url) {
+      window.open(result.url, '_blank', 'noopener,noreferrer');
+    } else {
+      toast({ title: 'Error', description: result.message || 'Failed to open original screenshot.', variant: 'destructive' });
+    }
+  };
+
   const fetchSubmissionStats = async () => {
     try {
       const { data, error } = await supabase.rpc('get_submission_stats').single();
@@ -711,8 +883,8 @@ export default function AdminPage() {
   const fetchCharacters = async () => {
     try { 
       const [killersRes, survivorsRes] = await Promise.all([
-        supabase.from('killers').select('id, name, image_url').order('order'),
-        supabase.from('survivors').select('id, name, image_url').order('order_num')
+        supabase.from('killers').select('id, name, image_url').is('deleted_at', null).order('order'),
+        supabase.from('survivors').select('id, name, image_url').is('deleted_at', null).order('order_num')
       ]);
       if (killersRes.error) throw killersRes.error;
       if (survivorsRes.error) throw survivorsRes.error;
@@ -726,18 +898,19 @@ export default function AdminPage() {
 
   const fetchAllCharacters = async () => {
     try {
-      const supabaseAdmin = createAdminClient();
       const [killersRes, survivorsRes, artworksRes] = await Promise.all([
-        supabase.from('killers').select('id, name, order').order('name'),
-        supabase.from('survivors').select('id, name, order_num').order('name'),
-        supabaseAdmin.from('v_character_artworks').select('*')
+        supabase.from('killers').select('id, name, order').is('deleted_at', null).order('name'),
+        supabase.from('survivors').select('id, name, order_num').is('deleted_at', null).order('name'),
+        getCharacterArtworksAction()
       ]);
       if (killersRes.error) throw killersRes.error;
       if (survivorsRes.error) throw survivorsRes.error;
+      // Artwork links are only readable by roles with the artworks area.
+      const characterArtworks: any[] = artworksRes.success && 'data' in artworksRes ? artworksRes.data || [] : [];
       
       // Group artworks by character
       const artworksByCharacter: Record<string, any[]> = {};
-      (artworksRes.data || []).forEach(artwork => {
+      characterArtworks.forEach(artwork => {
         const key = `${artwork.character_type}-${artwork.character_id}`;
         if (!artworksByCharacter[key]) {
           artworksByCharacter[key] = [];
@@ -775,7 +948,7 @@ export default function AdminPage() {
       
       // Build artist map from character artworks view
       const artistMap: Record<string, string | null> = {};
-      (artworksRes.data || []).forEach(artwork => {
+      characterArtworks.forEach(artwork => {
         if (artwork.artwork_url) {
           artistMap[artwork.artwork_url] = artwork.artist_name || null;
         }
@@ -787,327 +960,6 @@ export default function AdminPage() {
     }
   };
 
-  // Fetch all files from artworks storage bucket
-  const fetchStorageArtworks = async () => {
-    setStorageLoading(true);
-    try {
-      const supabaseAdmin = createAdminClient();
-      const { data, error } = await supabaseAdmin.storage
-        .from('artworks')
-        .list('', {
-          limit: 1000,
-          sortBy: { column: 'created_at', order: 'desc' }
-        });
-
-      if (error) throw error;
-
-      const items: StorageItem[] = (data || []).map(file => {
-        const publicUrl = supabaseAdmin.storage
-          .from('artworks')
-          .getPublicUrl(file.name).data.publicUrl;
-        
-        return {
-          name: file.name,
-          path: file.name,
-          bucket: 'artworks',
-          publicUrl,
-          created_at: file.created_at || '',
-          updated_at: file.updated_at || '',
-          size: file.metadata?.size || 0
-        };
-      });
-
-      setStorageArtworks(items);
-      
-      // Load artist info for each artwork from artworks table
-      const { data: artworksData } = await supabaseAdmin
-        .from('artworks')
-        .select('artwork_url, artist_name');
-      
-      const artistMap: Record<string, string | null> = {};
-      items.forEach(item => {
-        const artwork = artworksData?.find(a => a.artwork_url === item.publicUrl);
-        artistMap[item.publicUrl] = artwork?.artist_name || null;
-      });
-      setArtworkArtists(artistMap);
-    } catch (err: any) {
-      console.error('Failed to fetch storage artworks:', err);
-      toast({ title: 'Error', description: 'Failed to load artworks from storage', variant: 'destructive' });
-    } finally {
-      setStorageLoading(false);
-    }
-  };
-
-  // Find where an artwork is used and get current artist from artworks table
-  const findArtworkUsage = async (publicUrl: string): Promise<{ characterType: 'killer' | 'survivor', characterId: string, characterName: string, artistId: string | null, artistName: string | null, fieldType: 'background' | 'header' | 'gallery' | 'legacy_header' | null } | null> => {
-    try {
-      // Get artist from artworks table
-      const supabaseAdmin = createAdminClient();
-      const { data: artworkData } = await supabaseAdmin
-        .from('artworks')
-        .select('artist_name')
-        .eq('artwork_url', publicUrl)
-        .single();
-      
-      const artistName = artworkData?.artist_name || null;
-      const artistId = null; // We no longer use artist_id in this context
-
-      // Check killers first
-      const killer = allKillers.find(k => 
-        k.background_image_url === publicUrl ||
-        k.header_url === publicUrl ||
-        k.artist_urls?.includes(publicUrl) ||
-        k.legacy_header_urls?.includes(publicUrl)
-      );
-      
-      if (killer) {
-        let fieldType: 'background' | 'header' | 'gallery' | 'legacy_header' | null = null;
-        
-        if (killer.background_image_url === publicUrl) {
-          fieldType = 'background';
-        } else if (killer.header_url === publicUrl) {
-          fieldType = 'header';
-        } else if (killer.artist_urls?.includes(publicUrl)) {
-          fieldType = 'gallery';
-        } else if (killer.legacy_header_urls?.includes(publicUrl)) {
-          fieldType = 'legacy_header';
-        }
-        
-        return {
-          characterType: 'killer',
-          characterId: killer.id,
-          characterName: killer.name,
-          artistId,
-          artistName,
-          fieldType
-        };
-      }
-      
-      // Check survivors
-      const survivor = allSurvivors.find(s => 
-        s.background_image_url === publicUrl ||
-        s.header_url === publicUrl ||
-        s.artist_urls?.includes(publicUrl) ||
-        s.legacy_header_urls?.includes(publicUrl)
-      );
-      
-      if (survivor) {
-        let fieldType: 'background' | 'header' | 'gallery' | 'legacy_header' | null = null;
-        
-        if (survivor.background_image_url === publicUrl) {
-          fieldType = 'background';
-        } else if (survivor.header_url === publicUrl) {
-          fieldType = 'header';
-        } else if (survivor.artist_urls?.includes(publicUrl)) {
-          fieldType = 'gallery';
-        } else if (survivor.legacy_header_urls?.includes(publicUrl)) {
-          fieldType = 'legacy_header';
-        }
-        
-        return {
-          characterType: 'survivor',
-          characterId: survivor.id,
-          characterName: survivor.name,
-          artistId,
-          artistName,
-          fieldType
-        };
-      }
-      
-      return null;
-    } catch (error) {
-      console.error('Error finding artwork usage:', error);
-      return null;
-    }
-  };
-
-  // Update artist for an artwork using mapping table
-  const updateArtworkArtist = async (publicUrl: string, artistId: string | null) => {
-    setUpdatingArtist(publicUrl);
-    try {
-      const usage = await findArtworkUsage(publicUrl);
-      if (!usage) {
-        toast({ title: 'Error', description: 'Could not find where this artwork is used', variant: 'destructive' });
-        return;
-      }
-
-      const supabaseAdmin = createAdminClient();
-      
-      // Get artist info
-      let artistName: string | null = null;
-      if (artistId) {
-        const artist = artists.find(a => a.id === artistId);
-        if (artist) {
-          artistName = artist.name ?? null;
-        }
-      }
-
-      // Upsert into mapping table
-      if (artistId) {
-        const { error } = await supabaseAdmin
-          .from('artwork_artist_mappings')
-          .upsert({
-            artwork_url: publicUrl,
-            artist_id: artistId,
-            updated_at: new Date().toISOString()
-          }, {
-            onConflict: 'artwork_url'
-          });
-
-        if (error) throw error;
-      } else {
-        // Remove mapping if no artist selected
-        const { error } = await supabaseAdmin
-          .from('artwork_artist_mappings')
-          .delete()
-          .eq('artwork_url', publicUrl);
-
-        if (error && error.code !== 'PGRST116') throw error; // Ignore "not found" errors
-      }
-
-      // Also update background_credit fields if this is a background image
-      if (usage.fieldType === 'background') {
-        const table = usage.characterType === 'killer' ? 'killers' : 'survivors';
-        const artist = artistId ? artists.find(a => a.id === artistId) : null;
-        
-        const { error: bgError } = await supabaseAdmin
-          .from(table)
-          .update({
-            background_credit_name: artist?.name || null,
-            background_credit_url: artist?.url || null
-          })
-          .eq('id', usage.characterId);
-
-        if (bgError) console.error('Error updating background credit:', bgError);
-      }
-
-      toast({ 
-        title: 'Success', 
-        description: `Artist updated for ${usage.characterName} (${usage.fieldType})${artistName ? ` to ${artistName}` : ' (removed)'}` 
-      });
-      
-      // Update local state
-      setArtworkArtists(prev => ({ ...prev, [publicUrl]: artistName }));
-      
-      // Refresh characters if background was updated
-      if (usage.fieldType === 'background') {
-        await fetchAllCharacters();
-      }
-    } catch (error: any) {
-      console.error('Error updating artist:', error);
-      toast({ title: 'Error', description: error.message || 'Failed to update artist', variant: 'destructive' });
-    } finally {
-      setUpdatingArtist(null);
-    }
-  };
-
-  // Delete file from storage and clean up character references
-  const deleteStorageArtwork = async (filePath: string, publicUrl: string) => {
-    if (!confirm(`Delete ${filePath} from storage?\n\nThis will also remove it from all character pages that use it.`)) return;
-    
-    try {
-      const supabaseAdmin = createAdminClient();
-      
-      // Remove from storage
-      const { error: storageError } = await supabaseAdmin.storage
-        .from('artworks')
-        .remove([filePath]);
-      
-      if (storageError) throw storageError;
-
-      // Remove from all character records that reference this URL
-      // Check killers
-      const { data: killers } = await supabaseAdmin
-        .from('killers')
-        .select('id, artist_urls, legacy_header_urls, header_url, background_image_url');
-
-      for (const killer of killers || []) {
-        let needsUpdate = false;
-        const updates: any = {};
-
-        // Check and update artist_urls array
-        if (killer.artist_urls && Array.isArray(killer.artist_urls)) {
-          const filtered = killer.artist_urls.filter((url: string) => url !== publicUrl);
-          if (filtered.length !== killer.artist_urls.length) {
-            updates.artist_urls = filtered;
-            needsUpdate = true;
-          }
-        }
-
-        // Check and update legacy_header_urls array
-        if (killer.legacy_header_urls && Array.isArray(killer.legacy_header_urls)) {
-          const filtered = killer.legacy_header_urls.filter((url: string) => url !== publicUrl);
-          if (filtered.length !== killer.legacy_header_urls.length) {
-            updates.legacy_header_urls = filtered;
-            needsUpdate = true;
-          }
-        }
-
-        // Check single-value fields
-        if (killer.header_url === publicUrl) {
-          updates.header_url = null;
-          needsUpdate = true;
-        }
-        if (killer.background_image_url === publicUrl) {
-          updates.background_image_url = null;
-          needsUpdate = true;
-        }
-
-        if (needsUpdate) {
-          await supabaseAdmin.from('killers').update(updates).eq('id', killer.id);
-        }
-      }
-
-      // Check survivors
-      const { data: survivors } = await supabaseAdmin
-        .from('survivors')
-        .select('id, artist_urls, legacy_header_urls, header_url, background_image_url');
-
-      for (const survivor of survivors || []) {
-        let needsUpdate = false;
-        const updates: any = {};
-
-        if (survivor.artist_urls && Array.isArray(survivor.artist_urls)) {
-          const filtered = survivor.artist_urls.filter((url: string) => url !== publicUrl);
-          if (filtered.length !== survivor.artist_urls.length) {
-            updates.artist_urls = filtered;
-            needsUpdate = true;
-          }
-        }
-
-        if (survivor.legacy_header_urls && Array.isArray(survivor.legacy_header_urls)) {
-          const filtered = survivor.legacy_header_urls.filter((url: string) => url !== publicUrl);
-          if (filtered.length !== survivor.legacy_header_urls.length) {
-            updates.legacy_header_urls = filtered;
-            needsUpdate = true;
-          }
-        }
-
-        if (survivor.header_url === publicUrl) {
-          updates.header_url = null;
-          needsUpdate = true;
-        }
-        if (survivor.background_image_url === publicUrl) {
-          updates.background_image_url = null;
-          needsUpdate = true;
-        }
-
-        if (needsUpdate) {
-          await supabaseAdmin.from('survivors').update(updates).eq('id', survivor.id);
-        }
-      }
-
-      toast({ title: 'Success', description: 'Artwork deleted from storage and all character pages' });
-      
-      // Refresh data
-      await fetchStorageArtworks();
-      await fetchAllCharacters();
-    } catch (err: any) {
-      console.error('Delete error:', err);
-      toast({ title: 'Error', description: err.message || 'Failed to delete artwork', variant: 'destructive' });
-    }
-  };
-
   const fetchSubmissions = async (reset: boolean = false) => {
     if (reset) {
       setSubmissionsLoading(true);
@@ -1121,28 +973,20 @@ export default function AdminPage() {
     const currentOffset = reset ? 0 : submissionsOffset;
   
     try {
-      let query = supabase
-        .from('p100_submissions')
-        .select('id, username, killer_id, survivor_id, screenshot_url, status, rejection_reason, submitted_at, reviewed_at, reviewed_by, comment, legacy', { count: 'exact' });
-      
-      // Apply server-side filters
-      if (statusFilter !== 'all') {
-        query = query.eq('status', statusFilter);
-      }
-      if (filter === 'killer') {
-        query = query.not('killer_id', 'is', null);
-      } else if (filter === 'survivor') {
-        query = query.not('survivor_id', 'is', null);
-      }
+      // Comments, screenshots and rejection reasons are not readable with the anon key.
+      const result = await getSubmissionsPageAction({
+        status: statusFilter,
+        characterType: filter,
+        batchId: batchFilter,
+        sort: submissionSort,
+        offset: currentOffset,
+        limit: SUBMISSIONS_PAGE_SIZE,
+      });
+      if (!result.success || !('data' in result) || !result.data) throw new Error(result.message);
+      const data = result.data.submissions as Submission[];
 
-      const { data, error, count } = await query
-        .order('submitted_at', { ascending: submissionSort === 'oldest' })
-        .range(currentOffset, currentOffset + SUBMISSIONS_PAGE_SIZE - 1);
-      
-      if (error) throw error;
-  
-      if (reset && count !== null) {
-        setFilteredSubmissionsCount(count);
+      if (reset) {
+        setFilteredSubmissionsCount(result.data.total);
       }
 
       if (data) {
@@ -1151,10 +995,11 @@ export default function AdminPage() {
         } else {
           setSubmissions(prev => [...prev, ...data]);
         }
+        fetchScreenshotMatches(data.filter(s => s.status === 'pending').map(s => s.id), reset);
 
         // Recompute last approved timestamps using all submissions (existing + new)
         const combined = reset ? data : [...submissions, ...data];
-        const approved = combined.filter(s => s.status === 'approved' && s.reviewed_at);
+        const approved = combined.filter((s): s is Submission & { reviewed_at: string } => s.status === 'approved' && !!s.reviewed_at);
         if (approved.length) {
           // Sort descending by reviewed_at
             approved.sort((a, b) => (a.reviewed_at > b.reviewed_at ? -1 : 1));
@@ -1196,7 +1041,8 @@ export default function AdminPage() {
     try {
         let query = supabase
             .from('p100_players')
-            .select('*, killers(name), survivors(name)');
+            .select('*, killers(name), survivors(name)')
+            .is('deleted_at', null);
 
         // Filter by search term
         const searchTerm = playerSearchTerm.trim();
@@ -1247,147 +1093,195 @@ export default function AdminPage() {
     setHasMoreArtworks(false);
   }, []);
 
-  // Fetch blacklisted users
+  // Fetch blacklist rules and the attempts they blocked
   const fetchBlacklistedUsers = useCallback(async () => {
-    try {
-      const supabase = createAdminClient();
-      const { data, error } = await supabase
-        .from('blacklisted_users')
-        .select('*')
-        .order('created_at', { ascending: false });
-      
-      if (error) throw error;
-      setBlacklistedUsers(data || []);
-    } catch (e: any) {
-      console.error('Error fetching blacklisted users', e);
-      toast({ title: 'Error', description: 'Failed to fetch blacklist', variant: 'destructive' });
+    const [rulesResult, blocksResult] = await Promise.all([getBlacklistAction(), getBlacklistBlocksAction()]);
+    if (rulesResult.success && 'data' in rulesResult) setBlacklistedUsers(rulesResult.data || []);
+    if (blocksResult.success && 'data' in blocksResult) setBlacklistBlocks(blocksResult.data || []);
+    if (!rulesResult.success || !blocksResult.success) {
+      toast({ title: 'Error', description: rulesResult.message || blocksResult.message || 'Failed to fetch blacklist', variant: 'destructive' });
     }
   }, [toast]);
 
-  // Add user to blacklist
+  // Add a rule to the blacklist
   const addToBlacklist = useCallback(async () => {
-    if (!newBlacklistUsername.trim()) {
-      toast({ title: 'Error', description: 'Username is required', variant: 'destructive' });
+    if (!newBlacklistValue.trim()) {
+      toast({ title: 'Error', description: 'A value is required', variant: 'destructive' });
       return;
     }
     
     setIsAddingToBlacklist(true);
     try {
-      const supabase = createAdminClient();
-      const { error } = await supabase
-        .from('blacklisted_users')
-        .insert([{
-          username: newBlacklistUsername.trim().toLowerCase(),
-          reason: newBlacklistReason.trim() || null,
-          created_by: 'admin',
-          is_super: newBlacklistSuper
-        }]);
-      
-      if (error) {
-        if (error.code === '23505') { // Unique constraint violation
-          toast({ title: 'Error', description: 'User is already blacklisted', variant: 'destructive' });
-        } else {
-          throw error;
-        }
+      const result = await addToBlacklistAction({
+        rule_type: newBlacklistType,
+        value: newBlacklistValue,
+        reason: newBlacklistReason,
+        expires_at: newBlacklistExpiry ? new Date(newBlacklistExpiry).toISOString() : null,
+      });
+      if (!result.success) {
+        toast({ title: 'Error', description: result.message, variant: 'destructive' });
         return;
       }
       
-      toast({ title: 'Success', description: 'User added to blacklist' });
-      setNewBlacklistUsername('');
+      toast({ title: 'Success', description: result.message });
+      setNewBlacklistValue('');
       setNewBlacklistReason('');
-      setNewBlacklistSuper(false);
+      setNewBlacklistExpiry('');
       await fetchBlacklistedUsers();
+      // Offer to clean up what the new rule's users already have on the site.
+      if ('data' in result && result.data) await openBlacklistCleanup(result.data, true);
     } catch (e: any) {
       console.error('Error adding to blacklist', e);
-      toast({ title: 'Error', description: 'Failed to add user to blacklist', variant: 'destructive' });
+      toast({ title: 'Error', description: 'Failed to add rule to blacklist', variant: 'destructive' });
     } finally {
       setIsAddingToBlacklist(false);
     }
-  }, [newBlacklistUsername, newBlacklistReason, newBlacklistSuper, toast, fetchBlacklistedUsers]);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [newBlacklistType, newBlacklistValue, newBlacklistReason, newBlacklistExpiry, toast, fetchBlacklistedUsers]);
 
-  // Remove user from blacklist
-  const removeFromBlacklist = useCallback(async (id: string, username: string) => {
-    if (!confirm(`Remove ${username} from blacklist?`)) return;
+  // Remove a rule from the blacklist
+  const removeFromBlacklist = useCallback(async (rule: BlacklistRule) => {
+    if (!confirm(`Remove ${rule.value} from blacklist?`)) return;
+    const undoCleanups = !!rule.active_cleanups && confirm('Also restore the entries that were hidden or removed under this rule?');
     
     try {
-      const supabase = createAdminClient();
-      const { error } = await supabase
-        .from('blacklisted_users')
-        .delete()
-        .eq('id', id);
-      
-      if (error) throw error;
+      const result = await removeFromBlacklistAction(rule.id, undoCleanups);
+      if (!result.success) throw new Error(result.message);
       
-      toast({ title: 'Success', description: 'User removed from blacklist' });
+      toast({ title: 'Success', description: result.message });
       await fetchBlacklistedUsers();
     } catch (e: any) {
       console.error('Error removing from blacklist', e);
-      toast({ title: 'Error', description: 'Failed to remove user from blacklist', variant: 'destructive' });
+      toast({ title: 'Error', description: 'Failed to remove rule from blacklist', variant: 'destructive' });
     }
   }, [toast, fetchBlacklistedUsers]);
 
-  const toggleBlacklistSuper = useCallback(async (id: string, currentSuper: boolean) => {
+  // Preview what a rule's users currently have; with onlyIfAny, stay closed when there is nothing
+  const openBlacklistCleanup = async (rule: BlacklistRule, onlyIfAny = false) => {
+    const result = await getBlacklistCleanupAction(rule.id);
+    if (!result.success || !('data' in result) || !result.data) {
+      toast({ title: 'Error', description: result.message, variant: 'destructive' });
+      return;
+    }
+    const { preview, cleanups } = result.data;
+    if (onlyIfAny && preview.players.length === 0 && preview.submissions.length === 0) return;
+    setCleanupRule(rule);
+    setCleanupPreview(preview);
+    setCleanupHistory(cleanups);
+  };
+
+  const runBlacklistCleanup = async (mode: BlacklistCleanupMode) => {
+    if (!cleanupRule) return;
+    setIsCleaningUp(true);
     try {
-      const supabase = createAdminClient();
-      const { error } = await supabase
-        .from('blacklisted_users')
-        .update({ is_super: !currentSuper })
-        .eq('id', id);
-      if (error) throw error;
-      toast({ title: 'Updated', description: `Super blacklist ${!currentSuper ? 'enabled' : 'disabled'}.` });
-      await fetchBlacklistedUsers();
-    } catch (e: any) {
-      console.error('Error toggling super blacklist', e);
-      toast({ title: 'Error', description: 'Failed to update.', variant: 'destructive' });
+      const result = await applyBlacklistCleanupAction(cleanupRule.id, mode);
+      if (!result.success) {
+        toast({ title: 'Error', description: result.message, variant: 'destructive' });
+        return;
+      }
+      toast({ title: 'Success', description: result.message });
+      await openBlacklistCleanup(cleanupRule);
+      fetchBlacklistedUsers();
+    } finally {
+      setIsCleaningUp(false);
     }
-  }, [toast, fetchBlacklistedUsers]);
+  };
 
+  const undoCleanup = async (cleanupId: string) => {
+    if (!cleanupRule) return;
+    setIsCleaningUp(true);
+    try {
+      const result = await undoBlacklistCleanupAction(cleanupId);
+      if (!result.success) {
+        toast({ title: 'Error', description: result.message, variant: 'destructive' });
+        return;
+      }
+      toast({ title: 'Success', description: result.message });
+      await openBlacklistCleanup(cleanupRule);
+      fetchBlacklistedUsers();
+    } finally {
+      setIsCleaningUp(false);
+    }
+  };
 
-  const fetchStorageItems = async (bucket: string) => {
-    setLoadingStorage(true);
+  // Open the Blacklist tab with the add form filled in, e.g. from a submission's IP
+  const prefillBlacklistRule = useCallback((ruleType: BlacklistRuleType, value: string, reason = '') => {
+    setNewBlacklistType(ruleType);
+    setNewBlacklistValue(value);
+    setNewBlacklistReason(reason);
+    setNewBlacklistExpiry('');
+    setActiveTab('blacklist');
+    fetchBlacklistedUsers();
+  }, [fetchBlacklistedUsers]);
+
+  // Fetch soft-deleted characters and players
+  const fetchTrash = useCallback(async () => {
+    setTrashLoading(true);
     try {
-        const supabase = createAdminClient();
-        const allItems: StorageItem[] = [];
-        const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
-
-        const listItemsRecursively = async (pathPrefix = '') => {
-            const { data, error } = await supabase.storage.from(bucket).list(pathPrefix, { limit: 1000, sortBy: { column: 'name', order: 'asc' } });
-            
-            if (error) {
-                console.error(`Error listing items in bucket "${bucket}" at path "${pathPrefix}":`, error.message);
-                return;
-            }
-            if (!data) return;
+      const result = await getTrashAction();
+      if (!result.success) throw new Error(result.message);
+      setTrashItems(result.data || []);
+    } catch (e: any) {
+      console.error('Error fetching trash', e);
+      toast({ title: 'Error', description: e.message || 'Failed to fetch trash', variant: 'destructive' });
+    } finally {
+      setTrashLoading(false);
+    }
+  }, [toast]);
 
-            const files = data.filter(item => item.id !== null);
-            const folders = data.filter(item => item.id === null);
+  const restoreTrashItem = async (item: TrashItem) => {
+    const result = await restoreTrashItemAction(item.kind, item.id);
+    if (!result.success) {
+      toast({ title: 'Error', description: result.message, variant: 'destructive' });
+      return;
+    }
+    toast({ title: 'Restored', description: `${item.label} restored.` });
+    await Promise.all([fetchTrash(), fetchAllCharacters(), fetchCharacters(), fetchP100Players()]);
+  };
 
-            for (const file of files) {
-                const fullPath = pathPrefix ? `${pathPrefix}/${file.name}` : file.name;
-                const publicUrl = `${supabaseUrl}/storage/v1/object/public/${bucket}/${encodeURI(fullPath)}`;
-                
-                allItems.push({
-                    name: file.name,
-                    path: fullPath,
-                    bucket,
-                    publicUrl,
-                    created_at: file.created_at || new Date().toISOString(),
-                    updated_at: file.updated_at || new Date().toISOString(),
-                    size: file.metadata?.size || 0,
-                });
-            }
+  const purgeTrashItem = async (item: TrashItem) => {
+    if (!confirm(`Permanently delete ${item.label}? This cannot be undone.`)) return;
+    const result = await purgeTrashItemAction(item.kind, item.id);
+    if (!result.success) {
+      toast({ title: 'Error', description: result.message, variant: 'destructive' });
+      return;
+    }
+    toast({ title: 'Purged', description: `${item.label} permanently deleted.` });
+    await fetchTrash();
+  };
 
-            const folderPromises = folders.map(folder => {
-                const fullPath = pathPrefix ? `${pathPrefix}/${folder.name}` : folder.name;
-                return listItemsRecursively(fullPath);
-            });
+  // Fetch audit log entries for the current filters and page
+  const fetchAuditLog = useCallback(async (page = 0) => {
+    setAuditLoading(true);
+    try {
+      const result = await getAuditLogAction({
+        actor: auditFilters.actor || undefined,
+        table: auditFilters.table || undefined,
+        from: auditFilters.from || undefined,
+        to: auditFilters.to || undefined,
+        limit: AUDIT_LOG_PAGE_SIZE,
+        offset: page * AUDIT_LOG_PAGE_SIZE,
+      });
+      if (!result.success) throw new Error(result.message);
+      setAuditEntries(result.data || []);
+      setAuditTotal(result.total || 0);
+      setAuditActors(result.actors || []);
+      setAuditPage(page);
+    } catch (e: any) {
+      console.error('Error fetching audit log', e);
+      toast({ title: 'Error', description: e.message || 'Failed to fetch audit log', variant: 'destructive' });
+    } finally {
+      setAuditLoading(false);
+    }
+  }, [auditFilters, toast]);
 
-            await Promise.all(folderPromises);
-        };
 
-        await listItemsRecursively();
-        allItems.sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
-        setStorageItems(allItems);
+  const fetchStorageItems = async (bucket: string) => {
+    setLoadingStorage(true);
+    try {
+        const result = await getStorageItemsAction(bucket);
+        if (!result.success || !('data' in result)) throw new Error(result.message);
+        setStorageItems(result.data || []);
     } catch (error) {
         console.error(`Error fetching storage items from ${bucket}:`, error);
         toast({ title: 'Error', description: `Failed to fetch items from ${bucket}`, variant: 'destructive' });
@@ -1405,41 +1299,65 @@ export default function AdminPage() {
 
 
   // --- AUTHENTICATION FUNCTIONS ---
+  const canSeeTab = (tab: string) => canAccessArea(adminRole, TAB_AREAS[tab]);
+
+  const applyAdminIdentity = (username: string, role: ModeratorRole) => {
+    setAdminUsername(username);
+    setAdminRole(role);
+    // Land on the first tab this role is allowed to use.
+    const firstTab = Object.keys(TAB_AREAS).find(tab => canAccessArea(role, TAB_AREAS[tab]));
+    if (firstTab) setActiveTab(firstTab);
+  };
+
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (loginAttempts.isLocked) {
+    if (isLockedOut) {
       toast({ title: 'Account Locked', description: `Try again in ${formatTime(lockoutTimeRemaining)}.`, variant: 'destructive' });
       return;
     }
     setAuthLoading(true);
-    if (password === process.env.NEXT_PUBLIC_ADMIN_PASSWORD) {
-      setIsAuthenticated(true);
-      sessionStorage.setItem('admin_authenticated', 'true');
-      const resetAttempts = { count: 0, lastAttempt: 0, isLocked: false };
-      setLoginAttempts(resetAttempts);
-      localStorage.setItem('admin_login_attempts', JSON.stringify(resetAttempts));
-      await fetchInitialData();
-      toast({ title: 'Success', description: 'Successfully logged in.' });
-    } else {
-      const newCount = loginAttempts.count + 1;
-      const now = Date.now();
-      const newAttempts: LoginAttempts = { count: newCount, lastAttempt: now, isLocked: newCount >= MAX_LOGIN_ATTEMPTS };
-      setLoginAttempts(newAttempts);
-      localStorage.setItem('admin_login_attempts', JSON.stringify(newAttempts));
-      if (newAttempts.isLocked) {
-        setLockoutTimeRemaining(Math.ceil(LOCKOUT_DURATION / 1000));
-        toast({ title: 'Account Locked', description: `Too many failed attempts. Locked for 15 minutes.`, variant: 'destructive' });
+    try {
+      const res = await fetch('/api/admin/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ username: loginUsername.trim(), password })
+      });
+      const json = await res.json();
+      if (res.ok && json.success) {
+        applyAdminIdentity(json.username, json.role);
+        setIsAuthenticated(true);
+        setLockoutTimeRemaining(0);
+        await fetchInitialData();
+        toast({ title: 'Success', description: 'Successfully logged in.' });
+      } else if (res.status === 429) {
+        setLockoutTimeRemaining(json.retryAfter || 0);
+        toast({ title: 'Account Locked', description: `Too many failed attempts. Try again in ${formatTime(json.retryAfter || 0)}.`, variant: 'destructive' });
+      } else if (res.status === 401) {
+        toast({ title: 'Invalid Credentials', description: `${json.attemptsRemaining} attempts remaining.`, variant: 'destructive' });
       } else {
-        toast({ title: 'Invalid Password', description: `${MAX_LOGIN_ATTEMPTS - newCount} attempts remaining.`, variant: 'destructive' });
+        toast({ title: 'Error', description: json.message || 'Login failed.', variant: 'destructive' });
       }
+    } catch (error) {
+      console.error('Login error:', error);
+      toast({ title: 'Error', description: 'Login failed.', variant: 'destructive' });
+    } finally {
+      setAuthLoading(false);
+      setPassword('');
     }
-    setAuthLoading(false);
-    setPassword('');
   };
 
-  const handleLogout = () => {
+  const handleLogout = async () => {
+    try {
+      await fetch('/api/admin/logout', { method: 'POST' });
+    } catch (error) {
+      console.error('Logout error:', error);
+    }
     setIsAuthenticated(false);
-    sessionStorage.removeItem('admin_authenticated');
+    setAdminUsername('');
+    setAdminRole(null);
+    setModerators([]);
+    setAuditEntries([]);
+    setTrashItems([]);
     setSubmissions([]);
     setKillers([]);
     setSurvivors([]);
@@ -1453,127 +1371,319 @@ export default function AdminPage() {
   };
   
 
-  // --- CRUD & MANAGEMENT FUNCTIONS ---
-  const updateSubmissionLegacyStatus = async (submissionId: string, legacyStatus: boolean) => {
-    try {
-      const supabase = createAdminClient();
-      await supabase
-        .from('p100_submissions')
-        .update({ legacy: legacyStatus })
-        .eq('id', submissionId)
-        .throwOnError();
-      
-      setSubmissions(currentSubmissions =>
-        currentSubmissions.map(s => s.id === submissionId ? { ...s, legacy: legacyStatus } : s)
-      );
-      
-      toast({ 
-        title: 'Success', 
-        description: `Legacy status ${legacyStatus ? 'enabled' : 'disabled'} for submission.` 
-      });
-    } catch (error) {
-      console.error('Error updating legacy status:', error);
-      toast({ 
-        title: 'Error', 
-        description: 'Failed to update legacy status.', 
-        variant: 'destructive' 
-      });
+  // --- MODERATOR FUNCTIONS ---
+  const fetchModerators = async () => {
+    const result = await getModeratorsAction();
+    if (result.success && 'data' in result) {
+      setModerators(result.data || []);
+    } else {
+      toast({ title: 'Error', description: result.message || 'Failed to fetch moderators.', variant: 'destructive' });
     }
   };
 
-  const updateSubmissionStatus = async (id: string, status: 'approved' | 'rejected', rejectionReason?: string) => {
+  const handleCreateModerator = async () => {
+    setIsSavingModerator(true);
     try {
-      const supabase = createAdminClient();
-      const submission = submissions.find(s => s.id === id);
-      if (!submission) return;
-
-      const safeRejectionReason = rejectionReason ? sanitizeComment(rejectionReason) : null;
-      
-      await supabase.from('p100_submissions').update({ 
-        status, 
-        rejection_reason: status === 'rejected' ? safeRejectionReason : null,
-        reviewed_at: new Date().toISOString(),
-        reviewed_by: 'admin'
-      }).eq('id', id).throwOnError();
-
-      if (status === 'approved') {
-        const characterColumn = submission.killer_id ? 'killer_id' : 'survivor_id';
-        const characterId = submission.killer_id || submission.survivor_id;
-        const sanitizedUsername = sanitizeComment(submission.username);
-        
-        const { data: existingPlayer } = await supabase.from('p100_players').select('id').eq('username', sanitizedUsername).eq(characterColumn, characterId).single();
-
-        if (!existingPlayer) {
-          await supabase.from('p100_players').insert({ 
-            username: sanitizedUsername, 
-            [characterColumn]: characterId, 
-            p200: false,
-            legacy: false,
-            favorite: false
-          }).throwOnError();
-        }
-      }
-      toast({ title: 'Success', description: `Submission ${status}.` });
-      await fetchSubmissions(true);
-      await fetchSubmissionStats();
-      await fetchP100Players();
-    } catch (error) {
-      console.error(`Error updating submission:`, error);
-      toast({ title: 'Error', description: 'Failed to update submission.', variant: 'destructive' });
+      const result = await createModeratorAction(newModerator.username, newModerator.password, newModerator.role);
+      if (!result.success) throw new Error(result.message);
+      toast({ title: 'Success', description: result.message });
+      setNewModerator({ username: '', password: '', role: 'reviewer' });
+      await fetchModerators();
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message || 'Failed to create moderator.', variant: 'destructive' });
+    } finally {
+      setIsSavingModerator(false);
     }
   };
 
-  const bulkUpdateSubmissions = async (status: 'approved' | 'rejected', rejectionReason?: string) => {
-    if (selectedSubmissions.size === 0) return;
-    setIsBulkProcessing(true);
-    try {
-      for (const id of selectedSubmissions) {
-        await updateSubmissionStatus(id, status, rejectionReason);
-      }
-      toast({ title: 'Success', description: `${selectedSubmissions.size} submissions ${status}.` });
-      setSelectedSubmissions(new Set());
-      setBulkRejectOpen(false);
-      setBulkRejectReason('');
-    } catch (error) {
-      console.error('Bulk update error:', error);
-      toast({ title: 'Error', description: 'Some submissions failed to update.', variant: 'destructive' });
-    } finally {
-      setIsBulkProcessing(false);
+  const handleUpdateModerator = async (moderator: Moderator, updates: { role?: ModeratorRole; password?: string }) => {
+    const result = await updateModeratorAction(moderator.id, updates);
+    if (!result.success) {
+      toast({ title: 'Error', description: result.message, variant: 'destructive' });
+      return;
     }
+    toast({ title: 'Success', description: result.message });
+    await fetchModerators();
   };
 
-  const toggleSubmissionSelection = (id: string) => {
-    setSelectedSubmissions(prev => {
-      const next = new Set(prev);
-      if (next.has(id)) next.delete(id);
-      else next.add(id);
-      return next;
-    });
+  const handleResetModeratorPassword = async (moderator: Moderator) => {
+    const newPassword = prompt(`New password for "${moderator.username}":`);
+    if (!newPassword) return;
+    await handleUpdateModerator(moderator, { password: newPassword });
   };
 
-  const handleDeleteSubmissionScreenshot = async (submission: Submission) => {
-    if (!submission.screenshot_url) return;
-    if (!confirm('Are you sure you want to delete this screenshot? This is irreversible.')) return;
+  const handleDeleteModerator = async (moderator: Moderator) => {
+    if (!confirm(`Delete moderator "${moderator.username}"? They will be signed out immediately.`)) return;
+    const result = await deleteModeratorAction(moderator.id);
+    if (!result.success) {
+      toast({ title: 'Error', description: result.message, variant: 'destructive' });
+      return;
+    }
+    toast({ title: 'Success', description: result.message });
+    await fetchModerators();
+  };
 
-    setDeletingScreenshotId(submission.id);
+  // --- REJECTION REASON FUNCTIONS ---
+  // Active reasons for the reject dialogs. Roles without the submissions area get
+  // a forbidden result here, which is not worth a toast.
+  const fetchRejectionReasons = async () => {
+    const result = await getRejectionReasonsAction();
+    if (result.success && 'data' in result) {
+      setRejectionReasons(result.data || []);
+    } else {
+      console.error('Error fetching rejection reasons:', result.message);
+    }
+  };
 
-    try {
-        const supabase = createAdminClient();
-        const urlRegex = /storage\/v1\/object\/public\/([^/]+)\/(.*)/;
-        const match = submission.screenshot_url.match(urlRegex);
-        if (!match) throw new Error("Could not parse screenshot URL.");
+  // Every reason, including inactive ones, with usage counts for the management tab.
+  const fetchRejectionReasonStats = async () => {
+    const result = await getRejectionReasonsAction(true);
+    if (result.success && 'data' in result) {
+      setRejectionReasonStats((result.data || []) as RejectionReasonWithCount[]);
+    } else {
+      toast({ title: 'Error', description: result.message || 'Failed to fetch rejection reasons.', variant: 'destructive' });
+    }
+  };
+
+  const handleSaveRejectionReason = async (reasonId: string | null, input: { label: string; sort_order: number; is_active: boolean }) => {
+    setIsSavingRejectionReason(true);
+    try {
+      const result = await saveRejectionReasonAction(reasonId, input);
+      if (!result.success) throw new Error(result.message);
+      toast({ title: 'Success', description: result.message });
+      if (!reasonId) setNewRejectionReason({ label: '', sort_order: 0 });
+      await Promise.all([fetchRejectionReasonStats(), fetchRejectionReasons()]);
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message || 'Failed to save rejection reason.', variant: 'destructive' });
+    } finally {
+      setIsSavingRejectionReason(false);
+    }
+  };
 
-        const bucketName = match[1];
-        const filePath = decodeURIComponent(match[2]);
+  const handleRenameRejectionReason = async (reason: RejectionReasonWithCount) => {
+    const label = prompt('Reason text:', reason.label);
+    if (!label || label.trim() === reason.label) return;
+    await handleSaveRejectionReason(reason.id, { label, sort_order: reason.sort_order, is_active: reason.is_active });
+  };
 
-        const { error: storageError } = await supabase.storage.from(bucketName).remove([filePath]);
-        if (storageError) throw storageError;
-        
-        const { error: dbError } = await supabase.from('p100_submissions').update({ screenshot_url: '' }).eq('id', submission.id);
-        if (dbError) throw dbError;
+  const handleDeleteRejectionReason = async (reason: RejectionReasonWithCount) => {
+    const usage = reason.usage_count ? ` It was used on ${reason.usage_count} rejected submission(s); their reason text is kept.` : '';
+    if (!confirm(`Delete rejection reason "${reason.label}"?${usage} Deactivate it instead to keep it in the report.`)) return;
+    const result = await deleteRejectionReasonAction(reason.id);
+    if (!result.success) {
+      toast({ title: 'Error', description: result.message, variant: 'destructive' });
+      return;
+    }
+    toast({ title: 'Success', description: result.message });
+    await Promise.all([fetchRejectionReasonStats(), fetchRejectionReasons()]);
+  };
+
+  // Text shown on a rejected submission, matching what the server stores.
+  const describeRejection = (reasonId: string | undefined, extra: string | undefined) => {
+    const label = reasonId ? rejectionReasons.find(r => r.id === reasonId)?.label : undefined;
+    if (label && extra) return `${label}: ${extra}`;
+    return label || extra;
+  };
+
+  // --- SETTINGS FUNCTIONS ---
+  const fetchRateLimits = async () => {
+    const result = await getSubmissionRateLimitsAction();
+    if (result.success && 'data' in result) {
+      setRateLimits(result.data || DEFAULT_SUBMISSION_RATE_LIMITS);
+    } else {
+      toast({ title: 'Error', description: result.message || 'Failed to fetch rate limits.', variant: 'destructive' });
+    }
+  };
+
+  const handleSaveRateLimits = async () => {
+    setIsSavingRateLimits(true);
+    try {
+      const result = await saveSubmissionRateLimitsAction(rateLimits);
+      if (!result.success) throw new Error(result.message);
+      toast({ title: 'Success', description: result.message });
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message || 'Failed to save rate limits.', variant: 'destructive' });
+    } finally {
+      setIsSavingRateLimits(false);
+    }
+  };
+
+  const fetchRetentionPolicy = async () => {
+    const result = await getScreenshotRetentionAction();
+    if (result.success && 'data' in result) {
+      setRetentionPolicy(result.data || DEFAULT_SCREENSHOT_RETENTION);
+    } else {
+      toast({ title: 'Error', description: result.message || 'Failed to fetch retention policy.', variant: 'destructive' });
+    }
+  };
+
+  const handleSaveRetentionPolicy = async () => {
+    setIsRunningRetention(true);
+    try {
+      const result = await saveScreenshotRetentionAction(retentionPolicy);
+      if (!result.success) throw new Error(result.message);
+      toast({ title: 'Success', description: result.message });
+      setRetentionReport(null);
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message || 'Failed to save retention policy.', variant: 'destructive' });
+    } finally {
+      setIsRunningRetention(false);
+    }
+  };
+
+  const handleRunRetention = async (dryRun: boolean) => {
+    if (!dryRun && !confirm('Delete every screenshot listed in the preview? This cannot be undone.')) return;
+    setIsRunningRetention(true);
+    try {
+      const result = await runScreenshotRetentionAction(dryRun);
+      if (!result.success || !('data' in result) || !result.data) throw new Error(result.message);
+      setRetentionReport(result.data);
+      if (!dryRun) {
+        toast({ title: 'Success', description: `Purged ${result.data.purged} screenshot(s).` });
+        await fetchSubmissions(true);
+      }
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message || 'Failed to apply retention policy.', variant: 'destructive' });
+    } finally {
+      setIsRunningRetention(false);
+    }
+  };
+
+  // Save generated text as a file through a temporary link
+  const downloadFile = (body: string, contentType: string, fileName: string) => {
+    const url = URL.createObjectURL(new Blob([body], { type: contentType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const exportCharacterP100s = async (type: 'killer' | 'survivor', character: { id: string; name: string }, format: ExportFormat) => {
+    const result = await exportCharacterP100sAction(type, character.id);
+    if (!result.success || !('data' in result) || !result.data) {
+      toast({ title: 'Error', description: result.message || 'Failed to export P100 list.', variant: 'destructive' });
+      return;
+    }
+    const { body, contentType } = formatExport(result.data, format);
+    downloadFile(body, contentType, exportFileName(character.name, format));
+  };
+
+  const handleExportBackup = async () => {
+    setIsExportingBackup(true);
+    try {
+      const result = await exportDatabaseBackupAction();
+      if (!result.success || !('data' in result) || !result.data) throw new Error(result.message);
+      downloadFile(JSON.stringify(result.data), 'application/json', exportFileName('backup', 'backup'));
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message || 'Failed to export backup.', variant: 'destructive' });
+    } finally {
+      setIsExportingBackup(false);
+    }
+  };
+
+  // --- CRUD & MANAGEMENT FUNCTIONS ---
+  const updateSubmissionClaims = async (submission: Submission, flags: { p200: boolean; legacy: boolean }) => {
+    const result = await updateSubmissionClaimsAction(submission.id, flags);
+    if (result.success) {
+      setSubmissions(currentSubmissions =>
+        currentSubmissions.map(s => s.id === submission.id ? { ...s, ...flags } : s)
+      );
+      toast({ title: 'Success', description: result.message });
+    } else {
+      toast({ title: 'Error', description: result.message || 'Failed to update claims.', variant: 'destructive' });
+    }
+  };
+
+  const updateSubmissionStatus = async (id: string, status: 'approved' | 'rejected', rejectionReason?: string, rejectionReasonId?: string) => {
+    try {
+      const submission = submissions.find(s => s.id === id);
+      if (!submission) return;
+
+      const safeRejectionReason = rejectionReason ? sanitizeComment(rejectionReason) : undefined;
+
+      // Runs on the server so reviewed_by is taken from the moderator's session;
+      // the review_submission database function does the rest atomically.
+      const result = await updateSubmissionStatusAction(id, status, safeRejectionReason, rejectionReasonId);
+      if (!result.success) throw new Error(result.message);
+
+      toast({ title: 'Success', description: `Submission ${status}.` });
+      await fetchSubmissions(true);
+      await fetchSubmissionStats();
+      await fetchP100Players();
+    } catch (error: any) {
+      console.error(`Error updating submission:`, error);
+      toast({ title: 'Error', description: error.message || 'Failed to update submission.', variant: 'destructive' });
+    }
+  };
+
+  const bulkUpdateSubmissions = async (status: 'approved' | 'rejected', rejectionReason?: string, rejectionReasonId?: string) => {
+    if (selectedSubmissions.size === 0) return;
+    setIsBulkProcessing(true);
+    try {
+      const safeRejectionReason = rejectionReason ? sanitizeComment(rejectionReason) : undefined;
+      const result = await bulkUpdateSubmissionStatusAction(Array.from(selectedSubmissions), status, safeRejectionReason, rejectionReasonId);
+      if (!('results' in result) || !result.results) throw new Error(result.message);
+
+      const failed = result.results.filter(r => !r.success);
+      toast({ title: failed.length ? 'Partially Completed' : 'Success', description: result.message, variant: failed.length ? 'destructive' : undefined });
+      // Keep failed items selected so they can be retried.
+      setSelectedSubmissions(new Set(failed.map(r => r.id)));
+      if (failed.length) setBulkResults(result.results);
+      setBulkRejectOpen(false);
+      setBulkRejectReason('');
+      setBulkRejectReasonId('none');
+      await fetchSubmissions(true);
+      await fetchSubmissionStats();
+      await fetchP100Players();
+    } catch (error: any) {
+      console.error('Bulk update error:', error);
+      toast({ title: 'Error', description: error.message || 'Some submissions failed to update.', variant: 'destructive' });
+    } finally {
+      setIsBulkProcessing(false);
+    }
+  };
+
+  // Used by review mode: saves one decision without reloading the whole list.
+  const reviewSubmissionDecision = async (id: string, status: 'approved' | 'rejected', rejectionReasonId?: string, rejectionReason?: string) => {
+    const safeRejectionReason = rejectionReason ? sanitizeComment(rejectionReason) : undefined;
+    const result = await updateSubmissionStatusAction(id, status, safeRejectionReason, rejectionReasonId);
+    if (!result.success) {
+      toast({ title: 'Error', description: result.message || 'Failed to update submission.', variant: 'destructive' });
+      return false;
+    }
+    setSubmissions(prev => prev.map(s => s.id === id ? { ...s, status, rejection_reason: status === 'rejected' ? describeRejection(rejectionReasonId, safeRejectionReason) : undefined } : s));
+    return true;
+  };
+
+  const closeReviewMode = async () => {
+    setIsReviewMode(false);
+    await fetchSubmissions(true);
+    await fetchSubmissionStats();
+    await fetchP100Players();
+  };
+
+  const toggleSubmissionSelection = (id: string) => {
+    setSelectedSubmissions(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const handleDeleteSubmissionScreenshot = async (submission: Submission) => {
+    if (!submission.screenshot_url) return;
+    if (!confirm('Are you sure you want to delete this screenshot? This is irreversible.')) return;
+
+    setDeletingScreenshotId(submission.id);
+
+    try {
+        const result = await deleteSubmissionScreenshotAction(submission.id, submission.screenshot_url);
+        if (!result.success) throw new Error(result.message);
 
         setSubmissions(currentSubmissions =>
-            currentSubmissions.map(s => s.id === submission.id ? { ...s, screenshot_url: '' } : s)
+            currentSubmissions.map(s => s.id === submission.id ? { ...s, screenshot_url: null, screenshot_purged_at: new Date().toISOString() } : s)
         );
         toast({ title: 'Success', description: 'Screenshot deleted successfully.' });
     } catch (error: any) {
@@ -1598,35 +1708,16 @@ export default function AdminPage() {
         return;
     }
 
-    const pathsToDelete: string[] = [];
-    const idsToUpdate: string[] = [];
-    const urlRegex = /storage\/v1\/object\/public\/([^/]+)\/(.*)/;
-
-    for (const sub of submissionsToDelete) {
-        const match = sub.screenshot_url.match(urlRegex);
-        if (match && match[1] === 'screenshots') {
-            pathsToDelete.push(decodeURIComponent(match[2]));
-            idsToUpdate.push(sub.id);
-        }
-    }
-
-    if (pathsToDelete.length === 0) {
-        toast({ title: 'No Valid Screenshots Found', description: 'Could not parse any valid screenshot paths to delete.' });
-        setIsBulkDeleting(false);
-        setShowBulkDeleteConfirm(false);
-        return;
-    }
-
     try {
-        const supabase = createAdminClient();
-
-        const { error: storageError } = await supabase.storage.from('screenshots').remove(pathsToDelete);
-        if (storageError) throw storageError;
-
-        const { error: dbError } = await supabase.from('p100_submissions').update({ screenshot_url: '' }).in('id', idsToUpdate);
-        if (dbError) throw dbError;
+        const result = await bulkDeleteScreenshotsAction(
+            submissionsToDelete.map(s => ({ id: s.id, screenshot_url: s.screenshot_url }))
+        );
+        if (!result.success) {
+            toast({ title: 'Error', description: result.message, variant: 'destructive' });
+            return;
+        }
         
-        toast({ title: 'Success', description: `Successfully deleted ${pathsToDelete.length} screenshots.` });
+        toast({ title: 'Success', description: result.message });
         await fetchSubmissions(true);
         await fetchSubmissionStats();
 
@@ -1640,18 +1731,13 @@ export default function AdminPage() {
   };
   
   const deleteCharacter = async (characterId: string, characterType: 'killer' | 'survivor') => {
-    if (!confirm(`Are you sure you want to delete this ${characterType}? This is irreversible and will delete all associated P100 players and submissions.`)) {
+    if (!confirm(`Are you sure you want to delete this ${characterType}? It will be moved to the trash along with all associated P100 players and submissions.`)) {
       return;
     }
     setDeletingItem(characterId);
     try {
-      const supabase = createAdminClient();
-      const playerColumn = characterType === 'killer' ? 'killer_id' : 'survivor_id';
-      const tableName = characterType === 'killer' ? 'killers' : 'survivors';
-      
-      await supabase.from('p100_players').delete().eq(playerColumn, characterId);
-      await supabase.from('p100_submissions').delete().eq(playerColumn, characterId);
-      await supabase.from(tableName).delete().eq('id', characterId);
+      const result = await deleteCharacterAction(characterId, characterType);
+      if (!result.success) throw new Error(result.message);
 
       toast({ title: 'Success', description: `${characterType} deleted successfully.` });
       await fetchAllCharacters();
@@ -1666,103 +1752,161 @@ export default function AdminPage() {
 
   const saveKiller = async (killerData: any) => {
     try {
-      const supabase = createAdminClient();
-      const { id, created_at, _artworks, header_url, background_image_url, artist_urls, legacy_header_urls, ...rest } = killerData;
-      // Only send valid DB columns
-      const updateData = { ...rest };
-      if (header_url !== undefined) updateData.header_url = header_url;
-      if (background_image_url !== undefined) updateData.background_image_url = background_image_url;
-      if (artist_urls !== undefined) updateData.artist_urls = artist_urls;
-      if (legacy_header_urls !== undefined) updateData.legacy_header_urls = legacy_header_urls;
-      let killerId = id;
-      if (id && allKillers.find(k => k.id === id)) {
-        await supabase.from('killers').update(updateData).eq('id', id).throwOnError();
-      } else {
-        const { data: inserted, error: insertErr } = await supabase.from('killers').insert(updateData).select('id').single();
-        if (insertErr) throw insertErr;
-        killerId = inserted.id;
-      }
-
-      // --- ARTWORK SYSTEM SYNC ---
-      if (background_image_url && killerId) {
-        try {
-          const { addArtworkToCharacter } = await import('@/lib/artwork-management');
-          await addArtworkToCharacter(
-            killerId,
-            'killer',
-            background_image_url,
-            'background',
-            undefined,
-            supabase
-          );
-        } catch (artworkErr) {
-          console.warn('Artwork sync failed (background still saved to killers table):', artworkErr);
-        }
-      }
+      const result = await saveCharacterAction(killerData, 'killer');
+      if (!result.success) throw new Error(result.message);
 
       toast({ title: 'Success', description: 'Killer saved successfully.' });
       await fetchAllCharacters();
       setEditingKiller(null);
     } catch (error: any) {
       console.error('Error saving killer:', error);
-      let details = '';
-      if (error instanceof Error) {
-        details = `\nStack: ${error.stack || ''}`;
-      } else if (typeof error === 'object' && error !== null) {
-        details = `\nError object: ${JSON.stringify(error)}`;
-      }
-      toast({ title: 'Error', description: `Failed to save killer: ${error.message || error} ${details}`, variant: 'destructive' });
+      toast({ title: 'Error', description: error.message || 'Failed to save killer.', variant: 'destructive' });
     }
   };
 
   const saveSurvivor = async (survivorData: any) => {
     try {
-      const supabase = createAdminClient();
-      const { id, created_at, _artworks, header_url, background_image_url, artist_urls, legacy_header_urls, ...rest } = survivorData;
-      // Only send valid DB columns
-      const updateData = { ...rest };
-      if (header_url !== undefined) updateData.header_url = header_url;
-      if (background_image_url !== undefined) updateData.background_image_url = background_image_url;
-      if (artist_urls !== undefined) updateData.artist_urls = artist_urls;
-      if (legacy_header_urls !== undefined) updateData.legacy_header_urls = legacy_header_urls;
-      let survivorId = id;
-      if (id && allSurvivors.find(s => s.id === id)) {
-        await supabase.from('survivors').update(updateData).eq('id', id).throwOnError();
-      } else {
-        const { data: inserted, error: insertErr } = await supabase.from('survivors').insert(updateData).select('id').single();
-        if (insertErr) throw insertErr;
-        survivorId = inserted.id;
-      }
-
-      // --- ARTWORK SYSTEM SYNC ---
-      if (background_image_url && survivorId) {
-        try {
-          const { addArtworkToCharacter } = await import('@/lib/artwork-management');
-          await addArtworkToCharacter(
-            survivorId,
-            'survivor',
-            background_image_url,
-            'background',
-            undefined,
-            supabase
-          );
-        } catch (artworkErr) {
-          console.warn('Artwork sync failed (background still saved to survivors table):', artworkErr);
-        }
-      }
+      const result = await saveCharacterAction(survivorData, 'survivor');
+      if (!result.success) throw new Error(result.message);
 
       toast({ title: 'Success', description: 'Survivor saved successfully.' });
       await fetchAllCharacters();
       setEditingSurvivor(null);
     } catch (error: any) {
       console.error('Error saving survivor:', error);
-      let details = '';
-      if (error instanceof Error) {
-        details = `\nStack: ${error.stack || ''}`;
-      } else if (typeof error === 'object' && error !== null) {
-        details = `\nError object: ${JSON.stringify(error)}`;
+      toast({ title: 'Error', description: error.message || 'Failed to save survivor.', variant: 'destructive' });
+    }
+  };
+
+  const openMergeDialog = async () => {
+    setMergeForm({ from: '', to: '' });
+    setShowMergeDialog(true);
+    const result = await getPlayerAliasesAction();
+    if (result.success && 'data' in result) setPlayerAliases(result.data || []);
+  };
+
+  const mergeUsernames = async () => {
+    if (!mergeForm.from.trim() || !mergeForm.to.trim()) {
+      toast({ title: 'Validation Error', description: 'Enter both usernames.', variant: 'destructive' });
+      return;
+    }
+    setIsMerging(true);
+    try {
+      const result = await mergeUsernamesAction(mergeForm.from, mergeForm.to);
+      if (result.success) {
+        toast({ title: 'Success', description: result.message });
+        setShowMergeDialog(false);
+        await fetchP100Players();
+        fetchSubmissions(true);
+      } else {
+        toast({ title: 'Error', description: result.message, variant: 'destructive' });
+      }
+    } finally {
+      setIsMerging(false);
+    }
+  };
+
+  const openImportDialog = () => {
+    setImportText('');
+    setImportCharacter('none');
+    setImportPlan(null);
+    setImportUpdateConflicts(false);
+    setShowImportDialog(true);
+  };
+
+  const loadImportFile = async (file: File | undefined) => {
+    if (!file) return;
+    setImportText(await file.text());
+    setImportPlan(null);
+  };
+
+  const previewImport = async () => {
+    setIsImporting(true);
+    try {
+      const result = await previewP100ImportAction(importText, { defaultCharacter: importCharacter === 'none' ? null : importCharacter });
+      if (!result.success || !('data' in result) || !result.data) {
+        toast({ title: 'Error', description: result.message, variant: 'destructive' });
+        return;
+      }
+      setImportPlan(result.data);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const commitImport = async () => {
+    setIsImporting(true);
+    try {
+      const result = await commitP100ImportAction(importText, { defaultCharacter: importCharacter === 'none' ? null : importCharacter }, importUpdateConflicts);
+      if (result.success) {
+        toast({ title: 'Success', description: result.message });
+        setShowImportDialog(false);
+        await fetchP100Players();
+      } else {
+        toast({ title: 'Error', description: result.message, variant: 'destructive' });
+      }
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const removePlayerAlias = async (alias: string) => {
+    const result = await deletePlayerAliasAction(alias);
+    if (result.success) {
+      setPlayerAliases(prev => prev.filter(a => a.alias !== alias));
+      toast({ title: 'Success', description: result.message });
+    } else {
+      toast({ title: 'Error', description: result.message, variant: 'destructive' });
+    }
+  };
+
+  const openPlayerProfile = async (username: string) => {
+    const result = await getPlayerProfileAction(username);
+    if (result.success && 'data' in result) {
+      setEditingProfile(result.data || null);
+    } else {
+      toast({ title: 'Error', description: result.message, variant: 'destructive' });
+    }
+  };
+
+  const savePlayerProfile = async () => {
+    if (!editingProfile) return;
+    setIsSavingProfile(true);
+    try {
+      const { platform, country, twitch_url, youtube_url, twitter_url } = editingProfile;
+      const result = await savePlayerProfileAction(editingProfile.id, { platform, country, twitch_url, youtube_url, twitter_url });
+      if (result.success) {
+        toast({ title: 'Success', description: result.message });
+        setEditingProfile(null);
+      } else {
+        toast({ title: 'Error', description: result.message, variant: 'destructive' });
       }
-      toast({ title: 'Error', description: `Failed to save survivor: ${error.message || error} ${details}`, variant: 'destructive' });
+    } finally {
+      setIsSavingProfile(false);
+    }
+  };
+
+  const fetchPlayerClaims = async (status: PlayerClaimStatus = claimsFilter) => {
+    const result = await getPlayerClaimsAction(status);
+    if (result.success && 'data' in result) {
+      setPlayerClaims(result.data || []);
+    } else {
+      toast({ title: 'Error', description: result.message, variant: 'destructive' });
+    }
+  };
+
+  const openClaimsDialog = () => {
+    setShowClaimsDialog(true);
+    fetchPlayerClaims();
+  };
+
+  const reviewPlayerClaim = async (claimId: string, status: 'verified' | 'rejected' | 'revoked') => {
+    const result = await reviewPlayerClaimAction(claimId, status);
+    if (result.success) {
+      toast({ title: 'Success', description: result.message });
+      setPlayerClaims(prev => prev.filter(c => c.id !== claimId));
+    } else {
+      toast({ title: 'Error', description: result.message, variant: 'destructive' });
     }
   };
 
@@ -1777,15 +1921,8 @@ export default function AdminPage() {
     }
 
     try {
-      const supabase = createAdminClient();
-      const { id, killers, survivors, ...updateData } = playerData;
-      updateData.username = updateData.username.trim();
-
-      if (id && p100Players.find(p => p.id === id)) {
-        await supabase.from('p100_players').update(updateData).eq('id', id).throwOnError();
-      } else {
-        await supabase.from('p100_players').insert(updateData).throwOnError();
-      }
+      const result = await savePlayerAction(playerData);
+      if (!result.success) throw new Error(result.message);
       toast({ title: 'Success', description: 'Player saved successfully.' });
       await fetchP100Players();
       setEditingPlayer(null);
@@ -1796,10 +1933,10 @@ export default function AdminPage() {
   };
 
   const deletePlayer = async (playerId: string) => {
-    if (!confirm('Are you sure you want to delete this player entry?')) return;
+    if (!confirm('Move this player entry to the trash?')) return;
     try {
-      const supabase = createAdminClient();
-      await supabase.from('p100_players').delete().eq('id', playerId).throwOnError();
+      const result = await deletePlayerAction(playerId);
+      if (!result.success) throw new Error(result.message);
       toast({ title: 'Success', description: 'Player deleted successfully.' });
       await fetchP100Players();
     } catch (error) {
@@ -1810,7 +1947,7 @@ export default function AdminPage() {
   
   const fetchArtists = async () => {
     try {
-      const supabase = createAdminClient();
+      // Artists are public, so the list is read with the anon client.
       const artistsData = await getArtists(supabase);
       setArtists(artistsData);
     } catch (error) {
@@ -1821,14 +1958,8 @@ export default function AdminPage() {
 
   const saveArtist = async (artistData: any) => {
     try {
-        const supabase = createAdminClient();
-        const { id, created_at, slug, ...updateData } = artistData; 
-        
-        if (id && artists.find(a => a.id === id)) {
-            await updateArtist(supabase, id, updateData);
-        } else {
-            await createArtist(supabase, updateData);
-        }
+        const result = await saveArtistAction(artistData);
+        if (!result.success) throw new Error(result.message);
         
         toast({ title: 'Success', description: 'Artist saved successfully.' });
         await fetchArtists();
@@ -1842,8 +1973,8 @@ export default function AdminPage() {
   const handleDeleteArtist = async (artistId: string, artistName: string) => {
     if (!confirm(`Are you sure you want to delete the artist "${artistName}"?`)) return;
     try {
-        const supabase = createAdminClient();
-        await deleteArtist(supabase, artistId);
+        const result = await deleteArtistAction(artistId);
+        if (!result.success) throw new Error(result.message);
         toast({ title: 'Success', description: 'Artist deleted successfully.' });
         await fetchArtists();
     } catch (error: any) {
@@ -1853,25 +1984,15 @@ export default function AdminPage() {
   };
 
   // --- STORAGE & FILE FUNCTIONS ---
-  const uploadImageToStorage = async (file: File, bucket: string, path: string): Promise<string> => {
-    const supabase = createAdminClient();
-    const { error } = await supabase.storage.from(bucket).upload(path, file, { cacheControl: '3600', upsert: true });
-    if (error) throw error;
-    const { data: { publicUrl } } = supabase.storage.from(bucket).getPublicUrl(path);
-    return publicUrl;
-  };
-
   const handleFileUpload = async (files: File[], folder?: string) => {
     setUploadingFiles(files);
     try {
-        const uploadPromises = files.map(file => {
-            const sanitizedFilename = sanitizeFileName(file.name);
-            const path = folder && folder !== 'Root'
-                ? `${folder}/${Date.now()}-${sanitizedFilename}`
-                : `${Date.now()}-${sanitizedFilename}`;
-            return uploadImageToStorage(file, selectedBucket, path);
-        });
-        await Promise.all(uploadPromises);
+        const formData = new FormData();
+        files.forEach(file => formData.append('files', file));
+        formData.append('bucket', selectedBucket);
+        formData.append('folder', folder || 'Root');
+        const result = await uploadFilesAction(formData);
+        if (!result.success) throw new Error(result.message);
         toast({ title: 'Success', description: `${files.length} file(s) uploaded successfully.` });
         await fetchStorageItems(selectedBucket);
     } catch (error: any) {
@@ -1917,10 +2038,9 @@ export default function AdminPage() {
       toast({ title: 'Error', description: 'Invalid folder name.', variant: 'destructive' });
       return;
     }
-    const placeholderFile = new File([''], '.placeholder', { type: 'text/plain' });
-    const filePath = `${sanitizedFolderName}/.placeholder`;
     try {
-        await uploadImageToStorage(placeholderFile, selectedBucket, filePath);
+        const result = await createFolderAction(selectedBucket, sanitizedFolderName);
+        if (!result.success) throw new Error(result.message);
         toast({ title: 'Success', description: `Folder "${sanitizedFolderName}" created.` });
         await fetchStorageItems(selectedBucket);
     } catch (error: any) {
@@ -1932,9 +2052,8 @@ export default function AdminPage() {
     if (!confirm(`Are you sure you want to delete "${path}" from the "${bucket}" bucket? This is irreversible.`)) return;
     setDeletingFile(path);
     try {
-        const supabase = createAdminClient();
-        const { error } = await supabase.storage.from(bucket).remove([path]);
-        if (error) throw error;
+        const result = await deleteStorageItemAction(bucket, path);
+        if (!result.success) throw new Error(result.message);
         toast({ title: 'Success', description: 'File deleted successfully.' });
         await fetchStorageItems(bucket);
     } catch (error) {
@@ -1953,62 +2072,12 @@ export default function AdminPage() {
     
     setIsRenaming(true);
     const { bucket, path: oldPath } = renamingItem;
-    const oldName = oldPath.split('/').pop() || '';
-    const fileExtension = oldName.includes('.') ? `.${oldName.split('.').pop()}` : '';
-    let sanitizedNewName = sanitizeFileName(newFileName);
-
-    if (fileExtension && !sanitizedNewName.endsWith(fileExtension)) {
-        sanitizedNewName = sanitizedNewName.split('.')[0] + fileExtension;
-    }
-    
-    if (sanitizedNewName === oldName) {
-        setRenamingItem(null);
-        setIsRenaming(false);
-        return;
-    }
-
-    const pathParts = oldPath.split('/');
-    pathParts.pop();
-    const newPath = pathParts.length > 0 ? `${pathParts.join('/')}/${sanitizedNewName}` : sanitizedNewName;
 
     try {
-        const supabaseAdmin = createAdminClient();
-        const { error: moveError } = await supabaseAdmin.storage.from(bucket).move(oldPath, newPath);
-        if (moveError) throw new Error(`Storage error: ${moveError.message}`);
-
-        const { data: { publicUrl: oldPublicUrl } } = supabase.storage.from(bucket).getPublicUrl(oldPath);
-        const { data: { publicUrl: newPublicUrl } } = supabase.storage.from(bucket).getPublicUrl(newPath);
-
-        if (!oldPublicUrl || !newPublicUrl) throw new Error("Could not generate public URLs.");
-
-        const tablesToUpdate = {
-            'killers': ['image_url', 'background_image_url', 'header_url', 'artist_urls', 'legacy_header_urls'],
-            'survivors': ['image_url', 'background_image_url', 'header_url', 'artist_urls', 'legacy_header_urls'],
-        };
-        const arrayFields = ['artist_urls', 'legacy_header_urls'];
-
-        for (const [table, columns] of Object.entries(tablesToUpdate)) {
-            for (const column of columns) {
-                if (arrayFields.includes(column)) {
-                    const { data, error } = await supabaseAdmin.from(table).select(`id, ${column}`).contains(column, [oldPublicUrl]);
-                    if (error) {
-                        console.error(`Error selecting from ${table} for array update:`, error);
-                        continue;
-                    }
-                    if (data && data.length > 0) {
-                        for (const row of data as unknown as { id: string; [key: string]: any }[]) {
-                            const urls: string[] = Array.isArray(row[column]) ? row[column] : [];
-                            const updatedArray = urls.map((url: string) => url === oldPublicUrl ? newPublicUrl : url);
-                            const { error: updateError } = await supabaseAdmin.from(table).update({ [column]: updatedArray }).eq('id', row.id);
-                            if (updateError) console.error(`Failed to update row ${row.id} in ${table}:`, updateError);
-                        }
-                    }
-                } else {
-                    const { error: updateError } = await supabaseAdmin.from(table).update({ [column]: newPublicUrl }).eq(column, oldPublicUrl);
-                    if (updateError) console.error(`Failed to update ${column} in ${table}:`, updateError);
-                }
-            }
-        }
+        const result = await renameStorageItemAction(bucket, oldPath, newFileName);
+        if (!result.success || !('data' in result) || !result.data) throw new Error(result.message);
+        if (!result.data.renamed) return;
+        const { oldName, newName: sanitizedNewName } = result.data;
         
         toast({ title: 'Success', description: `Renamed "${oldName}" to "${sanitizedNewName}". References updated.` });
         
@@ -2049,46 +2118,14 @@ export default function AdminPage() {
 
     setUploadingArtwork(true);
     try {
-  const supabase = createAdminClient();
-  const selectedArtist = artists.find(a => a.id === artworkUploadForm.artistId);
-  const artistNameRaw = (selectedArtist?.name || 'unknown').trim();
-  // Use a storage-safe base name, and URL-encode the artist identifier after "-by-".
-  // This preserves special characters when analytics runs decodeURIComponent() on URLs.
-  const timestamp = Date.now();
-  const fileExtension = artworkUploadForm.artworkFile.name.split('.').pop();
-  const baseSafe = sanitizeFileName(`${artworkUploadForm.characterId}-${timestamp}`);
-  const artistIdentifier = encodeURIComponent(artistNameRaw);
-  const fileName = `${baseSafe}-by-${artistIdentifier}.${fileExtension}`;
-      
-      const artworkUrl = await uploadImageToStorage(artworkUploadForm.artworkFile, 'artworks', fileName);
-      
-      const tableName = artworkUploadForm.characterType === 'killer' ? 'killers' : 'survivors';
-      const { data: character, error: fetchError } = await supabase
-        .from(tableName)
-        .select('*')
-        .eq('id', artworkUploadForm.characterId)
-        .single();
-      
-      if (fetchError) throw fetchError;
-      
-      let updateData = {};
-      
-      if (artworkUploadForm.placement === 'gallery') {
-        const currentUrls = character.artist_urls || [];
-        updateData = { artist_urls: [...currentUrls, artworkUrl] };
-      } else if (artworkUploadForm.placement === 'header') {
-        updateData = { header_url: artworkUrl };
-      } else if (artworkUploadForm.placement === 'legacy_header') {
-        const currentUrls = character.legacy_header_urls || [];
-        updateData = { legacy_header_urls: [...currentUrls, artworkUrl] };
-      }
-      
-      const { error: updateError } = await supabase
-        .from(tableName)
-        .update(updateData)
-        .eq('id', artworkUploadForm.characterId);
-      
-      if (updateError) throw updateError;
+      const formData = new FormData();
+      formData.append('artworkFile', artworkUploadForm.artworkFile);
+      formData.append('characterId', artworkUploadForm.characterId);
+      formData.append('characterType', artworkUploadForm.characterType);
+      formData.append('artistId', artworkUploadForm.artistId);
+      formData.append('placement', artworkUploadForm.placement);
+      const result = await addArtworkToCharacterAction(formData);
+      if (!result.success) throw new Error(result.message);
       
       toast({ title: 'Success', description: 'Artwork uploaded and added to character successfully!' });
       
@@ -2120,61 +2157,16 @@ export default function AdminPage() {
 
     setCreatingCharacter(true);
     try {
-      const supabase = createAdminClient();
-      const timestamp = Date.now();
-      
-      const imageExtension = newCharacterForm.image.name.split('.').pop();
-      const imageBucket = newCharacterForm.type === 'killer' ? 'killerimages' : 'survivors';
-      const imagePath = `${newCharacterForm.id}.${imageExtension}`;
-      const imageUrl = await uploadImageToStorage(newCharacterForm.image, imageBucket, imagePath);
-      
-      let backgroundImageUrl = '';
-      if (newCharacterForm.backgroundImage) {
-        const bgExtension = newCharacterForm.backgroundImage.name.split('.').pop();
-        const bgBucket = newCharacterForm.type === 'killer' ? 'backgrounds' : 'survivorbackgrounds';
-        const bgPath = `${newCharacterForm.id}.${bgExtension}`;
-        backgroundImageUrl = await uploadImageToStorage(newCharacterForm.backgroundImage, bgBucket, bgPath);
-      }
-      
-      let headerUrl = '';
-      if (newCharacterForm.headerImage) {
-        const headerExtension = newCharacterForm.headerImage.name.split('.').pop();
-        const headerPath = `${newCharacterForm.id}-header.${headerExtension}`;
-        headerUrl = await uploadImageToStorage(newCharacterForm.headerImage, 'backgrounds', headerPath);
-      }
-      
-      let artistUrls: string[] = [];
-      if (newCharacterForm.artistImages.length > 0) {
-        const uploadPromises = newCharacterForm.artistImages.map(async (file, index) => {
-          const extension = file.name.split('.').pop();
-          const fileName = `${newCharacterForm.id}-artwork-${index + 1}-${timestamp}.${extension}`;
-          return uploadImageToStorage(file, 'artworks', fileName);
-        });
-        artistUrls = await Promise.all(uploadPromises);
-      }
-      
-      const tableName = newCharacterForm.type === 'killer' ? 'killers' : 'survivors';
-      const orderField = newCharacterForm.type === 'killer' ? 'order' : 'order_num';
-      const maxOrder = newCharacterForm.type === 'killer' 
-        ? Math.max(...allKillers.map(k => k.order || 0), 0)
-        : Math.max(...allSurvivors.map(s => s.order_num || 0), 0);
-      
-      const characterData = {
-        id: newCharacterForm.id,
-        name: newCharacterForm.name,
-        image_url: imageUrl,
-        background_image_url: backgroundImageUrl || null,
-        header_url: headerUrl || null,
-        artist_urls: artistUrls,
-        legacy_header_urls: [],
-        [orderField]: maxOrder + 1
-      };
-      
-      const { error: insertError } = await supabase
-        .from(tableName)
-        .insert(characterData);
-      
-      if (insertError) throw insertError;
+      const formData = new FormData();
+      formData.append('name', newCharacterForm.name);
+      formData.append('id', newCharacterForm.id);
+      formData.append('type', newCharacterForm.type);
+      formData.append('image', newCharacterForm.image);
+      if (newCharacterForm.backgroundImage) formData.append('backgroundImage', newCharacterForm.backgroundImage);
+      if (newCharacterForm.headerImage) formData.append('headerImage', newCharacterForm.headerImage);
+      newCharacterForm.artistImages.forEach(file => formData.append('artistImages', file));
+      const result = await createNewCharacterAction(formData);
+      if (!result.success) throw new Error(result.message);
       
       toast({ title: 'Success', description: `${newCharacterForm.type === 'killer' ? 'Killer' : 'Survivor'} "${newCharacterForm.name}" created successfully!` });
       
@@ -2200,7 +2192,7 @@ export default function AdminPage() {
   };
   
   // --- RENDER LOGIC ---
-  const getCharacterName = (submission: Submission) => {
+  const getCharacterName = (submission: { killer_id?: string | null; survivor_id?: string | null }) => {
     if (submission.killer_id) {
       return killers.find(k => k.id === submission.killer_id)?.name || submission.killer_id;
     } else if (submission.survivor_id) {
@@ -2300,6 +2292,19 @@ export default function AdminPage() {
           <div className="bg-black/80 backdrop-blur-sm border border-red-600 rounded-lg p-8">
             <h1 className="text-2xl font-bold text-white text-center mb-8">Admin Login</h1>
             <form onSubmit={handleLogin} className="space-y-6">
+              <div>
+                <Label htmlFor="username" className="text-white block mb-2">Username</Label>
+                <Input
+                  id="username"
+                  type="text"
+                  autoComplete="username"
+                  value={loginUsername}
+                  onChange={(e) => setLoginUsername(e.target.value)}
+                  className="bg-black border-red-600 text-white"
+                  disabled={authLoading || isLockedOut}
+                  placeholder="Enter username..."
+                />
+              </div>
               <div>
                 <Label htmlFor="password" className="text-white block mb-2">Password</Label>
                 <Input
@@ -2308,12 +2313,13 @@ export default function AdminPage() {
                   value={password}
                   onChange={(e) => setPassword(e.target.value)}
                   className="bg-black border-red-600 text-white"
-                  disabled={authLoading || loginAttempts.isLocked}
-                  placeholder="Enter admin password..."
+                  disabled={authLoading || isLockedOut}
+                  autoComplete="current-password"
+                  placeholder="Enter password..."
                 />
               </div>
               
-              {loginAttempts.isLocked && (
+              {isLockedOut && (
                 <div className="bg-red-900/50 border border-red-500 rounded p-3">
                   <p className="text-red-200">Account locked</p>
                   <p className="text-red-300 text-sm mt-1">Try again in {formatTime(lockoutTimeRemaining)}</p>
@@ -2322,7 +2328,7 @@ export default function AdminPage() {
               
               <Button
                 type="submit"
-                disabled={authLoading || loginAttempts.isLocked || !password.trim()}
+                disabled={authLoading || isLockedOut || !loginUsername.trim() || !password.trim()}
                 className="w-full bg-red-600 hover:bg-red-700"
               >
                 {authLoading ? 'Logging in...' : 'Login'}
@@ -2340,21 +2346,31 @@ export default function AdminPage() {
       <div className="container mx-auto px-4 py-8 max-w-7xl">
         <div className="flex justify-between items-center mb-8">
           <h1 className="text-3xl font-bold text-white">Admin Dashboard</h1>
-          <Button onClick={handleLogout} variant="outline" className="border-red-600 text-white hover:bg-red-900">Logout</Button>
+          <div className="flex items-center gap-4">
+            <span className="text-gray-300 text-sm">
+              {adminUsername} <span className="text-gray-500">({MODERATOR_ROLES.find(r => r.value === adminRole)?.label})</span>
+            </span>
+            <Button onClick={handleLogout} variant="outline" className="border-red-600 text-white hover:bg-red-900">Logout</Button>
+          </div>
         </div>
 
         <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
           <TabsList className="bg-black border border-red-600">
-            <TabsTrigger value="submissions" className="data-[state=active]:bg-red-600">Submissions</TabsTrigger>
-            <TabsTrigger value="quick-artwork" className="data-[state=active]:bg-red-600">Add Artwork</TabsTrigger>
-            <TabsTrigger value="quick-character" className="data-[state=active]:bg-red-600">Add Character</TabsTrigger>
-            <TabsTrigger value="killers-table" className="data-[state=active]:bg-red-600">Killers</TabsTrigger>
-            <TabsTrigger value="survivors-table" className="data-[state=active]:bg-red-600">Survivors</TabsTrigger>
-            <TabsTrigger value="players-table" className="data-[state=active]:bg-red-600">Players</TabsTrigger>
-            <TabsTrigger value="artists-table" className="data-[state=active]:bg-red-600">Artists</TabsTrigger>
-            <TabsTrigger value="storage-manager" className="data-[state=active]:bg-red-600" onClick={() => { if(!storageItems.length) fetchStorageItems(selectedBucket); }}>Storage</TabsTrigger>
-            <TabsTrigger value="artworks" className="data-[state=active]:bg-red-600" onClick={() => { if(!artworks.length) refreshArtworks(); }}>Artworks</TabsTrigger>
-            <TabsTrigger value="blacklist" className="data-[state=active]:bg-red-600" onClick={() => { if(!blacklistedUsers.length) fetchBlacklistedUsers(); }}>Blacklist</TabsTrigger>
+            {canSeeTab('submissions') && <TabsTrigger value="submissions" className="data-[state=active]:bg-red-600">Submissions</TabsTrigger>}
+            {canSeeTab('rejection-reasons') && <TabsTrigger value="rejection-reasons" className="data-[state=active]:bg-red-600" onClick={() => { fetchRejectionReasonStats(); }}>Reject Reasons</TabsTrigger>}
+            {canSeeTab('quick-artwork') && <TabsTrigger value="quick-artwork" className="data-[state=active]:bg-red-600">Add Artwork</TabsTrigger>}
+            {canSeeTab('quick-character') && <TabsTrigger value="quick-character" className="data-[state=active]:bg-red-600">Add Character</TabsTrigger>}
+            {canSeeTab('killers-table') && <TabsTrigger value="killers-table" className="data-[state=active]:bg-red-600">Killers</TabsTrigger>}
+            {canSeeTab('survivors-table') && <TabsTrigger value="survivors-table" className="data-[state=active]:bg-red-600">Survivors</TabsTrigger>}
+            {canSeeTab('players-table') && <TabsTrigger value="players-table" className="data-[state=active]:bg-red-600">Players</TabsTrigger>}
+            {canSeeTab('artists-table') && <TabsTrigger value="artists-table" className="data-[state=active]:bg-red-600">Artists</TabsTrigger>}
+            {canSeeTab('storage-manager') && <TabsTrigger value="storage-manager" className="data-[state=active]:bg-red-600" onClick={() => { if(!storageItems.length) fetchStorageItems(selectedBucket); }}>Storage</TabsTrigger>}
+            {canSeeTab('artworks') && <TabsTrigger value="artworks" className="data-[state=active]:bg-red-600" onClick={() => { if(!artworks.length) refreshArtworks(); }}>Artworks</TabsTrigger>}
+            {canSeeTab('blacklist') && <TabsTrigger value="blacklist" className="data-[state=active]:bg-red-600" onClick={() => { if(!blacklistedUsers.length) fetchBlacklistedUsers(); }}>Blacklist</TabsTrigger>}
+            {canSeeTab('trash') && <TabsTrigger value="trash" className="data-[state=active]:bg-red-600" onClick={() => { fetchTrash(); }}>Trash</TabsTrigger>}
+            {canSeeTab('audit') && <TabsTrigger value="audit" className="data-[state=active]:bg-red-600" onClick={() => { if(!auditEntries.length) fetchAuditLog(); }}>Audit</TabsTrigger>}
+            {canSeeTab('settings') && <TabsTrigger value="settings" className="data-[state=active]:bg-red-600" onClick={() => { fetchRateLimits(); fetchRetentionPolicy(); }}>Settings</TabsTrigger>}
+            {canSeeTab('moderators') && <TabsTrigger value="moderators" className="data-[state=active]:bg-red-600" onClick={() => { if(!moderators.length) fetchModerators(); }}>Moderators</TabsTrigger>}
           </TabsList>
 
           <TabsContent value="submissions" className="space-y-6">
@@ -2394,7 +2410,7 @@ export default function AdminPage() {
                     <Label className="text-white">Filter by Status</Label>
                     <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as any)}>
                         <SelectTrigger className="bg-black border-red-600 text-white w-32 ml-2"><SelectValue /></SelectTrigger>
-                        <SelectContent className="bg-black border-red-600"><SelectItem value="all">All</SelectItem><SelectItem value="pending">Pending</SelectItem><SelectItem value="approved">Approved</SelectItem><SelectItem value="rejected">Rejected</SelectItem></SelectContent>
+                        <SelectContent className="bg-black border-red-600"><SelectItem value="all">All</SelectItem><SelectItem value="pending">Pending</SelectItem><SelectItem value="approved">Approved</SelectItem><SelectItem value="rejected">Rejected</SelectItem><SelectItem value="withdrawn">Withdrawn</SelectItem></SelectContent>
                     </Select>
                   </div>
                   <div>
@@ -2416,6 +2432,15 @@ export default function AdminPage() {
                     try { return `Last approval: ${new Date(ts).toLocaleString()}`; } catch { return 'Last approval: (invalid date)'; }
                   })()}
                 </div>
+                <Button
+                  onClick={() => setIsReviewMode(true)}
+                  disabled={!submissions.some(s => s.status === 'pending')}
+                  className="bg-green-700 hover:bg-green-600"
+                  title="Review pending submissions one by one with keyboard shortcuts"
+                >
+                  <Eye className="mr-2 h-4 w-4" />
+                  Review Mode ({submissions.filter(s => s.status === 'pending').length})
+                </Button>
                 <Dialog open={showBulkDeleteConfirm} onOpenChange={setShowBulkDeleteConfirm}>
                     <DialogTrigger asChild>
                         <Button variant="destructive" className="bg-red-800 hover:bg-red-700">
@@ -2462,6 +2487,17 @@ export default function AdminPage() {
                 <div className="mb-4 text-sm text-gray-400">
                   Showing {submissions.length} of {filteredSubmissionsCount} submissions
                 </div>
+                {batchFilter && (
+                  <div className="mb-4 flex flex-wrap items-center gap-3 bg-purple-900/30 border border-purple-600 rounded p-3 text-sm text-white">
+                    <span>Showing one batch submission ({filteredSubmissionsCount} entries).</span>
+                    <Button size="sm" className="h-7 bg-purple-700 hover:bg-purple-600" onClick={() => setSelectedSubmissions(new Set(submissions.filter(s => s.status === 'pending').map(s => s.id)))}>
+                      Select all pending
+                    </Button>
+                    <Button size="sm" variant="outline" className="h-7 border-purple-600 text-white" onClick={() => { setBatchFilter(null); setSelectedSubmissions(new Set()); }}>
+                      Show all submissions
+                    </Button>
+                  </div>
+                )}
                 <Table>
                   <TableHeader><TableRow className="border-red-600"><TableHead className="text-white w-10"><input type="checkbox" className="w-4 h-4 accent-red-600" checked={submissions.filter(s => s.status === 'pending' && (!submissionSearch || s.username.toLowerCase().includes(submissionSearch.toLowerCase()))).length > 0 && submissions.filter(s => s.status === 'pending' && (!submissionSearch || s.username.toLowerCase().includes(submissionSearch.toLowerCase()))).every(s => selectedSubmissions.has(s.id))} onChange={(e) => { const pendingIds = submissions.filter(s => s.status === 'pending' && (!submissionSearch || s.username.toLowerCase().includes(submissionSearch.toLowerCase()))).map(s => s.id); if (e.target.checked) { setSelectedSubmissions(prev => { const next = new Set(prev); pendingIds.forEach(id => next.add(id)); return next; }); } else { setSelectedSubmissions(prev => { const next = new Set(prev); pendingIds.forEach(id => next.delete(id)); return next; }); } }} /></TableHead><TableHead className="text-white">Username</TableHead><TableHead className="text-white">Character</TableHead><TableHead className="text-white">Date</TableHead><TableHead className="text-white">Status</TableHead><TableHead className="text-white">Screenshot</TableHead><TableHead className="text-white">Comment</TableHead><TableHead className="text-white">Actions</TableHead></TableRow></TableHeader>
                   <TableBody>
@@ -2490,9 +2526,8 @@ export default function AdminPage() {
                                   const newName = editingSubmissionValue.trim();
                                   if (!newName) { toast({ title: 'Validation', description: 'Username cannot be empty.', variant: 'destructive' }); return; }
                                   try {
-                                    const supabase = createAdminClient();
-                                    const { error } = await supabase.from('p100_submissions').update({ username: newName }).eq('id', submission.id);
-                                    if (error) throw error;
+                                    const result = await updateSubmissionUsernameAction(submission.id, newName);
+                                    if (!result.success) throw new Error(result.message);
                                     toast({ title: 'Updated', description: 'Username updated.' });
                                     // reflect locally
                                     setSubmissions(prev => prev.map(p => p.id === submission.id ? { ...p, username: newName } : p));
@@ -2510,20 +2545,93 @@ export default function AdminPage() {
                             <div className="flex items-center gap-2">
                               {/* Decode legacy stored HTML entities (&lt; &gt;) so hearts like <3 render properly */}
                               <span>{submission.username.replace(/&lt;/g, '<').replace(/&gt;/g, '>')}</span>
-                              {submission.status === 'pending' && (
-                                <Button size="icon" variant="outline" className="h-6 w-6 border-blue-600 text-blue-400" onClick={() => { setEditingSubmissionUsername(submission.id); setEditingSubmissionValue(submission.username); }}>
-                                  <Pencil size={12} />
-                                </Button>
+                              {submission.batch_id && !batchFilter && (
+                                <button
+                                  onClick={() => { setBatchFilter(submission.batch_id!); setSelectedSubmissions(new Set()); }}
+                                  className="px-2 py-0.5 rounded text-xs bg-purple-700 text-white hover:bg-purple-600"
+                                  title="Submitted together with other P100s; show the whole batch"
+                                >
+                                  Batch
+                                </button>
+                              )}
+                              {(submission.edited_at || submission.status === 'withdrawn') && (
+                                <button
+                                  onClick={() => openSubmissionHistory(submission)}
+                                  className="px-2 py-0.5 rounded text-xs bg-gray-600 text-white hover:bg-gray-500"
+                                  title="Changed by the submitter after submitting; show the history"
+                                >
+                                  {submission.status === 'withdrawn' ? 'History' : 'Edited'}
+                                </button>
+                              )}
+                              {(['p200', 'legacy'] as const).filter(flag => submission[flag]).map(flag => (
+                                <span
+                                  key={flag}
+                                  className={`inline-flex items-center gap-1 px-2 py-0.5 rounded text-xs text-white ${flag === 'p200' ? 'bg-purple-600' : 'bg-orange-600'}`}
+                                  title={submission.claim_notes || undefined}
+                                >
+                                  {flag === 'p200' ? 'P200' : 'Legacy'}{submission.status === 'pending' && ' claim'}
+                                  {submission.status === 'pending' && (
+                                    <button
+                                      onClick={() => updateSubmissionClaims(submission, { p200: !!submission.p200, legacy: !!submission.legacy, [flag]: false })}
+                                      className="hover:text-black"
+                                      title="Drop this claim; the P100 itself can still be approved"
+                                    >
+                                      ✕
+                                    </button>
+                                  )}
+                                </span>
+                              ))}
+                              {canSeeTab('blacklist') && submission.submitter_ip && (
+                                <button
+                                  onClick={() => prefillBlacklistRule('ip', submission.submitter_ip!, `Submission by ${submission.username}`)}
+                                  className="px-2 py-0.5 rounded text-xs border border-red-600 text-red-300 hover:bg-red-900"
+                                  title={`Submitted from ${submission.submitter_ip}; ban this IP`}
+                                >
+                                  Ban IP
+                                </button>
+                              )}
+                              {canSeeTab('blacklist') && submission.submitter_fingerprint && (
+                                <button
+                                  onClick={() => prefillBlacklistRule('fingerprint', submission.submitter_fingerprint!, `Submission by ${submission.username}`)}
+                                  className="px-2 py-0.5 rounded text-xs border border-red-600 text-red-300 hover:bg-red-900"
+                                  title="Ban the browser this was submitted from"
+                                >
+                                  Ban device
+                                </button>
+                              )}
+                              {submission.status === 'pending' && screenshotMatches[submission.id] && (
+                                <button
+                                  onClick={() => setComparingSubmission(submission)}
+                                  className="px-2 py-0.5 rounded text-xs bg-amber-500 text-black hover:bg-amber-400"
+                                  title="This screenshot looks like another pending or approved submission"
+                                >
+                                  Possible duplicate
+                                </button>
+                              )}
+                              {submission.status === 'pending' && (
+                                <Button size="icon" variant="outline" className="h-6 w-6 border-blue-600 text-blue-400" onClick={() => { setEditingSubmissionUsername(submission.id); setEditingSubmissionValue(submission.username); }}>
+                                  <Pencil size={12} />
+                                </Button>
                               )}
                             </div>
                           )}
                         </TableCell>
                         <TableCell className="text-white">{getCharacterName(submission)}</TableCell>
                         <TableCell className="text-white">{new Date(submission.submitted_at).toLocaleDateString()}</TableCell>
-                        <TableCell><span className={`px-2 py-1 rounded text-sm ${submission.status === 'pending' ? 'bg-yellow-600 text-black' : submission.status === 'approved' ? 'bg-green-600 text-white' : 'bg-red-600 text-white'}`}>{submission.status}</span></TableCell>
+                        <TableCell><span className={`px-2 py-1 rounded text-sm ${submission.status === 'pending' ? 'bg-yellow-600 text-black' : submission.status === 'approved' ? 'bg-green-600 text-white' : submission.status === 'withdrawn' ? 'bg-gray-600 text-white' : 'bg-red-600 text-white'}`}>{submission.status}</span></TableCell>
                         <TableCell>
                           {submission.screenshot_url ? (
-                            <a href={submission.screenshot_url} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:text-blue-300 underline">View</a>
+                            <div className="flex items-center gap-2">
+                              <a href={submission.screenshot_url} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:text-blue-300 underline">View</a>
+                              {submission.status === 'pending' && (
+                                <button onClick={() => openOriginalScreenshot(submission.id)} className="text-gray-400 hover:text-gray-300 underline text-sm" title="Unprocessed upload, kept until review">Original</button>
+                              )}
+                              {submission.status === 'pending' && submission.claim_evidence_path && (
+                                <button onClick={() => openOriginalScreenshot(submission.id, 'evidence')} className="text-purple-400 hover:text-purple-300 underline text-sm" title={submission.claim_notes || 'Evidence for the P200 / legacy claim'}>Evidence</button>
+                              )}
+                            </div>
+                          ) : submission.screenshot_purged_at ? (
+                            <span className="text-gray-500" title={new Date(submission.screenshot_purged_at).toLocaleString()}>Purged</span>
                           ) : (
                             <span className="text-gray-500">None</span>
                           )}
@@ -2558,7 +2666,7 @@ export default function AdminPage() {
                             {submission.status === 'pending' && (
                               <>
                                 <Button size="sm" onClick={() => updateSubmissionStatus(submission.id, 'approved')} className="bg-green-600 hover:bg-green-700">Approve</Button>
-                                <Dialog>
+                                <Dialog onOpenChange={(open) => { if (open) setRowRejectReasonId('none'); }}>
                                   <DialogTrigger asChild><Button size="sm" variant="destructive" className="bg-red-600 hover:bg-red-700">Reject</Button></DialogTrigger>
                                   <DialogContent className="bg-black border-red-600">
                                     <DialogHeader><DialogTitle className="text-white">Reject Submission</DialogTitle></DialogHeader>
@@ -2569,9 +2677,17 @@ export default function AdminPage() {
                                           <p className="text-white text-sm mt-1">{submission.comment}</p>
                                         </div>
                                       )}
-                                      <Label className="text-white">Rejection Reason (Optional)</Label>
-                                      <Input id={`rejection-${submission.id}`} placeholder="Enter reason..." className="bg-black border-red-600 text-white" />
-                                      <Button onClick={() => { const reason = (document.getElementById(`rejection-${submission.id}`) as HTMLInputElement).value; updateSubmissionStatus(submission.id, 'rejected', reason); }} className="bg-red-600 hover:bg-red-700 w-full">Confirm Rejection</Button>
+                                      <Label className="text-white">Rejection Reason</Label>
+                                      <Select value={rowRejectReasonId} onValueChange={setRowRejectReasonId}>
+                                        <SelectTrigger className="bg-black border-red-600 text-white"><SelectValue /></SelectTrigger>
+                                        <SelectContent>
+                                          <SelectItem value="none">No canned reason</SelectItem>
+                                          {rejectionReasons.map(reason => <SelectItem key={reason.id} value={reason.id}>{reason.label}</SelectItem>)}
+                                        </SelectContent>
+                                      </Select>
+                                      <Label className="text-white">Additional Details (Optional)</Label>
+                                      <Input id={`rejection-${submission.id}`} placeholder="Enter details..." className="bg-black border-red-600 text-white" />
+                                      <Button onClick={() => { const reason = (document.getElementById(`rejection-${submission.id}`) as HTMLInputElement).value; updateSubmissionStatus(submission.id, 'rejected', reason, rowRejectReasonId === 'none' ? undefined : rowRejectReasonId); }} className="bg-red-600 hover:bg-red-700 w-full">Confirm Rejection</Button>
                                     </div>
                                   </DialogContent>
                                 </Dialog>
@@ -2614,6 +2730,107 @@ export default function AdminPage() {
             </div>
           </TabsContent>
 
+          <TabsContent value="rejection-reasons" className="space-y-6">
+            <div className="bg-black/80 backdrop-blur-sm border border-red-600 rounded-lg p-6">
+              <h2 className="text-2xl font-bold text-white mb-6">Rejection Reasons</h2>
+
+              {/* Add Reason */}
+              <div className="bg-red-900/20 border border-red-600 rounded-lg p-4 mb-6">
+                <h3 className="text-white font-semibold mb-3">Add Reason</h3>
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                  <div className="md:col-span-3">
+                    <Label className="text-white">Reason</Label>
+                    <Input
+                      value={newRejectionReason.label}
+                      onChange={(e) => setNewRejectionReason({ ...newRejectionReason, label: e.target.value })}
+                      placeholder="e.g. Prestige not visible"
+                      className="bg-black border-red-600 text-white mt-1"
+                    />
+                  </div>
+                  <div>
+                    <Label className="text-white">Order</Label>
+                    <Input
+                      type="number"
+                      value={newRejectionReason.sort_order}
+                      onChange={(e) => setNewRejectionReason({ ...newRejectionReason, sort_order: Number(e.target.value) })}
+                      className="bg-black border-red-600 text-white mt-1"
+                    />
+                  </div>
+                </div>
+                <div className="flex justify-end mt-3">
+                  <Button
+                    onClick={() => handleSaveRejectionReason(null, { ...newRejectionReason, is_active: true })}
+                    disabled={isSavingRejectionReason || !newRejectionReason.label.trim()}
+                    className="bg-red-600 hover:bg-red-700"
+                  >
+                    {isSavingRejectionReason ? 'Adding...' : 'Add Reason'}
+                  </Button>
+                </div>
+              </div>
+
+              {/* Reasons Table, most used first */}
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-b border-red-600">
+                      <th className="text-left text-white p-3">Reason</th>
+                      <th className="text-left text-white p-3">Order</th>
+                      <th className="text-left text-white p-3">Active</th>
+                      <th className="text-left text-white p-3">Times Used</th>
+                      <th className="text-right text-white p-3">Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {[...rejectionReasonStats].sort((a, b) => b.usage_count - a.usage_count || a.sort_order - b.sort_order).map((reason) => (
+                      <tr key={reason.id} className="border-b border-red-600/30">
+                        <td className={`p-3 ${reason.is_active ? 'text-white' : 'text-gray-500'}`}>{reason.label}</td>
+                        <td className="p-3">
+                          <Input
+                            type="number"
+                            defaultValue={reason.sort_order}
+                            onBlur={(e) => { const sortOrder = Number(e.target.value); if (sortOrder !== reason.sort_order) handleSaveRejectionReason(reason.id, { label: reason.label, sort_order: sortOrder, is_active: reason.is_active }); }}
+                            className="bg-black border-red-600 text-white w-20"
+                          />
+                        </td>
+                        <td className="p-3">
+                          <input
+                            type="checkbox"
+                            className="w-4 h-4 accent-red-600"
+                            checked={reason.is_active}
+                            disabled={isSavingRejectionReason}
+                            onChange={(e) => handleSaveRejectionReason(reason.id, { label: reason.label, sort_order: reason.sort_order, is_active: e.target.checked })}
+                          />
+                        </td>
+                        <td className="text-gray-400 p-3">{reason.usage_count}</td>
+                        <td className="text-right p-3 space-x-2">
+                          <Button
+                            onClick={() => handleRenameRejectionReason(reason)}
+                            variant="outline"
+                            size="sm"
+                            className="border-red-600 text-white hover:bg-red-900"
+                          >
+                            Edit
+                          </Button>
+                          <Button
+                            onClick={() => handleDeleteRejectionReason(reason)}
+                            variant="outline"
+                            size="sm"
+                            className="border-red-600 text-red-400 hover:bg-red-600 hover:text-white"
+                          >
+                            Delete
+                          </Button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {rejectionReasonStats.length === 0 && (
+                  <div className="text-center text-gray-400 py-8">No rejection reasons yet.</div>
+                )}
+              </div>
+            </div>
+          </TabsContent>
+
           <TabsContent value="quick-artwork" className="space-y-6">
             <div className="bg-black/80 backdrop-blur-sm border border-red-600 rounded-lg p-6">
               <h2 className="text-2xl font-bold text-white mb-6">Quick Add Artwork</h2>
@@ -2914,7 +3131,7 @@ export default function AdminPage() {
                       // Only pass valid DB fields to the editing dialog
                       const { _artworks, ...dbFields } = killer;
                       setEditingKiller(dbFields);
-                    }} size="sm" className="bg-blue-600 hover:bg-blue-700">Edit</Button><Button onClick={() => deleteCharacter(killer.id, 'killer')} disabled={deletingItem === killer.id} size="sm" variant="destructive">{deletingItem === killer.id ? 'Deleting...' : 'Delete'}</Button></div></TableCell>
+                    }} size="sm" className="bg-blue-600 hover:bg-blue-700">Edit</Button><Button onClick={() => exportCharacterP100s('killer', killer, 'csv')} size="sm" variant="outline" className="border-red-600 text-white hover:bg-red-900" title="Download P100 list as CSV">CSV</Button><Button onClick={() => exportCharacterP100s('killer', killer, 'json')} size="sm" variant="outline" className="border-red-600 text-white hover:bg-red-900" title="Download P100 list as JSON">JSON</Button><Button onClick={() => deleteCharacter(killer.id, 'killer')} disabled={deletingItem === killer.id} size="sm" variant="destructive">{deletingItem === killer.id ? 'Deleting...' : 'Delete'}</Button></div></TableCell>
                   </TableRow>))}
                 </TableBody></Table></div>
               )}
@@ -2935,7 +3152,7 @@ export default function AdminPage() {
                             <TableCell><div className="flex gap-2"><Button onClick={() => {
                               const { _artworks, ...dbFields } = survivor;
                               setEditingSurvivor(dbFields);
-                            }} size="sm" className="bg-blue-600 hover:bg-blue-700">Edit</Button><Button onClick={() => deleteCharacter(survivor.id, 'survivor')} disabled={deletingItem === survivor.id} size="sm" variant="destructive">{deletingItem === survivor.id ? 'Deleting...' : 'Delete'}</Button></div></TableCell>
+                            }} size="sm" className="bg-blue-600 hover:bg-blue-700">Edit</Button><Button onClick={() => exportCharacterP100s('survivor', survivor, 'csv')} size="sm" variant="outline" className="border-red-600 text-white hover:bg-red-900" title="Download P100 list as CSV">CSV</Button><Button onClick={() => exportCharacterP100s('survivor', survivor, 'json')} size="sm" variant="outline" className="border-red-600 text-white hover:bg-red-900" title="Download P100 list as JSON">JSON</Button><Button onClick={() => deleteCharacter(survivor.id, 'survivor')} disabled={deletingItem === survivor.id} size="sm" variant="destructive">{deletingItem === survivor.id ? 'Deleting...' : 'Delete'}</Button></div></TableCell>
                         </TableRow>))}
                     </TableBody></Table></div>
                 )}
@@ -2946,7 +3163,12 @@ export default function AdminPage() {
             <div className="bg-black/80 backdrop-blur-sm border border-red-600 rounded-lg p-6">
                 <div className="flex justify-between items-center mb-6">
                     <h2 className="text-2xl font-bold text-white">P100 Players Database</h2>
-                    <Button onClick={() => setEditingPlayer({ username: '', killer_id: null, survivor_id: null, p200: false, legacy: false, favorite: false })} className="bg-green-600 hover:bg-green-700">Add New Player</Button>
+                    <div className="flex gap-2">
+                        <Button onClick={openClaimsDialog} variant="outline" className="border-red-600 text-white hover:bg-red-900">Profile Claims</Button>
+                        <Button onClick={() => openMergeDialog()} variant="outline" className="border-red-600 text-white hover:bg-red-900">Merge Usernames</Button>
+                        <Button onClick={openImportDialog} variant="outline" className="border-red-600 text-white hover:bg-red-900">Import List</Button>
+                        <Button onClick={() => setEditingPlayer({ username: '', killer_id: null, survivor_id: null, p200: false, legacy: false, favorite: false })} className="bg-green-600 hover:bg-green-700">Add New Player</Button>
+                    </div>
                 </div>
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
                     <Input 
@@ -3000,7 +3222,7 @@ export default function AdminPage() {
                       <TableHeader><TableRow className="border-red-600/50"><TableHead className="text-white">Username</TableHead><TableHead className="text-white">Character</TableHead><TableHead className="text-white">Type</TableHead><TableHead className="text-white">P200</TableHead><TableHead className="text-white">Legacy</TableHead><TableHead className="text-white">Favorite</TableHead><TableHead className="text-white">Priority</TableHead><TableHead className="text-white">Added</TableHead><TableHead className="text-white">Actions</TableHead></TableRow></TableHeader>
                       <TableBody>
                         {sortedPlayers.length > 0 ? sortedPlayers.map((player) => (<TableRow key={player.id} className="border-red-600/30">
-                            <TableCell className="text-white font-medium">{player.username}</TableCell>
+                            <TableCell className="text-white font-medium">{player.username}{player.hidden && <span className="ml-2 px-2 py-0.5 rounded text-xs bg-gray-700 text-gray-300" title="Hidden by the player from public pages">Hidden</span>}</TableCell>
                             <TableCell className="text-gray-400">{player.killers?.name || player.survivors?.name}</TableCell>
                             <TableCell className="text-gray-400">{player.killer_id ? 'Killer' : 'Survivor'}</TableCell>
                             <TableCell><span className={`px-2 py-1 rounded text-xs text-white ${player.p200 ? 'bg-purple-600' : 'bg-gray-600'}`}>{player.p200 ? 'P200' : 'P100'}</span></TableCell>
@@ -3016,27 +3238,18 @@ export default function AdminPage() {
                                   onBlur={async (e) => {
                                     const newVal = parseInt(e.target.value, 10);
                                     if (isNaN(newVal)) return;
-                                    try {
-                                      const res = await fetch('/admin-panel-x8k2m9p7/update-priority', {
-                                        method: 'POST',
-                                        headers: { 'Content-Type': 'application/json' },
-                                        body: JSON.stringify({ id: player.id, priority: newVal })
-                                      });
-                                      const json = await res.json();
-                                      if (!json.success) {
-                                        console.error('Priority update failed:', json.message);
-                                      } else {
-                                        fetchP100Players();
-                                      }
-                                    } catch(err) {
-                                      console.error('Priority update error', err);
+                                    const result = await updatePlayerPriorityAction(player.id, newVal);
+                                    if (result.success) {
+                                      fetchP100Players();
+                                    } else {
+                                      toast({ title: 'Error', description: result.message, variant: 'destructive' });
                                     }
                                   }}
                                 />
                               </div>
                             </TableCell>
                             <TableCell className="text-gray-400">{new Date(player.added_at).toLocaleDateString()}</TableCell>
-                            <TableCell><div className="flex gap-2"><Button onClick={() => setEditingPlayer(player)} size="sm" className="bg-blue-600 hover:bg-blue-700">Edit</Button><Button onClick={() => deletePlayer(player.id)} disabled={deletingItem === player.id} size="sm" variant="destructive">{deletingItem === player.id ? 'Deleting...' : 'Delete'}</Button></div></TableCell>
+                            <TableCell><div className="flex gap-2"><Button onClick={() => setEditingPlayer(player)} size="sm" className="bg-blue-600 hover:bg-blue-700">Edit</Button><Button onClick={() => openPlayerProfile(player.username)} size="sm" variant="outline" className="border-red-600 text-white hover:bg-red-900">Profile</Button><Button onClick={() => deletePlayer(player.id)} disabled={deletingItem === player.id} size="sm" variant="destructive">{deletingItem === player.id ? 'Deleting...' : 'Delete'}</Button></div></TableCell>
                         </TableRow>)) : (
                             <TableRow><TableCell colSpan={9} className="text-center text-gray-400 py-8">No players found for the current filters.</TableCell></TableRow>
                         )}
@@ -3265,17 +3478,9 @@ export default function AdminPage() {
                                             if (!confirm(`Delete this ${artwork.usage_type} artwork?`)) return;
                                             
                                             try {
-                                              const supabaseAdmin = createAdminClient();
-                                              
-                                              // Delete from character_artworks (this is the link)
-                                              const { error } = await supabaseAdmin
-                                                .from('character_artworks')
-                                                .delete()
-                                                .eq('character_id', selectedCharacter.id)
-                                                .eq('character_type', selectedArtworkCharacter.type)
-                                                .eq('artwork_id', artwork.artwork_id);
-                                              
-                                              if (error) throw error;
+                                              // Only the character_artworks link is removed; the file stays in storage.
+                                              const result = await removeCharacterArtworkAction(selectedCharacter.id, selectedArtworkCharacter.type, artwork.artwork_id);
+                                              if (!result.success) throw new Error(result.message);
                                               
                                               toast({
                                                 title: 'Deleted',
@@ -3310,24 +3515,12 @@ export default function AdminPage() {
                                         
                                         try {
                                           const selectedArtist = value !== 'none' ? artists.find(a => a.id === value) : null;
-                                          const supabaseAdmin = createAdminClient();
                                           
                                           // Update artwork in database (without reloading page)
-                                          const { error } = await supabaseAdmin
-                                            .from('artworks')
-                                            .upsert({
-                                              artwork_url: artwork.artwork_url,
-                                              artist_name: selectedArtist?.name || null,
-                                              artist_url: selectedArtist ? (selectedArtist as any).url : null,
-                                              platform: selectedArtist ? (selectedArtist as any).platform : null,
-                                              updated_at: new Date().toISOString()
-                                            }, {
-                                              onConflict: 'artwork_url',
-                                              ignoreDuplicates: false
-                                            });
+                                          const result = await setArtworkArtistAction(artwork.artwork_url, selectedArtist?.id ?? null);
                                           
-                                          if (error) {
-                                            console.error('Error updating artwork artist:', error);
+                                          if (!result.success) {
+                                            console.error('Error updating artwork artist:', result.message);
                                             toast({ 
                                               title: 'Error', 
                                               description: 'Failed to update artist',
@@ -3397,6 +3590,46 @@ export default function AdminPage() {
             </div>
           </TabsContent>
 
+          {isReviewMode && (
+            <SubmissionReviewMode
+              queue={submissions
+                .filter(s => s.status === 'pending' && (!submissionSearch || s.username.toLowerCase().includes(submissionSearch.toLowerCase())))
+                .map(s => ({
+                  id: s.id,
+                  username: s.username,
+                  characterName: getCharacterName(s),
+                  screenshot_url: s.screenshot_url,
+                  submitted_at: s.submitted_at,
+                  comment: s.comment,
+                  claims: [s.p200 && 'P200', s.legacy && 'Legacy'].filter((c): c is string => !!c),
+                  claimNotes: s.claim_notes || undefined,
+                  hasEvidence: !!s.claim_evidence_path,
+                }))}
+              onOpenEvidence={(id) => openOriginalScreenshot(id, 'evidence')}
+              rejectionReasons={rejectionReasons}
+              onDecision={reviewSubmissionDecision}
+              onClose={closeReviewMode}
+            />
+          )}
+
+          {/* Per-item results of the last bulk review, shown when some items failed */}
+          <Dialog open={!!bulkResults} onOpenChange={(open) => { if (!open) setBulkResults(null); }}>
+            <DialogContent className="bg-black border-red-600 max-w-2xl">
+              <DialogHeader><DialogTitle className="text-white">Bulk Review Results</DialogTitle></DialogHeader>
+              <div className="max-h-96 overflow-y-auto space-y-1">
+                {(bulkResults || []).map(result => {
+                  const submission = submissions.find(s => s.id === result.id);
+                  return (
+                    <div key={result.id} className={`flex justify-between gap-4 px-3 py-2 rounded text-sm ${result.success ? 'bg-green-900/20 text-green-300' : 'bg-red-900/30 text-red-300'}`}>
+                      <span className="font-mono">{submission ? `${submission.username} · ${getCharacterName(submission)}` : result.id}</span>
+                      <span>{result.message}</span>
+                    </div>
+                  );
+                })}
+              </div>
+            </DialogContent>
+          </Dialog>
+
           {/* Blacklist Tab */}
           {/* Floating bulk action bar */}
           {selectedSubmissions.size > 0 && (
@@ -3412,9 +3645,17 @@ export default function AdminPage() {
                 <DialogContent className="bg-black border-red-600">
                   <DialogHeader><DialogTitle className="text-white">Reject {selectedSubmissions.size} Submissions</DialogTitle></DialogHeader>
                   <div className="space-y-4">
-                    <Label className="text-white">Rejection Reason (Optional)</Label>
-                    <Input value={bulkRejectReason} onChange={(e) => setBulkRejectReason(e.target.value)} placeholder="Enter reason..." className="bg-black border-red-600 text-white" />
-                    <Button onClick={() => bulkUpdateSubmissions('rejected', bulkRejectReason)} className="bg-red-600 hover:bg-red-700 w-full" disabled={isBulkProcessing}>
+                    <Label className="text-white">Rejection Reason</Label>
+                    <Select value={bulkRejectReasonId} onValueChange={setBulkRejectReasonId}>
+                      <SelectTrigger className="bg-black border-red-600 text-white"><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">No canned reason</SelectItem>
+                        {rejectionReasons.map(reason => <SelectItem key={reason.id} value={reason.id}>{reason.label}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                    <Label className="text-white">Additional Details (Optional)</Label>
+                    <Input value={bulkRejectReason} onChange={(e) => setBulkRejectReason(e.target.value)} placeholder="Enter details..." className="bg-black border-red-600 text-white" />
+                    <Button onClick={() => bulkUpdateSubmissions('rejected', bulkRejectReason, bulkRejectReasonId === 'none' ? undefined : bulkRejectReasonId)} className="bg-red-600 hover:bg-red-700 w-full" disabled={isBulkProcessing}>
                       {isBulkProcessing ? 'Processing...' : 'Confirm Rejection'}
                     </Button>
                   </div>
@@ -3426,22 +3667,31 @@ export default function AdminPage() {
 
           <TabsContent value="blacklist" className="space-y-6">
             <div className="bg-black/80 backdrop-blur-sm border border-red-600 rounded-lg p-6">
-              <h2 className="text-2xl font-bold text-white mb-6">User Blacklist</h2>
+              <h2 className="text-2xl font-bold text-white mb-6">Blacklist</h2>
               
               {/* Add to Blacklist */}
               <div className="bg-red-900/20 border border-red-600 rounded-lg p-4 mb-6">
-                <h3 className="text-white font-semibold mb-3">Add User to Blacklist</h3>
-                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <h3 className="text-white font-semibold mb-3">Add Rule</h3>
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
                   <div>
-                    <Label className="text-white">Username</Label>
+                    <Label className="text-white">Type</Label>
+                    <Select value={newBlacklistType} onValueChange={(value) => setNewBlacklistType(value as BlacklistRuleType)}>
+                      <SelectTrigger className="bg-black border-red-600 text-white mt-1"><SelectValue /></SelectTrigger>
+                      <SelectContent className="bg-black border-red-600">
+                        {BLACKLIST_RULE_TYPES.map(type => <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="md:col-span-3">
+                    <Label className="text-white">Value</Label>
                     <Input
-                      value={newBlacklistUsername}
-                      onChange={(e) => setNewBlacklistUsername(e.target.value)}
-                      placeholder="Enter username"
-                      className="bg-black border-red-600 text-white mt-1"
+                      value={newBlacklistValue}
+                      onChange={(e) => setNewBlacklistValue(e.target.value)}
+                      placeholder={BLACKLIST_RULE_TYPES.find(type => type.value === newBlacklistType)?.hint}
+                      className="bg-black border-red-600 text-white mt-1 font-mono"
                     />
                   </div>
-                  <div className="md:col-span-2">
+                  <div className="md:col-span-3">
                     <Label className="text-white">Reason (Optional)</Label>
                     <Input
                       value={newBlacklistReason}
@@ -3450,21 +3700,21 @@ export default function AdminPage() {
                       className="bg-black border-red-600 text-white mt-1"
                     />
                   </div>
+                  <div>
+                    <Label className="text-white">Expires (Optional)</Label>
+                    <Input
+                      type="datetime-local"
+                      value={newBlacklistExpiry}
+                      onChange={(e) => setNewBlacklistExpiry(e.target.value)}
+                      className="bg-black border-red-600 text-white mt-1"
+                    />
+                  </div>
                 </div>
                 <div className="flex items-center justify-between mt-3">
-                  <label className="flex items-center gap-2 cursor-pointer">
-                    <input
-                      type="checkbox"
-                      checked={newBlacklistSuper}
-                      onChange={(e) => setNewBlacklistSuper(e.target.checked)}
-                      className="w-4 h-4 accent-red-600"
-                    />
-                    <span className="text-red-300 text-sm font-semibold">Super Blacklist</span>
-                    <span className="text-gray-400 text-xs">(blocks any name containing this username)</span>
-                  </label>
+                  <span className="text-gray-400 text-xs">{BLACKLIST_RULE_TYPES.find(type => type.value === newBlacklistType)?.hint}</span>
                   <Button
                     onClick={addToBlacklist}
-                    disabled={isAddingToBlacklist || !newBlacklistUsername.trim()}
+                    disabled={isAddingToBlacklist || !newBlacklistValue.trim()}
                     className="bg-red-600 hover:bg-red-700"
                   >
                     {isAddingToBlacklist ? 'Adding...' : 'Add to Blacklist'}
@@ -3477,7 +3727,7 @@ export default function AdminPage() {
                 <Input
                   value={blacklistSearch}
                   onChange={(e) => setBlacklistSearch(e.target.value)}
-                  placeholder="Search blacklisted users..."
+                  placeholder="Search blacklist rules..."
                   className="bg-black border-red-600 text-white"
                 />
               </div>
@@ -3487,9 +3737,10 @@ export default function AdminPage() {
                 <table className="w-full">
                   <thead>
                     <tr className="border-b border-red-600">
-                      <th className="text-left text-white p-3">Username</th>
-                      <th className="text-center text-white p-3">Super</th>
+                      <th className="text-left text-white p-3">Value</th>
+                      <th className="text-left text-white p-3">Type</th>
                       <th className="text-left text-white p-3">Reason</th>
+                      <th className="text-left text-white p-3">Expires</th>
                       <th className="text-left text-white p-3">Added</th>
                       <th className="text-left text-white p-3">Added By</th>
                       <th className="text-right text-white p-3">Actions</th>
@@ -3497,35 +3748,42 @@ export default function AdminPage() {
                   </thead>
                   <tbody>
                     {blacklistedUsers
-                      .filter((user) =>
+                      .filter((rule) =>
                         blacklistSearch
-                          ? user.username.toLowerCase().includes(blacklistSearch.toLowerCase()) ||
-                            (user.reason && user.reason.toLowerCase().includes(blacklistSearch.toLowerCase()))
+                          ? rule.value.toLowerCase().includes(blacklistSearch.toLowerCase()) ||
+                            (rule.reason && rule.reason.toLowerCase().includes(blacklistSearch.toLowerCase()))
                           : true
                       )
-                      .map((user) => (
-                        <tr key={user.id} className="border-b border-red-600/30">
-                          <td className="text-white p-3 font-mono">
-                            {user.username}
-                            {user.is_super && <span className="ml-2 px-1.5 py-0.5 bg-red-600 text-white text-xs rounded font-sans">SUPER</span>}
+                      .map((rule) => {
+                        const expired = !!rule.expires_at && new Date(rule.expires_at) <= new Date();
+                        return (
+                        <tr key={rule.id} className={`border-b border-red-600/30 ${expired ? 'opacity-50' : ''}`}>
+                          <td className="text-white p-3 font-mono break-all">{rule.value}</td>
+                          <td className="p-3">
+                            <span className={`px-1.5 py-0.5 text-white text-xs rounded ${rule.rule_type === 'username' ? 'bg-gray-600' : 'bg-red-600'}`}>
+                              {BLACKLIST_RULE_TYPES.find(type => type.value === rule.rule_type)?.label || rule.rule_type}
+                            </span>
                           </td>
-                          <td className="text-center p-3">
-                            <input
-                              type="checkbox"
-                              checked={user.is_super || false}
-                              onChange={() => toggleBlacklistSuper(user.id, user.is_super || false)}
-                              className="w-4 h-4 accent-red-600 cursor-pointer"
-                              title={user.is_super ? 'Disable super blacklist' : 'Enable super blacklist'}
-                            />
+                          <td className="text-gray-300 p-3">{rule.reason || '-'}</td>
+                          <td className="text-gray-400 p-3 text-sm">
+                            {rule.expires_at ? `${expired ? 'Expired ' : ''}${new Date(rule.expires_at).toLocaleString()}` : 'Never'}
                           </td>
-                          <td className="text-gray-300 p-3">{user.reason || '-'}</td>
                           <td className="text-gray-400 p-3 text-sm">
-                            {new Date(user.created_at).toLocaleString()}
+                            {new Date(rule.created_at).toLocaleString()}
                           </td>
-                          <td className="text-gray-400 p-3 text-sm">{user.created_by || '-'}</td>
+                          <td className="text-gray-400 p-3 text-sm">{rule.created_by || '-'}</td>
                           <td className="text-right p-3">
                             <Button
-                              onClick={() => removeFromBlacklist(user.id, user.username)}
+                              onClick={() => openBlacklistCleanup(rule)}
+                              variant="outline"
+                              size="sm"
+                              className="border-red-600 text-white hover:bg-red-900 mr-2"
+                              title="Preview and hide or remove this rule's existing entries"
+                            >
+                              Clean up{rule.active_cleanups ? ` (${rule.active_cleanups})` : ''}
+                            </Button>
+                            <Button
+                              onClick={() => removeFromBlacklist(rule)}
                               variant="outline"
                               size="sm"
                               className="border-red-600 text-red-400 hover:bg-red-600 hover:text-white"
@@ -3534,12 +3792,500 @@ export default function AdminPage() {
                             </Button>
                           </td>
                         </tr>
-                      ))}
+                        );
+                      })}
                   </tbody>
                 </table>
                 {blacklistedUsers.length === 0 && (
                   <div className="text-center text-gray-400 py-8">
-                    No blacklisted users yet.
+                    No blacklist rules yet.
+                  </div>
+                )}
+              </div>
+            </div>
+
+            <div className="bg-black/80 backdrop-blur-sm border border-red-600 rounded-lg p-6">
+              <div className="flex justify-between items-center mb-4">
+                <h2 className="text-2xl font-bold text-white">Blocked Attempts</h2>
+                <Button onClick={fetchBlacklistedUsers} variant="outline" className="border-red-600 text-white hover:bg-red-900">Refresh</Button>
+              </div>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-red-600">
+                      <th className="text-left text-white p-3">When</th>
+                      <th className="text-left text-white p-3">Attempt</th>
+                      <th className="text-left text-white p-3">Username</th>
+                      <th className="text-left text-white p-3">IP</th>
+                      <th className="text-left text-white p-3">Device</th>
+                      <th className="text-left text-white p-3">Matched Rule</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {blacklistBlocks.map(block => (
+                      <tr key={block.id} className="border-b border-red-600/30">
+                        <td className="text-gray-400 p-3 whitespace-nowrap">{new Date(block.created_at).toLocaleString()}</td>
+                        <td className="text-gray-300 p-3">{block.context}</td>
+                        <td className="text-white p-3 font-mono break-all">{block.username || '-'}</td>
+                        <td className="text-gray-300 p-3 font-mono">
+                          {block.ip ? (
+                            <button onClick={() => prefillBlacklistRule('ip', block.ip!)} className="hover:text-red-300 underline decoration-dotted" title="Add an IP rule for this address">{block.ip}</button>
+                          ) : '-'}
+                        </td>
+                        <td className="text-gray-300 p-3 font-mono">
+                          {block.fingerprint ? (
+                            <button onClick={() => prefillBlacklistRule('fingerprint', block.fingerprint!)} className="hover:text-red-300 underline decoration-dotted" title="Add a device rule for this browser">{block.fingerprint.slice(0, 12)}…</button>
+                          ) : '-'}
+                        </td>
+                        <td className="text-gray-300 p-3">
+                          <span className="text-gray-500">{BLACKLIST_RULE_TYPES.find(type => type.value === block.rule_type)?.label || block.rule_type}:</span>{' '}
+                          <span className="font-mono break-all">{block.rule_value}</span>
+                          {!block.rule_id && <span className="text-gray-500 text-xs"> (removed)</span>}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {blacklistBlocks.length === 0 && (
+                  <div className="text-center text-gray-400 py-8">
+                    No blocked attempts yet.
+                  </div>
+                )}
+              </div>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="trash" className="space-y-6">
+            <div className="bg-black/80 backdrop-blur-sm border border-red-600 rounded-lg p-6">
+              <div className="flex justify-between items-center mb-2">
+                <h2 className="text-2xl font-bold text-white">Trash</h2>
+                <Button onClick={fetchTrash} disabled={trashLoading} variant="outline" className="border-red-600 text-white hover:bg-red-900">
+                  {trashLoading ? 'Loading...' : 'Refresh'}
+                </Button>
+              </div>
+              <p className="text-gray-400 text-sm mb-6">
+                Deleted characters and players stay here and can be restored. They can be purged for good {TRASH_RETENTION_DAYS} days after deletion.
+              </p>
+
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-b border-red-600">
+                      <th className="text-left text-white p-3">Name</th>
+                      <th className="text-left text-white p-3">Details</th>
+                      <th className="text-left text-white p-3">Deleted</th>
+                      <th className="text-left text-white p-3">Deleted By</th>
+                      <th className="text-right text-white p-3">Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {trashItems.map((item) => (
+                      <tr key={`${item.kind}-${item.id}`} className="border-b border-red-600/30">
+                        <td className="text-white p-3 font-mono">{item.label}</td>
+                        <td className="text-gray-300 p-3">{item.detail}</td>
+                        <td className="text-gray-400 p-3 text-sm">{new Date(item.deleted_at).toLocaleString()}</td>
+                        <td className="text-gray-400 p-3 text-sm">{item.deleted_by || '-'}</td>
+                        <td className="text-right p-3 space-x-2">
+                          <Button
+                            onClick={() => restoreTrashItem(item)}
+                            variant="outline"
+                            size="sm"
+                            className="border-green-600 text-green-400 hover:bg-green-600 hover:text-white"
+                          >
+                            Restore
+                          </Button>
+                          <Button
+                            onClick={() => purgeTrashItem(item)}
+                            disabled={!item.purgeable}
+                            variant="outline"
+                            size="sm"
+                            className="border-red-600 text-red-400 hover:bg-red-600 hover:text-white"
+                            title={item.purgeable ? 'Delete permanently' : `Available ${TRASH_RETENTION_DAYS} days after deletion`}
+                          >
+                            Purge
+                          </Button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {trashItems.length === 0 && (
+                  <div className="text-center text-gray-400 py-8">
+                    {trashLoading ? 'Loading...' : 'The trash is empty.'}
+                  </div>
+                )}
+              </div>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="audit" className="space-y-6">
+            <div className="bg-black/80 backdrop-blur-sm border border-red-600 rounded-lg p-6">
+              <h2 className="text-2xl font-bold text-white mb-6">Audit Log</h2>
+
+              {/* Filters */}
+              <div className="grid grid-cols-1 md:grid-cols-5 gap-4 mb-6 items-end">
+                <div>
+                  <Label className="text-white">Actor</Label>
+                  <Input
+                    list="audit-actors"
+                    value={auditFilters.actor}
+                    onChange={(e) => setAuditFilters({ ...auditFilters, actor: e.target.value })}
+                    placeholder="Any moderator"
+                    className="bg-black border-red-600 text-white mt-1"
+                  />
+                  <datalist id="audit-actors">
+                    {auditActors.map(actor => <option key={actor} value={actor} />)}
+                  </datalist>
+                </div>
+                <div>
+                  <Label className="text-white">Table</Label>
+                  <Select value={auditFilters.table || 'all'} onValueChange={(value) => setAuditFilters({ ...auditFilters, table: value === 'all' ? '' : value })}>
+                    <SelectTrigger className="bg-black border-red-600 text-white mt-1"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All tables</SelectItem>
+                      {AUDIT_TABLES.map(table => <SelectItem key={table} value={table}>{table}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label className="text-white">From</Label>
+                  <Input
+                    type="date"
+                    value={auditFilters.from}
+                    onChange={(e) => setAuditFilters({ ...auditFilters, from: e.target.value })}
+                    className="bg-black border-red-600 text-white mt-1"
+                  />
+                </div>
+                <div>
+                  <Label className="text-white">To</Label>
+                  <Input
+                    type="date"
+                    value={auditFilters.to}
+                    onChange={(e) => setAuditFilters({ ...auditFilters, to: e.target.value })}
+                    className="bg-black border-red-600 text-white mt-1"
+                  />
+                </div>
+                <div className="flex gap-2">
+                  <Button onClick={() => fetchAuditLog(0)} disabled={auditLoading} className="bg-red-600 hover:bg-red-700 flex-1">
+                    {auditLoading ? 'Loading...' : 'Apply'}
+                  </Button>
+                  <Button
+                    onClick={() => setAuditFilters({ actor: '', table: '', from: '', to: '' })}
+                    variant="outline"
+                    className="border-red-600 text-white hover:bg-red-900"
+                  >
+                    Clear
+                  </Button>
+                </div>
+              </div>
+
+              {/* Audit Table */}
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-b border-red-600">
+                      <th className="text-left text-white p-3">When</th>
+                      <th className="text-left text-white p-3">Actor</th>
+                      <th className="text-left text-white p-3">Action</th>
+                      <th className="text-left text-white p-3">Table</th>
+                      <th className="text-left text-white p-3">Record</th>
+                      <th className="text-right text-white p-3">Details</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {auditEntries.map((entry) => (
+                      <React.Fragment key={entry.id}>
+                        <tr className="border-b border-red-600/30">
+                          <td className="text-gray-400 p-3 text-sm whitespace-nowrap">{new Date(entry.created_at).toLocaleString()}</td>
+                          <td className="text-white p-3 font-mono">{entry.actor}</td>
+                          <td className="text-gray-300 p-3">{entry.action}</td>
+                          <td className="text-gray-300 p-3 font-mono text-sm">{entry.table_name}</td>
+                          <td className="text-gray-400 p-3 font-mono text-xs break-all">{entry.record_id || '-'}</td>
+                          <td className="text-right p-3">
+                            <Button
+                              onClick={() => setExpandedAuditId(expandedAuditId === entry.id ? null : entry.id)}
+                              variant="outline"
+                              size="sm"
+                              className="border-red-600 text-white hover:bg-red-900"
+                            >
+                              {expandedAuditId === entry.id ? 'Hide' : 'Show'}
+                            </Button>
+                          </td>
+                        </tr>
+                        {expandedAuditId === entry.id && (
+                          <tr className="border-b border-red-600/30">
+                            <td colSpan={6} className="p-3">
+                              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                <div>
+                                  <div className="text-red-300 text-sm font-semibold mb-1">Before</div>
+                                  <pre className="bg-black/60 border border-red-600/30 rounded p-2 text-xs text-gray-300 overflow-auto max-h-80">{entry.before_data ? JSON.stringify(entry.before_data, null, 2) : '-'}</pre>
+                                </div>
+                                <div>
+                                  <div className="text-green-300 text-sm font-semibold mb-1">After</div>
+                                  <pre className="bg-black/60 border border-red-600/30 rounded p-2 text-xs text-gray-300 overflow-auto max-h-80">{entry.after_data ? JSON.stringify(entry.after_data, null, 2) : '-'}</pre>
+                                </div>
+                              </div>
+                            </td>
+                          </tr>
+                        )}
+                      </React.Fragment>
+                    ))}
+                  </tbody>
+                </table>
+                {auditEntries.length === 0 && (
+                  <div className="text-center text-gray-400 py-8">
+                    {auditLoading ? 'Loading...' : 'No audit entries match these filters.'}
+                  </div>
+                )}
+              </div>
+
+              {/* Pagination */}
+              {auditTotal > AUDIT_LOG_PAGE_SIZE && (
+                <div className="flex justify-between items-center mt-4 text-gray-300 text-sm">
+                  <span>
+                    {auditPage * AUDIT_LOG_PAGE_SIZE + 1}-{Math.min((auditPage + 1) * AUDIT_LOG_PAGE_SIZE, auditTotal)} of {auditTotal}
+                  </span>
+                  <div className="flex gap-2">
+                    <Button onClick={() => fetchAuditLog(auditPage - 1)} disabled={auditLoading || auditPage === 0} variant="outline" size="sm" className="border-red-600 text-white hover:bg-red-900">
+                      <ChevronLeft className="w-4 h-4" />
+                    </Button>
+                    <Button onClick={() => fetchAuditLog(auditPage + 1)} disabled={auditLoading || (auditPage + 1) * AUDIT_LOG_PAGE_SIZE >= auditTotal} variant="outline" size="sm" className="border-red-600 text-white hover:bg-red-900">
+                      <ChevronRight className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </div>
+          </TabsContent>
+
+          <TabsContent value="settings" className="space-y-6">
+            <div className="bg-black/80 backdrop-blur-sm border border-red-600 rounded-lg p-6">
+              <h2 className="text-2xl font-bold text-white mb-6">Settings</h2>
+
+              {/* Submission Rate Limits */}
+              <div className="bg-red-900/20 border border-red-600 rounded-lg p-4">
+                <h3 className="text-white font-semibold mb-1">Submission Rate Limits</h3>
+                <p className="text-gray-400 text-sm mb-3">Maximum submissions allowed per window. Set a limit to 0 to turn it off.</p>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div>
+                    <Label className="text-white">Per IP address</Label>
+                    <Input
+                      type="number"
+                      min={0}
+                      value={rateLimits.perIp}
+                      onChange={(e) => setRateLimits({ ...rateLimits, perIp: Number(e.target.value) })}
+                      className="bg-black border-red-600 text-white mt-1"
+                    />
+                  </div>
+                  <div>
+                    <Label className="text-white">Per username</Label>
+                    <Input
+                      type="number"
+                      min={0}
+                      value={rateLimits.perUsername}
+                      onChange={(e) => setRateLimits({ ...rateLimits, perUsername: Number(e.target.value) })}
+                      className="bg-black border-red-600 text-white mt-1"
+                    />
+                  </div>
+                  <div>
+                    <Label className="text-white">Window (minutes)</Label>
+                    <Input
+                      type="number"
+                      min={1}
+                      value={rateLimits.windowMinutes}
+                      onChange={(e) => setRateLimits({ ...rateLimits, windowMinutes: Number(e.target.value) })}
+                      className="bg-black border-red-600 text-white mt-1"
+                    />
+                  </div>
+                </div>
+                <div className="flex justify-end mt-3">
+                  <Button onClick={handleSaveRateLimits} disabled={isSavingRateLimits} className="bg-red-600 hover:bg-red-700">
+                    {isSavingRateLimits ? 'Saving...' : 'Save Limits'}
+                  </Button>
+                </div>
+              </div>
+
+              {/* Screenshot Retention */}
+              <div className="bg-red-900/20 border border-red-600 rounded-lg p-4 mt-6">
+                <h3 className="text-white font-semibold mb-1">Screenshot Retention</h3>
+                <p className="text-gray-400 text-sm mb-3">
+                  Screenshots are deleted this many days after review by the scheduled job. Set 0 to keep them forever.
+                </p>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <Label className="text-white">Approved (days)</Label>
+                    <Input
+                      type="number"
+                      min={0}
+                      value={retentionPolicy.approvedDays}
+                      onChange={(e) => setRetentionPolicy({ ...retentionPolicy, approvedDays: Number(e.target.value) })}
+                      className="bg-black border-red-600 text-white mt-1"
+                    />
+                  </div>
+                  <div>
+                    <Label className="text-white">Rejected (days)</Label>
+                    <Input
+                      type="number"
+                      min={0}
+                      value={retentionPolicy.rejectedDays}
+                      onChange={(e) => setRetentionPolicy({ ...retentionPolicy, rejectedDays: Number(e.target.value) })}
+                      className="bg-black border-red-600 text-white mt-1"
+                    />
+                  </div>
+                </div>
+                <div className="flex justify-end gap-2 mt-3">
+                  <Button onClick={() => handleRunRetention(true)} disabled={isRunningRetention} variant="outline" className="border-red-600 text-white hover:bg-red-900">
+                    Preview
+                  </Button>
+                  <Button onClick={handleSaveRetentionPolicy} disabled={isRunningRetention} className="bg-red-600 hover:bg-red-700">
+                    Save Policy
+                  </Button>
+                </div>
+
+                {retentionReport && (
+                  <div className="mt-4 space-y-2">
+                    <div className="flex items-center justify-between">
+                      <span className="text-white">
+                        {retentionReport.dryRun
+                          ? `${retentionReport.candidates.length} screenshot(s) would be deleted with the saved policy.`
+                          : `${retentionReport.purged} screenshot(s) deleted.`}
+                      </span>
+                      {retentionReport.dryRun && retentionReport.candidates.length > 0 && (
+                        <Button size="sm" variant="destructive" onClick={() => handleRunRetention(false)} disabled={isRunningRetention}>
+                          Purge Now
+                        </Button>
+                      )}
+                    </div>
+                    {retentionReport.dryRun && retentionReport.candidates.length > 0 && (
+                      <div className="max-h-64 overflow-y-auto border border-red-600/30 rounded">
+                        {retentionReport.candidates.map(candidate => (
+                          <div key={candidate.id} className="flex justify-between px-3 py-1 text-sm text-gray-300 border-b border-red-600/20">
+                            <span className="font-mono">{candidate.username}</span>
+                            <span>{candidate.status} · reviewed {new Date(candidate.reviewed_at).toLocaleDateString()}</span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+
+              {/* Backup */}
+              <div className="bg-red-900/20 border border-red-600 rounded-lg p-4 mt-6">
+                <h3 className="text-white font-semibold mb-1">Backup</h3>
+                <p className="text-gray-400 text-sm mb-3">
+                  Downloads characters, P100s, players, submissions, artworks and settings as one JSON file, trashed rows included.
+                  Moderator accounts and claim keys are not part of it.
+                </p>
+                <div className="flex justify-end">
+                  <Button onClick={handleExportBackup} disabled={isExportingBackup} className="bg-red-600 hover:bg-red-700">
+                    {isExportingBackup ? 'Exporting...' : 'Download Backup'}
+                  </Button>
+                </div>
+              </div>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="moderators" className="space-y-6">
+            <div className="bg-black/80 backdrop-blur-sm border border-red-600 rounded-lg p-6">
+              <h2 className="text-2xl font-bold text-white mb-6">Moderators</h2>
+
+              {/* Add Moderator */}
+              <div className="bg-red-900/20 border border-red-600 rounded-lg p-4 mb-6">
+                <h3 className="text-white font-semibold mb-3">Add Moderator</h3>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div>
+                    <Label className="text-white">Username</Label>
+                    <Input
+                      value={newModerator.username}
+                      onChange={(e) => setNewModerator({ ...newModerator, username: e.target.value })}
+                      placeholder="Enter username"
+                      className="bg-black border-red-600 text-white mt-1"
+                    />
+                  </div>
+                  <div>
+                    <Label className="text-white">Password</Label>
+                    <Input
+                      type="password"
+                      autoComplete="new-password"
+                      value={newModerator.password}
+                      onChange={(e) => setNewModerator({ ...newModerator, password: e.target.value })}
+                      placeholder="At least 12 characters"
+                      className="bg-black border-red-600 text-white mt-1"
+                    />
+                  </div>
+                  <div>
+                    <Label className="text-white">Role</Label>
+                    <Select value={newModerator.role} onValueChange={(value) => setNewModerator({ ...newModerator, role: value as ModeratorRole })}>
+                      <SelectTrigger className="bg-black border-red-600 text-white mt-1"><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        {MODERATOR_ROLES.map(role => <SelectItem key={role.value} value={role.value}>{role.label}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                <div className="flex justify-end mt-3">
+                  <Button
+                    onClick={handleCreateModerator}
+                    disabled={isSavingModerator || !newModerator.username.trim() || !newModerator.password}
+                    className="bg-red-600 hover:bg-red-700"
+                  >
+                    {isSavingModerator ? 'Adding...' : 'Add Moderator'}
+                  </Button>
+                </div>
+              </div>
+
+              {/* Moderators Table */}
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-b border-red-600">
+                      <th className="text-left text-white p-3">Username</th>
+                      <th className="text-left text-white p-3">Role</th>
+                      <th className="text-left text-white p-3">Created</th>
+                      <th className="text-left text-white p-3">Last Login</th>
+                      <th className="text-right text-white p-3">Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {moderators.map((moderator) => (
+                      <tr key={moderator.id} className="border-b border-red-600/30">
+                        <td className="text-white p-3 font-mono">{moderator.username}</td>
+                        <td className="p-3">
+                          <Select value={moderator.role} onValueChange={(value) => handleUpdateModerator(moderator, { role: value as ModeratorRole })}>
+                            <SelectTrigger className="bg-black border-red-600 text-white w-40"><SelectValue /></SelectTrigger>
+                            <SelectContent>
+                              {MODERATOR_ROLES.map(role => <SelectItem key={role.value} value={role.value}>{role.label}</SelectItem>)}
+                            </SelectContent>
+                          </Select>
+                        </td>
+                        <td className="text-gray-400 p-3 text-sm">{new Date(moderator.created_at).toLocaleString()}</td>
+                        <td className="text-gray-400 p-3 text-sm">{moderator.last_login_at ? new Date(moderator.last_login_at).toLocaleString() : '-'}</td>
+                        <td className="text-right p-3 space-x-2">
+                          <Button
+                            onClick={() => handleResetModeratorPassword(moderator)}
+                            variant="outline"
+                            size="sm"
+                            className="border-red-600 text-white hover:bg-red-900"
+                          >
+                            Reset Password
+                          </Button>
+                          <Button
+                            onClick={() => handleDeleteModerator(moderator)}
+                            variant="outline"
+                            size="sm"
+                            className="border-red-600 text-red-400 hover:bg-red-600 hover:text-white"
+                          >
+                            Delete
+                          </Button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {moderators.length === 0 && (
+                  <div className="text-center text-gray-400 py-8">
+                    No moderator accounts yet. You are signed in with the bootstrap admin password.
                   </div>
                 )}
               </div>
@@ -3762,6 +4508,368 @@ export default function AdminPage() {
             </Dialog>
         )}
 
+        <Dialog open={showMergeDialog} onOpenChange={setShowMergeDialog}>
+            <DialogContent className="bg-black border-red-600 max-w-2xl">
+                <DialogHeader>
+                    <DialogTitle className="text-white">Merge Usernames</DialogTitle>
+                </DialogHeader>
+                <div className="space-y-4">
+                    <p className="text-gray-300 text-sm">
+                        Moves every P100 and submission from the old username to the new one. Characters both names have are combined.
+                        The old name becomes an alias, so its profile link redirects to the new one.
+                    </p>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div>
+                            <Label className="text-white">Old Username</Label>
+                            <Input value={mergeForm.from} onChange={(e) => setMergeForm(prev => ({ ...prev, from: e.target.value }))} className="bg-black border-red-600 text-white" />
+                        </div>
+                        <div>
+                            <Label className="text-white">New (Canonical) Username</Label>
+                            <Input value={mergeForm.to} onChange={(e) => setMergeForm(prev => ({ ...prev, to: e.target.value }))} className="bg-black border-red-600 text-white" />
+                        </div>
+                    </div>
+                    <Button onClick={mergeUsernames} disabled={isMerging} className="bg-red-600 hover:bg-red-700 w-full">
+                        {isMerging ? 'Merging...' : 'Merge'}
+                    </Button>
+                    {playerAliases.length > 0 && (
+                        <div>
+                            <Label className="text-white">Existing Aliases</Label>
+                            <div className="max-h-60 overflow-y-auto mt-2 space-y-1">
+                                {playerAliases.map(alias => (
+                                    <div key={alias.alias} className="flex items-center justify-between gap-2 text-sm text-gray-300 border-b border-red-600/20 py-1">
+                                        <span className="truncate">{alias.alias} → {alias.canonical_username}</span>
+                                        <span className="text-gray-500 text-xs whitespace-nowrap">{new Date(alias.merged_at).toLocaleDateString()}{alias.merged_by ? ` · ${alias.merged_by}` : ''}</span>
+                                        <Button onClick={() => removePlayerAlias(alias.alias)} size="sm" variant="outline" className="h-6 border-red-600 text-white" title="Stop redirecting this name; merged rows stay where they are">Remove</Button>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+                </div>
+            </DialogContent>
+        </Dialog>
+
+        <Dialog open={showImportDialog} onOpenChange={setShowImportDialog}>
+            <DialogContent className="bg-black border-red-600 max-w-4xl">
+                <DialogHeader>
+                    <DialogTitle className="text-white">Import P100 List</DialogTitle>
+                </DialogHeader>
+                <div className="space-y-4 max-h-[75vh] overflow-y-auto">
+                    <p className="text-gray-300 text-sm">
+                        Paste or upload a CSV or TSV. With a header row, the columns can be username, character, p200, legacy and added_at in any order;
+                        without one they are read in that order. Usernames match existing players regardless of case.
+                    </p>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div>
+                            <Label className="text-white">File</Label>
+                            <Input type="file" accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values" onChange={(e) => loadImportFile(e.target.files?.[0])} className="bg-black border-red-600 text-white" />
+                        </div>
+                        <div>
+                            <Label className="text-white">Character (for rows without one)</Label>
+                            <Select value={importCharacter} onValueChange={(value) => { setImportCharacter(value); setImportPlan(null); }}>
+                                <SelectTrigger className="bg-black border-red-600 text-white"><SelectValue /></SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value="none">From the file</SelectItem>
+                                    {allKillers.map(killer => <SelectItem key={`killer:${killer.id}`} value={`killer:${killer.id}`}>{killer.name} (Killer)</SelectItem>)}
+                                    {allSurvivors.map(survivor => <SelectItem key={`survivor:${survivor.id}`} value={`survivor:${survivor.id}`}>{survivor.name} (Survivor)</SelectItem>)}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                    </div>
+                    <Textarea
+                        value={importText}
+                        onChange={(e) => { setImportText(e.target.value); setImportPlan(null); }}
+                        placeholder={'username,character,p200,legacy\nOtzdarva,The Trapper,no,no'}
+                        rows={8}
+                        className="bg-black border-red-600 text-white font-mono text-sm"
+                    />
+                    <Button onClick={previewImport} disabled={isImporting || !importText.trim()} className="bg-red-600 hover:bg-red-700 w-full">
+                        {isImporting && !importPlan ? 'Checking...' : 'Preview'}
+                    </Button>
+
+                    {importPlan && (
+                        <div className="space-y-3">
+                            <div className="flex flex-wrap gap-2 text-sm">
+                                {(Object.keys(IMPORT_STATUS_STYLES) as ImportRowStatus[]).map(status => (
+                                    <span key={status} className={`px-2 py-1 rounded text-white ${IMPORT_STATUS_STYLES[status].className}`}>
+                                        {importPlan.counts[status]} {IMPORT_STATUS_STYLES[status].label}
+                                    </span>
+                                ))}
+                            </div>
+                            <div className="max-h-80 overflow-y-auto border border-red-600/30 rounded">
+                                <Table>
+                                    <TableHeader><TableRow className="border-red-600/50"><TableHead className="text-white">Line</TableHead><TableHead className="text-white">Username</TableHead><TableHead className="text-white">Character</TableHead><TableHead className="text-white">Flags</TableHead><TableHead className="text-white">Result</TableHead></TableRow></TableHeader>
+                                    <TableBody>
+                                        {importPlan.rows.map(row => (
+                                            <TableRow key={row.line} className="border-red-600/30">
+                                                <TableCell className="text-gray-500">{row.line}</TableCell>
+                                                <TableCell className="text-white">{row.username}</TableCell>
+                                                <TableCell className="text-gray-400">{row.character_name || '—'}</TableCell>
+                                                <TableCell className="text-gray-400 text-xs">{[row.p200 && 'P200', row.legacy && 'Legacy'].filter(Boolean).join(', ') || '—'}</TableCell>
+                                                <TableCell>
+                                                    <span className={`px-2 py-0.5 rounded text-xs text-white ${IMPORT_STATUS_STYLES[row.status].className}`}>{IMPORT_STATUS_STYLES[row.status].label}</span>
+                                                    {row.message && <span className="ml-2 text-xs text-gray-400">{row.message}</span>}
+                                                </TableCell>
+                                            </TableRow>
+                                        ))}
+                                    </TableBody>
+                                </Table>
+                            </div>
+                            {importPlan.counts.conflict > 0 && (
+                                <label className="flex items-center gap-2 text-sm text-gray-300">
+                                    <input type="checkbox" className="w-4 h-4 accent-red-600" checked={importUpdateConflicts} onChange={(e) => setImportUpdateConflicts(e.target.checked)} />
+                                    Update the flags of conflicting entries to match the file
+                                </label>
+                            )}
+                            <Button
+                                onClick={commitImport}
+                                disabled={isImporting || (importPlan.counts.new === 0 && !(importUpdateConflicts && importPlan.counts.conflict > 0))}
+                                className="bg-green-600 hover:bg-green-700 w-full"
+                            >
+                                {isImporting ? 'Importing...' : `Import ${importPlan.counts.new} new${importUpdateConflicts && importPlan.counts.conflict > 0 ? `, update ${importPlan.counts.conflict}` : ''}`}
+                            </Button>
+                        </div>
+                    )}
+                </div>
+            </DialogContent>
+        </Dialog>
+
+        {cleanupRule && cleanupPreview && (
+            <Dialog open={!!cleanupRule} onOpenChange={() => { setCleanupRule(null); setCleanupPreview(null); }}>
+                <DialogContent className="bg-black border-red-600 max-w-3xl">
+                    <DialogHeader>
+                        <DialogTitle className="text-white">Clean up entries for {cleanupRule.value}</DialogTitle>
+                    </DialogHeader>
+                    <div className="space-y-4 max-h-[70vh] overflow-y-auto">
+                        {cleanupPreview.players.length === 0 && cleanupPreview.submissions.length === 0 ? (
+                            <p className="text-gray-400 text-sm">This rule matches no current P100s or pending submissions.</p>
+                        ) : (
+                            <>
+                                <p className="text-gray-300 text-sm">
+                                    Matches {cleanupPreview.usernames.length} username(s): {cleanupPreview.usernames.join(', ')}.
+                                    Hiding keeps the P100s but takes them off public pages; removing moves them to the Trash. Pending submissions are removed either way.
+                                </p>
+                                {cleanupPreview.players.length > 0 && (
+                                    <div>
+                                        <Label className="text-white">P100s ({cleanupPreview.players.length})</Label>
+                                        <div className="mt-1 max-h-48 overflow-y-auto text-sm text-gray-300 divide-y divide-red-600/20">
+                                            {cleanupPreview.players.map(player => (
+                                                <div key={player.id} className="py-1 flex justify-between gap-2">
+                                                    <span>{player.username} · {player.character}</span>
+                                                    {player.hidden && <span className="text-gray-500 text-xs">already hidden</span>}
+                                                </div>
+                                            ))}
+                                        </div>
+                                    </div>
+                                )}
+                                {cleanupPreview.submissions.length > 0 && (
+                                    <div>
+                                        <Label className="text-white">Pending Submissions ({cleanupPreview.submissions.length})</Label>
+                                        <div className="mt-1 max-h-48 overflow-y-auto text-sm text-gray-300 divide-y divide-red-600/20">
+                                            {cleanupPreview.submissions.map(submission => (
+                                                <div key={submission.id} className="py-1">{submission.username} · {submission.character}</div>
+                                            ))}
+                                        </div>
+                                    </div>
+                                )}
+                                <div className="flex gap-2">
+                                    <Button onClick={() => runBlacklistCleanup('hide')} disabled={isCleaningUp} className="bg-red-600 hover:bg-red-700 flex-1">Hide Entries</Button>
+                                    <Button onClick={() => runBlacklistCleanup('remove')} disabled={isCleaningUp} variant="destructive" className="flex-1">Move to Trash</Button>
+                                </div>
+                            </>
+                        )}
+                        {cleanupHistory.length > 0 && (
+                            <div>
+                                <Label className="text-white">Previous Cleanups</Label>
+                                <div className="mt-1 space-y-1">
+                                    {cleanupHistory.map(cleanup => (
+                                        <div key={cleanup.id} className="flex items-center justify-between gap-2 text-sm text-gray-300 border-b border-red-600/20 py-1">
+                                            <span>
+                                                {cleanup.mode === 'hide' ? 'Hid' : 'Trashed'} {cleanup.player_ids.length} P100(s), removed {cleanup.submission_ids.length} submission(s)
+                                                <span className="text-gray-500 text-xs"> · {new Date(cleanup.created_at).toLocaleString()}{cleanup.created_by ? ` by ${cleanup.created_by}` : ''}</span>
+                                            </span>
+                                            {cleanup.undone_at ? (
+                                                <span className="text-gray-500 text-xs whitespace-nowrap">Undone {new Date(cleanup.undone_at).toLocaleDateString()}</span>
+                                            ) : (
+                                                <Button onClick={() => undoCleanup(cleanup.id)} disabled={isCleaningUp} size="sm" variant="outline" className="h-6 border-red-600 text-white">Undo</Button>
+                                            )}
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+                    </div>
+                </DialogContent>
+            </Dialog>
+        )}
+
+        <Dialog open={showClaimsDialog} onOpenChange={setShowClaimsDialog}>
+            <DialogContent className="bg-black border-red-600 max-w-3xl">
+                <DialogHeader>
+                    <DialogTitle className="text-white">Profile Claims</DialogTitle>
+                </DialogHeader>
+                <div className="space-y-4">
+                    <p className="text-gray-300 text-sm">
+                        Open the player&apos;s post and check it shows the verification code and belongs to that player&apos;s channel before verifying.
+                        A verified player can edit their social links, favorite and hidden P100s.
+                    </p>
+                    <Select value={claimsFilter} onValueChange={(value) => { setClaimsFilter(value as PlayerClaimStatus); fetchPlayerClaims(value as PlayerClaimStatus); }}>
+                        <SelectTrigger className="bg-black border-red-600 text-white w-48"><SelectValue /></SelectTrigger>
+                        <SelectContent className="bg-black border-red-600">
+                            <SelectItem value="pending">Pending</SelectItem>
+                            <SelectItem value="verified">Verified</SelectItem>
+                            <SelectItem value="rejected">Rejected</SelectItem>
+                            <SelectItem value="revoked">Revoked</SelectItem>
+                        </SelectContent>
+                    </Select>
+                    <div className="max-h-[50vh] overflow-y-auto space-y-2">
+                        {playerClaims.length === 0 ? (
+                            <p className="text-gray-400 text-sm text-center py-6">No {claimsFilter} claims.</p>
+                        ) : playerClaims.map(claim => (
+                            <div key={claim.id} className="flex flex-wrap items-center justify-between gap-2 border-b border-red-600/20 py-2 text-sm text-gray-300">
+                                <div className="space-y-1">
+                                    <div className="text-white font-medium">{claim.username}</div>
+                                    <div className="font-mono text-xs">{claim.verification_code}</div>
+                                    <div className="text-xs text-gray-500">
+                                        Started {new Date(claim.created_at).toLocaleString()}
+                                        {claim.reviewed_at && ` · ${claim.status} ${new Date(claim.reviewed_at).toLocaleDateString()}${claim.reviewed_by ? ` by ${claim.reviewed_by}` : ''}`}
+                                    </div>
+                                </div>
+                                <div className="flex items-center gap-2">
+                                    {claim.proof_url ? (
+                                        <a href={claim.proof_url} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:text-blue-300 underline">Open post</a>
+                                    ) : (
+                                        <span className="text-gray-500 text-xs">No post linked yet</span>
+                                    )}
+                                    {claim.status === 'pending' && (
+                                        <>
+                                            <Button onClick={() => reviewPlayerClaim(claim.id, 'verified')} disabled={!claim.proof_url} size="sm" className="bg-green-600 hover:bg-green-700">Verify</Button>
+                                            <Button onClick={() => reviewPlayerClaim(claim.id, 'rejected')} size="sm" variant="destructive">Reject</Button>
+                                        </>
+                                    )}
+                                    {claim.status === 'verified' && (
+                                        <Button onClick={() => reviewPlayerClaim(claim.id, 'revoked')} size="sm" variant="destructive">Revoke</Button>
+                                    )}
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            </DialogContent>
+        </Dialog>
+
+        {editingProfile && (
+            <Dialog open={!!editingProfile} onOpenChange={() => setEditingProfile(null)}>
+                <DialogContent className="bg-black border-red-600 max-w-lg">
+                    <DialogHeader>
+                        <DialogTitle className="text-white">Profile: {editingProfile.username}</DialogTitle>
+                    </DialogHeader>
+                    <div className="space-y-4">
+                        <p className="text-gray-300 text-sm">Shown on the player&apos;s public profile. Leave a field empty to hide it.</p>
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                            <div>
+                                <Label className="text-white">Platform</Label>
+                                <Select value={editingProfile.platform || 'none'} onValueChange={(value) => setEditingProfile(prev => prev && ({ ...prev, platform: value === 'none' ? null : value as PlayerProfile['platform'] }))}>
+                                    <SelectTrigger className="bg-black border-red-600 text-white"><SelectValue /></SelectTrigger>
+                                    <SelectContent className="bg-black border-red-600">
+                                        <SelectItem value="none">Not set</SelectItem>
+                                        {PLAYER_PLATFORMS.map(p => <SelectItem key={p.value} value={p.value}>{p.label}</SelectItem>)}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                            <div>
+                                <Label className="text-white">Country</Label>
+                                <Input value={editingProfile.country || ''} maxLength={2} placeholder="e.g. US" onChange={(e) => setEditingProfile(prev => prev && ({ ...prev, country: e.target.value.toUpperCase() }))} className="bg-black border-red-600 text-white" />
+                            </div>
+                        </div>
+                        <div>
+                            <Label className="text-white">Twitch</Label>
+                            <Input value={editingProfile.twitch_url || ''} placeholder="https://twitch.tv/..." onChange={(e) => setEditingProfile(prev => prev && ({ ...prev, twitch_url: e.target.value }))} className="bg-black border-red-600 text-white" />
+                        </div>
+                        <div>
+                            <Label className="text-white">YouTube</Label>
+                            <Input value={editingProfile.youtube_url || ''} placeholder="https://youtube.com/@..." onChange={(e) => setEditingProfile(prev => prev && ({ ...prev, youtube_url: e.target.value }))} className="bg-black border-red-600 text-white" />
+                        </div>
+                        <div>
+                            <Label className="text-white">Twitter / X</Label>
+                            <Input value={editingProfile.twitter_url || ''} placeholder="https://x.com/..." onChange={(e) => setEditingProfile(prev => prev && ({ ...prev, twitter_url: e.target.value }))} className="bg-black border-red-600 text-white" />
+                        </div>
+                        <Button onClick={savePlayerProfile} disabled={isSavingProfile} className="bg-red-600 hover:bg-red-700 w-full">
+                            {isSavingProfile ? 'Saving...' : 'Save Profile'}
+                        </Button>
+                    </div>
+                </DialogContent>
+            </Dialog>
+        )}
+
+        {historySubmission && (
+            <Dialog open={!!historySubmission} onOpenChange={() => setHistorySubmission(null)}>
+                <DialogContent className="bg-black border-red-600 max-w-2xl">
+                    <DialogHeader>
+                        <DialogTitle className="text-white">Submission History</DialogTitle>
+                    </DialogHeader>
+                    <div className="space-y-3 max-h-[60vh] overflow-y-auto">
+                        <div className="text-sm text-gray-300">
+                            {new Date(historySubmission.submitted_at).toLocaleString()} · submitted by {historySubmission.username.replace(/&lt;/g, '<').replace(/&gt;/g, '>')}
+                        </div>
+                        {submissionHistory.map(event => (
+                            <div key={event.id} className="border border-red-600/30 rounded p-3 text-sm">
+                                <div className="text-white font-semibold">
+                                    {new Date(event.created_at).toLocaleString()} · {event.event === 'withdrawn' ? 'Withdrawn by submitter' : 'Edited by submitter'}
+                                </div>
+                                {event.changes && Object.entries(event.changes).map(([field, change]) => (
+                                    <div key={field} className="text-gray-300 mt-1 break-all">
+                                        <span className="text-gray-400">{field}:</span>{' '}
+                                        {field === 'screenshot' ? (
+                                            // The replaced file is deleted on edit, so only the new one can be linked.
+                                            <>replaced{change.to === historySubmission.screenshot_url && change.to ? <> · <a href={String(change.to)} target="_blank" rel="noopener noreferrer" className="text-blue-400 underline">current</a></> : null}</>
+                                        ) : (
+                                            <>{String(change.from ?? '—')} → {String(change.to ?? '—')}</>
+                                        )}
+                                    </div>
+                                ))}
+                            </div>
+                        ))}
+                    </div>
+                </DialogContent>
+            </Dialog>
+        )}
+
+        {comparingSubmission && (
+            <Dialog open={!!comparingSubmission} onOpenChange={() => setComparingSubmission(null)}>
+                <DialogContent className="bg-black border-red-600 max-w-6xl">
+                    <DialogHeader>
+                        <DialogTitle className="text-white">Similar Screenshots</DialogTitle>
+                    </DialogHeader>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4 max-h-[75vh] overflow-y-auto">
+                        <div className="space-y-2">
+                            <div className="text-white font-semibold">This submission</div>
+                            <div className="text-gray-300 text-sm">
+                                {comparingSubmission.username.replace(/&lt;/g, '<').replace(/&gt;/g, '>')} · {getCharacterName(comparingSubmission)} · {new Date(comparingSubmission.submitted_at).toLocaleString()}
+                            </div>
+                            {/* eslint-disable-next-line @next/next/no-img-element */}
+                            <img src={comparingSubmission.screenshot_url || undefined} alt="Submitted screenshot" className="w-full rounded border border-red-600" />
+                        </div>
+                        <div className="space-y-6">
+                            {(screenshotMatches[comparingSubmission.id] || []).map(match => (
+                                <div key={match.id} className="space-y-2">
+                                    <div className="text-white font-semibold">
+                                        Matches {match.status} submission
+                                        <span className="text-gray-400 font-normal text-sm ml-2">({match.distance} bit{match.distance === 1 ? '' : 's'} apart)</span>
+                                    </div>
+                                    <div className="text-gray-300 text-sm">
+                                        {match.username.replace(/&lt;/g, '<').replace(/&gt;/g, '>')} · {getCharacterName(match)} · {new Date(match.submitted_at).toLocaleString()}
+                                    </div>
+                                    {/* eslint-disable-next-line @next/next/no-img-element */}
+                                    <img src={match.screenshot_url} alt={`Screenshot from ${match.username}`} className="w-full rounded border border-amber-500" />
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                </DialogContent>
+            </Dialog>
+        )}
+
         {commentToShow && (
             <Dialog open={!!commentToShow} onOpenChange={() => setCommentToShow(null)}>
                 <DialogContent className="bg-black border-red-600 max-w-2xl">
@@ -3851,36 +4959,21 @@ export default function AdminPage() {
                   <Button className="bg-green-600 hover:bg-green-700" disabled={isCreatingArtwork || !newArtworkFile || !newArtworkCharacterId} onClick={async ()=> {
                     setIsCreatingArtwork(true);
                     try {
-                      const supabaseAdmin = createAdminClient();
                       const tableName = newArtworkCharacterType === 'killer' ? 'killers' : 'survivors';
-                      const { data: character, error: fetchErr } = await supabaseAdmin.from(tableName).select('*').eq('id', newArtworkCharacterId).single();
+                      const { data: character, error: fetchErr } = await supabase.from(tableName).select('header_url, background_image_url').eq('id', newArtworkCharacterId).single();
                       if (fetchErr) throw fetchErr;
                       // Confirm overwrite for single-value placements
                       if ((newArtworkPlacement === 'header' && character.header_url) || (newArtworkPlacement === 'background' && character.background_image_url)) {
                         const proceed = confirm(`This will replace the existing ${newArtworkPlacement} image. Continue?`);
                         if(!proceed) { setIsCreatingArtwork(false); return; }
                       }
-                      const timestamp = Date.now();
-                      const ext = newArtworkFile!.name.split('.').pop();
-                      const fileName = `${newArtworkCharacterId}-${timestamp}.${ext}`;
-                      const publicUrl = await uploadImageToStorage(newArtworkFile!, 'artworks', fileName);
-                      // Update character field
-                      let updatePayload: any = {};
-                      if (newArtworkPlacement === 'gallery') {
-                        const arr = character.artist_urls || [];
-                        updatePayload.artist_urls = [...arr, publicUrl];
-                      } else if (newArtworkPlacement === 'legacy_header') {
-                        const arr = character.legacy_header_urls || [];
-                        updatePayload.legacy_header_urls = [...arr, publicUrl];
-                      } else if (newArtworkPlacement === 'header') {
-                        updatePayload.header_url = publicUrl;
-                      } else if (newArtworkPlacement === 'background') {
-                        updatePayload.background_image_url = publicUrl;
-                      }
-                      if (Object.keys(updatePayload).length) {
-                        const { error: updErr } = await supabaseAdmin.from(tableName).update(updatePayload).eq('id', newArtworkCharacterId);
-                        if (updErr) throw updErr;
-                      }
+                      const formData = new FormData();
+                      formData.append('artworkFile', newArtworkFile!);
+                      formData.append('characterId', newArtworkCharacterId);
+                      formData.append('characterType', newArtworkCharacterType);
+                      formData.append('placement', newArtworkPlacement);
+                      const result = await addArtworkToCharacterAction(formData);
+                      if (!result.success) throw new Error(result.message);
                       toast({ title: 'Success', description: 'Artwork added successfully!' });
                       // Reset and close
                       setNewArtworkFile(null);
@@ -4022,78 +5115,22 @@ export default function AdminPage() {
                     onClick={async () => {
                       setIsAddingArtwork(true);
                       try {
-                        const supabaseAdmin = createAdminClient();
-                        const selectedArtist = newArtworkArtist !== 'none' ? artists.find(a => a.id === newArtworkArtist) : null;
-                        
-                        let artworkUrl = newArtworkUrl.trim();
-                        
-                        // If file is selected, upload it first
-                        if (newArtworkFile) {
-                          const timestamp = Date.now();
-                          const fileExt = newArtworkFile.name.split('.').pop();
-                          const characterFolder = addArtworkCharacter.character.id;
-                          const artistSuffix = selectedArtist ? `-by-${selectedArtist.name.replace(/[^a-zA-Z0-9]/g, '_')}` : '';
-                          const fileName = `${characterFolder}/${characterFolder}-${timestamp}${artistSuffix}.${fileExt}`;
-                          
-                          const { data: uploadData, error: uploadError } = await supabaseAdmin.storage
-                            .from('artworks')
-                            .upload(fileName, newArtworkFile, {
-                              cacheControl: '3600',
-                              upsert: false
-                            });
-                          
-                          if (uploadError) throw uploadError;
-                          
-                          const { data: { publicUrl } } = supabaseAdmin.storage
-                            .from('artworks')
-                            .getPublicUrl(fileName);
-                          
-                          artworkUrl = publicUrl;
-                        }
-                        
-                        if (!artworkUrl) {
-                          throw new Error('No artwork URL or file provided');
-                        }
+                        const formData = new FormData();
+                        if (newArtworkFile) formData.append('artworkFile', newArtworkFile);
+                        formData.append('artworkUrl', newArtworkUrl.trim());
+                        formData.append('characterId', addArtworkCharacter.character.id);
+                        formData.append('characterType', addArtworkCharacter.type);
+                        formData.append('usageType', newArtworkUsageType);
+                        if (newArtworkArtist !== 'none') formData.append('artistId', newArtworkArtist);
+                        const result = await linkCharacterArtworkAction(formData);
                         
-                        // 1. Upsert into artworks table
-                        const { data: artworkData, error: artworkError } = await supabaseAdmin
-                          .from('artworks')
-                          .upsert({
-                            artwork_url: artworkUrl,
-                            artist_name: selectedArtist?.name || null,
-                            artist_url: selectedArtist ? (selectedArtist as any).url : null,
-                            platform: selectedArtist ? (selectedArtist as any).platform : null,
-                            updated_at: new Date().toISOString()
-                          }, {
-                            onConflict: 'artwork_url',
-                            ignoreDuplicates: false
-                          })
-                          .select()
-                          .single();
-                        
-                        if (artworkError) throw artworkError;
-                        
-                        // 2. Create character_artworks link
-                        const { error: linkError } = await supabaseAdmin
-                          .from('character_artworks')
-                          .insert({
-                            character_id: addArtworkCharacter.character.id,
-                            character_type: addArtworkCharacter.type,
-                            artwork_id: artworkData.id,
-                            usage_type: newArtworkUsageType
+                        if (!result.success) {
+                          if (!('code' in result) || result.code !== 'duplicate') throw new Error(result.message);
+                          toast({
+                            title: 'Already exists',
+                            description: result.message,
+                            variant: 'destructive'
                           });
-                        
-                        if (linkError) {
-                          // Check if it's a duplicate error
-                          if (linkError.code === '23505') {
-                            toast({
-                              title: 'Already exists',
-                              description: 'This artwork is already linked to this character',
-                              variant: 'destructive'
-                            });
-                          } else {
-                            throw linkError;
-                          }
                         } else {
                           toast({
                             title: 'Success',
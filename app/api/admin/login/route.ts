@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createAdminClient } from '@/lib/supabase-client';
+import {
+  ADMIN_SESSION_COOKIE,
+  ADMIN_SESSION_MAX_AGE,
+  AdminSession,
+  BOOTSTRAP_ADMIN_USERNAME,
+  adminSessionCookieOptions,
+  createAdminSessionToken,
+  verifyAdminPassword,
+  verifyModeratorPassword,
+} from '@/lib/admin-auth';
+import { MAX_LOGIN_ATTEMPTS, clearLoginAttempts, getLoginAttemptState, recordFailedLogin } from '@/lib/admin-lockout';
+import { getModeratorForLogin, touchModeratorLogin } from '@/lib/moderators-service';
+import { getClientIp } from '@/lib/request-ip';
+import { SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * Resolves the credentials to a session identity, or null when they are wrong.
+ * A moderator account always wins; ADMIN_PASSWORD only applies to the bootstrap
+ * username while no account with that name exists, and not at all once
+ * DISABLE_ADMIN_BOOTSTRAP_LOGIN=true.
+ */
+async function authenticate(supabase: SupabaseClient, username: string, password: string): Promise<Omit<AdminSession, 'jti' | 'exp'> | null> {
+  const moderator = await getModeratorForLogin(supabase, username);
+  if (moderator) {
+    if (!(await verifyModeratorPassword(password, moderator.password_hash))) return null;
+    await touchModeratorLogin(supabase, moderator.id);
+    return { sub: moderator.id, username: moderator.username, role: moderator.role };
+  }
+  if (username.toLowerCase() === BOOTSTRAP_ADMIN_USERNAME && (await verifyAdminPassword(password))) {
+    return { sub: BOOTSTRAP_ADMIN_USERNAME, username: BOOTSTRAP_ADMIN_USERNAME, role: 'owner' };
+  }
+  return null;
+}
+
+export async function POST(request: NextRequest) {
+  const ip = getClientIp(request);
+  try {
+    const supabase = createAdminClient();
+    const state = await getLoginAttemptState(supabase, ip);
+    if (state.lockedUntil) {
+      const retryAfter = Math.ceil((state.lockedUntil - Date.now()) / 1000);
+      return NextResponse.json(
+        { success: false, message: 'Too many failed attempts.', retryAfter },
+        { status: 429, headers: { 'Retry-After': String(retryAfter) } }
+      );
+    }
+
+    const body = await request.json() as { username?: string; password?: string };
+    const username = (body.username || BOOTSTRAP_ADMIN_USERNAME).trim();
+    const identity = body.password ? await authenticate(supabase, username, body.password) : null;
+    if (!identity) {
+      const next = await recordFailedLogin(supabase, ip);
+      if (next.lockedUntil) {
+        const retryAfter = Math.ceil((next.lockedUntil - Date.now()) / 1000);
+        return NextResponse.json(
+          { success: false, message: 'Too many failed attempts.', retryAfter },
+          { status: 429, headers: { 'Retry-After': String(retryAfter) } }
+        );
+      }
+      return NextResponse.json(
+        { success: false, message: 'Invalid username or password.', attemptsRemaining: MAX_LOGIN_ATTEMPTS - next.failedCount },
+        { status: 401 }
+      );
+    }
+
+    await clearLoginAttempts(supabase, ip);
+    const token = await createAdminSessionToken(identity);
+    const response = NextResponse.json({ success: true, message: 'Logged in.', username: identity.username, role: identity.role });
+    response.cookies.set(ADMIN_SESSION_COOKIE, token, { ...adminSessionCookieOptions, maxAge: ADMIN_SESSION_MAX_AGE });
+    return response;
+  } catch (error: any) {
+    console.error('Admin login error:', error);
+    return NextResponse.json({ success: false, message: 'Login failed.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createAdminClient } from '@/lib/supabase-client';
+import { ADMIN_SESSION_COOKIE, adminSessionCookieOptions, verifyAdminSessionToken } from '@/lib/admin-auth';
+import { revokeAdminSession } from '@/lib/admin-session-revocations';
+
+export async function POST(request: NextRequest) {
+  const session = await verifyAdminSessionToken(request.cookies.get(ADMIN_SESSION_COOKIE)?.value);
+  let response = NextResponse.json({ success: true, message: 'Logged out.' });
+  if (session) {
+    try {
+      await revokeAdminSession(createAdminClient(), session);
+    } catch (error) {
+      console.error('Admin logout error:', error);
+      response = NextResponse.json({ success: false, message: 'Logout failed.' }, { status: 500 });
+    }
+  }
+  // The cookie is cleared either way.
+  response.cookies.set(ADMIN_SESSION_COOKIE, '', { ...adminSessionCookieOptions, maxAge: 0 });
+  return response;
+}
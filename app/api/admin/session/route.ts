@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createAdminClient } from '@/lib/supabase-client';
+import { getAdminSession } from '@/lib/admin-guard';
+import { getLoginAttemptState } from '@/lib/admin-lockout';
+import { getClientIp } from '@/lib/request-ip';
+
+// Lets the admin page know whether it already holds a valid session, and how
+// long a lockout still has to run if it doesn't. The role decides which tabs
+// the page shows; the actions enforce it again on the server.
+export async function GET(request: NextRequest) {
+  const session = await getAdminSession();
+  if (session) {
+    return NextResponse.json({ authenticated: true, username: session.username, role: session.role });
+  }
+  try {
+    const state = await getLoginAttemptState(createAdminClient(), getClientIp(request));
+    const retryAfter = state.lockedUntil ? Math.ceil((state.lockedUntil - Date.now()) / 1000) : 0;
+    return NextResponse.json({ authenticated: false, retryAfter });
+  } catch {
+    return NextResponse.json({ authenticated: false, retryAfter: 0 });
+  }
+}
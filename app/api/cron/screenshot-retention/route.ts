@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createAdminClient } from '@/lib/supabase-client';
+import { secretMatches } from '@/lib/admin-auth';
+import { recordAudit, systemAuditActor } from '@/lib/audit-log';
+import { getScreenshotRetention } from '@/lib/app-settings';
+import { applyScreenshotRetention } from '@/lib/screenshot-retention';
+
+// Recorded as the actor in the audit log for scheduled purges.
+const RETENTION_JOB = systemAuditActor('screenshot-retention');
+
+/**
+ * Scheduled job that deletes screenshots past the retention policy set in the
+ * admin panel. Call with `Authorization: Bearer <CRON_SECRET>`; add `?dryRun=1`
+ * to get the report without deleting anything.
+ */
+export async function GET(request: NextRequest) {
+  const token = request.headers.get('authorization')?.replace(/^Bearer\s+/i, '');
+  if (!(await secretMatches(token, process.env.CRON_SECRET))) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const dryRun = ['1', 'true'].includes(request.nextUrl.searchParams.get('dryRun') || '');
+  try {
+    const supabase = createAdminClient();
+    const policy = await getScreenshotRetention(supabase);
+    const result = await applyScreenshotRetention(supabase, policy, dryRun);
+    if (!dryRun && result.purged > 0) {
+      await recordAudit(supabase, RETENTION_JOB, {
+        action: 'purge_screenshots',
+        table: 'p100_submissions',
+        before: { policy },
+        after: { ids: result.purgedIds },
+      });
+    }
+    return NextResponse.json({
+      dryRun,
+      policy,
+      count: result.candidates.length,
+      purged: result.purged,
+      candidates: result.candidates.map(({ id, username, status, reviewed_at }) => ({ id, username, status, reviewed_at })),
+    });
+  } catch (error) {
+    console.error('Screenshot retention error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Screenshot retention failed' },
+      { status: 500 }
+    );
+  }
+}
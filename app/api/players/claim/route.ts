@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createAdminClient } from '@/lib/supabase-client';
+import { startPlayerClaim, submitClaimProof } from '@/lib/player-claims';
+import { checkRateLimit, getRateLimitStore } from '@/lib/rate-limit';
+import { getClientIp } from '@/lib/request-ip';
+import { BLACKLISTED_MESSAGE, isBlacklisted } from '@/lib/blacklist-service';
+
+// New claims per IP, so the moderators' queue cannot be flooded.
+const CLAIM_START_LIMIT = 5;
+const CLAIM_START_WINDOW = 60 * 60 * 1000;
+// Proof submissions per IP, to keep claim keys from being guessed.
+const CLAIM_PROOF_LIMIT = 20;
+const CLAIM_PROOF_WINDOW = 15 * 60 * 1000;
+
+async function rateLimited(request: NextRequest, scope: string, limit: number, windowMs: number) {
+  const result = await checkRateLimit(getRateLimitStore(createAdminClient()), `${scope}:ip:${getClientIp(request)}`, limit, windowMs);
+  if (result.allowed) return null;
+  return NextResponse.json(
+    { success: false, message: 'Too many requests. Please try again later.', retryAfter: result.retryAfter },
+    { status: 429, headers: { 'Retry-After': String(result.retryAfter) } }
+  );
+}
+
+/** Starts a claim on a profile. Takes JSON with the username. */
+export async function POST(request: NextRequest) {
+  try {
+    const limited = await rateLimited(request, 'claim', CLAIM_START_LIMIT, CLAIM_START_WINDOW);
+    if (limited) return limited;
+
+    const body = await request.json().catch(() => ({})) as { username?: string };
+    const username = typeof body.username === 'string' ? body.username.trim() : '';
+    if (!username) {
+      return NextResponse.json({ success: false, message: 'Username is required.' }, { status: 400 });
+    }
+
+    const supabase = createAdminClient();
+    const ip = getClientIp(request);
+    if (await isBlacklisted(supabase, { username, ip: ip === 'unknown' ? null : ip }, 'claim')) {
+      return NextResponse.json({ success: false, message: BLACKLISTED_MESSAGE }, { status: 403 });
+    }
+
+    const result = await startPlayerClaim(supabase, username);
+    if (!result.success) {
+      return NextResponse.json({ success: false, message: result.message }, { status: result.status });
+    }
+    return NextResponse.json({ success: true, ...result.data });
+  } catch (error) {
+    console.error('Player claim error:', error);
+    return NextResponse.json({ success: false, message: 'Could not start claim.' }, { status: 500 });
+  }
+}
+
+/** Links the post with the verification code. Takes JSON with the claim key and proof URL. */
+export async function PATCH(request: NextRequest) {
+  try {
+    const limited = await rateLimited(request, 'claim-proof', CLAIM_PROOF_LIMIT, CLAIM_PROOF_WINDOW);
+    if (limited) return limited;
+
+    const body = await request.json().catch(() => ({})) as { key?: string; proofUrl?: string };
+    const key = typeof body.key === 'string' ? body.key.trim() : '';
+    const proofUrl = typeof body.proofUrl === 'string' ? body.proofUrl.trim() : '';
+    if (!key || !proofUrl) {
+      return NextResponse.json({ success: false, message: 'Please enter your claim key and the link to your post.' }, { status: 400 });
+    }
+
+    const result = await submitClaimProof(createAdminClient(), key, proofUrl);
+    if (!result.success) {
+      return NextResponse.json({ success: false, message: result.message }, { status: result.status });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Claim proof error:', error);
+    return NextResponse.json({ success: false, message: 'Could not save claim proof.' }, { status: 500 });
+  }
+}
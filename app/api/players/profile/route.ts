@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { revalidatePath } from 'next/cache';
+import { createAdminClient } from '@/lib/supabase-client';
+import { getOwnProfile, OwnProfileUpdate, updateOwnProfile } from '@/lib/player-claims';
+import { checkRateLimit, getRateLimitStore } from '@/lib/rate-limit';
+import { getClientIp } from '@/lib/request-ip';
+
+// Requests per IP, to keep claim keys from being guessed.
+const PROFILE_LIMIT = 30;
+const PROFILE_WINDOW = 15 * 60 * 1000;
+
+async function rateLimited(request: NextRequest) {
+  const limit = await checkRateLimit(getRateLimitStore(createAdminClient()), `profile:ip:${getClientIp(request)}`, PROFILE_LIMIT, PROFILE_WINDOW);
+  if (limit.allowed) return null;
+  return NextResponse.json(
+    { success: false, message: 'Too many requests. Please try again later.', retryAfter: limit.retryAfter },
+    { status: 429, headers: { 'Retry-After': String(limit.retryAfter) } }
+  );
+}
+
+const optionalLink = (value: unknown) => (typeof value === 'string' || value === null ? value : undefined);
+
+/** Loads the claim for a key and, once verified, the editable profile. Takes JSON with the claim key. */
+export async function POST(request: NextRequest) {
+  try {
+    const limited = await rateLimited(request);
+    if (limited) return limited;
+
+    const body = await request.json().catch(() => ({})) as { key?: string };
+    const key = typeof body.key === 'string' ? body.key.trim() : '';
+    if (!key) {
+      return NextResponse.json({ success: false, message: 'Please enter your claim key.' }, { status: 400 });
+    }
+
+    const result = await getOwnProfile(createAdminClient(), key);
+    if (!result.success) {
+      return NextResponse.json({ success: false, message: result.message }, { status: result.status });
+    }
+    return NextResponse.json({ success: true, profile: result.data });
+  } catch (error) {
+    console.error('Own profile lookup error:', error);
+    return NextResponse.json({ success: false, message: 'Could not load profile.' }, { status: 500 });
+  }
+}
+
+/**
+ * Saves an owner's changes. Takes JSON with the claim key and any of
+ * favoriteEntryId, hiddenEntryIds and the social links.
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const limited = await rateLimited(request);
+    if (limited) return limited;
+
+    const body = await request.json().catch(() => ({})) as Record<string, unknown>;
+    const key = typeof body.key === 'string' ? body.key.trim() : '';
+    if (!key) {
+      return NextResponse.json({ success: false, message: 'Please enter your claim key.' }, { status: 400 });
+    }
+
+    const update: OwnProfileUpdate = {
+      twitch_url: optionalLink(body.twitch_url),
+      youtube_url: optionalLink(body.youtube_url),
+      twitter_url: optionalLink(body.twitter_url),
+    };
+    if (typeof body.favoriteEntryId === 'string' || body.favoriteEntryId === null) update.favoriteEntryId = body.favoriteEntryId;
+    if (Array.isArray(body.hiddenEntryIds)) {
+      if (!body.hiddenEntryIds.every(id => typeof id === 'string')) {
+        return NextResponse.json({ success: false, message: 'Invalid hidden entries.' }, { status: 400 });
+      }
+      update.hiddenEntryIds = body.hiddenEntryIds;
+    }
+
+    const result = await updateOwnProfile(createAdminClient(), key, update);
+    if (!result.success) {
+      return NextResponse.json({ success: false, message: result.message }, { status: result.status });
+    }
+    revalidatePath(`/profile/${encodeURIComponent(result.data.username)}`);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Own profile update error:', error);
+    return NextResponse.json({ success: false, message: 'Could not save profile.' }, { status: 500 });
+  }
+}
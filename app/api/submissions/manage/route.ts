@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createAdminClient, validateInput } from '@/lib/supabase-client';
+import { validateScreenshotFile } from '@/lib/submissions-service';
+import { editSubmission, SubmissionEdit, withdrawSubmission } from '@/lib/submission-edits';
+import { prepareScreenshot } from '@/lib/screenshot-processing';
+import { checkRateLimit, getRateLimitStore } from '@/lib/rate-limit';
+import { getClientIp } from '@/lib/request-ip';
+
+// sharp needs Node.js; the root layout defaults everything else to the edge runtime.
+export const runtime = 'nodejs';
+
+// Edits and withdrawals per IP, to keep tracking codes from being guessed.
+const MANAGE_LIMIT = 20;
+const MANAGE_WINDOW = 15 * 60 * 1000;
+
+async function rateLimited(request: NextRequest) {
+  const limit = await checkRateLimit(getRateLimitStore(createAdminClient()), `manage:ip:${getClientIp(request)}`, MANAGE_LIMIT, MANAGE_WINDOW);
+  if (limit.allowed) return null;
+  return NextResponse.json(
+    { success: false, message: 'Too many changes. Please try again later.', retryAfter: limit.retryAfter },
+    { status: 429, headers: { 'Retry-After': String(limit.retryAfter) } }
+  );
+}
+
+/**
+ * Edits a pending submission. Takes multipart form data with the tracking
+ * code and any of characterType + characterId, screenshot and comment.
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const limited = await rateLimited(request);
+    if (limited) return limited;
+
+    let form: FormData;
+    try {
+      form = await request.formData();
+    } catch {
+      return NextResponse.json({ success: false, message: 'Expected multipart form data' }, { status: 400 });
+    }
+
+    const code = form.get('code');
+    if (typeof code !== 'string' || !code.trim()) {
+      return NextResponse.json({ success: false, message: 'Please enter your tracking code.' }, { status: 400 });
+    }
+
+    const edit: SubmissionEdit = {};
+    const characterType = form.get('characterType');
+    const characterId = form.get('characterId');
+    if (characterId) {
+      if ((characterType !== 'killer' && characterType !== 'survivor') || typeof characterId !== 'string' || !validateInput.characterId(characterId, characterType)) {
+        return NextResponse.json({ success: false, message: 'Invalid character selection' }, { status: 400 });
+      }
+      edit.characterType = characterType;
+      edit.characterId = characterId;
+    }
+
+    const comment = form.get('comment');
+    if (typeof comment === 'string') edit.comment = comment;
+
+    const screenshot = form.get('screenshot');
+    if (screenshot instanceof File && screenshot.size > 0) {
+      const fileError = validateScreenshotFile(screenshot);
+      if (fileError) {
+        return NextResponse.json({ success: false, message: fileError }, { status: 400 });
+      }
+      try {
+        const prepared = await prepareScreenshot(Buffer.from(await screenshot.arrayBuffer()));
+        edit.screenshot = { file: screenshot, processed: prepared.webp, hash: prepared.hash };
+      } catch (error) {
+        console.warn('Could not decode screenshot:', error);
+        return NextResponse.json({ success: false, message: 'The screenshot could not be read as an image' }, { status: 400 });
+      }
+    }
+
+    const result = await editSubmission(createAdminClient(), code.trim(), edit);
+    if (!result.success) {
+      return NextResponse.json({ success: false, message: result.message }, { status: result.status });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Submission edit error:', error);
+    return NextResponse.json({ success: false, message: 'Could not update submission.' }, { status: 500 });
+  }
+}
+
+/** Withdraws a pending submission. Takes JSON with the tracking code. */
+export async function DELETE(request: NextRequest) {
+  try {
+    const limited = await rateLimited(request);
+    if (limited) return limited;
+
+    const body = await request.json().catch(() => ({})) as { code?: string };
+    const code = typeof body.code === 'string' ? body.code.trim() : '';
+    if (!code) {
+      return NextResponse.json({ success: false, message: 'Please enter your tracking code.' }, { status: 400 });
+    }
+
+    const result = await withdrawSubmission(createAdminClient(), code);
+    if (!result.success) {
+      return NextResponse.json({ success: false, message: result.message }, { status: result.status });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Submission withdraw error:', error);
+    return NextResponse.json({ success: false, message: 'Could not withdraw submission.' }, { status: 500 });
+  }
+}
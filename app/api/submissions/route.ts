@@ -0,0 +1,217 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createAdminClient, sanitizeInput, validateInput } from '@/lib/supabase-client';
+import { createSubmission, SUBMISSION_MAX_BATCH_SIZE, SUBMISSION_MAX_REQUEST_SIZE, SubmissionClaims, validateScreenshotFile, validateSubmissionClaims } from '@/lib/submissions-service';
+import { PreparedScreenshot, prepareScreenshot } from '@/lib/screenshot-processing';
+import { getSubmissionRateLimits } from '@/lib/app-settings';
+import { checkRateLimit, getRateLimitStore, RateLimitResult } from '@/lib/rate-limit';
+import { getClientIp } from '@/lib/request-ip';
+import { BLACKLISTED_MESSAGE, isBlacklisted } from '@/lib/blacklist-service';
+
+// sharp needs Node.js; the root layout defaults everything else to the edge runtime.
+export const runtime = 'nodejs';
+
+function tooManyRequests({ retryAfter }: RateLimitResult) {
+  const minutes = Math.ceil(retryAfter / 60);
+  return NextResponse.json(
+    { success: false, message: `Too many submissions. Please try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`, retryAfter },
+    { status: 429, headers: { 'Retry-After': String(retryAfter) } }
+  );
+}
+
+interface SubmissionEntry {
+  characterType: 'killer' | 'survivor';
+  characterId: string;
+  screenshot: File;
+  claims: SubmissionClaims;
+}
+
+type SubmissionEntryResult =
+  | { characterType: string; characterId: string; success: true; submissionId: string; trackingCode: string }
+  | { characterType: string; characterId: string; success: false; message: string };
+
+/**
+ * Pairs up the repeated characterType / characterId / screenshot fields, plus
+ * the optional per-entry claimP200 / claimLegacy / claimNotes / claimEvidence
+ * fields (sent as empty strings when unused so the indexes stay aligned).
+ * A single-character submission is just a batch of one.
+ */
+function readEntries(form: FormData): { entries: SubmissionEntry[] } | { error: string } {
+  const types = form.getAll('characterType');
+  const ids = form.getAll('characterId');
+  const screenshots = form.getAll('screenshot');
+  const [claimP200, claimLegacy, claimNotes, claimEvidence] = ['claimP200', 'claimLegacy', 'claimNotes', 'claimEvidence'].map(name => form.getAll(name));
+
+  if (types.length === 0 || types.length !== ids.length || types.length !== screenshots.length) {
+    return { error: 'Please fill in all fields' };
+  }
+  if (types.length > SUBMISSION_MAX_BATCH_SIZE) {
+    return { error: `You can submit at most ${SUBMISSION_MAX_BATCH_SIZE} P100s at once` };
+  }
+
+  const entries: SubmissionEntry[] = [];
+  const seen = new Set<string>();
+  for (let i = 0; i < types.length; i++) {
+    const [characterType, characterId, screenshot] = [types[i], ids[i], screenshots[i]];
+    if (typeof characterId !== 'string' || !characterId || !(screenshot instanceof File)) {
+      return { error: 'Please fill in all fields' };
+    }
+    if ((characterType !== 'killer' && characterType !== 'survivor') || !validateInput.characterId(characterId, characterType)) {
+      return { error: 'Invalid character selection' };
+    }
+    if (seen.has(`${characterType}:${characterId}`)) {
+      return { error: 'Each character can only be submitted once per form' };
+    }
+    seen.add(`${characterType}:${characterId}`);
+    const evidence = claimEvidence[i];
+    entries.push({
+      characterType,
+      characterId,
+      screenshot,
+      claims: {
+        p200: claimP200[i] === 'true',
+        legacy: claimLegacy[i] === 'true',
+        evidence: evidence instanceof File && evidence.size > 0 ? evidence : null,
+        notes: typeof claimNotes[i] === 'string' ? claimNotes[i] as string : '',
+      },
+    });
+  }
+  return { entries };
+}
+
+/**
+ * Public P100 submission endpoint. Takes multipart form data with username, an
+ * optional comment, and one or more characterType / characterId / screenshot
+ * fields. Multiple entries become separate submissions sharing a batch_id.
+ */
+export async function POST(request: NextRequest) {
+  // Checked before anything is read: a full batch with evidence files could
+  // otherwise be several hundred MB held in memory.
+  const contentLength = request.headers.get('content-length');
+  if (contentLength === null) {
+    return NextResponse.json({ success: false, message: 'Content-Length is required' }, { status: 411 });
+  }
+  if (Number(contentLength) > SUBMISSION_MAX_REQUEST_SIZE) {
+    return NextResponse.json(
+      { success: false, message: `All files together must be less than ${SUBMISSION_MAX_REQUEST_SIZE / 1024 / 1024}MB` },
+      { status: 413 }
+    );
+  }
+
+  const ip = getClientIp(request);
+  try {
+    const supabase = createAdminClient();
+    const store = getRateLimitStore(supabase);
+    const limits = await getSubmissionRateLimits(supabase);
+    const windowMs = limits.windowMinutes * 60 * 1000;
+
+    // The per-IP limit counts one hit per entry. The first is counted before the
+    // body is read so a blocked IP cannot keep uploading, the rest once the
+    // entries are known. Without a known IP every client would share one
+    // counter, so only the per-username limit applies then.
+    const ipKey = ip === 'unknown' ? null : `submission:ip:${ip}`;
+    if (ipKey) {
+      const ipLimit = await checkRateLimit(store, ipKey, limits.perIp, windowMs);
+      if (!ipLimit.allowed) return tooManyRequests(ipLimit);
+    }
+
+    let form: FormData;
+    try {
+      form = await request.formData();
+    } catch {
+      return NextResponse.json({ success: false, message: 'Expected multipart form data' }, { status: 400 });
+    }
+
+    const rawUsername = form.get('username');
+    const comment = form.get('comment');
+    if (typeof rawUsername !== 'string' || !rawUsername) {
+      return NextResponse.json({ success: false, message: 'Please fill in all fields' }, { status: 400 });
+    }
+    const username = sanitizeInput(rawUsername);
+    if (!validateInput.username(username)) {
+      return NextResponse.json({ success: false, message: 'Username must be 1-50 characters' }, { status: 400 });
+    }
+
+    // Sent by the submission form; only used for device bans.
+    const rawFingerprint = form.get('fingerprint');
+    const fingerprint = typeof rawFingerprint === 'string' && /^[a-f0-9]{16,64}$/i.test(rawFingerprint) ? rawFingerprint.toLowerCase() : null;
+    const submitter = { ip: ip === 'unknown' ? null : ip, fingerprint };
+
+    const parsed = readEntries(form);
+    if ('error' in parsed) {
+      return NextResponse.json({ success: false, message: parsed.error }, { status: 400 });
+    }
+    const { entries } = parsed;
+    const label = (i: number) => (entries.length > 1 ? `Entry ${i + 1}: ` : '');
+
+    if (ipKey && entries.length > 1) {
+      const ipLimit = await checkRateLimit(store, ipKey, limits.perIp, windowMs, entries.length - 1);
+      if (!ipLimit.allowed) return tooManyRequests(ipLimit);
+    }
+
+    if (await isBlacklisted(supabase, { username, ...submitter }, 'submission')) {
+      return NextResponse.json({ success: false, message: BLACKLISTED_MESSAGE }, { status: 403 });
+    }
+
+    const prepared: PreparedScreenshot[] = [];
+    for (const [i, entry] of entries.entries()) {
+      const fileError = validateScreenshotFile(entry.screenshot) || validateSubmissionClaims(entry.claims);
+      if (fileError) {
+        return NextResponse.json({ success: false, message: label(i) + fileError }, { status: 400 });
+      }
+      try {
+        prepared.push(await prepareScreenshot(Buffer.from(await entry.screenshot.arrayBuffer())));
+      } catch (error) {
+        console.warn('Could not decode screenshot:', error);
+        return NextResponse.json({ success: false, message: `${label(i)}The screenshot could not be read as an image` }, { status: 400 });
+      }
+    }
+
+    // Counted once the batch is known to be valid, one hit per entry, so a
+    // rejected upload does not use up the username's quota.
+    const usernameLimit = await checkRateLimit(store, `submission:user:${username.toLowerCase()}`, limits.perUsername, windowMs, entries.length);
+    if (!usernameLimit.allowed) return tooManyRequests(usernameLimit);
+
+    // Entries are stored one by one so a duplicate on one character does not block the rest.
+    const batchId = entries.length > 1 ? crypto.randomUUID() : null;
+    const results: SubmissionEntryResult[] = [];
+    let failureStatus = 500;
+    for (const [i, entry] of entries.entries()) {
+      const base = { characterType: entry.characterType, characterId: entry.characterId };
+      try {
+        const result = await createSubmission(supabase, {
+          username,
+          characterType: entry.characterType,
+          characterId: entry.characterId,
+          screenshot: entry.screenshot,
+          processedScreenshot: prepared[i].webp,
+          screenshotHash: prepared[i].hash,
+          comment: typeof comment === 'string' ? comment : '',
+          batchId,
+          claims: entry.claims,
+          submitter,
+        });
+        if (result.success) {
+          results.push({ ...base, success: true, submissionId: result.submissionId, trackingCode: result.trackingCode });
+        } else {
+          if (!results.some(r => !r.success)) failureStatus = result.status;
+          results.push({ ...base, success: false, message: label(i) + result.message });
+        }
+      } catch (error) {
+        console.error('Submission error:', error);
+        results.push({ ...base, success: false, message: label(i) + (error instanceof Error ? error.message : 'Something went wrong') });
+      }
+    }
+
+    if (results.some(r => r.success)) {
+      return NextResponse.json({ success: true, batchId, entries: results }, { status: 201 });
+    }
+    const firstFailure = results[0] as Extract<SubmissionEntryResult, { success: false }>;
+    return NextResponse.json({ success: false, message: firstFailure.message, entries: results }, { status: failureStatus });
+  } catch (error) {
+    console.error('Submission error:', error);
+    return NextResponse.json(
+      { success: false, message: error instanceof Error ? error.message : 'Something went wrong' },
+      { status: 500 }
+    );
+  }
+}
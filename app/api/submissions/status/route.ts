@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createAdminClient, sanitizeInput } from '@/lib/supabase-client';
+import { getSubmissionByTrackingCode, getUsernameStatusSummary } from '@/lib/submission-tracking';
+import { checkRateLimit, getRateLimitStore } from '@/lib/rate-limit';
+import { getClientIp } from '@/lib/request-ip';
+
+// Lookups per IP, to keep tracking codes from being guessed.
+const STATUS_LOOKUP_LIMIT = 30;
+const STATUS_LOOKUP_WINDOW = 15 * 60 * 1000;
+
+/**
+ * Submission status lookup. With a tracking code (optionally plus username) it
+ * returns that submission's status and rejection reason; with only a username
+ * it returns per-status counts and nothing else.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = createAdminClient();
+    const limit = await checkRateLimit(getRateLimitStore(supabase), `status:ip:${getClientIp(request)}`, STATUS_LOOKUP_LIMIT, STATUS_LOOKUP_WINDOW);
+    if (!limit.allowed) {
+      return NextResponse.json(
+        { success: false, message: 'Too many lookups. Please try again later.', retryAfter: limit.retryAfter },
+        { status: 429, headers: { 'Retry-After': String(limit.retryAfter) } }
+      );
+    }
+
+    const body = await request.json().catch(() => ({})) as { code?: string; username?: string };
+    const code = typeof body.code === 'string' ? body.code.trim() : '';
+    const username = typeof body.username === 'string' ? sanitizeInput(body.username).trim() : '';
+
+    if (code) {
+      const submission = await getSubmissionByTrackingCode(supabase, code, username || undefined);
+      if (!submission) {
+        return NextResponse.json({ success: false, message: 'No submission matches that tracking code.' }, { status: 404 });
+      }
+      return NextResponse.json({ success: true, submission });
+    }
+
+    if (username) {
+      const summary = await getUsernameStatusSummary(supabase, username);
+      return NextResponse.json({ success: true, summary });
+    }
+
+    return NextResponse.json({ success: false, message: 'Please enter a tracking code or a username.' }, { status: 400 });
+  } catch (error) {
+    console.error('Status lookup error:', error);
+    return NextResponse.json({ success: false, message: 'Could not look up submission status.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,19 @@
+import { NextRequest } from 'next/server';
+import { createServerClient } from '@/lib/supabase-client';
+import { ApiError, apiFile, apiOptions, getCharacterP100List, handleApiRequest } from '@/lib/public-api';
+import { EXPORT_FORMATS, ExportFormat, exportFileName, formatExport } from '@/lib/p100-export';
+
+/** Downloads the killer's P100 list as it appears on the page. Query: format (csv or json). */
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  return handleApiRequest(request, async () => {
+    const format = (request.nextUrl.searchParams.get('format') || 'csv') as ExportFormat;
+    if (!EXPORT_FORMATS.includes(format)) throw new ApiError(400, 'invalid_parameter', 'format must be csv or json.');
+
+    const { character, players } = await getCharacterP100List(createServerClient(), 'killer', params.id);
+    const rows = players.map(p => ({ ...p, character_id: character.id, character_name: character.name, character_type: character.type }));
+    const { body, contentType } = formatExport(rows, format);
+    return apiFile(body, contentType, exportFileName(character.name, format));
+  });
+}
+
+export const OPTIONS = apiOptions;
@@ -0,0 +1,14 @@
+import { NextRequest } from 'next/server';
+import { createServerClient } from '@/lib/supabase-client';
+import { apiOptions, apiPage, getCharacterP100s, handleApiRequest, parsePagination } from '@/lib/public-api';
+
+/** One killer with its P100 players in page order. Query: page, per_page. */
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  return handleApiRequest(request, async () => {
+    const { page, perPage } = parsePagination(request.nextUrl.searchParams);
+    const { character, players } = await getCharacterP100s(createServerClient(), 'killer', params.id, page, perPage);
+    return apiPage(players, { character });
+  });
+}
+
+export const OPTIONS = apiOptions;
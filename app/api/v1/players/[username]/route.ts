@@ -0,0 +1,42 @@
+import { NextRequest } from 'next/server';
+import { createServerClient } from '@/lib/supabase-client';
+import { resolveCanonicalUsername } from '@/lib/player-aliases';
+import { getPlayerProfile } from '@/lib/players-service';
+import { ApiError, apiOptions, apiPage, apiResponse, getPlayerP100s, handleApiRequest, parsePagination } from '@/lib/public-api';
+
+/**
+ * A player's P100s and profile links. Old usernames of renamed players
+ * redirect to the current one, like profile pages do. Query: page, per_page.
+ */
+export async function GET(request: NextRequest, { params }: { params: { username: string } }) {
+  return handleApiRequest(request, async () => {
+    const { page, perPage } = parsePagination(request.nextUrl.searchParams);
+    const username = params.username.trim();
+    const supabase = createServerClient();
+
+    const entries = await getPlayerP100s(supabase, username, page, perPage);
+    if (!entries) {
+      const canonical = await resolveCanonicalUsername(supabase, username);
+      if (canonical) {
+        const url = new URL(`/api/v1/players/${encodeURIComponent(canonical)}`, request.nextUrl);
+        url.search = request.nextUrl.search;
+        return apiResponse({ success: true, redirect: url.pathname }, 301, { Location: url.toString() });
+      }
+      throw new ApiError(404, 'not_found', `No player named "${username}" has public P100s.`);
+    }
+
+    const profile = await getPlayerProfile(supabase, username);
+    return apiPage(entries, {
+      player: {
+        username,
+        platform: profile?.platform ?? null,
+        country: profile?.country ?? null,
+        twitch_url: profile?.twitch_url ?? null,
+        youtube_url: profile?.youtube_url ?? null,
+        twitter_url: profile?.twitter_url ?? null,
+      },
+    });
+  });
+}
+
+export const OPTIONS = apiOptions;
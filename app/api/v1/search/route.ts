@@ -0,0 +1,23 @@
+import { NextRequest } from 'next/server';
+import { createServerClient } from '@/lib/supabase-client';
+import { ApiError, apiOptions, apiPage, handleApiRequest, parsePagination, searchPublicData } from '@/lib/public-api';
+
+const MIN_QUERY_LENGTH = 2;
+const MAX_QUERY_LENGTH = 50;
+
+/** Players and characters matching `q`; players are paginated. Query: q, page, per_page. */
+export async function GET(request: NextRequest) {
+  return handleApiRequest(request, async () => {
+    const { searchParams } = request.nextUrl;
+    const { page, perPage } = parsePagination(searchParams);
+    const q = (searchParams.get('q') || '').trim();
+    if (q.length < MIN_QUERY_LENGTH || q.length > MAX_QUERY_LENGTH) {
+      throw new ApiError(400, 'invalid_parameter', `q must be between ${MIN_QUERY_LENGTH} and ${MAX_QUERY_LENGTH} characters.`);
+    }
+
+    const { players, characters } = await searchPublicData(createServerClient(), q, page, perPage);
+    return apiPage(players, { characters });
+  });
+}
+
+export const OPTIONS = apiOptions;
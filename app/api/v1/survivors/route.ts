@@ -0,0 +1,13 @@
+import { NextRequest } from 'next/server';
+import { createServerClient } from '@/lib/supabase-client';
+import { apiOptions, apiPage, handleApiRequest, listCharacters, parsePagination } from '@/lib/public-api';
+
+/** Survivors in site order. Query: page, per_page. */
+export async function GET(request: NextRequest) {
+  return handleApiRequest(request, async () => {
+    const { page, perPage } = parsePagination(request.nextUrl.searchParams);
+    return apiPage(await listCharacters(createServerClient(), 'survivor', page, perPage));
+  });
+}
+
+export const OPTIONS = apiOptions;
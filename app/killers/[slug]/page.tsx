@@ -63,6 +63,7 @@ export async function generateStaticParams() {
     const { data: killers, error } = await supabase
       .from('killers')
       .select('id')
+      .is('deleted_at', null)
       .order('id');
     
     if (error) {
@@ -88,6 +89,7 @@ async function getKillerData(slug: string): Promise<KillerData | null> {
   const { data: killer, error: killerError } = await supabase
     .from('killers')
     .select('id, name, image_url, created_at, updated_at, order, background_image_url, background_credit_name, background_credit_url')
+    .is('deleted_at', null)
     .eq('id', slug)
     .single();
 
@@ -113,6 +115,8 @@ async function getKillerData(slug: string): Promise<KillerData | null> {
   const { data: playersById, error: playersByIdError } = await supabase
     .from('p100_players')
     .select('*')
+    .is('deleted_at', null)
+    .eq('hidden', false)
     .eq('killer_id', killer.id)
     .order('priority', { ascending: false })
     .order('added_at', { ascending: true });
@@ -125,6 +129,8 @@ async function getKillerData(slug: string): Promise<KillerData | null> {
     const { data: playersByName, error: playersByNameError } = await supabase
       .from('p100_players')
       .select('*')
+      .is('deleted_at', null)
+      .eq('hidden', false)
       .eq('killer_id', killerNameLower)
       .order('priority', { ascending: false })
       .order('added_at', { ascending: true });
@@ -314,6 +320,13 @@ export default async function KillerPage({ params }: { params: { slug: string }
                   <div className="bg-black/30 border border-red-600/20 rounded-lg p-6 backdrop-blur-sm">
                     <div className="mb-4 flex items-center justify-center gap-4 text-sm text-gray-400 font-mono">
                       <span>Total P100 Players: {killerData.players.length}</span>
+                      <span className="text-gray-600">|</span>
+                      <span>
+                        Export:{' '}
+                        <a href={`/api/v1/killers/${encodeURIComponent(killerData.id)}/export?format=csv`} className="text-red-400 hover:text-red-300 underline">CSV</a>
+                        {' · '}
+                        <a href={`/api/v1/killers/${encodeURIComponent(killerData.id)}/export?format=json`} className="text-red-400 hover:text-red-300 underline">JSON</a>
+                      </span>
                     </div>
                     <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-3">
                       {killerData.players.map((player) => {
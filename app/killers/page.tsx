@@ -16,6 +16,7 @@ async function getKillers(): Promise<Character[]> {
     const { data, error } = await supabase
       .from('killers')
       .select('*')
+      .is('deleted_at', null)
       .order('order', { ascending: true });
     
     if (error) {
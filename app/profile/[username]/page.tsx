@@ -1,4 +1,4 @@
-import { notFound } from 'next/navigation';
+import { notFound, permanentRedirect } from 'next/navigation';
 import Image from 'next/image';
 import Link from 'next/link';
 import Navigation from '@/components/ui/Navigation';
@@ -6,9 +6,14 @@ import BackgroundWrapper from '@/components/BackgroundWrapper';
 import { createServerClient } from '@/lib/supabase-client';
 import { Crown, Shield } from 'lucide-react';
 import PlayerProfileHeader from '@/components/PlayerProfileHeader';
+import PlayerProfileClaim from '@/components/PlayerProfileClaim';
+import { getAliasesFor, resolveCanonicalUsername } from '@/lib/player-aliases';
+import { getPlayerProfile, PlayerProfile } from '@/lib/players-service';
 
 interface PlayerP100s {
   username: string;
+  aliases?: string[];
+  profile?: PlayerProfile | null;
   killers: Array<{
     id: string;
     name: string;
@@ -33,6 +38,8 @@ async function getPlayerData(username: string): Promise<PlayerP100s | null> {
   const { data: players, error } = await supabase
     .from('p100_players')
     .select('killer_id, survivor_id, p200, legacy, favorite') // Add favorite field
+    .is('deleted_at', null)
+    .eq('hidden', false)
     .eq('username', username);
 
   if (error) {
@@ -50,10 +57,10 @@ async function getPlayerData(username: string): Promise<PlayerP100s | null> {
 
   const [killersResponse, survivorsResponse] = await Promise.all([
     killerIds.length > 0
-      ? supabase.from('killers').select('id, name, image_url').in('id', killerIds)
+      ? supabase.from('killers').select('id, name, image_url').is('deleted_at', null).in('id', killerIds)
       : Promise.resolve({ data: [], error: null }),
     survivorIds.length > 0
-      ? supabase.from('survivors').select('id, name, image_url').in('id', survivorIds)
+      ? supabase.from('survivors').select('id, name, image_url').is('deleted_at', null).in('id', survivorIds)
       : Promise.resolve({ data: [], error: null })
   ]);
   
@@ -96,6 +103,17 @@ export default async function PlayerProfilePage({ params }: { params: { username
   
   const totalP100s = playerData.killers.length + playerData.survivors.length;
 
+  // Old names of merged players redirect, unless someone has since taken the name.
+  const supabase = createServerClient();
+  if (totalP100s === 0) {
+    const canonical = await resolveCanonicalUsername(supabase, decodedUsername);
+    if (canonical) permanentRedirect(`/profile/${encodeURIComponent(canonical)}`);
+  }
+  [playerData.aliases, playerData.profile] = await Promise.all([
+    getAliasesFor(supabase, playerData.username),
+    getPlayerProfile(supabase, playerData.username).catch(() => null),
+  ]);
+
   return (
     <BackgroundWrapper backgroundUrl="/search.png">
       <Navigation />
@@ -107,6 +125,7 @@ export default async function PlayerProfilePage({ params }: { params: { username
 
           <div className="space-y-12">
             <PlayerProfileHeader player={playerData} />
+            {playerData.profile && <PlayerProfileClaim username={playerData.username} />}
 
             {playerData.killers.length > 0 && (
               <div>
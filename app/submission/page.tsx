@@ -12,39 +12,8 @@ import { Textarea } from '@/components/ui/textarea';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { useRouter } from 'next/navigation';
-import DOMPurify from 'dompurify';
-
-const normalizeLeet = (str: string): string => {
-  const map: Record<string, string> = {
-    '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's',
-    '7': 't', '8': 'b', '9': 'g', '@': 'a', '!': 'i',
-    '$': 's', '+': 't', '(': 'c', '|': 'l', '{': 'c',
-    '[': 'c', '<': 'c', '}': 'j',
-  };
-  return str.toLowerCase().split('').map(c => map[c] || c).join('');
-};
-
-// Safe sanitization for comments - allows emojis, symbols, but prevents XSS
-const sanitizeComment = (comment: string): string => {
-  if (typeof window !== 'undefined' && comment) {
-    return DOMPurify.sanitize(comment, {
-      ALLOWED_TAGS: [], // No HTML tags allowed
-      ALLOWED_ATTR: [], // No attributes allowed
-      KEEP_CONTENT: true, // Keep text content including emojis and special characters
-      ALLOW_DATA_ATTR: false,
-      FORBID_TAGS: ['script', 'style', 'iframe', 'object', 'embed', 'form', 'input', 'button'],
-      FORBID_ATTR: ['onerror', 'onclick', 'onload', 'onmouseover', 'onmouseout', 'onfocus', 'onblur']
-    });
-  }
-  // Server-side fallback - keep most characters, just remove dangerous patterns
-  if (!comment) return '';
-  return comment
-    .replace(/<script\b[^<]*(?:(?!<\/script>)<[^<]*)*<\/script>/gi, '')
-    .replace(/<[^>]*>/g, '') // Remove HTML tags
-    .replace(/javascript:/gi, '')
-    .replace(/on\w+\s*=\s*['"]/gi, '')
-    .trim();
-};
+import { SUBMISSION_ALLOWED_TYPES, SUBMISSION_MAX_BATCH_SIZE, SUBMISSION_MAX_FILE_SIZE, SUBMISSION_MAX_REQUEST_SIZE } from '@/lib/submissions-service';
+import { getClientFingerprint } from '@/lib/client-fingerprint';
 
 // Interfaces
 interface Character {
@@ -56,6 +25,20 @@ interface Suggestion {
   username: string;
   p100Count: number;
 }
+interface SubmissionEntry {
+  key: number;
+  characterType: 'killer' | 'survivor';
+  characterId: string;
+  screenshot: File | null;
+  claimP200: boolean;
+  claimLegacy: boolean;
+  claimNotes: string;
+  claimEvidence: File | null;
+}
+interface SubmittedEntry {
+  characterName: string;
+  trackingCode: string;
+}
 interface CustomDropdownProps {
   characters: Character[];
   value: string;
@@ -103,18 +86,24 @@ function CustomDropdown({ characters, value, onChange, placeholder }: CustomDrop
   );
 }
 
+let nextEntryKey = 0;
+const newEntry = (): SubmissionEntry => ({
+  key: nextEntryKey++, characterType: 'killer', characterId: '', screenshot: null,
+  claimP200: false, claimLegacy: false, claimNotes: '', claimEvidence: null,
+});
+
 export default function SubmissionPage() {
   const router = useRouter();
   const [formData, setFormData] = useState({
     username: '',
-    characterType: 'killer' as 'killer' | 'survivor',
-    characterId: '',
-    screenshot: null as File | null,
+    entries: [newEntry()],
     comment: '',
   });
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [message, setMessage] = useState('');
   const [showSuccessDialog, setShowSuccessDialog] = useState(false);
+  const [submitted, setSubmitted] = useState<SubmittedEntry[]>([]);
+  const [codeCopied, setCodeCopied] = useState<string | null>(null);
   const [suggestions, setSuggestions] = useState<Suggestion[]>([]);
   const [showSuggestions, setShowSuggestions] = useState(false);
   const [isSearching, setIsSearching] = useState(false);
@@ -140,6 +129,7 @@ export default function SubmissionPage() {
         const { data, error } = await supabase
           .from('p100_players')
           .select('username')
+          .is('deleted_at', null)
           .ilike('username', `%${term}%`)
           .order('username');
 
@@ -170,9 +160,17 @@ export default function SubmissionPage() {
     return () => clearTimeout(timer);
   }, [formData.username]);
   
+  const updateEntry = (key: number, changes: Partial<SubmissionEntry>) => {
+    setFormData(prev => ({ ...prev, entries: prev.entries.map(entry => (entry.key === key ? { ...entry, ...changes } : entry)) }));
+  };
+
+  const characterName = (entry: Pick<SubmissionEntry, 'characterType' | 'characterId'>) =>
+    (entry.characterType === 'killer' ? killers : survivors).find(c => c.id === entry.characterId)?.name || entry.characterId;
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!formData.username || !formData.characterId || !formData.screenshot) {
+    const { entries } = formData;
+    if (!formData.username || entries.some(entry => !entry.characterId || !entry.screenshot)) {
       setMessage('Please fill in all fields');
       return;
     }
@@ -181,127 +179,89 @@ export default function SubmissionPage() {
       setMessage('Username must be 1-50 characters');
       return;
     }
-    if (!validateInput.characterId(formData.characterId, formData.characterType)) {
-      setMessage('Invalid character selection');
-      return;
+    for (const [i, entry] of entries.entries()) {
+      const label = entries.length > 1 ? `Entry ${i + 1}: ` : '';
+      if (!validateInput.characterId(entry.characterId, entry.characterType)) {
+        setMessage(`${label}Invalid character selection`);
+        return;
+      }
+      if (!entry.screenshot || !SUBMISSION_ALLOWED_TYPES.includes(entry.screenshot.type)) {
+        setMessage(`${label}Only JPEG, PNG, and WebP images are allowed`);
+        return;
+      }
+      if (entry.screenshot.size > SUBMISSION_MAX_FILE_SIZE) {
+        setMessage(`${label}File size must be less than 20MB`);
+        return;
+      }
+      if (entry.claimP200 || entry.claimLegacy) {
+        if (!entry.claimEvidence) {
+          setMessage(`${label}Please attach an evidence screenshot for your P200 or legacy claim`);
+          return;
+        }
+        if (!SUBMISSION_ALLOWED_TYPES.includes(entry.claimEvidence.type) || entry.claimEvidence.size > SUBMISSION_MAX_FILE_SIZE) {
+          setMessage(`${label}Evidence: Only JPEG, PNG, and WebP images under 20MB are allowed`);
+          return;
+        }
+      }
     }
-    const allowedTypes = ['image/jpeg', 'image/jpg', 'image/png', 'image/webp'];
-    if (!formData.screenshot || !allowedTypes.includes(formData.screenshot.type)) {
-      setMessage('Only JPEG, PNG, and WebP images are allowed');
+    if (new Set(entries.map(entry => `${entry.characterType}:${entry.characterId}`)).size !== entries.length) {
+      setMessage('Each character can only be submitted once per form');
       return;
     }
-    if (formData.screenshot.size > 20 * 1024 * 1024) {
-      setMessage('File size must be less than 20MB');
+    // Evidence is only uploaded with a claim, as in the request built below.
+    const totalSize = entries.reduce(
+      (sum, entry) => sum + (entry.screenshot?.size || 0) + (entry.claimP200 || entry.claimLegacy ? entry.claimEvidence?.size || 0 : 0),
+      0
+    );
+    if (totalSize > SUBMISSION_MAX_REQUEST_SIZE) {
+      setMessage(`All files together must be less than ${SUBMISSION_MAX_REQUEST_SIZE / 1024 / 1024}MB`);
       return;
     }
+    
     setIsSubmitting(true);
     setMessage('');
     try {
-      // Check if user is blacklisted (exact match)
-      const { data: blacklistData } = await supabase
-        .from('blacklisted_users')
-        .select('username')
-        .eq('username', sanitizedUsername.toLowerCase())
-        .single();
-
-      if (blacklistData) {
-        setMessage('Unable to submit. Please contact support: https://discord.gg/GFPuzehJZs');
-        setIsSubmitting(false);
-        return;
+      // Blacklist, duplicate checks, upload and insert all run server-side.
+      const body = new FormData();
+      body.append('username', sanitizedUsername);
+      body.append('comment', formData.comment);
+      const fingerprint = await getClientFingerprint();
+      if (fingerprint) body.append('fingerprint', fingerprint);
+      for (const entry of entries) {
+        body.append('characterType', entry.characterType);
+        body.append('characterId', entry.characterId);
+        body.append('screenshot', entry.screenshot as File);
+        // Claim fields are sent for every entry so the server can pair them up by position.
+        const claiming = entry.claimP200 || entry.claimLegacy;
+        body.append('claimP200', String(entry.claimP200));
+        body.append('claimLegacy', String(entry.claimLegacy));
+        body.append('claimNotes', claiming ? entry.claimNotes : '');
+        body.append('claimEvidence', claiming && entry.claimEvidence ? entry.claimEvidence : '');
       }
 
-      // Check super blacklist (partial/contains match)
-      const { data: superBlacklist } = await supabase
-        .from('blacklisted_users')
-        .select('username')
-        .eq('is_super', true);
-
-      const normalizedSubmitted = normalizeLeet(sanitizedUsername.toLowerCase());
-      if (superBlacklist && superBlacklist.some(entry => {
-        const normalizedEntry = normalizeLeet(entry.username);
-        return sanitizedUsername.toLowerCase().includes(entry.username) || normalizedSubmitted.includes(normalizedEntry);
-      })) {
-        setMessage('Unable to submit. Please contact support: https://discord.gg/GFPuzehJZs');
-        setIsSubmitting(false);
+      const response = await fetch('/api/submissions', { method: 'POST', body });
+      const result = await response.json().catch(() => ({ success: false, message: 'Something went wrong' }));
+      if (!response.ok || !result.success) {
+        // Validation and blacklist responses are shown as-is; server errors get the usual prefix.
+        setMessage(response.status >= 500 ? `Error: ${result.message}` : result.message);
         return;
       }
-      
-      // Step 1: Determine character identifiers for lookup
-      const targetKillerId = formData.characterType === 'killer' ? formData.characterId : null;
-      const targetSurvivorId = formData.characterType === 'survivor' ? formData.characterId : null;
-
-      // Step 2: Check for existing approved submissions for this character.
-      // If approved exists, block the submission (cannot override an already approved P100).
-      let approvedQuery = supabase
-        .from('p100_submissions')
-        .select('id, status, killer_id, survivor_id, username, legacy')
-        .eq('status', 'approved')
-        .eq('legacy', false)
-        .eq('username', sanitizedUsername);
-
-      if (targetKillerId) {
-        approvedQuery = approvedQuery.eq('killer_id', targetKillerId);
-      } else if (targetSurvivorId) {
-        approvedQuery = approvedQuery.eq('survivor_id', targetSurvivorId);
-      }
-
-      const { data: approvedData, error: approvedError } = await approvedQuery.limit(1);
-      if (approvedError) {
-        console.warn('Approved check failed (continuing to allow submission):', approvedError.message);
-      }
 
-      if (approvedData && approvedData.length > 0) {
-        console.info('[P100 Submission] Blocked: User already has approved submission for this character');
-        setMessage('You already have an approved P100 for this character.');
-        setIsSubmitting(false);
-        return;
-      }
-
-      // Step 3: Delete any previous pending/rejected submissions for this username + character
-      // This ensures only the most recent submission is kept
-      let deleteQuery = supabase
-        .from('p100_submissions')
-        .delete()
-        .eq('username', sanitizedUsername)
-        .eq('legacy', false);
-
-      if (targetKillerId) {
-        deleteQuery = deleteQuery.eq('killer_id', targetKillerId);
-      } else if (targetSurvivorId) {
-        deleteQuery = deleteQuery.eq('survivor_id', targetSurvivorId);
-      }
-
-      const { error: deleteError } = await deleteQuery;
-      if (deleteError) {
-        console.warn('Failed to delete previous submissions:', deleteError.message);
-      }
-
-      // Step 4: Proceed with normal upload & insertion.
-      const fileExt = formData.screenshot.name.split('.').pop()?.toLowerCase();
-      if (!fileExt) throw new Error('Invalid file type');
-      const fileName = `${Date.now()}-${Math.random().toString(36).substring(2)}.${fileExt}`;
-      const { error: uploadError } = await supabase.storage.from('screenshots').upload(fileName, formData.screenshot);
-      if (uploadError) throw new Error('Failed to upload screenshot: ' + uploadError.message);
-      const { data: { publicUrl } } = supabase.storage.from('screenshots').getPublicUrl(fileName);
-      
-      const submissionData = {
-        username: sanitizedUsername,
-        screenshot_url: publicUrl,
-        killer_id: formData.characterType === 'killer' ? formData.characterId : null,
-        survivor_id: formData.characterType === 'survivor' ? formData.characterId : null,
-        status: 'pending' as const,
-        comment: sanitizeComment(formData.comment),
-      };
-
-  const { error: submitError } = await supabase.from('p100_submissions').insert([submissionData]);
-      if (submitError) throw new Error('Failed to submit P100: ' + submitError.message);
-      
-      // Reset form
-      setFormData({ username: '', characterType: 'killer', characterId: '', screenshot: null, comment: ''});
-      const fileInput = document.getElementById('screenshot') as HTMLInputElement;
-      if (fileInput) fileInput.value = '';
+      // Entries that were rejected (e.g. already approved) stay in the form so they can be fixed.
+      const results: any[] = result.entries || [];
+      const failed = results.filter(r => !r.success);
+      setSubmitted(results.filter(r => r.success).map(r => ({ characterName: characterName(r), trackingCode: r.trackingCode })));
+      setFormData(prev => ({
+        username: failed.length > 0 ? prev.username : '',
+        comment: failed.length > 0 ? prev.comment : '',
+        entries: failed.length > 0
+          ? prev.entries.filter(entry => failed.some(r => r.characterType === entry.characterType && r.characterId === entry.characterId))
+          : [newEntry()],
+      }));
+      setMessage(failed.map(r => r.message).join('\n'));
       
-      // Show success dialog
+      // Show success dialog; tracking codes are only ever shown here.
+      setCodeCopied(null);
       setShowSuccessDialog(true);
     } catch (error) {
       console.error('Submission error:', error);
@@ -313,7 +273,7 @@ export default function SubmissionPage() {
 
   /**
    * NOTE ON DUPLICATE ENFORCEMENT (Race Condition Warning):
-   * Two users could theoretically submit for the same character at the same time and pass the client-side check.
+   * Two users could theoretically submit for the same character at the same time and both pass the duplicate check in createSubmission.
    * To harden this, add a partial unique index at the DB layer (ONLY one non-legacy pending/approved per character):
    *
    * -- For killers
@@ -331,8 +291,8 @@ export default function SubmissionPage() {
     const fetchCharacters = async () => {
       try {
         const [killersResponse, survivorsResponse] = await Promise.all([
-          supabase.from('killers').select('id, name, image_url').order('order', { ascending: true}),
-          supabase.from('survivors').select('id, name, image_url').order('order_num', { ascending: true})
+          supabase.from('killers').select('id, name, image_url').is('deleted_at', null).order('order', { ascending: true}),
+          supabase.from('survivors').select('id, name, image_url').is('deleted_at', null).order('order_num', { ascending: true})
         ]);
         if (killersResponse.data) {
           setKillers(killersResponse.data.map(k => ({ id: k.id, name: k.name, imageUrl: k.image_url })));
@@ -347,8 +307,6 @@ export default function SubmissionPage() {
     fetchCharacters();
   }, []);
 
-  const characters = formData.characterType === 'killer' ? killers : survivors;
-  
   return (
     // FIX: The entire page content is now wrapped by BackgroundWrapper.
     // The unnecessary outer React Fragment has been removed.
@@ -449,39 +407,82 @@ export default function SubmissionPage() {
                 </div>
               )}
             </div>
-            <div className="space-y-4">
-                <label className="block text-sm font-mono text-gray-300 uppercase tracking-wider">Character Type *</label>
-                <div className="flex gap-6">
-                    <label className="flex items-center cursor-pointer">
-                        <input type="radio" value="killer" checked={formData.characterType === 'killer'} onChange={(e) => setFormData({ ...formData, characterType: e.target.value as 'killer', characterId: '' })} className="mr-3 w-4 h-4 accent-red-500" /> 
-                        <span className="text-lg">Killer</span>
-                    </label>
-                    <label className="flex items-center cursor-pointer">
-                        <input type="radio" value="survivor" checked={formData.characterType === 'survivor'} onChange={(e) => setFormData({ ...formData, characterType: e.target.value as 'survivor', characterId: '' })} className="mr-3 w-4 h-4 accent-red-500" /> 
-                        <span className="text-lg">Survivor</span>
-                    </label>
+            {formData.entries.map((entry, i) => (
+              <div key={entry.key} className={formData.entries.length > 1 ? 'space-y-8 border border-red-600/40 rounded-lg p-4' : 'space-y-8'}>
+                {formData.entries.length > 1 && (
+                  <div className="flex items-center justify-between">
+                    <span className="font-mono text-red-400 uppercase tracking-wider">P100 #{i + 1}</span>
+                    <button type="button" onClick={() => setFormData(prev => ({ ...prev, entries: prev.entries.filter(e => e.key !== entry.key) }))} className="text-sm text-gray-400 hover:text-red-400 underline">Remove</button>
+                  </div>
+                )}
+                <div className="space-y-4">
+                    <label className="block text-sm font-mono text-gray-300 uppercase tracking-wider">Character Type *</label>
+                    <div className="flex gap-6">
+                        <label className="flex items-center cursor-pointer">
+                            <input type="radio" value="killer" checked={entry.characterType === 'killer'} onChange={() => updateEntry(entry.key, { characterType: 'killer', characterId: '' })} className="mr-3 w-4 h-4 accent-red-500" /> 
+                            <span className="text-lg">Killer</span>
+                        </label>
+                        <label className="flex items-center cursor-pointer">
+                            <input type="radio" value="survivor" checked={entry.characterType === 'survivor'} onChange={() => updateEntry(entry.key, { characterType: 'survivor', characterId: '' })} className="mr-3 w-4 h-4 accent-red-500" /> 
+                            <span className="text-lg">Survivor</span>
+                        </label>
+                    </div>
                 </div>
-            </div>
-            <div className="space-y-2">
-                <label className="block text-sm font-mono text-gray-300 uppercase tracking-wider">Character *</label>
-                <CustomDropdown characters={characters} value={formData.characterId} onChange={(value) => setFormData({ ...formData, characterId: value })} placeholder="Select a character" />
-            </div>
-            <div className="space-y-2">
-                <label htmlFor="screenshot" className="block text-sm font-mono text-gray-300 uppercase tracking-wider">Screenshot *</label>
-                <input type="file" id="screenshot" accept="image/*" onChange={(e) => setFormData({ ...formData, screenshot: e.target.files?.[0] || null })} className="w-full p-4 border border-red-600 rounded-lg bg-black text-white file:mr-4 file:py-2 file:px-4 file:rounded file:border-0 file:bg-red-600 file:text-white file:cursor-pointer hover:file:bg-red-700 focus:border-red-400 focus:outline-none transition-colors" required />
-                <p className="text-sm text-gray-400 mt-2">Upload a screenshot showing your P100 character in the current lobby</p>
-            </div>
+                <div className="space-y-2">
+                    <label className="block text-sm font-mono text-gray-300 uppercase tracking-wider">Character *</label>
+                    <CustomDropdown characters={entry.characterType === 'killer' ? killers : survivors} value={entry.characterId} onChange={(value) => updateEntry(entry.key, { characterId: value })} placeholder="Select a character" />
+                </div>
+                <div className="space-y-2">
+                    <label htmlFor={`screenshot-${entry.key}`} className="block text-sm font-mono text-gray-300 uppercase tracking-wider">Screenshot *</label>
+                    <input type="file" id={`screenshot-${entry.key}`} accept="image/*" onChange={(e) => updateEntry(entry.key, { screenshot: e.target.files?.[0] || null })} className="w-full p-4 border border-red-600 rounded-lg bg-black text-white file:mr-4 file:py-2 file:px-4 file:rounded file:border-0 file:bg-red-600 file:text-white file:cursor-pointer hover:file:bg-red-700 focus:border-red-400 focus:outline-none transition-colors" required={!entry.screenshot} />
+                    {entry.screenshot && <p className="text-sm text-gray-300">{entry.screenshot.name}</p>}
+                    <p className="text-sm text-gray-400 mt-2">Upload a screenshot showing your P100 character in the current lobby</p>
+                </div>
+                <div className="space-y-4">
+                    <label className="block text-sm font-mono text-gray-300 uppercase tracking-wider">Claims (Optional)</label>
+                    <div className="flex gap-6">
+                        <label className="flex items-center cursor-pointer">
+                            <input type="checkbox" checked={entry.claimP200} onChange={(e) => updateEntry(entry.key, { claimP200: e.target.checked })} className="mr-3 w-4 h-4 accent-red-500" />
+                            <span className="text-lg">P200</span>
+                        </label>
+                        <label className="flex items-center cursor-pointer">
+                            <input type="checkbox" checked={entry.claimLegacy} onChange={(e) => updateEntry(entry.key, { claimLegacy: e.target.checked })} className="mr-3 w-4 h-4 accent-red-500" />
+                            <span className="text-lg">Legacy</span>
+                        </label>
+                    </div>
+                    {(entry.claimP200 || entry.claimLegacy) && (
+                      <div className="space-y-4 border-l-2 border-red-600 pl-4">
+                        <div className="space-y-2">
+                            <label htmlFor={`evidence-${entry.key}`} className="block text-sm font-mono text-gray-300 uppercase tracking-wider">Evidence Screenshot *</label>
+                            <input type="file" id={`evidence-${entry.key}`} accept="image/*" onChange={(e) => updateEntry(entry.key, { claimEvidence: e.target.files?.[0] || null })} className="w-full p-4 border border-red-600 rounded-lg bg-black text-white file:mr-4 file:py-2 file:px-4 file:rounded file:border-0 file:bg-red-600 file:text-white file:cursor-pointer hover:file:bg-red-700 focus:border-red-400 focus:outline-none transition-colors" required={!entry.claimEvidence} />
+                            {entry.claimEvidence && <p className="text-sm text-gray-300">{entry.claimEvidence.name}</p>}
+                            <p className="text-sm text-gray-400 mt-2">Only moderators see this screenshot. It must clearly show the {[entry.claimP200 && 'P200', entry.claimLegacy && 'legacy'].filter(Boolean).join(' and ')} status on this character.</p>
+                        </div>
+                        <div className="space-y-2">
+                            <label htmlFor={`claim-notes-${entry.key}`} className="block text-sm font-mono text-gray-300 uppercase tracking-wider">Evidence Notes (Optional)</label>
+                            <Textarea id={`claim-notes-${entry.key}`} value={entry.claimNotes} onChange={(e) => updateEntry(entry.key, { claimNotes: e.target.value })} className="w-full p-4 border border-red-600 rounded-lg bg-black text-white placeholder-gray-400 focus:border-red-400 focus:outline-none transition-colors min-h-[80px]" placeholder="Anything that helps verify the claim, e.g. when you reached it..." rows={2}/>
+                        </div>
+                      </div>
+                    )}
+                </div>
+              </div>
+            ))}
+            {formData.entries.length < SUBMISSION_MAX_BATCH_SIZE && (
+              <button type="button" onClick={() => setFormData(prev => ({ ...prev, entries: [...prev.entries, newEntry()] }))} className="w-full py-3 px-6 border border-dashed border-red-600 hover:bg-red-900/40 text-gray-300 font-mono uppercase tracking-wider rounded-lg transition-all">
+                + Add another P100
+              </button>
+            )}
             <div className="space-y-2">
                 <label htmlFor="comment" className="block text-sm font-mono text-gray-300 uppercase tracking-wider">Comment (Optional)</label>
                 <Textarea id="comment" value={formData.comment} onChange={(e) => setFormData({ ...formData, comment: e.target.value })} className="w-full p-4 border border-red-600 rounded-lg bg-black text-white placeholder-gray-400 focus:border-red-400 focus:outline-none transition-colors min-h-[100px]" placeholder="Leave a message for the admin..." rows={3}/>
             </div>
             <button type="submit" disabled={isSubmitting} className="w-full py-4 px-6 bg-black border border-red-600 hover:bg-red-900 hover:border-red-400 disabled:bg-gray-800 disabled:border-gray-600 disabled:cursor-not-allowed text-white font-mono uppercase tracking-wider rounded-lg transition-all text-lg">
-                {isSubmitting ? 'Submitting...' : 'Submit P100'}
+                {isSubmitting ? 'Submitting...' : formData.entries.length > 1 ? `Submit ${formData.entries.length} P100s` : 'Submit P100'}
             </button>
           </form>
           {message && (
             <div
-              className={`mt-6 p-4 rounded-lg max-w-lg mx-auto font-mono text-sm tracking-wide
+              className={`mt-6 p-4 rounded-lg max-w-lg mx-auto font-mono text-sm tracking-wide whitespace-pre-line
                 ${message.startsWith('Denied:')
                   ? 'bg-red-900/70 border border-red-600 text-red-200'
                   : message.includes('Error')
@@ -502,16 +503,33 @@ export default function SubmissionPage() {
           <DialogHeader>
             <DialogTitle className="text-green-400 text-2xl">Submission Accepted!</DialogTitle>
             <DialogDescription className="text-gray-300 text-base pt-4">
-              Your P100 submission has been received and will be reviewed by an admin.
+              {submitted.length > 1 ? `Your ${submitted.length} P100 submissions have` : 'Your P100 submission has'} been received and will be reviewed by an admin.
               <br /><br />
-              You can check the status of your submission on the status page.
+              Save your tracking code{submitted.length > 1 ? 's' : ''} below. You need {submitted.length > 1 ? 'them' : 'it'} to check the status of your submission, and {submitted.length > 1 ? 'they' : 'it'} cannot be shown again.
+              {message && (<><br /><br /><span className="text-red-300">Some entries were not submitted; see the form for details.</span></>)}
             </DialogDescription>
           </DialogHeader>
+          {submitted.map(({ characterName, trackingCode }) => (
+            <div key={trackingCode} className="flex items-center gap-3 bg-gray-900 border border-green-600 rounded p-3">
+              {submitted.length > 1 && <span className="text-gray-300 text-sm w-28 truncate">{characterName}</span>}
+              <span className="flex-1 text-center text-white text-xl font-mono tracking-wider select-all">{trackingCode}</span>
+              <Button
+                onClick={() => {
+                  navigator.clipboard?.writeText(trackingCode).then(() => setCodeCopied(trackingCode)).catch(() => {});
+                }}
+                variant="outline"
+                size="sm"
+                className="border-green-600 text-white hover:bg-green-700"
+              >
+                {codeCopied === trackingCode ? 'Copied' : 'Copy'}
+              </Button>
+            </div>
+          ))}
           <div className="flex gap-3 mt-4">
             <Button
               onClick={() => {
                 setShowSuccessDialog(false);
-                router.push('/submission/status');
+                router.push(submitted.length === 1 ? `/submission/status?code=${encodeURIComponent(submitted[0].trackingCode)}` : '/submission/status');
               }}
               className="flex-1 bg-green-600 hover:bg-green-700 text-white"
             >
@@ -1,190 +1,142 @@
 "use client";
 
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import supabase from "@/lib/supabase-client";
 import BackgroundWrapper from "@/components/BackgroundWrapper";
 import Navigation from "@/components/ui/Navigation";
+import type { TrackedSubmission, UsernameStatusSummary } from "@/lib/submission-tracking";
 
-type SubmissionStatus = "pending" | "approved" | "rejected";
-
-interface Submission {
+interface Character {
   id: string;
-  status: SubmissionStatus;
-  username: string;
-  created_at: string;
-  killer_id?: string;
-  survivor_id?: string;
-  rejection_reason?: string;
-}
-
-interface Suggestion {
-  username: string;
+  name: string;
 }
 
 export default function SubmissionStatusPage() {
+  const [trackingCode, setTrackingCode] = useState("");
   const [username, setUsername] = useState("");
   const [committedUsername, setCommittedUsername] = useState(""); // last searched username
-  const [submissions, setSubmissions] = useState<Submission[]>([]);
+  const [submission, setSubmission] = useState<TrackedSubmission | null>(null);
+  const [summary, setSummary] = useState<UsernameStatusSummary | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
-  const [suggestions, setSuggestions] = useState<Suggestion[]>([]);
-  const [showSuggestions, setShowSuggestions] = useState(false);
-  const selectionMade = useRef(false);
-  const [killerNames, setKillerNames] = useState<Record<string, string>>({});
-  const [survivorNames, setSurvivorNames] = useState<Record<string, string>>({});
+  const [committedCode, setCommittedCode] = useState(""); // code the shown submission was found with
+  const [isEditing, setIsEditing] = useState(false);
+  const [editForm, setEditForm] = useState({ characterType: "killer" as "killer" | "survivor", characterId: "", comment: "", screenshot: null as File | null });
+  const [characters, setCharacters] = useState<{ killer: Character[]; survivor: Character[] }>({ killer: [], survivor: [] });
+  const [confirmWithdraw, setConfirmWithdraw] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
 
+  // The success dialog links here with the new code filled in.
   useEffect(() => {
-    if (selectionMade.current) {
-      selectionMade.current = false;
-      return;
-    }
-    const term = username.trim();
-    if (term.length < 2) {
-      setSuggestions([]);
-      setShowSuggestions(false);
-      return;
-    }
-    const timer = setTimeout(async () => {
-      try {
-        let suggestionError: any = null;
-        let data: any[] | null = null;
-        // Primary: correct table name used elsewhere (p100_submissions)
-        const primary = await supabase
-          .from('p100_submissions')
-          .select('username')
-          .ilike('username', `%${term}%`);
-        if (primary.error) {
-          suggestionError = primary.error;
-        } else {
-          data = primary.data;
-        }
+    const code = new URLSearchParams(window.location.search).get("code");
+    if (code) setTrackingCode(code);
+  }, []);
 
-        // Fallback: legacy/simple name if primary 404s / misconfigured
-        if ((!data || data.length === 0) && suggestionError) {
-          const fallback = await supabase
-            .from('submissions')
-            .select('username')
-            .ilike('username', `%${term}%`);
-          if (!fallback.error) {
-            data = fallback.data;
-          }
-        }
-        const error = suggestionError;
-        if (error && !data) {
-          console.warn("Suggestion query failed:", error.message || error);
-          throw new Error("Failed to fetch suggestions.");
-        }
-        
-        if (data) {
-          const uniqueUsernames = [...new Set(data.map(item => item.username).filter(Boolean))];
-          setSuggestions(uniqueUsernames.sort().slice(0, 10).map(uname => ({ username: uname })));
-          setShowSuggestions(uniqueUsernames.length > 0);
-        } else {
-          setSuggestions([]);
-          setShowSuggestions(false);
-        }
-      } catch (error) {
-        console.error(error);
-        setSuggestions([]);
-        setShowSuggestions(false);
-      }
-    }, 300);
-    return () => clearTimeout(timer);
-  }, [username]);
-
-  const handleSuggestionClick = (selectedUsername: string) => {
-    setUsername(selectedUsername);
-    setShowSuggestions(false);
-    selectionMade.current = true;
-  };
-
-  const checkStatus = async () => {
+  const checkStatus = async (codeOverride?: string) => {
+    const code = (codeOverride ?? trackingCode).trim();
     const uname = username.trim();
-    if (!uname) {
-      setError("Please enter a username.");
+    if (!code && !uname) {
+      setError("Please enter your tracking code.");
       return;
     }
 
-    setCommittedUsername(uname); // show only the last searched username
+    setCommittedUsername(uname);
+    setCommittedCode(code);
     setLoading(true);
     setError(null);
-    setSubmissions([]);
-    setKillerNames({});
-    setSurvivorNames({});
+    setSubmission(null);
+    setSummary(null);
+    setIsEditing(false);
+    setConfirmWithdraw(false);
+    if (!codeOverride) setNotice(null);
 
     try {
-      let fetchError: any = null;
-      let data: any[] | null = null;
-
-      // Do NOT select 'comment'
-      const primary = await supabase
-        .from("p100_submissions")
-        .select("id, status, username, created_at, killer_id, survivor_id, rejection_reason")
-        .eq("username", uname)
-        .order("created_at", { ascending: false });
-      if (primary.error) {
-        fetchError = primary.error;
-      } else {
-        data = primary.data;
+      // Lookups run server-side; rejection reasons are only returned for a matching tracking code.
+      const response = await fetch("/api/submissions/status", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ code, username: uname }),
+      });
+      const result = await response.json().catch(() => ({ success: false, message: "Something went wrong" }));
+      if (!response.ok || !result.success) {
+        throw new Error(result.message || "Could not fetch submission status.");
       }
+      if (result.submission) setSubmission(result.submission);
+      else setSummary(result.summary);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
 
-      if ((!data || data.length === 0) && fetchError) {
-        const fallback = await supabase
-          .from("submissions")
-          .select("id, status, username, created_at, killer_id, survivor_id, rejection_reason")
-          .eq("username", uname)
-          .order("created_at", { ascending: false });
-        if (!fallback.error) {
-          data = fallback.data;
-        }
-      }
-
-      if (fetchError && !data) {
-        console.warn("Primary submissions fetch failed:", fetchError.message || fetchError);
-        throw new Error("Could not fetch submissions or an error occurred.");
-      }
-
-      if (data && data.length > 0) {
-        // Resolve IDs to names
-        const killerIds = Array.from(new Set(data.map(d => d.killer_id).filter(Boolean)));
-        const survivorIds = Array.from(new Set(data.map(d => d.survivor_id).filter(Boolean)));
-
-        const [killersRes, survivorsRes] = await Promise.all([
-          killerIds.length
-            ? supabase.from("killers").select("id, name").in("id", killerIds)
-            : Promise.resolve({ data: [], error: null }),
-          survivorIds.length
-            ? supabase.from("survivors").select("id, name").in("id", survivorIds)
-            : Promise.resolve({ data: [], error: null }),
-        ]);
+  const startEditing = async () => {
+    if (!submission) return;
+    setEditForm({ characterType: submission.characterType, characterId: submission.characterId, comment: submission.comment || "", screenshot: null });
+    setIsEditing(true);
+    setConfirmWithdraw(false);
+    if (characters.killer.length === 0) {
+      const [killersRes, survivorsRes] = await Promise.all([
+        supabase.from("killers").select("id, name").is("deleted_at", null).order("order", { ascending: true }),
+        supabase.from("survivors").select("id, name").is("deleted_at", null).order("order_num", { ascending: true }),
+      ]);
+      setCharacters({ killer: killersRes.data || [], survivor: survivorsRes.data || [] });
+    }
+  };
 
-        if (killersRes.data) {
-          setKillerNames(Object.fromEntries(killersRes.data.map((k: any) => [k.id, k.name])));
-        }
-        if (survivorsRes.data) {
-          setSurvivorNames(Object.fromEntries(survivorsRes.data.map((s: any) => [s.id, s.name])));
-        }
+  // Edits and withdrawals are authorized by the tracking code the submission was found with.
+  const saveEdit = async () => {
+    if (!submission || !editForm.characterId) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const body = new FormData();
+      body.append("code", committedCode);
+      body.append("characterType", editForm.characterType);
+      body.append("characterId", editForm.characterId);
+      body.append("comment", editForm.comment);
+      if (editForm.screenshot) body.append("screenshot", editForm.screenshot);
 
-        setSubmissions(data as Submission[]);
-      } else {
-        setError("No submissions found for this username.");
-      }
+      const response = await fetch("/api/submissions/manage", { method: "PATCH", body });
+      const result = await response.json().catch(() => ({ success: false, message: "Something went wrong" }));
+      if (!response.ok || !result.success) throw new Error(result.message || "Could not update submission.");
+      setNotice("Your submission was updated.");
+      await checkStatus(committedCode);
     } catch (err: any) {
       setError(err.message);
     } finally {
-      setLoading(false);
+      setSaving(false);
     }
   };
 
-  const getCharacterName = (submission: Submission) => {
-    if (submission.killer_id) return `${killerNames[submission.killer_id] || submission.killer_id}`;
-    if (submission.survivor_id) return `${survivorNames[submission.survivor_id] || submission.survivor_id}`;
-    return "Unknown Character";
+  const withdraw = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/submissions/manage", {
+        method: "DELETE",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ code: committedCode }),
+      });
+      const result = await response.json().catch(() => ({ success: false, message: "Something went wrong" }));
+      if (!response.ok || !result.success) throw new Error(result.message || "Could not withdraw submission.");
+      setNotice("Your submission was withdrawn.");
+      await checkStatus(committedCode);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setSaving(false);
+    }
   };
 
+  const summaryTotal = summary ? summary.pending + summary.approved + summary.rejected : 0;
+
   return (
     <BackgroundWrapper backgroundUrl="/status.png">
       {/* Navigation added for consistency with other pages */}
@@ -198,66 +150,159 @@ export default function SubmissionStatusPage() {
           </CardHeader>
           <CardContent>
             <div className="flex flex-col space-y-4">
-              <p className="text-center text-gray-300">Enter the username you used to submit to see its current status.</p>
-              <div className="relative">
-                <div className="flex space-x-2">
-                  <Input
-                    type="text"
-                    placeholder="Enter your username"
-                    value={username}
-                    onChange={(e) => setUsername(e.target.value)}
-                    className="bg-black border-red-600 focus:border-red-400 text-white"
-                  />
-                  <Button onClick={checkStatus} disabled={loading} className="bg-red-700 hover:bg-red-600">
-                    {loading ? "Checking..." : "Check Status"}
-                  </Button>
-                </div>
-                {showSuggestions && suggestions.length > 0 && (
-                  <div className="absolute z-10 w-full mt-1 bg-black border border-red-600 rounded-lg shadow-lg">
-                    {suggestions.map((s, index) => (
-                      <button
-                        key={index}
-                        onClick={() => handleSuggestionClick(s.username)}
-                        className="w-full p-3 text-left text-white hover:bg-red-900 transition-colors"
-                      >
-                        {s.username}
-                      </button>
-                    ))}
-                  </div>
-                )}
+              <p className="text-center text-gray-300">
+                Enter the tracking code you were given after submitting. Adding your username is optional; a username on its own only shows how many submissions it has.
+              </p>
+              <Input
+                type="text"
+                placeholder="Tracking code (e.g. ABCD-EFGH-JKMN)"
+                value={trackingCode}
+                onChange={(e) => setTrackingCode(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && checkStatus()}
+                className="bg-black border-red-600 focus:border-red-400 text-white font-mono"
+              />
+              <div className="flex space-x-2">
+                <Input
+                  type="text"
+                  placeholder="Username (optional)"
+                  value={username}
+                  onChange={(e) => setUsername(e.target.value)}
+                  onKeyDown={(e) => e.key === "Enter" && checkStatus()}
+                  className="bg-black border-red-600 focus:border-red-400 text-white"
+                />
+                <Button onClick={() => checkStatus()} disabled={loading} className="bg-red-700 hover:bg-red-600">
+                  {loading ? "Checking..." : "Check Status"}
+                </Button>
               </div>
               {error && <p className="text-red-500 text-center">{error}</p>}
-              {submissions.length > 0 && (
+              {notice && <p className="text-green-500 text-center">{notice}</p>}
+              {submission && (
                 <div className="pt-4 space-y-4">
                   <h3 className="font-bold text-xl text-center">
-                    Submissions for '{committedUsername}':
+                    Submission by &apos;{submission.username}&apos;:
                   </h3>
-                  {submissions.map((submission) => (
-                    <div key={submission.id} className="p-4 border border-gray-700 rounded-lg bg-gray-900/50">
-                      <p><strong>Submitted P100:</strong> {getCharacterName(submission)}</p>
-                      <p><strong>Submitted At:</strong> {new Date(submission.created_at).toLocaleString()}</p>
-                      <p>
-                        <strong>Status:</strong>{" "}
-                        <span
-                          className={`font-bold ${
-                            submission.status === "approved"
-                              ? "text-green-500"
-                              : submission.status === "rejected"
-                              ? "text-red-500"
-                              : "text-yellow-500"
-                          }`}
-                        >
-                          {submission.status}
-                        </span>
+                  <div className="p-4 border border-gray-700 rounded-lg bg-gray-900/50">
+                    <p><strong>Submitted P100:</strong> {submission.character}</p>
+                    <p><strong>Submitted At:</strong> {new Date(submission.submitted_at).toLocaleString()}</p>
+                    <p>
+                      <strong>Status:</strong>{" "}
+                      <span
+                        className={`font-bold ${
+                          submission.status === "approved"
+                            ? "text-green-500"
+                            : submission.status === "rejected"
+                            ? "text-red-500"
+                            : submission.status === "withdrawn"
+                            ? "text-gray-400"
+                            : "text-yellow-500"
+                        }`}
+                      >
+                        {submission.status}
+                      </span>
+                    </p>
+                    {submission.status === "rejected" && submission.rejection_reason && (
+                      <p className="text-red-400">
+                        <strong>Reason:</strong> {submission.rejection_reason}
                       </p>
-                      {submission.status === "rejected" && submission.rejection_reason && (
-                        <p className="text-red-400">
-                          <strong>Reason:</strong> {submission.rejection_reason}
-                        </p>
-                      )}
-                      {/* Intentionally not rendering user-submitted comments */}
+                    )}
+                    {submission.edited_at && (
+                      <p className="text-gray-400 text-sm">Last changed {new Date(submission.edited_at).toLocaleString()}</p>
+                    )}
+                    {submission.status === "pending" && !isEditing && (
+                      <div className="flex gap-2 pt-3">
+                        <Button onClick={startEditing} disabled={saving} variant="outline" className="border-red-600 text-white hover:bg-red-900">
+                          Edit
+                        </Button>
+                        {confirmWithdraw ? (
+                          <>
+                            <Button onClick={withdraw} disabled={saving} className="bg-red-700 hover:bg-red-600">
+                              {saving ? "Withdrawing..." : "Confirm Withdraw"}
+                            </Button>
+                            <Button onClick={() => setConfirmWithdraw(false)} disabled={saving} variant="ghost" className="text-gray-400 hover:text-white">
+                              Cancel
+                            </Button>
+                          </>
+                        ) : (
+                          <Button onClick={() => setConfirmWithdraw(true)} disabled={saving} variant="outline" className="border-gray-600 text-gray-300 hover:bg-gray-800">
+                            Withdraw
+                          </Button>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                  {isEditing && (
+                    <div className="p-4 border border-red-600/50 rounded-lg bg-gray-900/50 space-y-3">
+                      <div className="flex gap-2">
+                        <Select
+                          value={editForm.characterType}
+                          onValueChange={(value) => setEditForm(prev => ({ ...prev, characterType: value as "killer" | "survivor", characterId: "" }))}
+                        >
+                          <SelectTrigger className="bg-black border-red-600 text-white w-36"><SelectValue /></SelectTrigger>
+                          <SelectContent className="bg-black border-red-600">
+                            <SelectItem value="killer">Killer</SelectItem>
+                            <SelectItem value="survivor">Survivor</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <Select value={editForm.characterId} onValueChange={(value) => setEditForm(prev => ({ ...prev, characterId: value }))}>
+                          <SelectTrigger className="bg-black border-red-600 text-white flex-1"><SelectValue placeholder="Select a character" /></SelectTrigger>
+                          <SelectContent className="bg-black border-red-600 max-h-80">
+                            {characters[editForm.characterType].map(c => <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>)}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-1">
+                        <label htmlFor="edit-screenshot" className="text-sm text-gray-300">Replace screenshot (optional)</label>
+                        <input
+                          type="file"
+                          id="edit-screenshot"
+                          accept="image/*"
+                          onChange={(e) => setEditForm(prev => ({ ...prev, screenshot: e.target.files?.[0] || null }))}
+                          className="w-full text-white file:mr-4 file:py-2 file:px-4 file:rounded file:border-0 file:bg-red-600 file:text-white file:cursor-pointer"
+                        />
+                      </div>
+                      <Textarea
+                        value={editForm.comment}
+                        onChange={(e) => setEditForm(prev => ({ ...prev, comment: e.target.value }))}
+                        placeholder="Comment for the admin (optional)"
+                        className="bg-black border-red-600 text-white"
+                        rows={3}
+                      />
+                      <div className="flex gap-2">
+                        <Button onClick={saveEdit} disabled={saving || !editForm.characterId} className="bg-red-700 hover:bg-red-600">
+                          {saving ? "Saving..." : "Save Changes"}
+                        </Button>
+                        <Button onClick={() => setIsEditing(false)} disabled={saving} variant="ghost" className="text-gray-400 hover:text-white">
+                          Cancel
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              )}
+              {summary && (
+                <div className="pt-4 space-y-4">
+                  <h3 className="font-bold text-xl text-center">
+                    Submissions for &apos;{committedUsername}&apos;:
+                  </h3>
+                  {summaryTotal === 0 ? (
+                    <p className="text-center text-gray-300">No submissions found for this username.</p>
+                  ) : (
+                    <div className="grid grid-cols-3 gap-2 text-center">
+                      <div className="p-3 border border-gray-700 rounded-lg bg-gray-900/50">
+                        <div className="text-2xl font-bold text-yellow-500">{summary.pending}</div>
+                        <div className="text-gray-400 text-sm">pending</div>
+                      </div>
+                      <div className="p-3 border border-gray-700 rounded-lg bg-gray-900/50">
+                        <div className="text-2xl font-bold text-green-500">{summary.approved}</div>
+                        <div className="text-gray-400 text-sm">approved</div>
+                      </div>
+                      <div className="p-3 border border-gray-700 rounded-lg bg-gray-900/50">
+                        <div className="text-2xl font-bold text-red-500">{summary.rejected}</div>
+                        <div className="text-gray-400 text-sm">rejected</div>
+                      </div>
                     </div>
-                  ))}
+                  )}
+                  <p className="text-center text-gray-400 text-sm">Enter your tracking code to see details and rejection reasons.</p>
                 </div>
               )}
             </div>
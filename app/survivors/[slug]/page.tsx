@@ -63,6 +63,7 @@ export async function generateStaticParams() {
     const { data: survivors, error } = await supabase
       .from('survivors')
       .select('id')
+      .is('deleted_at', null)
       .order('order_num');
     
     if (error) {
@@ -90,6 +91,7 @@ async function getSurvivorData(slug: string): Promise<SurvivorData | null> {
   const { data: survivor, error: survivorError } = await supabase
     .from('survivors')
     .select('id, name, image_url, created_at, updated_at, order_num, background_image_url, background_credit_name, background_credit_url')
+    .is('deleted_at', null)
     .eq('id', slug)
     .single();
   
@@ -116,6 +118,8 @@ async function getSurvivorData(slug: string): Promise<SurvivorData | null> {
   const { data: playersById, error: playersByIdError } = await supabase
     .from('p100_players')
     .select('*')
+    .is('deleted_at', null)
+    .eq('hidden', false)
     .eq('survivor_id', survivor.id)
     .order('priority', { ascending: false })
     .order('added_at', { ascending: true });
@@ -129,6 +133,8 @@ async function getSurvivorData(slug: string): Promise<SurvivorData | null> {
     const { data: playersByName, error: playersByNameError } = await supabase
       .from('p100_players')
       .select('*')
+      .is('deleted_at', null)
+      .eq('hidden', false)
       .eq('survivor_id', survivorNameLower)
       .order('priority', { ascending: false })
       .order('added_at', { ascending: true });
@@ -340,6 +346,13 @@ export default async function SurvivorPage({ params }: { params: { slug: string
                   <div className="bg-black/30 border border-red-600/20 rounded-lg p-6 backdrop-blur-sm">
                     <div className="mb-4 flex items-center justify-center gap-4 text-sm text-gray-400 font-mono">
                       <span>Total P100 Players: {survivorData.players.length}</span>
+                      <span className="text-gray-600">|</span>
+                      <span>
+                        Export:{' '}
+                        <a href={`/api/v1/survivors/${encodeURIComponent(survivorData.id)}/export?format=csv`} className="text-red-400 hover:text-red-300 underline">CSV</a>
+                        {' · '}
+                        <a href={`/api/v1/survivors/${encodeURIComponent(survivorData.id)}/export?format=json`} className="text-red-400 hover:text-red-300 underline">JSON</a>
+                      </span>
                     </div>
                     <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-3">
                       {survivorData.players.map((player) => {
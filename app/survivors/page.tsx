@@ -14,6 +14,7 @@ async function getSurvivors(): Promise<Character[]> {
     const { data, error } = await supabase
       .from('survivors')
       .select('*')
+      .is('deleted_at', null)
       .order('order_num', { ascending: true });
     
     if (error) {
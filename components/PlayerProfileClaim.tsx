@@ -0,0 +1,225 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { KeyRound, Star, EyeOff } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import type { OwnProfile } from '@/lib/player-claims';
+
+interface PlayerProfileClaimProps {
+  username: string;
+}
+
+type LinkForm = { twitch_url: string; youtube_url: string; twitter_url: string };
+
+const LINK_FIELDS: { key: keyof LinkForm; label: string; placeholder: string }[] = [
+  { key: 'twitch_url', label: 'Twitch', placeholder: 'https://twitch.tv/...' },
+  { key: 'youtube_url', label: 'YouTube', placeholder: 'https://youtube.com/@...' },
+  { key: 'twitter_url', label: 'Twitter / X', placeholder: 'https://x.com/...' },
+];
+
+export default function PlayerProfileClaim({ username }: PlayerProfileClaimProps) {
+  const router = useRouter();
+  const [mode, setMode] = useState<'closed' | 'start' | 'manage'>('closed');
+  const [claimKey, setClaimKey] = useState('');
+  const [verificationCode, setVerificationCode] = useState<string | null>(null);
+  const [proofUrl, setProofUrl] = useState('');
+  const [own, setOwn] = useState<OwnProfile | null>(null);
+  const [links, setLinks] = useState<LinkForm>({ twitch_url: '', youtube_url: '', twitter_url: '' });
+  const [favoriteId, setFavoriteId] = useState<string | null>(null);
+  const [hiddenIds, setHiddenIds] = useState<string[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const request = async (url: string, method: string, body: Record<string, unknown>) => {
+    setBusy(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const res = await fetch(url, { method, headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) });
+      const json = await res.json();
+      if (!json.success) setError(json.message || 'Something went wrong.');
+      return json.success ? json : null;
+    } catch {
+      setError('Network error. Please try again.');
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const startClaim = async () => {
+    const json = await request('/api/players/claim', 'POST', { username });
+    if (!json) return;
+    setClaimKey(json.claimKey);
+    setVerificationCode(json.verificationCode);
+    setMode('start');
+  };
+
+  const submitProof = async () => {
+    const json = await request('/api/players/claim', 'PATCH', { key: claimKey, proofUrl });
+    if (!json) return;
+    await loadOwnProfile();
+    setNotice('Thanks! A moderator will check your post and verify the claim. Use your claim key here to manage your profile once it is verified.');
+  };
+
+  const loadOwnProfile = async () => {
+    const json = await request('/api/players/profile', 'POST', { key: claimKey });
+    if (!json) return;
+    const profile = json.profile as OwnProfile;
+    setOwn(profile);
+    setVerificationCode(profile.verification_code);
+    setFavoriteId(profile.entries.find(e => e.favorite)?.id ?? null);
+    setHiddenIds(profile.entries.filter(e => e.hidden).map(e => e.id));
+    setLinks({
+      twitch_url: profile.profile?.twitch_url || '',
+      youtube_url: profile.profile?.youtube_url || '',
+      twitter_url: profile.profile?.twitter_url || '',
+    });
+    setMode('manage');
+  };
+
+  const saveProfile = async () => {
+    const json = await request('/api/players/profile', 'PATCH', {
+      key: claimKey,
+      ...links,
+      favoriteEntryId: favoriteId,
+      hiddenEntryIds: hiddenIds,
+    });
+    if (!json) return;
+    setNotice('Profile saved.');
+    router.refresh();
+  };
+
+  const copyKey = () => {
+    navigator.clipboard.writeText(claimKey).catch(() => {});
+  };
+
+  if (mode === 'closed') {
+    return (
+      <div className="bg-black/40 border border-red-600/30 rounded-lg p-4 space-y-3">
+        <div className="flex flex-wrap items-center justify-center gap-3 text-sm text-gray-300">
+          <span>Is this you?</span>
+          <Button onClick={startClaim} disabled={busy} size="sm" className="bg-red-700 hover:bg-red-600">Claim this profile</Button>
+        </div>
+        <div className="flex flex-wrap items-center justify-center gap-2">
+          <Input
+            value={claimKey}
+            onChange={(e) => setClaimKey(e.target.value)}
+            placeholder="Already claimed? Enter your claim key"
+            className="bg-black border-red-600 text-white font-mono max-w-xs"
+          />
+          <Button onClick={loadOwnProfile} disabled={busy || !claimKey.trim()} size="sm" variant="outline" className="border-red-600 text-white hover:bg-red-900">
+            <KeyRound className="h-4 w-4 mr-1" /> Manage profile
+          </Button>
+        </div>
+        {error && <p className="text-center text-sm text-red-400">{error}</p>}
+      </div>
+    );
+  }
+
+  const awaitingProof = mode === 'start' || (own?.status === 'pending' && !own.proof_url);
+
+  return (
+    <div className="bg-black/40 border border-red-600/30 rounded-lg p-6 space-y-4">
+      {awaitingProof && (
+        <div className="space-y-3 text-sm text-gray-300">
+          <p>
+            To prove this profile is yours, post this code in your Twitch stream title, a YouTube video description or a tweet,
+            then paste the link to that post below:
+          </p>
+          <p className="text-2xl font-mono text-center text-white">{verificationCode}</p>
+          {mode === 'start' && (
+            <div className="bg-red-900/20 border border-red-600/50 rounded p-3 space-y-2">
+              <p>Your private claim key. Save it now: it is shown only once and is what lets you edit your profile later.</p>
+              <div className="flex items-center justify-center gap-2">
+                <span className="font-mono text-lg text-white">{claimKey}</span>
+                <Button onClick={copyKey} size="sm" variant="outline" className="border-red-600 text-white hover:bg-red-900">Copy</Button>
+              </div>
+            </div>
+          )}
+          <div className="flex gap-2">
+            <Input
+              value={proofUrl}
+              onChange={(e) => setProofUrl(e.target.value)}
+              placeholder="https://..."
+              className="bg-black border-red-600 text-white"
+            />
+            <Button onClick={submitProof} disabled={busy || !proofUrl.trim()} className="bg-red-700 hover:bg-red-600">Submit</Button>
+          </div>
+        </div>
+      )}
+
+      {own && own.status === 'pending' && own.proof_url && (
+        <p className="text-sm text-gray-300 text-center">Your claim is waiting for a moderator to check <a href={own.proof_url} target="_blank" rel="noopener noreferrer" className="underline">your post</a>.</p>
+      )}
+      {own && (own.status === 'rejected' || own.status === 'revoked') && (
+        <p className="text-sm text-red-400 text-center">This claim was {own.status} by a moderator. You can start a new claim if you think this was a mistake.</p>
+      )}
+
+      {own?.status === 'verified' && (
+        <div className="space-y-4">
+          <h3 className="text-xl font-mono text-white">Manage your profile</h3>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            {LINK_FIELDS.map(field => (
+              <div key={field.key} className="space-y-1">
+                <label className="text-sm text-gray-400">{field.label}</label>
+                <Input
+                  value={links[field.key]}
+                  onChange={(e) => setLinks(prev => ({ ...prev, [field.key]: e.target.value }))}
+                  placeholder={field.placeholder}
+                  className="bg-black border-red-600 text-white"
+                />
+              </div>
+            ))}
+          </div>
+          {own.entries.length > 0 && (
+            <div className="space-y-1">
+              <div className="text-sm text-gray-400">Pick your favorite P100 and hide any you don&apos;t want shown publicly.</div>
+              <div className="max-h-72 overflow-y-auto divide-y divide-red-600/20">
+                {own.entries.map(entry => (
+                  <div key={entry.id} className="flex items-center justify-between gap-2 py-2 text-sm text-gray-200">
+                    <span className={hiddenIds.includes(entry.id) ? 'text-gray-500 line-through' : ''}>
+                      {entry.character} <span className="text-gray-500">({entry.characterType})</span>
+                    </span>
+                    <div className="flex gap-2">
+                      <Button
+                        onClick={() => setFavoriteId(prev => (prev === entry.id ? null : entry.id))}
+                        size="sm"
+                        variant="outline"
+                        className={`border-red-600 ${favoriteId === entry.id ? 'bg-pink-700 text-white' : 'text-gray-300 hover:bg-red-900'}`}
+                        title="Favorite"
+                      >
+                        <Star className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        onClick={() => setHiddenIds(prev => (prev.includes(entry.id) ? prev.filter(id => id !== entry.id) : [...prev, entry.id]))}
+                        size="sm"
+                        variant="outline"
+                        className={`border-red-600 ${hiddenIds.includes(entry.id) ? 'bg-gray-700 text-white' : 'text-gray-300 hover:bg-red-900'}`}
+                        title="Hide from public pages"
+                      >
+                        <EyeOff className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+          <Button onClick={saveProfile} disabled={busy} className="bg-red-700 hover:bg-red-600 w-full">
+            {busy ? 'Saving...' : 'Save'}
+          </Button>
+        </div>
+      )}
+
+      {notice && <p className="text-center text-sm text-green-400">{notice}</p>}
+      {error && <p className="text-center text-sm text-red-400">{error}</p>}
+      <div className="text-center">
+        <Button onClick={() => { setMode('closed'); setOwn(null); setNotice(null); setError(null); }} variant="ghost" size="sm" className="text-gray-400 hover:text-white">Close</Button>
+      </div>
+    </div>
+  );
+}
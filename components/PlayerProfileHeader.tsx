@@ -1,12 +1,17 @@
 'use client';
 
 import { useState } from 'react';
-import { User, Crown, Shield, Copy, Check } from 'lucide-react';
+import { User, Crown, Shield, Copy, Check, Gamepad2, MapPin } from 'lucide-react';
+import { FaTwitch, FaTwitter, FaYoutube } from 'react-icons/fa';
+import { PLAYER_PLATFORMS, PlayerProfile } from '@/lib/players-service';
 
 interface PlayerData {
   username: string;
   killers: unknown[];
   survivors: unknown[];
+  /** Earlier usernames merged into this one. */
+  aliases?: string[];
+  profile?: PlayerProfile | null;
 }
 
 interface PlayerProfileHeaderProps {
@@ -16,6 +21,13 @@ interface PlayerProfileHeaderProps {
 export default function PlayerProfileHeader({ player }: PlayerProfileHeaderProps) {
   const [isCopied, setIsCopied] = useState(false);
   const totalP100s = player.killers.length + player.survivors.length;
+  const profile = player.profile;
+  const platform = PLAYER_PLATFORMS.find(p => p.value === profile?.platform)?.label;
+  const socialLinks = profile ? [
+    { href: profile.twitch_url, label: 'Twitch', icon: <FaTwitch size={28} className="text-purple-400" /> },
+    { href: profile.youtube_url, label: 'YouTube', icon: <FaYoutube size={28} className="text-red-500" /> },
+    { href: profile.twitter_url, label: 'Twitter', icon: <FaTwitter size={28} className="text-blue-400" /> },
+  ].filter(link => link.href) : [];
 
   const handleCopyLink = () => {
     navigator.clipboard.writeText(window.location.href).then(() => {
@@ -55,6 +67,35 @@ export default function PlayerProfileHeader({ player }: PlayerProfileHeaderProps
           <span>{player.survivors.length} Survivor{player.survivors.length !== 1 ? 's' : ''}</span>
         </div>
       </div>
+      {(platform || profile?.country) && (
+        <div className="flex justify-center gap-6 mt-4 text-gray-300">
+          {platform && (
+            <span className="flex items-center gap-2"><Gamepad2 className="h-5 w-5 text-gray-400" />{platform}</span>
+          )}
+          {profile?.country && (
+            <span className="flex items-center gap-2"><MapPin className="h-5 w-5 text-gray-400" />{profile.country}</span>
+          )}
+        </div>
+      )}
+      {socialLinks.length > 0 && (
+        <div className="flex justify-center gap-4 mt-4">
+          {socialLinks.map(link => (
+            <a
+              key={link.label}
+              href={link.href!}
+              target="_blank"
+              rel="noopener noreferrer"
+              title={link.label}
+              className="transition-transform duration-300 ease-in-out hover:scale-125"
+            >
+              {link.icon}
+            </a>
+          ))}
+        </div>
+      )}
+      {player.aliases && player.aliases.length > 0 && (
+        <p className="text-sm text-gray-400 mt-4">Previously known as {player.aliases.join(', ')}</p>
+      )}
     </div>
   );
 }
\ No newline at end of file
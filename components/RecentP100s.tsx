@@ -21,6 +21,9 @@ interface RecentP100 {
   };
 }
 
+// Approved submissions looked at to find 5 whose P100 is still public.
+const RECENT_SCAN_LIMIT = 25;
+
 // Type alias for a P100 entry that is guaranteed to have character data.
 type EnrichedP100 = RecentP100 & { character: NonNullable<RecentP100['character']> };
 
@@ -36,10 +39,11 @@ export default function RecentP100s() {
         const { data: submissions, error } = await supabase
           .from('p100_submissions')
           .select('id, username, killer_id, survivor_id, submitted_at, reviewed_at')
+          .is('deleted_at', null)
           .eq('status', 'approved') // Only show approved submissions
           .not('reviewed_at', 'is', null) // Only include submissions with a review date
           .order('reviewed_at', { ascending: false })
-          .limit(5); // Show only the 5 most recently reviewed submissions
+          .limit(RECENT_SCAN_LIMIT);
 
         if (error) {
           console.error('Error fetching recent P100s:', error);
@@ -56,18 +60,30 @@ export default function RecentP100s() {
         console.log('Found approved submissions:', submissions.length);
         console.log('Submission dates:', submissions.map(s => ({ username: s.username, submitted_at: s.submitted_at })));
 
-        const killerIds = Array.from(new Set(submissions.map(p => p.killer_id).filter(Boolean)));
-        const survivorIds = Array.from(new Set(submissions.map(p => p.survivor_id).filter(Boolean)));
+        // Skip P100s that were hidden or trashed after approval (e.g. by a blacklist cleanup)
+        const { data: visibleEntries, error: visibleError } = await supabase
+          .from('p100_players')
+          .select('username, killer_id, survivor_id')
+          .is('deleted_at', null)
+          .eq('hidden', false)
+          .in('username', Array.from(new Set(submissions.map(s => s.username))));
+        if (visibleError) console.error('Error fetching visible P100s:', visibleError);
+        const entryKey = (e: { username: string; killer_id: string | null; survivor_id: string | null }) => `${e.username}:${e.killer_id || ''}:${e.survivor_id || ''}`;
+        const visible = new Set((visibleEntries || []).map(entryKey));
+        const shown = submissions.filter(s => visible.has(entryKey(s))).slice(0, 5); // Show only the 5 most recently reviewed
+
+        const killerIds = Array.from(new Set(shown.map(p => p.killer_id).filter(Boolean)));
+        const survivorIds = Array.from(new Set(shown.map(p => p.survivor_id).filter(Boolean)));
 
         const [killersResponse, survivorsResponse] = await Promise.all([
-          killerIds.length > 0 ? supabase.from('killers').select('id, name, image_url').in('id', killerIds) : Promise.resolve({ data: [], error: null }),
-          survivorIds.length > 0 ? supabase.from('survivors').select('id, name, image_url').in('id', survivorIds) : Promise.resolve({ data: [], error: null }),
+          killerIds.length > 0 ? supabase.from('killers').select('id, name, image_url').is('deleted_at', null).in('id', killerIds) : Promise.resolve({ data: [], error: null }),
+          survivorIds.length > 0 ? supabase.from('survivors').select('id, name, image_url').is('deleted_at', null).in('id', survivorIds) : Promise.resolve({ data: [], error: null }),
         ]);
 
         if (killersResponse.error) console.error('Error fetching killers:', killersResponse.error);
         if (survivorsResponse.error) console.error('Error fetching survivors:', survivorsResponse.error);
 
-        const enrichedSubmissions = submissions
+        const enrichedSubmissions = shown
           .map((submission): RecentP100 => {
             let character: RecentP100['character'] = undefined;
             if (submission.killer_id) {
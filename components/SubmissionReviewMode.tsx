@@ -0,0 +1,241 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Check, X, SkipForward, ChevronLeft, ChevronRight } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+
+export interface ReviewQueueItem {
+  id: string;
+  username: string;
+  characterName: string;
+  screenshot_url: string | null;
+  submitted_at: string;
+  comment?: string;
+  /** P200 / legacy status claimed by the submitter. */
+  claims?: string[];
+  claimNotes?: string;
+  hasEvidence?: boolean;
+}
+
+interface SubmissionReviewModeProps {
+  queue: ReviewQueueItem[];
+  /** Canned reasons offered in the reject panel; number keys 1-9 pick one. */
+  rejectionReasons: { id: string; label: string }[];
+  /** Returns true when the decision was saved; the item then leaves the queue. */
+  onDecision: (id: string, status: 'approved' | 'rejected', rejectionReasonId?: string, rejectionReason?: string) => Promise<boolean>;
+  onClose: () => void;
+  onOpenEvidence?: (id: string) => void;
+}
+
+const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable);
+
+export default function SubmissionReviewMode({ queue, rejectionReasons, onDecision, onClose, onOpenEvidence }: SubmissionReviewModeProps) {
+  const [items, setItems] = useState<ReviewQueueItem[]>(queue);
+  const [index, setIndex] = useState(0);
+  const [isRejecting, setIsRejecting] = useState(false);
+  const [rejectReasonId, setRejectReasonId] = useState<string | null>(null);
+  const [rejectReason, setRejectReason] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [reviewedCount, setReviewedCount] = useState(0);
+
+  const current = items[index];
+
+  const decide = useCallback(async (status: 'approved' | 'rejected', reasonId?: string, reason?: string) => {
+    if (!current || isSaving) return;
+    setIsSaving(true);
+    try {
+      const saved = await onDecision(current.id, status, reasonId, reason);
+      if (saved) {
+        setItems(prev => prev.filter(item => item.id !== current.id));
+        setIndex(prev => Math.max(0, Math.min(prev, items.length - 2)));
+        setReviewedCount(prev => prev + 1);
+        setIsRejecting(false);
+        setRejectReasonId(null);
+        setRejectReason('');
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  }, [current, isSaving, items.length, onDecision]);
+
+  const skip = useCallback(() => {
+    if (items.length === 0) return;
+    setIsRejecting(false);
+    setRejectReasonId(null);
+    setRejectReason('');
+    setIndex(prev => (prev + 1) % items.length);
+  }, [items.length]);
+
+  const previous = useCallback(() => {
+    if (items.length === 0) return;
+    setIsRejecting(false);
+    setIndex(prev => (prev - 1 + items.length) % items.length);
+  }, [items.length]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey) return;
+
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        if (isRejecting) setIsRejecting(false);
+        else onClose();
+        return;
+      }
+
+      if (isRejecting) {
+        if (e.key === 'Enter') {
+          e.preventDefault();
+          void decide('rejected', rejectReasonId ?? undefined, rejectReason.trim() || undefined);
+          return;
+        }
+        // Number keys pick a canned reason unless the moderator is typing details.
+        if (!isTypingTarget(e.target) && /^[1-9]$/.test(e.key)) {
+          const preset = rejectionReasons[Number(e.key) - 1];
+          if (preset) {
+            e.preventDefault();
+            setRejectReasonId(prev => (prev === preset.id ? null : preset.id));
+          }
+        }
+        return;
+      }
+
+      if (isTypingTarget(e.target)) return;
+      switch (e.key.toLowerCase()) {
+        case 'a':
+          e.preventDefault();
+          void decide('approved');
+          break;
+        case 'r':
+          e.preventDefault();
+          setIsRejecting(true);
+          break;
+        case 's':
+        case 'arrowright':
+          e.preventDefault();
+          skip();
+          break;
+        case 'arrowleft':
+          e.preventDefault();
+          previous();
+          break;
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [decide, isRejecting, onClose, previous, rejectReason, rejectReasonId, rejectionReasons, skip]);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/95 flex flex-col">
+      <div className="flex items-center justify-between px-6 py-3 border-b border-red-600">
+        <div className="text-white">
+          <span className="font-bold">Review Mode</span>
+          <span className="text-gray-400 ml-4 text-sm">
+            {items.length > 0 ? `${index + 1} of ${items.length} pending` : 'Queue empty'} · {reviewedCount} reviewed
+          </span>
+        </div>
+        <div className="flex items-center gap-4">
+          <span className="text-gray-500 text-xs hidden md:inline">A approve · R reject · S skip · ←/→ navigate · Esc close</span>
+          <Button onClick={onClose} variant="outline" className="border-red-600 text-white hover:bg-red-900">Close</Button>
+        </div>
+      </div>
+
+      {!current ? (
+        <div className="flex-1 flex flex-col items-center justify-center text-white gap-4">
+          <Check className="w-12 h-12 text-green-500" />
+          <p className="text-xl">All caught up. {reviewedCount} submission(s) reviewed.</p>
+          <Button onClick={onClose} className="bg-red-600 hover:bg-red-700">Back to Submissions</Button>
+        </div>
+      ) : (
+        <div className="flex-1 flex flex-col lg:flex-row min-h-0">
+          <div className="flex-1 min-h-0 flex items-center justify-center p-4 bg-black">
+            {current.screenshot_url ? (
+              // eslint-disable-next-line @next/next/no-img-element
+              <img src={current.screenshot_url} alt={`Screenshot from ${current.username}`} className="max-h-full max-w-full object-contain" />
+            ) : (
+              <span className="text-gray-500">No screenshot</span>
+            )}
+          </div>
+
+          <div className="lg:w-96 border-t lg:border-t-0 lg:border-l border-red-600 p-6 space-y-6 overflow-y-auto">
+            <div>
+              <div className="text-gray-400 text-sm">Username</div>
+              <div className="text-white text-2xl font-mono break-all">{current.username.replace(/&lt;/g, '<').replace(/&gt;/g, '>')}</div>
+            </div>
+            <div>
+              <div className="text-gray-400 text-sm">Character</div>
+              <div className="text-white text-xl">{current.characterName}</div>
+            </div>
+            <div>
+              <div className="text-gray-400 text-sm">Submitted</div>
+              <div className="text-white">{new Date(current.submitted_at).toLocaleString()}</div>
+            </div>
+            {current.comment && (
+              <div className="bg-blue-900/20 border border-blue-500 rounded p-3">
+                <div className="text-blue-300 text-sm font-semibold">Submitter&apos;s Comment</div>
+                <div className="text-gray-300 text-sm whitespace-pre-wrap break-words">{current.comment}</div>
+              </div>
+            )}
+            {current.claims && current.claims.length > 0 && (
+              <div className="bg-purple-900/20 border border-purple-500 rounded p-3 space-y-1">
+                <div className="text-purple-300 text-sm font-semibold">Claims {current.claims.join(' + ')}</div>
+                {current.claimNotes && <div className="text-gray-300 text-sm whitespace-pre-wrap break-words">{current.claimNotes}</div>}
+                {current.hasEvidence && onOpenEvidence && (
+                  <button onClick={() => onOpenEvidence(current.id)} className="text-purple-300 hover:text-purple-200 underline text-sm">Open evidence</button>
+                )}
+              </div>
+            )}
+
+            {isRejecting ? (
+              <div className="space-y-3">
+                <div className="text-white font-semibold">Reject reason</div>
+                <div className="space-y-1">
+                  {rejectionReasons.slice(0, 9).map((reason, i) => (
+                    <button
+                      key={reason.id}
+                      onClick={() => setRejectReasonId(prev => (prev === reason.id ? null : reason.id))}
+                      className={`w-full text-left px-3 py-2 rounded text-sm border ${rejectReasonId === reason.id ? 'border-red-500 bg-red-900/40 text-white' : 'border-red-600/30 text-gray-300 hover:bg-red-900/20'}`}
+                    >
+                      <span className="text-gray-500 mr-2">{i + 1}</span>{reason.label}
+                    </button>
+                  ))}
+                </div>
+                <Input
+                  value={rejectReason}
+                  onChange={(e) => setRejectReason(e.target.value)}
+                  placeholder="Additional details (optional)..."
+                  className="bg-black border-red-600 text-white"
+                />
+                <div className="flex gap-2">
+                  <Button onClick={() => decide('rejected', rejectReasonId ?? undefined, rejectReason.trim() || undefined)} disabled={isSaving} className="bg-red-600 hover:bg-red-700 flex-1">
+                    {isSaving ? 'Saving...' : 'Confirm Reject (Enter)'}
+                  </Button>
+                  <Button onClick={() => setIsRejecting(false)} variant="outline" className="border-red-600 text-white hover:bg-red-900">Cancel</Button>
+                </div>
+              </div>
+            ) : (
+              <div className="grid grid-cols-3 gap-2">
+                <Button onClick={() => decide('approved')} disabled={isSaving} className="bg-green-600 hover:bg-green-700">
+                  <Check className="w-4 h-4 mr-1" /> A
+                </Button>
+                <Button onClick={() => setIsRejecting(true)} disabled={isSaving} className="bg-red-600 hover:bg-red-700">
+                  <X className="w-4 h-4 mr-1" /> R
+                </Button>
+                <Button onClick={skip} disabled={isSaving} variant="outline" className="border-red-600 text-white hover:bg-red-900">
+                  <SkipForward className="w-4 h-4 mr-1" /> S
+                </Button>
+              </div>
+            )}
+
+            <div className="flex justify-between">
+              <Button onClick={previous} variant="ghost" size="sm" className="text-gray-400 hover:text-white"><ChevronLeft className="w-4 h-4" /> Prev</Button>
+              <Button onClick={skip} variant="ghost" size="sm" className="text-gray-400 hover:text-white">Next <ChevronRight className="w-4 h-4" /></Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -60,6 +60,7 @@ export function useImagePreload(options: UseImagePreloadOptions = {}) {
         const { data } = await supabase
           .from('killers')
           .select('image_url')
+          .is('deleted_at', null)
           .order('order')
           .limit(12);
 
@@ -75,6 +76,7 @@ export function useImagePreload(options: UseImagePreloadOptions = {}) {
         const { data } = await supabase
           .from('survivors')
           .select('image_url')
+          .is('deleted_at', null)
           .order('order_num')
           .limit(12);
 
@@ -91,6 +93,7 @@ export function useImagePreload(options: UseImagePreloadOptions = {}) {
           const { data } = await supabase
             .from('killers')
             .select('image_url, background_image_url, header_url, legacy_header_urls')
+            .is('deleted_at', null)
             .eq('id', characterId)
             .single();
 
@@ -118,6 +121,7 @@ export function useImagePreload(options: UseImagePreloadOptions = {}) {
           const { data } = await supabase
             .from('survivors')
             .select('image_url, background_image_url, legacy_header_urls')
+            .is('deleted_at', null)
             .eq('id', characterId)
             .single();
 
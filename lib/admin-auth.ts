@@ -0,0 +1,153 @@
+// lib/admin-auth.ts
+// Signed admin session cookies. Uses Web Crypto only so it can run in middleware
+// and in edge route handlers alike.
+import { ModeratorRole, isModeratorRole } from './moderator-roles';
+
+export const ADMIN_SESSION_COOKIE = 'p100_admin_session';
+export const ADMIN_SESSION_MAX_AGE = 60 * 60 * 8; // 8 hours, in seconds
+
+export interface AdminSession {
+  sub: string; // moderator id, or 'admin' for the ADMIN_PASSWORD bootstrap login
+  username: string;
+  role: ModeratorRole;
+  jti: string; // session id, recorded on logout so the token cannot be reused
+  exp: number; // unix seconds
+}
+
+// Username that logs in with ADMIN_PASSWORD as an owner, so the first
+// moderator accounts can be created.
+export const BOOTSTRAP_ADMIN_USERNAME = 'admin';
+
+/**
+ * Whether the ADMIN_PASSWORD owner login is allowed. Set
+ * DISABLE_ADMIN_BOOTSTRAP_LOGIN=true once owner accounts exist; sessions it
+ * already issued stop working too.
+ */
+export function isBootstrapLoginEnabled(): boolean {
+  return process.env.DISABLE_ADMIN_BOOTSTRAP_LOGIN !== 'true' && !!process.env.ADMIN_PASSWORD;
+}
+
+const PBKDF2_ITERATIONS = 100_000;
+
+const encoder = new TextEncoder();
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (value: string): Uint8Array => {
+  const padded = value.replace(/-/g, '+').replace(/_/g, '/') + '==='.slice((value.length + 3) % 4);
+  const binary = atob(padded);
+  return Uint8Array.from(binary, c => c.charCodeAt(0));
+};
+
+const getSigningKey = async (): Promise<CryptoKey> => {
+  const secret = process.env.ADMIN_SESSION_SECRET;
+  if (!secret || secret.length < 32) {
+    throw new Error('ADMIN_SESSION_SECRET must be defined and at least 32 characters long');
+  }
+  return crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+};
+
+/**
+ * Creates a signed session token in the form `<payload>.<signature>`.
+ * @param identity The logged-in moderator.
+ */
+export async function createAdminSessionToken(identity: Omit<AdminSession, 'jti' | 'exp'>): Promise<string> {
+  const session: AdminSession = { ...identity, jti: crypto.randomUUID(), exp: Math.floor(Date.now() / 1000) + ADMIN_SESSION_MAX_AGE };
+  const payload = toBase64Url(encoder.encode(JSON.stringify(session)));
+  const key = await getSigningKey();
+  const signature = new Uint8Array(await crypto.subtle.sign('HMAC', key, encoder.encode(payload)));
+  return `${payload}.${toBase64Url(signature)}`;
+}
+
+/**
+ * Verifies a session token. Returns the session, or null when the token is
+ * missing, tampered with or expired.
+ */
+export async function verifyAdminSessionToken(token: string | undefined | null): Promise<AdminSession | null> {
+  if (!token) return null;
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature) return null;
+  try {
+    const key = await getSigningKey();
+    const valid = await crypto.subtle.verify('HMAC', key, fromBase64Url(signature), encoder.encode(payload));
+    if (!valid) return null;
+    const session = JSON.parse(new TextDecoder().decode(fromBase64Url(payload))) as AdminSession;
+    if (typeof session.exp !== 'number' || session.exp < Math.floor(Date.now() / 1000)) return null;
+    if (typeof session.username !== 'string' || typeof session.jti !== 'string' || !isModeratorRole(session.role)) return null;
+    return session;
+  } catch (error) {
+    console.error('Error verifying admin session:', error);
+    return null;
+  }
+}
+
+/**
+ * Compares the submitted password against ADMIN_PASSWORD without leaking
+ * timing information about where the strings differ.
+ */
+export async function verifyAdminPassword(password: string): Promise<boolean> {
+  if (!isBootstrapLoginEnabled()) return false;
+  return secretMatches(password, process.env.ADMIN_PASSWORD);
+}
+
+/**
+ * Constant-time check of a provided secret (password, bearer token) against the
+ * expected value. Always false when no expected value is configured.
+ */
+export async function secretMatches(provided: string | null | undefined, expected: string | undefined): Promise<boolean> {
+  if (!expected || typeof provided !== 'string') return false;
+  const [a, b] = await Promise.all([
+    crypto.subtle.digest('SHA-256', encoder.encode(provided)),
+    crypto.subtle.digest('SHA-256', encoder.encode(expected)),
+  ]);
+  return constantTimeEqual(new Uint8Array(a), new Uint8Array(b));
+}
+
+const constantTimeEqual = (left: Uint8Array, right: Uint8Array): boolean => {
+  if (left.length !== right.length) return false;
+  let diff = 0;
+  for (let i = 0; i < left.length; i++) diff |= left[i] ^ right[i];
+  return diff === 0;
+};
+
+const derivePbkdf2 = async (password: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> => {
+  const key = await crypto.subtle.importKey('raw', encoder.encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, key, 256);
+  return new Uint8Array(bits);
+};
+
+/**
+ * Hashes a moderator password as `pbkdf2$<iterations>$<salt>$<hash>`.
+ */
+export async function hashModeratorPassword(password: string): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const hash = await derivePbkdf2(password, salt, PBKDF2_ITERATIONS);
+  return `pbkdf2$${PBKDF2_ITERATIONS}$${toBase64Url(salt)}$${toBase64Url(hash)}`;
+}
+
+/**
+ * Checks a password against a hash produced by hashModeratorPassword.
+ */
+export async function verifyModeratorPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, iterations, salt, hash] = (stored || '').split('$');
+  if (scheme !== 'pbkdf2' || !iterations || !salt || !hash || typeof password !== 'string') return false;
+  try {
+    const actual = await derivePbkdf2(password, fromBase64Url(salt), Number(iterations));
+    return constantTimeEqual(actual, fromBase64Url(hash));
+  } catch (error) {
+    console.error('Error verifying moderator password:', error);
+    return false;
+  }
+}
+
+/** Cookie attributes shared by the login and logout routes. */
+export const adminSessionCookieOptions = {
+  httpOnly: true,
+  secure: process.env.NODE_ENV === 'production',
+  sameSite: 'strict' as const,
+  path: '/',
+};
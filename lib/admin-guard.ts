@@ -0,0 +1,58 @@
+// lib/admin-guard.ts
+// Authorization check shared by every admin server action.
+import { cookies } from 'next/headers';
+import { ADMIN_SESSION_COOKIE, AdminSession, BOOTSTRAP_ADMIN_USERNAME, isBootstrapLoginEnabled, verifyAdminSessionToken } from './admin-auth';
+import { isAdminSessionRevoked } from './admin-session-revocations';
+import { AdminArea, canAccessArea } from './moderator-roles';
+import { getModeratorById } from './moderators-service';
+import { createAdminClient } from './supabase-client';
+
+export interface UnauthorizedResult {
+  success: false;
+  code: 'unauthorized' | 'forbidden';
+  message: string;
+}
+
+export type AdminGuardResult =
+  | { session: AdminSession; error?: undefined }
+  | { session?: undefined; error: UnauthorizedResult };
+
+/**
+ * Reads and verifies the admin session cookie of the current request. Logged
+ * out sessions are refused, and the moderator row is re-read so deleted
+ * accounts and role changes apply at once.
+ */
+export async function getAdminSession(): Promise<AdminSession | null> {
+  const session = await verifyAdminSessionToken(cookies().get(ADMIN_SESSION_COOKIE)?.value);
+  if (!session) return null;
+  if (session.sub === BOOTSTRAP_ADMIN_USERNAME && !isBootstrapLoginEnabled()) return null;
+  try {
+    const supabase = createAdminClient();
+    if (await isAdminSessionRevoked(supabase, session.jti)) return null;
+    if (session.sub === BOOTSTRAP_ADMIN_USERNAME) return session;
+    const moderator = await getModeratorById(supabase, session.sub);
+    if (!moderator) return null;
+    return { ...session, username: moderator.username, role: moderator.role };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Must be the first call in every admin server action. Usage:
+ *
+ *   const { session, error: authError } = await requireAdmin('submissions');
+ *   if (authError) return authError;
+ *
+ * @param area When given, the moderator's role must be allowed to use that area.
+ */
+export async function requireAdmin(area?: AdminArea): Promise<AdminGuardResult> {
+  const session = await getAdminSession();
+  if (!session) {
+    return { error: { success: false, code: 'unauthorized', message: 'You must be logged in as an admin.' } };
+  }
+  if (area && !canAccessArea(session.role, area)) {
+    return { error: { success: false, code: 'forbidden', message: 'Your role does not have access to this area.' } };
+  }
+  return { session };
+}
@@ -0,0 +1,63 @@
+// lib/admin-lockout.ts
+import { SupabaseClient } from '@supabase/supabase-js';
+
+export const MAX_LOGIN_ATTEMPTS = 5;
+export const LOCKOUT_DURATION = 15 * 60 * 1000; // 15 minutes
+
+export interface LoginAttemptState {
+  failedCount: number;
+  lockedUntil: number | null; // epoch ms
+}
+
+/**
+ * Reads the failed-login state for an IP. An expired lock is reported as unlocked.
+ * @param client Supabase admin client
+ * @param ip Client IP address
+ */
+export async function getLoginAttemptState(client: SupabaseClient, ip: string): Promise<LoginAttemptState> {
+  const { data, error } = await client
+    .from('admin_login_attempts')
+    .select('failed_count, locked_until')
+    .eq('ip', ip)
+    .maybeSingle();
+  if (error) {
+    console.error('Error reading login attempts:', error);
+    throw new Error('Could not read login attempts');
+  }
+  const lockedUntil = data?.locked_until ? new Date(data.locked_until).getTime() : null;
+  if (lockedUntil && lockedUntil <= Date.now()) {
+    return { failedCount: 0, lockedUntil: null };
+  }
+  return { failedCount: data?.failed_count || 0, lockedUntil };
+}
+
+/**
+ * Records a failed login and locks the IP once MAX_LOGIN_ATTEMPTS is reached.
+ * The count is incremented in the database, so parallel attempts are all counted.
+ */
+export async function recordFailedLogin(client: SupabaseClient, ip: string): Promise<LoginAttemptState> {
+  const { data, error } = await client
+    .rpc('record_failed_admin_login', {
+      p_ip: ip,
+      p_max_attempts: MAX_LOGIN_ATTEMPTS,
+      p_lockout_seconds: Math.ceil(LOCKOUT_DURATION / 1000),
+    })
+    .single();
+  if (error || !data) {
+    console.error('Error recording failed login:', error);
+    throw new Error('Could not record failed login');
+  }
+  const row = data as { attempt_count: number; lock_expires_at: string | null };
+  return {
+    failedCount: row.attempt_count,
+    lockedUntil: row.lock_expires_at ? new Date(row.lock_expires_at).getTime() : null,
+  };
+}
+
+/**
+ * Clears the failed-login state for an IP after a successful login.
+ */
+export async function clearLoginAttempts(client: SupabaseClient, ip: string) {
+  const { error } = await client.from('admin_login_attempts').delete().eq('ip', ip);
+  if (error) console.error('Error clearing login attempts:', error);
+}
@@ -0,0 +1,41 @@
+// lib/admin-session-revocations.ts
+import { SupabaseClient } from '@supabase/supabase-js';
+import { AdminSession } from './admin-auth';
+
+/**
+ * Records a session as logged out, so its token is refused even if it was
+ * copied before the cookie was cleared. Rows past their expiry are dropped on
+ * the way, since expired tokens are refused anyway.
+ * **Must be called with an admin client.**
+ */
+export async function revokeAdminSession(client: SupabaseClient, session: AdminSession) {
+  const { error } = await client
+    .from('admin_session_revocations')
+    .upsert({ jti: session.jti, expires_at: new Date(session.exp * 1000).toISOString() }, { onConflict: 'jti' });
+  if (error) {
+    console.error('Error revoking admin session:', error);
+    throw new Error('Could not revoke admin session');
+  }
+  const { error: cleanupError } = await client
+    .from('admin_session_revocations')
+    .delete()
+    .lt('expires_at', new Date().toISOString());
+  if (cleanupError) console.error('Error clearing expired session revocations:', cleanupError);
+}
+
+/**
+ * Whether a session was logged out.
+ * **Must be called with an admin client.**
+ */
+export async function isAdminSessionRevoked(client: SupabaseClient, jti: string): Promise<boolean> {
+  const { data, error } = await client
+    .from('admin_session_revocations')
+    .select('jti')
+    .eq('jti', jti)
+    .maybeSingle();
+  if (error) {
+    console.error('Error reading session revocations:', error);
+    throw new Error('Could not read session revocations');
+  }
+  return !!data;
+}
@@ -0,0 +1,104 @@
+// lib/app-settings.ts
+// Settings stored in the app_settings table and edited from the admin panel.
+
+import { SupabaseClient } from '@supabase/supabase-js';
+
+export interface SubmissionRateLimits {
+  perIp: number;
+  perUsername: number;
+  windowMinutes: number;
+}
+
+export const DEFAULT_SUBMISSION_RATE_LIMITS: SubmissionRateLimits = {
+  perIp: 10,
+  perUsername: 5,
+  windowMinutes: 60,
+};
+
+/** Days after review before a screenshot is deleted. 0 keeps it forever. */
+export interface ScreenshotRetentionPolicy {
+  approvedDays: number;
+  rejectedDays: number;
+}
+
+export const DEFAULT_SCREENSHOT_RETENTION: ScreenshotRetentionPolicy = {
+  approvedDays: 0,
+  rejectedDays: 0,
+};
+
+const SUBMISSION_RATE_LIMITS_KEY = 'submission_rate_limits';
+const SCREENSHOT_RETENTION_KEY = 'screenshot_retention';
+
+/**
+ * Reads the submission rate limits, falling back to the defaults for anything
+ * missing. A failed read also falls back, so submissions keep being limited.
+ * **Must be called with an admin client.**
+ */
+export async function getSubmissionRateLimits(supabaseClient: SupabaseClient): Promise<SubmissionRateLimits> {
+  const { data, error } = await supabaseClient
+    .from('app_settings')
+    .select('value')
+    .eq('key', SUBMISSION_RATE_LIMITS_KEY)
+    .maybeSingle();
+
+  if (error) console.error('Error fetching submission rate limits:', error);
+  return { ...DEFAULT_SUBMISSION_RATE_LIMITS, ...(data?.value || {}) };
+}
+
+/**
+ * Saves the submission rate limits.
+ * **Must be called with an admin client.**
+ * @param actor - Username recorded in updated_by.
+ */
+export async function saveSubmissionRateLimits(supabaseClient: SupabaseClient, limits: SubmissionRateLimits, actor: string) {
+  const { error } = await supabaseClient
+    .from('app_settings')
+    .upsert({
+      key: SUBMISSION_RATE_LIMITS_KEY,
+      value: limits,
+      updated_at: new Date().toISOString(),
+      updated_by: actor,
+    }, { onConflict: 'key' });
+
+  if (error) {
+    console.error('Error saving submission rate limits:', error);
+    throw error;
+  }
+}
+
+/**
+ * Reads the screenshot retention policy. A failed read falls back to the
+ * defaults, which keep everything, so nothing is deleted by mistake.
+ * **Must be called with an admin client.**
+ */
+export async function getScreenshotRetention(supabaseClient: SupabaseClient): Promise<ScreenshotRetentionPolicy> {
+  const { data, error } = await supabaseClient
+    .from('app_settings')
+    .select('value')
+    .eq('key', SCREENSHOT_RETENTION_KEY)
+    .maybeSingle();
+
+  if (error) console.error('Error fetching screenshot retention policy:', error);
+  return { ...DEFAULT_SCREENSHOT_RETENTION, ...(data?.value || {}) };
+}
+
+/**
+ * Saves the screenshot retention policy.
+ * **Must be called with an admin client.**
+ * @param actor - Username recorded in updated_by.
+ */
+export async function saveScreenshotRetention(supabaseClient: SupabaseClient, policy: ScreenshotRetentionPolicy, actor: string) {
+  const { error } = await supabaseClient
+    .from('app_settings')
+    .upsert({
+      key: SCREENSHOT_RETENTION_KEY,
+      value: policy,
+      updated_at: new Date().toISOString(),
+      updated_by: actor,
+    }, { onConflict: 'key' });
+
+  if (error) {
+    console.error('Error saving screenshot retention policy:', error);
+    throw error;
+  }
+}
@@ -197,8 +197,8 @@ export async function getAllCharacters() {
   const supabase = createServerClient();
   
   const [{ data: killers }, { data: survivors }] = await Promise.all([
-    supabase.from('killers').select('id, name').order('order'),
-    supabase.from('survivors').select('id, name').order('order_num')
+    supabase.from('killers').select('id, name').is('deleted_at', null).order('order'),
+    supabase.from('survivors').select('id, name').is('deleted_at', null).order('order_num')
   ]);
   
   return {
@@ -0,0 +1,92 @@
+// lib/audit-log.ts
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { AdminSession } from './admin-auth';
+
+export interface AuditLogEntry {
+  id: number;
+  actor: string;
+  actor_id: string;
+  action: string;
+  table_name: string;
+  record_id: string | null;
+  before_data: any;
+  after_data: any;
+  created_at: string;
+}
+
+/** Who made a change: a moderator's session, or a scheduled job (see systemAuditActor). */
+export type AuditActor = Pick<AdminSession, 'sub' | 'username'>;
+
+/** Actor for changes made by a scheduled job rather than a moderator. */
+export const systemAuditActor = (job: string): AuditActor => ({ sub: `system:${job}`, username: 'system' });
+
+export interface AuditChange {
+  action: string;
+  table: string;
+  recordId?: string | null;
+  before?: any;
+  after?: any;
+}
+
+export interface AuditLogFilters {
+  actor?: string;
+  table?: string;
+  from?: string; // ISO date, inclusive
+  to?: string;   // ISO date, inclusive
+  limit?: number;
+  offset?: number;
+}
+
+export const AUDIT_LOG_PAGE_SIZE = 50;
+
+/**
+ * Appends an entry to the admin audit log. A failed write is logged but never
+ * fails the action that triggered it, since the change itself already happened.
+ * **Must be called with an admin client.**
+ * @param actor - The moderator's session, or a system actor for scheduled jobs.
+ */
+export async function recordAudit(supabaseClient: SupabaseClient, actor: AuditActor, change: AuditChange) {
+  const { error } = await supabaseClient.from('admin_audit_log').insert([{
+    actor: actor.username,
+    actor_id: actor.sub,
+    action: change.action,
+    table_name: change.table,
+    record_id: change.recordId ?? null,
+    before_data: change.before ?? null,
+    after_data: change.after ?? null,
+  }]);
+
+  if (error) console.error('Error writing audit log:', error, change);
+}
+
+/**
+ * Fetches audit entries, newest first.
+ * **Must be called with an admin client.**
+ */
+export async function getAuditEntries(supabaseClient: SupabaseClient, filters: AuditLogFilters = {}): Promise<{ entries: AuditLogEntry[]; total: number }> {
+  const limit = filters.limit ?? AUDIT_LOG_PAGE_SIZE;
+  const offset = filters.offset ?? 0;
+  let query = supabaseClient
+    .from('admin_audit_log')
+    .select('*', { count: 'exact' })
+    .order('created_at', { ascending: false })
+    .range(offset, offset + limit - 1);
+
+  if (filters.actor) query = query.eq('actor', filters.actor);
+  if (filters.table) query = query.eq('table_name', filters.table);
+  if (filters.from) query = query.gte('created_at', new Date(filters.from).toISOString());
+  if (filters.to) {
+    // Treat the end date as inclusive of the whole day.
+    const end = new Date(filters.to);
+    end.setUTCHours(23, 59, 59, 999);
+    query = query.lte('created_at', end.toISOString());
+  }
+
+  const { data, error, count } = await query;
+  if (error) {
+    console.error('Error fetching audit log:', error);
+    throw new Error('Could not fetch audit log.');
+  }
+  return { entries: (data || []) as AuditLogEntry[], total: count || 0 };
+}
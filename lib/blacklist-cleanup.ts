@@ -0,0 +1,207 @@
+// lib/blacklist-cleanup.ts
+// Clearing a blacklisted user's existing P100s and pending submissions. A
+// blacklist rule only stops new attempts; a cleanup hides or trashes what the
+// matching usernames already have, and records it in blacklist_cleanups so it
+// can be undone when the rule is lifted.
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { BlacklistRule, matchesBlacklistRule } from './blacklist-service';
+
+export type BlacklistCleanupMode = 'hide' | 'remove';
+
+export interface BlacklistCleanupEntry {
+  id: string;
+  username: string;
+  character: string;
+}
+
+export interface BlacklistCleanupPreview {
+  usernames: string[];
+  /** P100s that would be hidden or trashed; already hidden ones are skipped when hiding. */
+  players: (BlacklistCleanupEntry & { hidden: boolean })[];
+  submissions: BlacklistCleanupEntry[];
+}
+
+export interface BlacklistCleanup {
+  id: string;
+  rule_id: string | null;
+  rule_value: string;
+  mode: BlacklistCleanupMode;
+  player_ids: string[];
+  submission_ids: string[];
+  deleted_at: string;
+  created_by: string | null;
+  created_at: string;
+  undone_at: string | null;
+  undone_by: string | null;
+}
+
+// PostgREST returns at most this many rows per request.
+const PAGE_SIZE = 1000;
+
+async function fetchAll<T>(query: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await query(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+async function getRule(supabaseClient: SupabaseClient, ruleId: string): Promise<BlacklistRule> {
+  const { data, error } = await supabaseClient.from('blacklisted_users').select('*').eq('id', ruleId).single();
+  if (error || !data) throw new Error('Could not find that blacklist rule.');
+  return data as BlacklistRule;
+}
+
+/**
+ * Usernames the rule applies to. Username rules are matched against every
+ * username with P100s or submissions; IP and device rules against the
+ * submitter details stored with each submission.
+ */
+async function findMatchingUsernames(supabaseClient: SupabaseClient, rule: BlacklistRule): Promise<Set<string>> {
+  const matched = new Set<string>();
+
+  if (rule.rule_type === 'ip' || rule.rule_type === 'fingerprint') {
+    const column = rule.rule_type === 'ip' ? 'submitter_ip' : 'submitter_fingerprint';
+    const rows = await fetchAll<Record<string, string>>((from, to) => supabaseClient
+      .from('p100_submissions')
+      .select(`id, username, ${column}`)
+      .not(column, 'is', null)
+      .order('id')
+      .range(from, to));
+    for (const row of rows) {
+      const subject = rule.rule_type === 'ip' ? { ip: row.submitter_ip } : { fingerprint: row.submitter_fingerprint };
+      if (matchesBlacklistRule(rule, subject)) matched.add(row.username);
+    }
+    return matched;
+  }
+
+  const [players, submissions] = await Promise.all([
+    fetchAll<{ username: string }>((from, to) => supabaseClient
+      .from('p100_players')
+      .select('id, username')
+      .is('deleted_at', null)
+      .order('id')
+      .range(from, to)),
+    fetchAll<{ username: string }>((from, to) => supabaseClient
+      .from('p100_submissions')
+      .select('id, username')
+      .eq('status', 'pending')
+      .is('deleted_at', null)
+      .order('id')
+      .range(from, to)),
+  ]);
+  for (const { username } of [...players, ...submissions]) {
+    if (matchesBlacklistRule(rule, { username })) matched.add(username);
+  }
+  return matched;
+}
+
+/**
+ * What a cleanup for this rule would touch right now.
+ * **Must be called with an admin client.**
+ */
+export async function previewBlacklistCleanup(supabaseClient: SupabaseClient, ruleId: string): Promise<BlacklistCleanupPreview> {
+  const rule = await getRule(supabaseClient, ruleId);
+  const usernames = Array.from(await findMatchingUsernames(supabaseClient, rule)).sort((a, b) => a.localeCompare(b));
+  if (usernames.length === 0) return { usernames, players: [], submissions: [] };
+
+  type Row = { id: string; username: string; killer_id: string | null; survivor_id: string | null; hidden?: boolean };
+  let players: Row[];
+  let submissions: Row[];
+  let characters: { id: string; name: string }[][];
+  try {
+    [players, submissions, ...characters] = await Promise.all([
+      fetchAll<Row>((from, to) => supabaseClient
+        .from('p100_players')
+        .select('id, username, killer_id, survivor_id, hidden')
+        .in('username', usernames)
+        .is('deleted_at', null)
+        .order('id')
+        .range(from, to)),
+      fetchAll<Row>((from, to) => supabaseClient
+        .from('p100_submissions')
+        .select('id, username, killer_id, survivor_id')
+        .in('username', usernames)
+        .eq('status', 'pending')
+        .is('deleted_at', null)
+        .order('id')
+        .range(from, to)),
+      fetchAll<{ id: string; name: string }>((from, to) => supabaseClient.from('killers').select('id, name').order('id').range(from, to)),
+      fetchAll<{ id: string; name: string }>((from, to) => supabaseClient.from('survivors').select('id, name').order('id').range(from, to)),
+    ]);
+  } catch (error) {
+    console.error('Error previewing blacklist cleanup:', error);
+    throw new Error('Could not preview cleanup.');
+  }
+
+  const names = new Map(characters.flat().map(c => [c.id, c.name]));
+  const character = (row: { killer_id: string | null; survivor_id: string | null }) =>
+    names.get(row.killer_id || row.survivor_id || '') || row.killer_id || row.survivor_id || 'Unknown';
+
+  return {
+    usernames,
+    players: players.map(row => ({ id: row.id, username: row.username, character: character(row), hidden: !!row.hidden })),
+    submissions: submissions.map(row => ({ id: row.id, username: row.username, character: character(row) })),
+  };
+}
+
+/**
+ * Hides (or moves to the trash) every current P100 of the usernames the rule
+ * matches and trashes their pending submissions. The matches are worked out
+ * again here rather than taken from the preview; the changes and the cleanup
+ * record are written in one transaction (apply_blacklist_cleanup).
+ * **Must be called with an admin client.**
+ */
+export async function applyBlacklistCleanup(supabaseClient: SupabaseClient, ruleId: string, mode: BlacklistCleanupMode, actor: string): Promise<BlacklistCleanup> {
+  const preview = await previewBlacklistCleanup(supabaseClient, ruleId);
+  const playerIds = preview.players.filter(p => mode === 'remove' || !p.hidden).map(p => p.id);
+  const submissionIds = preview.submissions.map(s => s.id);
+  if (playerIds.length === 0 && submissionIds.length === 0) throw new Error('Nothing to clean up for this rule.');
+
+  const { data, error } = await supabaseClient.rpc('apply_blacklist_cleanup', {
+    p_rule_id: ruleId,
+    p_mode: mode,
+    p_player_ids: playerIds,
+    p_submission_ids: submissionIds,
+    p_actor: actor,
+  });
+  if (error || !data) {
+    console.error('Error applying blacklist cleanup:', error);
+    throw new Error(error?.message || 'Could not clean up entries.');
+  }
+  return data as BlacklistCleanup;
+}
+
+/**
+ * Reverses a cleanup in one transaction (undo_blacklist_cleanup). Rows changed
+ * since (unhidden, restored from the trash or deleted again) are left alone.
+ * **Must be called with an admin client.**
+ */
+export async function undoBlacklistCleanup(supabaseClient: SupabaseClient, cleanupId: string, actor: string): Promise<BlacklistCleanup> {
+  const { data, error } = await supabaseClient.rpc('undo_blacklist_cleanup', { p_cleanup_id: cleanupId, p_actor: actor });
+  if (error || !data) {
+    console.error('Error undoing blacklist cleanup:', error);
+    throw new Error(error?.message || 'Could not undo cleanup.');
+  }
+  return data as BlacklistCleanup;
+}
+
+/**
+ * Cleanups done for a rule, newest first.
+ * **Must be called with an admin client.**
+ */
+export async function getBlacklistCleanups(supabaseClient: SupabaseClient, ruleId: string): Promise<BlacklistCleanup[]> {
+  const { data, error } = await supabaseClient
+    .from('blacklist_cleanups')
+    .select('*')
+    .eq('rule_id', ruleId)
+    .order('created_at', { ascending: false });
+  if (error) {
+    console.error('Error fetching blacklist cleanups:', error);
+    throw new Error('Could not fetch cleanups.');
+  }
+  return (data || []) as BlacklistCleanup[];
+}
@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { matchesBlacklistRule, normalizeBlacklistRule } from './blacklist-service';
+
+describe('normalizeBlacklistRule for regex rules', () => {
+  it('accepts ordinary patterns', () => {
+    expect(normalizeBlacklistRule('regex', '^bad(guy|gal)\\d+$')).toEqual({ value: '^bad(guy|gal)\\d+$' });
+    expect(normalizeBlacklistRule('regex', '[+*]+x')).toEqual({ value: '[+*]+x' });
+  });
+
+  it('rejects repeated groups that already repeat', () => {
+    for (const pattern of ['(a+)+', '(\\w*x?)*$', '((ab)+c)*', '(x+){2,}']) {
+      expect(normalizeBlacklistRule('regex', pattern)).toHaveProperty('error');
+    }
+  });
+
+  it('rejects backreferences', () => {
+    expect(normalizeBlacklistRule('regex', '(a)\\1')).toHaveProperty('error');
+  });
+
+  it('does not run unsafe patterns saved earlier', () => {
+    expect(matchesBlacklistRule({ rule_type: 'regex', value: '(a+)+$' }, { username: 'aaaa' })).toBe(false);
+  });
+});
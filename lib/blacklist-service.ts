@@ -0,0 +1,263 @@
+// lib/blacklist-service.ts
+// Blacklist rules and the log of attempts they blocked. Rules are only ever
+// read server-side: username rules match the submitted name, ip rules the
+// request IP (or an IPv4 CIDR range) and fingerprint rules the browser
+// fingerprint the submission form sends along.
+
+import { SupabaseClient } from '@supabase/supabase-js';
+
+export type BlacklistRuleType = 'username' | 'contains' | 'regex' | 'ip' | 'fingerprint';
+
+export const BLACKLIST_RULE_TYPES: { value: BlacklistRuleType; label: string; hint: string }[] = [
+  { value: 'username', label: 'Username', hint: 'Exact username, ignoring case' },
+  { value: 'contains', label: 'Contains', hint: 'Any username containing this, also in leet speak' },
+  { value: 'regex', label: 'Regex', hint: 'Case-insensitive regular expression on the username' },
+  { value: 'ip', label: 'IP', hint: 'IP address or IPv4 range such as 203.0.113.0/24' },
+  { value: 'fingerprint', label: 'Device', hint: 'Browser fingerprint from a submission or block' },
+];
+
+// Shown for every blacklist hit so the response does not reveal which rule matched.
+export const BLACKLISTED_MESSAGE = 'Unable to submit. Please contact support: https://discord.gg/GFPuzehJZs';
+
+const MAX_REGEX_LENGTH = 200;
+
+export interface BlacklistRule {
+  id: string;
+  rule_type: BlacklistRuleType;
+  value: string;
+  reason: string | null;
+  created_by: string | null;
+  created_at: string;
+  expires_at: string | null;
+  /** Cleanups of existing entries under this rule that have not been undone (see blacklist-cleanup). */
+  active_cleanups?: number;
+}
+
+export type BlacklistRuleInput = Pick<BlacklistRule, 'rule_type' | 'value' | 'reason' | 'expires_at'>;
+
+/** Who is trying to do something; any part may be unknown. */
+export interface BlacklistSubject {
+  username?: string | null;
+  ip?: string | null;
+  fingerprint?: string | null;
+}
+
+export interface BlacklistBlock {
+  id: string;
+  rule_id: string | null;
+  rule_type: BlacklistRuleType;
+  rule_value: string;
+  context: string;
+  username: string | null;
+  ip: string | null;
+  fingerprint: string | null;
+  created_at: string;
+}
+
+export const normalizeLeet = (str: string): string => {
+  const map: Record<string, string> = {
+    '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's',
+    '7': 't', '8': 'b', '9': 'g', '@': 'a', '!': 'i',
+    '$': 's', '+': 't', '(': 'c', '|': 'l', '{': 'c',
+    '[': 'c', '<': 'c', '}': 'j',
+  };
+  return str.toLowerCase().split('').map(c => map[c] || c).join('');
+};
+
+const ipv4ToNumber = (ip: string): number | null => {
+  const parts = ip.split('.');
+  if (parts.length !== 4 || parts.some(p => !/^\d{1,3}$/.test(p) || Number(p) > 255)) return null;
+  return parts.reduce((acc, p) => acc * 256 + Number(p), 0);
+};
+
+/**
+ * True for patterns that can backtrack exponentially: a repeated group that
+ * already contains a repetition, like (a+)+ or (\w*x?)*, and backreferences.
+ * Character classes and escapes are skipped so [+*] or \+ are not counted.
+ */
+function hasNestedQuantifier(pattern: string): boolean {
+  const groups: boolean[] = []; // per open group: whether it contains a repetition
+  let closedGroupRepeats = false; // the token just before is a group containing a repetition
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    const previousGroupRepeats = closedGroupRepeats;
+    closedGroupRepeats = false;
+    if (char === '\\') {
+      if (/[1-9k]/.test(pattern[i + 1] || '')) return true;
+      i++;
+    } else if (char === '[') {
+      for (i++; i < pattern.length && pattern[i] !== ']'; i++) {
+        if (pattern[i] === '\\') i++;
+      }
+    } else if (char === '(') {
+      groups.push(false);
+    } else if (char === ')') {
+      closedGroupRepeats = groups.pop() || false;
+      if (closedGroupRepeats && groups.length > 0) groups[groups.length - 1] = true;
+    } else if (char === '*' || char === '+' || (char === '{' && /^\{\d+,\d*\}/.test(pattern.slice(i)))) {
+      if (previousGroupRepeats) return true;
+      if (groups.length > 0) groups[groups.length - 1] = true;
+    }
+  }
+  return false;
+}
+
+function ipMatches(rule: string, ip: string): boolean {
+  if (!rule.includes('/')) return rule === ip.toLowerCase();
+  const [range, bits] = rule.split('/');
+  const start = ipv4ToNumber(range);
+  const address = ipv4ToNumber(ip);
+  if (start === null || address === null) return false;
+  const size = 2 ** (32 - Number(bits));
+  return Math.floor(address / size) === Math.floor(start / size);
+}
+
+/**
+ * Checks a rule before it is saved and brings its value into the stored form.
+ * @returns The value to store, or an error message.
+ */
+export function normalizeBlacklistRule(ruleType: BlacklistRuleType, value: string): { value: string } | { error: string } {
+  const trimmed = (value || '').trim();
+  if (!trimmed) return { error: 'A value is required.' };
+
+  switch (ruleType) {
+    case 'username':
+    case 'contains':
+      return { value: trimmed.toLowerCase() };
+    case 'regex':
+      if (trimmed.length > MAX_REGEX_LENGTH) return { error: `Patterns can be at most ${MAX_REGEX_LENGTH} characters.` };
+      try {
+        new RegExp(trimmed, 'i');
+      } catch {
+        return { error: 'That is not a valid regular expression.' };
+      }
+      if (hasNestedQuantifier(trimmed)) {
+        return { error: 'Patterns cannot repeat a group that already repeats, like (a+)+, or use backreferences.' };
+      }
+      return { value: trimmed };
+    case 'ip': {
+      const ip = trimmed.toLowerCase();
+      const [range, bits] = ip.split('/');
+      if (bits !== undefined) {
+        if (ipv4ToNumber(range) === null || !/^\d{1,2}$/.test(bits) || Number(bits) > 32) {
+          return { error: 'Ranges must be IPv4 CIDR, e.g. 203.0.113.0/24.' };
+        }
+        return { value: ip };
+      }
+      if (ipv4ToNumber(ip) === null && !/^[0-9a-f:]+$/.test(ip)) return { error: 'That is not a valid IP address.' };
+      return { value: ip };
+    }
+    case 'fingerprint':
+      if (!/^[a-f0-9]{16,64}$/i.test(trimmed)) return { error: 'That is not a valid device fingerprint.' };
+      return { value: trimmed.toLowerCase() };
+    default:
+      return { error: 'Unknown rule type.' };
+  }
+}
+
+/** True when the rule applies to the subject. Expiry is checked by the caller. */
+export function matchesBlacklistRule(rule: Pick<BlacklistRule, 'rule_type' | 'value'>, subject: BlacklistSubject): boolean {
+  const username = subject.username?.toLowerCase();
+  switch (rule.rule_type) {
+    case 'username':
+      return !!username && username === rule.value.toLowerCase();
+    case 'contains': {
+      if (!username) return false;
+      const value = rule.value.toLowerCase();
+      return username.includes(value) || normalizeLeet(username).includes(normalizeLeet(value));
+    }
+    case 'regex':
+      // Rules saved before patterns were checked are skipped rather than run.
+      if (!subject.username || rule.value.length > MAX_REGEX_LENGTH || hasNestedQuantifier(rule.value)) return false;
+      try {
+        const pattern = new RegExp(rule.value, 'i');
+        return pattern.test(subject.username) || pattern.test(normalizeLeet(subject.username));
+      } catch {
+        return false;
+      }
+    case 'ip':
+      return !!subject.ip && ipMatches(rule.value, subject.ip);
+    case 'fingerprint':
+      return !!subject.fingerprint && subject.fingerprint.toLowerCase() === rule.value;
+    default:
+      return false;
+  }
+}
+
+/**
+ * The first unexpired rule matching the subject, or null.
+ * **Must be called with an admin client.**
+ */
+export async function findBlacklistMatch(supabaseClient: SupabaseClient, subject: BlacklistSubject): Promise<BlacklistRule | null> {
+  const { data, error } = await supabaseClient
+    .from('blacklisted_users')
+    .select('*')
+    .or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`);
+  if (error) {
+    console.error('Error checking blacklist:', error);
+    throw new Error('Could not check blacklist');
+  }
+  return ((data || []) as BlacklistRule[]).find(rule => matchesBlacklistRule(rule, subject)) ?? null;
+}
+
+/**
+ * Checks the subject against the blacklist and logs the attempt when a rule
+ * matches. Logging failures do not let the attempt through.
+ * **Must be called with an admin client.**
+ * @param context - What was attempted, shown in the block log.
+ * @returns True when the attempt must be refused.
+ */
+export async function isBlacklisted(supabaseClient: SupabaseClient, subject: BlacklistSubject, context: string): Promise<boolean> {
+  const rule = await findBlacklistMatch(supabaseClient, subject);
+  if (!rule) return false;
+
+  const { error } = await supabaseClient
+    .from('blacklist_blocks')
+    .insert([{
+      rule_id: rule.id,
+      rule_type: rule.rule_type,
+      rule_value: rule.value,
+      context,
+      username: subject.username || null,
+      ip: subject.ip && subject.ip !== 'unknown' ? subject.ip : null,
+      fingerprint: subject.fingerprint || null,
+    }]);
+  if (error) console.error('Error logging blacklist block:', error);
+  return true;
+}
+
+/**
+ * Lists every rule, newest first, including expired ones.
+ * **Must be called with an admin client.**
+ */
+export async function getBlacklistRules(supabaseClient: SupabaseClient): Promise<BlacklistRule[]> {
+  const { data, error } = await supabaseClient
+    .from('blacklisted_users')
+    .select('*, blacklist_cleanups(undone_at)')
+    .order('created_at', { ascending: false });
+  if (error) {
+    console.error('Error fetching blacklist:', error);
+    throw new Error('Could not fetch blacklist.');
+  }
+  return (data || []).map(({ blacklist_cleanups: cleanups, ...rule }: any) => ({
+    ...rule,
+    active_cleanups: (cleanups || []).filter((c: { undone_at: string | null }) => !c.undone_at).length,
+  }));
+}
+
+/**
+ * Lists blocked attempts, newest first.
+ * **Must be called with an admin client.**
+ */
+export async function getBlacklistBlocks(supabaseClient: SupabaseClient, limit = 200): Promise<BlacklistBlock[]> {
+  const { data, error } = await supabaseClient
+    .from('blacklist_blocks')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(limit);
+  if (error) {
+    console.error('Error fetching blacklist blocks:', error);
+    throw new Error('Could not fetch blocked attempts.');
+  }
+  return (data || []) as BlacklistBlock[];
+}
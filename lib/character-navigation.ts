@@ -25,6 +25,7 @@ export async function getCharacterNavigation(
   const { data: characters, error } = await supabase
     .from(tableName)
     .select('id, name, image_url')
+    .is('deleted_at', null)
     .order(orderColumn, { ascending: true });
   
   if (error || !characters) {
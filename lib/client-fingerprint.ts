@@ -0,0 +1,24 @@
+// lib/client-fingerprint.ts
+// A stable hash of browser traits, sent with submissions so moderators can ban
+// a device that keeps coming back under new usernames and IPs. Browser-only.
+
+/** Hex SHA-256 of the browser's traits, truncated to 32 characters. */
+export async function getClientFingerprint(): Promise<string | null> {
+  if (typeof window === 'undefined' || !crypto?.subtle) return null;
+  const nav = navigator as Navigator & { deviceMemory?: number };
+  const traits = [
+    nav.userAgent,
+    nav.language,
+    (nav.languages || []).join(','),
+    nav.hardwareConcurrency,
+    nav.deviceMemory ?? '',
+    `${screen.width}x${screen.height}x${screen.colorDepth}`,
+    Intl.DateTimeFormat().resolvedOptions().timeZone,
+  ].join('|');
+  try {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(traits));
+    return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('').slice(0, 32);
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,39 @@
+// lib/moderator-roles.ts
+// Shared between the admin page (to hide tabs) and server actions (to enforce access).
+
+export type ModeratorRole = 'owner' | 'reviewer' | 'art_curator';
+
+export type AdminArea =
+  | 'submissions'
+  | 'artworks'
+  | 'artists'
+  | 'storage'
+  | 'characters'
+  | 'players'
+  | 'blacklist'
+  | 'moderators'
+  | 'audit'
+  | 'trash'
+  | 'settings';
+
+export const MODERATOR_ROLES: { value: ModeratorRole; label: string }[] = [
+  { value: 'owner', label: 'Owner' },
+  { value: 'reviewer', label: 'Reviewer' },
+  { value: 'art_curator', label: 'Art Curator' },
+];
+
+// Owners can do everything; the other roles are limited to their own tabs.
+const ROLE_AREAS: Record<Exclude<ModeratorRole, 'owner'>, AdminArea[]> = {
+  reviewer: ['submissions'],
+  art_curator: ['artworks', 'artists', 'storage'],
+};
+
+export function canAccessArea(role: ModeratorRole | null | undefined, area: AdminArea): boolean {
+  if (!role) return false;
+  if (role === 'owner') return true;
+  return ROLE_AREAS[role]?.includes(area) ?? false;
+}
+
+export function isModeratorRole(value: unknown): value is ModeratorRole {
+  return MODERATOR_ROLES.some(r => r.value === value);
+}
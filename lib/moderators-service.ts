@@ -0,0 +1,135 @@
+// lib/moderators-service.ts
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { ModeratorRole } from './moderator-roles';
+
+export interface Moderator {
+  id: string;
+  username: string;
+  role: ModeratorRole;
+  created_at: string;
+  last_login_at: string | null;
+}
+
+export interface ModeratorWithHash extends Moderator {
+  password_hash: string;
+}
+
+const MODERATOR_COLUMNS = 'id, username, role, created_at, last_login_at';
+
+/**
+ * Lists all moderator accounts, without password hashes.
+ * **Must be called with an admin client.**
+ */
+export async function getModerators(supabaseClient: SupabaseClient): Promise<Moderator[]> {
+  const { data, error } = await supabaseClient
+    .from('moderators')
+    .select(MODERATOR_COLUMNS)
+    .order('username', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching moderators:', error);
+    throw new Error('Could not fetch moderators.');
+  }
+  return (data || []) as Moderator[];
+}
+
+/**
+ * Looks up a moderator by username (case-insensitive), including the password hash.
+ * **Must be called with an admin client.**
+ */
+export async function getModeratorForLogin(supabaseClient: SupabaseClient, username: string): Promise<ModeratorWithHash | null> {
+  const { data, error } = await supabaseClient
+    .from('moderators')
+    .select(`${MODERATOR_COLUMNS}, password_hash`)
+    .ilike('username', username.replace(/[\\%_]/g, '\\$&'))
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching moderator:', error);
+    throw new Error('Could not fetch moderator.');
+  }
+  return data as ModeratorWithHash | null;
+}
+
+/**
+ * Looks up a moderator by id, without the password hash.
+ * **Must be called with an admin client.**
+ */
+export async function getModeratorById(supabaseClient: SupabaseClient, moderatorId: string): Promise<Moderator | null> {
+  const { data, error } = await supabaseClient
+    .from('moderators')
+    .select(MODERATOR_COLUMNS)
+    .eq('id', moderatorId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching moderator:', error);
+    throw new Error('Could not fetch moderator.');
+  }
+  return data as Moderator | null;
+}
+
+/**
+ * Creates a moderator account.
+ * **Must be called with an admin client.**
+ * @param passwordHash - Output of hashModeratorPassword, never the plain password.
+ */
+export async function createModerator(supabaseClient: SupabaseClient, username: string, passwordHash: string, role: ModeratorRole): Promise<Moderator> {
+  const { data, error } = await supabaseClient
+    .from('moderators')
+    .insert([{ username, password_hash: passwordHash, role }])
+    .select(MODERATOR_COLUMNS)
+    .single();
+
+  if (error) {
+    console.error('Error creating moderator:', error);
+    throw error;
+  }
+  return data as Moderator;
+}
+
+/**
+ * Updates a moderator's role and/or password hash.
+ * **Must be called with an admin client.**
+ */
+export async function updateModerator(supabaseClient: SupabaseClient, moderatorId: string, updates: { role?: ModeratorRole; password_hash?: string }) {
+  const { error } = await supabaseClient
+    .from('moderators')
+    .update(updates)
+    .eq('id', moderatorId);
+
+  if (error) {
+    console.error('Error updating moderator:', error);
+    throw error;
+  }
+}
+
+/**
+ * Deletes a moderator account.
+ * **Must be called with an admin client.**
+ */
+export async function deleteModerator(supabaseClient: SupabaseClient, moderatorId: string) {
+  const { error } = await supabaseClient
+    .from('moderators')
+    .delete()
+    .eq('id', moderatorId);
+
+  if (error) {
+    console.error('Error deleting moderator:', error);
+    throw error;
+  }
+}
+
+/**
+ * Stamps the last successful login time. Failures are logged, not thrown.
+ * **Must be called with an admin client.**
+ */
+export async function touchModeratorLogin(supabaseClient: SupabaseClient, moderatorId: string) {
+  const { error } = await supabaseClient
+    .from('moderators')
+    .update({ last_login_at: new Date().toISOString() })
+    .eq('id', moderatorId);
+
+  if (error) console.error('Error updating moderator login time:', error);
+}
@@ -0,0 +1,158 @@
+// lib/p100-export.ts
+// Downloadable copies of P100 lists. Character exports are public (the page's
+// list, as CSV or JSON); the admin panel adds hidden rows and priority, and
+// owners can take a JSON backup of every content table.
+
+import { SupabaseClient } from '@supabase/supabase-js';
+
+export type ExportFormat = 'csv' | 'json';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'json'];
+
+export interface P100ExportRow {
+  username: string;
+  character_id: string;
+  character_name: string;
+  character_type: 'killer' | 'survivor';
+  added_at: string;
+  p200: boolean;
+  legacy: boolean;
+  favorite: boolean;
+  /** Admin exports only. */
+  priority?: number | null;
+  hidden?: boolean;
+}
+
+export interface DatabaseBackup {
+  exported_at: string;
+  tables: Record<string, unknown[]>;
+}
+
+const P100_EXPORT_COLUMNS: (keyof P100ExportRow)[] = [
+  'username', 'character_id', 'character_name', 'character_type', 'added_at', 'p200', 'legacy', 'favorite',
+];
+
+// Content tables copied into a backup, each with the key it is paged by.
+// Login attempts, rate limit counters, claim keys and moderator accounts are
+// left out on purpose.
+const BACKUP_TABLES: { table: string; key: string }[] = [
+  { table: 'killers', key: 'id' },
+  { table: 'survivors', key: 'id' },
+  { table: 'p100_players', key: 'id' },
+  { table: 'players', key: 'id' },
+  { table: 'player_aliases', key: 'alias' },
+  { table: 'p100_submissions', key: 'id' },
+  { table: 'rejection_reasons', key: 'id' },
+  { table: 'artists', key: 'id' },
+  { table: 'artworks', key: 'id' },
+  { table: 'character_artworks', key: 'id' },
+  { table: 'blacklisted_users', key: 'id' },
+  { table: 'app_settings', key: 'key' },
+];
+
+// PostgREST returns at most this many rows per request.
+const BACKUP_PAGE_SIZE = 1000;
+
+const csvCell = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  // Quote anything that would break the row, and neutralise spreadsheet formulas.
+  const safe = /^[=+\-@]/.test(text) ? `'${text}` : text;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+/** CSV with a header row; admin rows also get priority and hidden. */
+export function toCsv(rows: P100ExportRow[]): string {
+  const columns = rows.some(r => r.hidden !== undefined)
+    ? [...P100_EXPORT_COLUMNS, 'priority', 'hidden'] as (keyof P100ExportRow)[]
+    : P100_EXPORT_COLUMNS;
+  return [columns.join(','), ...rows.map(row => columns.map(c => csvCell(row[c])).join(','))].join('\r\n') + '\r\n';
+}
+
+export function formatExport(rows: P100ExportRow[], format: ExportFormat): { body: string; contentType: string } {
+  return format === 'csv'
+    ? { body: toCsv(rows), contentType: 'text/csv; charset=utf-8' }
+    : { body: JSON.stringify(rows, null, 2), contentType: 'application/json; charset=utf-8' };
+}
+
+/** e.g. `p100-the-trapper-2026-10-19.csv` */
+export function exportFileName(name: string, format: ExportFormat | 'backup'): string {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'export';
+  const date = new Date().toISOString().slice(0, 10);
+  return format === 'backup' ? `p100-backup-${date}.json` : `p100-${slug}-${date}.${format}`;
+}
+
+/**
+ * Every P100 row of one character in page order, including hidden ones.
+ * **Must be called with an admin client.**
+ */
+export async function getCharacterExportRows(
+  supabaseClient: SupabaseClient,
+  characterType: 'killer' | 'survivor',
+  characterId: string
+): Promise<P100ExportRow[]> {
+  const table = characterType === 'killer' ? 'killers' : 'survivors';
+  const column = characterType === 'killer' ? 'killer_id' : 'survivor_id';
+  const { data: character, error: characterError } = await supabaseClient.from(table).select('id, name').eq('id', characterId).single();
+  if (characterError) {
+    console.error('Error exporting character P100s:', characterError);
+    throw new Error('Could not export P100 list.');
+  }
+
+  const rows: P100ExportRow[] = [];
+  for (let from = 0; ; from += BACKUP_PAGE_SIZE) {
+    const { data, error } = await supabaseClient
+      .from('p100_players')
+      .select('id, username, added_at, p200, legacy, favorite, priority, hidden')
+      .is('deleted_at', null)
+      .eq(column, characterId)
+      .order('priority', { ascending: false })
+      .order('added_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, from + BACKUP_PAGE_SIZE - 1);
+    if (error) {
+      console.error('Error exporting character P100s:', error);
+      throw new Error('Could not export P100 list.');
+    }
+    rows.push(...(data || []).map(p => ({
+      username: p.username,
+      character_id: character.id,
+      character_name: character.name,
+      character_type: characterType,
+      added_at: p.added_at,
+      p200: !!p.p200,
+      legacy: !!p.legacy,
+      favorite: !!p.favorite,
+      priority: p.priority ?? null,
+      hidden: !!p.hidden,
+    })));
+    if (!data || data.length < BACKUP_PAGE_SIZE) break;
+  }
+  return rows;
+}
+
+/**
+ * Copies every backup table, soft-deleted rows included, page by page.
+ * **Must be called with an admin client.**
+ */
+export async function getDatabaseBackup(supabaseClient: SupabaseClient): Promise<DatabaseBackup> {
+  const tables: Record<string, unknown[]> = {};
+  for (const { table, key } of BACKUP_TABLES) {
+    const rows: unknown[] = [];
+    for (let from = 0; ; from += BACKUP_PAGE_SIZE) {
+      const { data, error } = await supabaseClient
+        .from(table)
+        .select('*')
+        .order(key, { ascending: true })
+        .range(from, from + BACKUP_PAGE_SIZE - 1);
+      if (error) {
+        console.error(`Error backing up ${table}:`, error);
+        throw new Error(`Could not back up ${table}.`);
+      }
+      rows.push(...(data || []));
+      if (!data || data.length < BACKUP_PAGE_SIZE) break;
+    }
+    tables[table] = rows;
+  }
+  return { exported_at: new Date().toISOString(), tables };
+}
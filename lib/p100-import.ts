@@ -0,0 +1,318 @@
+// lib/p100-import.ts
+// Bulk import of P100 lists handed over by list creators. The pasted CSV/TSV
+// is parsed and compared with the current p100_players rows first (the dry
+// run); committing recomputes that plan and applies it through the
+// import_p100_players function in one transaction.
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { sanitizeInput, validateInput } from './supabase-client';
+
+export type ImportRowStatus = 'new' | 'duplicate' | 'conflict' | 'error';
+
+export interface ImportOptions {
+  /** `killer:<id>` or `survivor:<id>`, used for rows without a character column. */
+  defaultCharacter?: string | null;
+}
+
+export interface ImportRowResult {
+  line: number;
+  /** Spelling that will be stored: an existing player's, or the file's. */
+  username: string;
+  character_type: 'killer' | 'survivor' | null;
+  character_id: string | null;
+  character_name: string | null;
+  p200: boolean | null;
+  legacy: boolean | null;
+  added_at: string | null;
+  status: ImportRowStatus;
+  message?: string;
+  existing?: { id: string; username: string; p200: boolean; legacy: boolean };
+}
+
+export interface ImportPlan {
+  rows: ImportRowResult[];
+  counts: Record<ImportRowStatus, number>;
+}
+
+export interface ImportCommitResult {
+  inserted: number;
+  updated: number;
+  skipped: number;
+  inserted_ids: string[];
+  updated_ids: string[];
+}
+
+const MAX_IMPORT_ROWS = 2000;
+const PAGE_SIZE = 1000;
+
+// Header names list creators use, mapped to our columns.
+const HEADER_ALIASES: Record<string, 'username' | 'character' | 'p200' | 'legacy' | 'added_at'> = {
+  username: 'username',
+  player: 'username',
+  name: 'username',
+  user: 'username',
+  character: 'character',
+  killer: 'character',
+  survivor: 'character',
+  p200: 'p200',
+  legacy: 'legacy',
+  added_at: 'added_at',
+  added: 'added_at',
+  date: 'added_at',
+};
+const POSITIONAL_COLUMNS = ['username', 'character', 'p200', 'legacy', 'added_at'] as const;
+
+const TRUE_VALUES = ['true', 'yes', 'y', '1', 'x', 'p200', 'legacy'];
+const FALSE_VALUES = ['false', 'no', 'n', '0', '-'];
+
+interface Character {
+  type: 'killer' | 'survivor';
+  id: string;
+  name: string;
+}
+
+/** Lowercase, letters and digits only, without a leading "the". */
+const characterKey = (value: string) => value.toLowerCase().replace(/^the\s+/, '').replace(/[^a-z0-9]/g, '');
+
+/** Splits CSV or TSV text into rows of cells, honouring double quotes. */
+export function parseDelimited(text: string): string[][] {
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  const delimiter = firstLine.includes('\t') ? '\t' : firstLine.includes(';') && !firstLine.includes(',') ? ';' : ',';
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
+
+const parseFlag = (value: string | undefined): boolean | null | 'invalid' => {
+  const v = (value || '').trim().toLowerCase();
+  if (!v) return null;
+  if (TRUE_VALUES.includes(v)) return true;
+  if (FALSE_VALUES.includes(v)) return false;
+  return 'invalid';
+};
+
+async function fetchAll<T>(query: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await query(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+/**
+ * Parses the text and compares every row with the live P100 lists. Usernames
+ * match case-insensitively, and old usernames of renamed players resolve to
+ * the current one.
+ * **Must be called with an admin client.**
+ */
+export async function planP100Import(supabaseClient: SupabaseClient, text: string, options: ImportOptions = {}): Promise<ImportPlan> {
+  const table = parseDelimited(text).map((cells, index) => ({ line: index + 1, cells })).filter(r => r.cells.some(c => c.trim()));
+  if (table.length === 0) throw new Error('The file is empty.');
+
+  const headerColumns = table[0].cells.map(c => HEADER_ALIASES[c.trim().toLowerCase().replace(/\s+/g, '_')]);
+  const hasHeader = headerColumns.includes('username');
+  const columns = hasHeader ? headerColumns : [...POSITIONAL_COLUMNS];
+  const dataRows = hasHeader ? table.slice(1) : table;
+  if (dataRows.length > MAX_IMPORT_ROWS) throw new Error(`Imports are limited to ${MAX_IMPORT_ROWS} rows at a time.`);
+
+  let characters: Character[];
+  let players: { username: string }[];
+  let aliases: { alias: string; canonical_username: string }[];
+  try {
+    const [killers, survivors] = await Promise.all([
+      fetchAll<{ id: string; name: string }>((from, to) => supabaseClient.from('killers').select('id, name').is('deleted_at', null).order('id').range(from, to)),
+      fetchAll<{ id: string; name: string }>((from, to) => supabaseClient.from('survivors').select('id, name').is('deleted_at', null).order('id').range(from, to)),
+    ]);
+    characters = [...killers.map(c => ({ ...c, type: 'killer' as const })), ...survivors.map(c => ({ ...c, type: 'survivor' as const }))];
+    [players, aliases] = await Promise.all([
+      fetchAll<{ username: string }>((from, to) => supabaseClient.from('players').select('username').order('id').range(from, to)),
+      fetchAll<{ alias: string; canonical_username: string }>((from, to) => supabaseClient.from('player_aliases').select('alias, canonical_username').order('alias').range(from, to)),
+    ]);
+  } catch (error) {
+    console.error('Error loading data for import:', error);
+    throw new Error('Could not prepare the import.');
+  }
+
+  const charactersByKey = new Map<string, Character[]>();
+  for (const character of characters) {
+    for (const key of new Set([characterKey(character.id), characterKey(character.name)])) {
+      charactersByKey.set(key, [...(charactersByKey.get(key) || []), character]);
+    }
+  }
+  const defaultCharacter = options.defaultCharacter
+    ? characters.find(c => `${c.type}:${c.id}` === options.defaultCharacter) ?? null
+    : null;
+  if (options.defaultCharacter && !defaultCharacter) throw new Error('The selected character no longer exists.');
+
+  const spellings = new Map(players.map(p => [p.username.toLowerCase(), p.username]));
+  const aliasTargets = new Map(aliases.map(a => [a.alias.toLowerCase(), a.canonical_username]));
+
+  const rows: ImportRowResult[] = dataRows.map(({ line, cells }) => {
+    const value = (column: typeof POSITIONAL_COLUMNS[number]) => {
+      const index = columns.indexOf(column);
+      return index === -1 ? undefined : cells[index]?.trim();
+    };
+    const inputUsername = sanitizeInput(value('username') || '');
+    const lower = inputUsername.toLowerCase();
+    const username = aliasTargets.get(lower) ?? spellings.get(lower) ?? inputUsername;
+    const p200 = parseFlag(value('p200'));
+    const legacy = parseFlag(value('legacy'));
+    const addedAt = value('added_at');
+    const characterName = value('character');
+
+    const result: ImportRowResult = {
+      line,
+      username,
+      character_type: null,
+      character_id: null,
+      character_name: null,
+      p200: p200 === 'invalid' ? null : p200,
+      legacy: legacy === 'invalid' ? null : legacy,
+      added_at: null,
+      status: 'new',
+    };
+    const fail = (message: string) => ({ ...result, status: 'error' as const, message });
+
+    if (!validateInput.username(inputUsername)) return fail('Missing or invalid username.');
+
+    const matches = characterName ? charactersByKey.get(characterKey(characterName)) || [] : defaultCharacter ? [defaultCharacter] : [];
+    if (matches.length === 0) return fail(characterName ? `Unknown character "${characterName}".` : 'No character given.');
+    if (matches.length > 1) return fail(`"${characterName}" matches both a killer and a survivor; use the character id.`);
+    result.character_type = matches[0].type;
+    result.character_id = matches[0].id;
+    result.character_name = matches[0].name;
+
+    if (p200 === 'invalid' || legacy === 'invalid') return fail('Flags must be yes/no, true/false or 1/0.');
+    if (addedAt) {
+      const date = new Date(addedAt);
+      if (Number.isNaN(date.getTime())) return fail(`Invalid date "${addedAt}".`);
+      result.added_at = date.toISOString();
+    }
+    if (username !== inputUsername) {
+      result.message = aliasTargets.has(lower) ? `Renamed player; imported as ${username}.` : `Matched existing player ${username}.`;
+    }
+    return result;
+  });
+
+  // Existing rows for the characters in the file, keyed by lowercased username and character.
+  const ids = (type: 'killer' | 'survivor') => Array.from(new Set(rows.filter(r => r.character_type === type).map(r => r.character_id as string)));
+  const existing = new Map<string, { id: string; username: string; p200: boolean; legacy: boolean }>();
+  try {
+    for (const type of ['killer', 'survivor'] as const) {
+      const characterIds = ids(type);
+      if (characterIds.length === 0) continue;
+      const column = type === 'killer' ? 'killer_id' : 'survivor_id';
+      const found = await fetchAll<Record<string, any>>((from, to) => supabaseClient
+        .from('p100_players')
+        .select(`id, username, ${column}, p200, legacy`)
+        .is('deleted_at', null)
+        .in(column, characterIds)
+        .order('id')
+        .range(from, to));
+      for (const row of found) {
+        existing.set(`${row.username.toLowerCase()}|${type}:${row[column]}`, { id: row.id, username: row.username, p200: !!row.p200, legacy: !!row.legacy });
+      }
+    }
+  } catch (error) {
+    console.error('Error loading existing P100s for import:', error);
+    throw new Error('Could not prepare the import.');
+  }
+
+  const seen = new Map<string, number>();
+  for (const row of rows) {
+    if (row.status === 'error') continue;
+    const key = `${row.username.toLowerCase()}|${row.character_type}:${row.character_id}`;
+    const earlierLine = seen.get(key);
+    if (earlierLine !== undefined) {
+      row.status = 'duplicate';
+      row.message = `Repeats line ${earlierLine}.`;
+      continue;
+    }
+    seen.set(key, row.line);
+
+    const match = existing.get(key);
+    if (!match) continue;
+    row.existing = match;
+    const changes = [
+      row.p200 !== null && row.p200 !== match.p200 ? `P200 ${match.p200 ? 'yes' : 'no'} → ${row.p200 ? 'yes' : 'no'}` : null,
+      row.legacy !== null && row.legacy !== match.legacy ? `Legacy ${match.legacy ? 'yes' : 'no'} → ${row.legacy ? 'yes' : 'no'}` : null,
+    ].filter(Boolean);
+    row.status = changes.length > 0 ? 'conflict' : 'duplicate';
+    row.message = changes.length > 0 ? changes.join(', ') : 'Already on the list.';
+  }
+
+  const counts: Record<ImportRowStatus, number> = { new: 0, duplicate: 0, conflict: 0, error: 0 };
+  for (const row of rows) counts[row.status]++;
+  return { rows, counts };
+}
+
+/**
+ * Inserts the plan's new rows and, when asked, applies the file's flags to
+ * conflicting ones. Duplicates and errors are skipped.
+ * **Must be called with an admin client.**
+ */
+export async function commitP100Import(supabaseClient: SupabaseClient, plan: ImportPlan, updateConflicts: boolean): Promise<ImportCommitResult> {
+  const inserts = plan.rows
+    .filter(r => r.status === 'new')
+    .map(r => ({
+      username: r.username,
+      killer_id: r.character_type === 'killer' ? r.character_id : null,
+      survivor_id: r.character_type === 'survivor' ? r.character_id : null,
+      p200: r.p200,
+      legacy: r.legacy,
+      added_at: r.added_at,
+    }));
+  const updates = updateConflicts
+    ? plan.rows.filter(r => r.status === 'conflict' && r.existing).map(r => ({ id: r.existing!.id, p200: r.p200, legacy: r.legacy }))
+    : [];
+  if (inserts.length === 0 && updates.length === 0) throw new Error('Nothing to import.');
+
+  const { data, error } = await supabaseClient.rpc('import_p100_players', { p_inserts: inserts, p_updates: updates });
+  if (error) {
+    console.error('Error importing P100s:', error);
+    throw new Error(error.message || 'Could not import P100s.');
+  }
+  const result = data as { inserted_ids: string[]; updated_ids: string[]; skipped: number };
+  return {
+    inserted: result.inserted_ids.length,
+    updated: result.updated_ids.length,
+    skipped: result.skipped,
+    inserted_ids: result.inserted_ids,
+    updated_ids: result.updated_ids,
+  };
+}
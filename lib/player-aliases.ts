@@ -0,0 +1,103 @@
+// lib/player-aliases.ts
+// Old usernames of players who renamed. Merging moves every p100_players and
+// p100_submissions row to the new name in one transaction (merge_player_usernames)
+// and leaves an alias behind so old profile links redirect.
+
+import { SupabaseClient } from '@supabase/supabase-js';
+
+export interface PlayerAlias {
+  alias: string;
+  canonical_username: string;
+  merged_at: string;
+  merged_by: string | null;
+}
+
+export interface MergeUsernamesResult {
+  players_moved: number;
+  players_merged: number;
+  submissions_moved: number;
+  aliases_repointed: number;
+}
+
+/**
+ * The current username for an old one, or null when it is not an alias.
+ * Matching is case-insensitive, like the unique index on aliases.
+ */
+export async function resolveCanonicalUsername(supabaseClient: SupabaseClient, username: string): Promise<string | null> {
+  const { data, error } = await supabaseClient
+    .from('player_aliases')
+    .select('canonical_username')
+    .ilike('alias', username.replace(/[\\%_]/g, '\\$&'))
+    .maybeSingle();
+  if (error) {
+    console.error('Error resolving username alias:', error);
+    return null;
+  }
+  return data?.canonical_username ?? null;
+}
+
+/** Old usernames that now point at this player, oldest merge first. */
+export async function getAliasesFor(supabaseClient: SupabaseClient, canonicalUsername: string): Promise<string[]> {
+  const { data, error } = await supabaseClient
+    .from('player_aliases')
+    .select('alias')
+    .eq('canonical_username', canonicalUsername)
+    .order('merged_at', { ascending: true });
+  if (error) {
+    console.error('Error fetching username aliases:', error);
+    return [];
+  }
+  return (data || []).map(row => row.alias);
+}
+
+/**
+ * Lists every alias, most recent merge first.
+ * **Must be called with an admin client.**
+ */
+export async function getPlayerAliases(supabaseClient: SupabaseClient): Promise<PlayerAlias[]> {
+  const { data, error } = await supabaseClient
+    .from('player_aliases')
+    .select('*')
+    .order('merged_at', { ascending: false });
+  if (error) {
+    console.error('Error fetching player aliases:', error);
+    throw new Error('Could not fetch player aliases.');
+  }
+  return (data || []) as PlayerAlias[];
+}
+
+/**
+ * Moves everything recorded under `fromUsername` to `toUsername`, matching
+ * either name case-insensitively and including trashed rows. Where both names
+ * have a P100 on the same character, the rows are combined and keep any
+ * P200 / legacy / favorite flag either had.
+ * **Must be called with an admin client.**
+ */
+export async function mergeUsernames(supabaseClient: SupabaseClient, fromUsername: string, toUsername: string, actor: string): Promise<MergeUsernamesResult> {
+  const { data, error } = await supabaseClient.rpc('merge_player_usernames', {
+    p_from: fromUsername,
+    p_to: toUsername,
+    p_actor: actor,
+  });
+  if (error) {
+    console.error('Error merging usernames:', error);
+    throw new Error(error.message || 'Could not merge usernames.');
+  }
+  return data as MergeUsernamesResult;
+}
+
+/**
+ * Removes an alias so the old name no longer redirects. Rows that were merged
+ * stay under the new name.
+ * **Must be called with an admin client.**
+ */
+export async function deletePlayerAlias(supabaseClient: SupabaseClient, alias: string) {
+  const { error } = await supabaseClient
+    .from('player_aliases')
+    .delete()
+    .eq('alias', alias);
+  if (error) {
+    console.error('Error deleting player alias:', error);
+    throw error;
+  }
+}
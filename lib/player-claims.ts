@@ -0,0 +1,315 @@
+// lib/player-claims.ts
+// Players proving they own a profile. Starting a claim gives the player a
+// public verification code to post on one of their channels and a private claim
+// key. A moderator checks the posted code and verifies the claim; from then on
+// the claim key lets the player edit their own profile. Only the key's hash is stored.
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { generateTrackingCode, hashTrackingCode } from './submission-tracking';
+import { getPlayerProfile, normalizePlayerProfile, PlayerProfile, PlayerSocialLink } from './players-service';
+
+export type PlayerClaimStatus = 'pending' | 'verified' | 'rejected' | 'revoked';
+
+export interface PlayerClaim {
+  id: string;
+  player_id: string;
+  username: string;
+  verification_code: string;
+  proof_url: string | null;
+  status: PlayerClaimStatus;
+  created_at: string;
+  proof_submitted_at: string | null;
+  reviewed_at: string | null;
+  reviewed_by: string | null;
+}
+
+/** One P100 on a claimed profile, as the owner sees it. */
+export interface OwnProfileEntry {
+  id: string;
+  characterType: 'killer' | 'survivor';
+  character: string;
+  favorite: boolean;
+  hidden: boolean;
+}
+
+export interface OwnProfile {
+  status: PlayerClaimStatus;
+  username: string;
+  verification_code: string;
+  proof_url: string | null;
+  /** Only filled in once the claim is verified. */
+  profile: PlayerProfile | null;
+  entries: OwnProfileEntry[];
+}
+
+export interface OwnProfileUpdate extends Partial<Record<PlayerSocialLink, string | null>> {
+  /** The single P100 to mark as favorite, or null to clear it. */
+  favoriteEntryId?: string | null;
+  /** Every P100 that should be hidden from public pages; the rest are shown. */
+  hiddenEntryIds?: string[];
+}
+
+export type PlayerClaimResult<T = undefined> =
+  | { success: true; data: T }
+  | { success: false; status: 400 | 403 | 404 | 409; message: string };
+
+const NOT_FOUND = { success: false, status: 404, message: 'No claim matches that key.' } as const;
+
+/** The claim for a key, with the player's current username. */
+async function findClaimByKey(supabaseClient: SupabaseClient, claimKey: string) {
+  const { data, error } = await supabaseClient
+    .from('player_claims')
+    .select('*, players(username)')
+    .eq('claim_key_hash', await hashTrackingCode(claimKey))
+    .maybeSingle();
+  if (error) {
+    console.error('Error looking up claim key:', error);
+    throw new Error('Could not look up claim.');
+  }
+  return data ? toPlayerClaim(data) : null;
+}
+
+function toPlayerClaim(row: any): PlayerClaim {
+  const { players, claim_key_hash: _hash, ...claim } = row;
+  return { ...claim, username: players?.username ?? '' };
+}
+
+/**
+ * Starts a claim on a profile. Anyone may start one; it does nothing until a
+ * moderator has seen the verification code posted on the player's channel.
+ * **Must be called with an admin client.**
+ * @returns The code to post publicly and the key to keep private, shown once.
+ */
+export async function startPlayerClaim(supabaseClient: SupabaseClient, username: string): Promise<PlayerClaimResult<{ verificationCode: string; claimKey: string }>> {
+  const player = await getPlayerProfile(supabaseClient, username);
+  if (!player) return { success: false, status: 404, message: 'There is no player with that username.' };
+
+  const verificationCode = `P100-${generateTrackingCode().slice(0, 9)}`;
+  const claimKey = generateTrackingCode();
+  const { error } = await supabaseClient
+    .from('player_claims')
+    .insert([{ player_id: player.id, verification_code: verificationCode, claim_key_hash: await hashTrackingCode(claimKey) }]);
+  if (error) {
+    console.error('Error starting player claim:', error);
+    throw new Error('Could not start claim.');
+  }
+  return { success: true, data: { verificationCode, claimKey } };
+}
+
+/**
+ * Attaches the link where the player posted their verification code.
+ * **Must be called with an admin client.**
+ */
+export async function submitClaimProof(supabaseClient: SupabaseClient, claimKey: string, proofUrl: string): Promise<PlayerClaimResult> {
+  let url: URL;
+  try {
+    url = new URL(proofUrl.trim());
+  } catch {
+    return { success: false, status: 400, message: 'Please enter the full link to your post.' };
+  }
+  if (url.protocol !== 'https:') return { success: false, status: 400, message: 'The link must start with https://.' };
+
+  const claim = await findClaimByKey(supabaseClient, claimKey);
+  if (!claim) return NOT_FOUND;
+  if (claim.status !== 'pending') return { success: false, status: 409, message: 'This claim has already been reviewed.' };
+
+  const { error } = await supabaseClient
+    .from('player_claims')
+    .update({ proof_url: url.toString(), proof_submitted_at: new Date().toISOString() })
+    .eq('id', claim.id)
+    .eq('status', 'pending');
+  if (error) {
+    console.error('Error saving claim proof:', error);
+    throw new Error('Could not save claim proof.');
+  }
+  return { success: true, data: undefined };
+}
+
+/**
+ * The claim for a key and, once verified, the profile it unlocks.
+ * **Must be called with an admin client.**
+ */
+export async function getOwnProfile(supabaseClient: SupabaseClient, claimKey: string): Promise<PlayerClaimResult<OwnProfile>> {
+  const claim = await findClaimByKey(supabaseClient, claimKey);
+  if (!claim) return NOT_FOUND;
+
+  const own: OwnProfile = {
+    status: claim.status,
+    username: claim.username,
+    verification_code: claim.verification_code,
+    proof_url: claim.proof_url,
+    profile: null,
+    entries: [],
+  };
+  if (claim.status !== 'verified') return { success: true, data: own };
+
+  const [profileRes, entriesRes] = await Promise.all([
+    supabaseClient.from('players').select('*').eq('id', claim.player_id).single(),
+    supabaseClient
+      .from('p100_players')
+      .select('id, killer_id, survivor_id, favorite, hidden')
+      .eq('player_id', claim.player_id)
+      .is('deleted_at', null),
+  ]);
+  if (profileRes.error || entriesRes.error) {
+    console.error('Error fetching own profile:', profileRes.error || entriesRes.error);
+    throw new Error('Could not fetch profile.');
+  }
+
+  const rows = entriesRes.data || [];
+  const killerIds = rows.filter(r => r.killer_id).map(r => r.killer_id);
+  const survivorIds = rows.filter(r => r.survivor_id).map(r => r.survivor_id);
+  const [killers, survivors] = await Promise.all([
+    killerIds.length ? supabaseClient.from('killers').select('id, name').in('id', killerIds) : Promise.resolve({ data: [] as { id: string; name: string }[] }),
+    survivorIds.length ? supabaseClient.from('survivors').select('id, name').in('id', survivorIds) : Promise.resolve({ data: [] as { id: string; name: string }[] }),
+  ]);
+  const names = new Map([...(killers.data || []), ...(survivors.data || [])].map(c => [c.id, c.name]));
+
+  own.profile = profileRes.data as PlayerProfile;
+  own.entries = rows
+    .map(r => ({
+      id: r.id,
+      characterType: r.killer_id ? 'killer' as const : 'survivor' as const,
+      character: names.get(r.killer_id || r.survivor_id) || r.killer_id || r.survivor_id,
+      favorite: !!r.favorite,
+      hidden: !!r.hidden,
+    }))
+    .sort((a, b) => a.character.localeCompare(b.character));
+  return { success: true, data: own };
+}
+
+/**
+ * Applies an owner's changes to their profile: social links, the favorite
+ * P100 and which P100s are hidden. Requires a verified claim, and is refused
+ * while a blacklist cleanup has P100s of the profile hidden.
+ * **Must be called with an admin client.**
+ */
+export async function updateOwnProfile(supabaseClient: SupabaseClient, claimKey: string, update: OwnProfileUpdate): Promise<PlayerClaimResult<{ username: string }>> {
+  const claim = await findClaimByKey(supabaseClient, claimKey);
+  if (!claim) return NOT_FOUND;
+  if (claim.status !== 'verified') return { success: false, status: 409, message: 'This claim has not been verified yet.' };
+
+  const { data: player, error: playerError } = await supabaseClient.from('players').select('*').eq('id', claim.player_id).single();
+  if (playerError || !player) return NOT_FOUND;
+
+  // Platform and country stay as the moderators set them.
+  const normalized = normalizePlayerProfile({
+    platform: player.platform,
+    country: player.country,
+    twitch_url: update.twitch_url !== undefined ? update.twitch_url : player.twitch_url,
+    youtube_url: update.youtube_url !== undefined ? update.youtube_url : player.youtube_url,
+    twitter_url: update.twitter_url !== undefined ? update.twitter_url : player.twitter_url,
+  });
+  if ('error' in normalized) return { success: false, status: 400, message: normalized.error };
+
+  const { data: rows, error: rowsError } = await supabaseClient
+    .from('p100_players')
+    .select('id')
+    .eq('player_id', claim.player_id)
+    .is('deleted_at', null);
+  if (rowsError) {
+    console.error('Error fetching profile entries:', rowsError);
+    throw new Error('Could not update profile.');
+  }
+  const ownIds = new Set((rows || []).map(r => r.id));
+
+  // Entries hidden by a blacklist cleanup stay hidden until a moderator undoes it.
+  if (ownIds.size > 0) {
+    const { data: cleanups, error: cleanupsError } = await supabaseClient
+      .from('blacklist_cleanups')
+      .select('id')
+      .eq('mode', 'hide')
+      .is('undone_at', null)
+      .overlaps('player_ids', Array.from(ownIds))
+      .limit(1);
+    if (cleanupsError) {
+      console.error('Error checking blacklist cleanups:', cleanupsError);
+      throw new Error('Could not update profile.');
+    }
+    if (cleanups && cleanups.length > 0) {
+      return { success: false, status: 403, message: 'This profile cannot be edited. Please contact a moderator.' };
+    }
+  }
+
+  if (update.favoriteEntryId && !ownIds.has(update.favoriteEntryId)) {
+    return { success: false, status: 400, message: 'That P100 is not on your profile.' };
+  }
+  if (update.hiddenEntryIds?.some(id => !ownIds.has(id))) {
+    return { success: false, status: 400, message: 'That P100 is not on your profile.' };
+  }
+
+  await supabaseClient
+    .from('players')
+    .update({ ...normalized.profile, updated_at: new Date().toISOString() })
+    .eq('id', claim.player_id)
+    .throwOnError();
+
+  if (update.favoriteEntryId !== undefined || update.hiddenEntryIds !== undefined) {
+    for (const id of Array.from(ownIds)) {
+      const changes: { favorite?: boolean; hidden?: boolean } = {};
+      if (update.favoriteEntryId !== undefined) changes.favorite = id === update.favoriteEntryId;
+      if (update.hiddenEntryIds !== undefined) changes.hidden = update.hiddenEntryIds.includes(id);
+      await supabaseClient.from('p100_players').update(changes).eq('id', id).throwOnError();
+    }
+  }
+  return { success: true, data: { username: player.username } };
+}
+
+/**
+ * Lists claims, newest first. Pending claims with proof are the review queue.
+ * **Must be called with an admin client.**
+ */
+export async function getPlayerClaims(supabaseClient: SupabaseClient, status?: PlayerClaimStatus): Promise<PlayerClaim[]> {
+  let query = supabaseClient
+    .from('player_claims')
+    .select('*, players(username)')
+    .order('created_at', { ascending: false })
+    .limit(200);
+  if (status) query = query.eq('status', status);
+
+  const { data, error } = await query;
+  if (error) {
+    console.error('Error fetching player claims:', error);
+    throw new Error('Could not fetch player claims.');
+  }
+  return (data || []).map(toPlayerClaim);
+}
+
+/**
+ * Verifies or rejects a pending claim, or revokes a verified one. Verifying a
+ * claim revokes any earlier verified claim on the same player.
+ * **Must be called with an admin client.**
+ * @returns The claim before and after, for the audit log.
+ */
+export async function reviewPlayerClaim(supabaseClient: SupabaseClient, claimId: string, status: 'verified' | 'rejected' | 'revoked', actor: string) {
+  const { data: row, error } = await supabaseClient.from('player_claims').select('*, players(username)').eq('id', claimId).single();
+  if (error || !row) throw new Error('Could not find that claim.');
+  const before = toPlayerClaim(row);
+
+  const expected: PlayerClaimStatus = status === 'revoked' ? 'verified' : 'pending';
+  if (before.status !== expected) throw new Error(`Only ${expected} claims can be ${status}.`);
+  if (status === 'verified' && !before.proof_url) throw new Error('The player has not linked their verification post yet.');
+
+  const reviewed = { reviewed_at: new Date().toISOString(), reviewed_by: actor };
+  if (status === 'verified') {
+    await supabaseClient
+      .from('player_claims')
+      .update({ status: 'revoked', ...reviewed })
+      .eq('player_id', before.player_id)
+      .eq('status', 'verified')
+      .throwOnError();
+  }
+
+  const { data: updated, error: updateError } = await supabaseClient
+    .from('player_claims')
+    .update({ status, ...reviewed })
+    .eq('id', claimId)
+    .eq('status', expected)
+    .select('*, players(username)')
+    .single();
+  if (updateError) {
+    console.error('Error reviewing player claim:', updateError);
+    throw new Error('Could not review claim.');
+  }
+  return { before, after: toPlayerClaim(updated) };
+}
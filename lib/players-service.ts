@@ -20,6 +20,7 @@ export async function getP100Players(client: SupabaseClient): Promise<P100Player
   const { data, error } = await client
     .from('p100_players')
     .select('*')
+    .is('deleted_at', null)
     .order('priority', { ascending: false })
     .order('added_at', { ascending: false });
   if (error) {
@@ -50,3 +51,124 @@ export async function updatePlayerPriority(client: SupabaseClient, playerId: str
   }
   return data;
 }
+
+export type PlayerPlatform = 'steam' | 'epic' | 'xbox' | 'playstation' | 'switch';
+
+export const PLAYER_PLATFORMS: { value: PlayerPlatform; label: string }[] = [
+  { value: 'steam', label: 'Steam' },
+  { value: 'epic', label: 'Epic Games' },
+  { value: 'xbox', label: 'Xbox' },
+  { value: 'playstation', label: 'PlayStation' },
+  { value: 'switch', label: 'Nintendo Switch' },
+];
+
+/** Profile details for a player; p100_players rows link to it by player_id. */
+export interface PlayerProfile {
+  id: string;
+  username: string;
+  platform: PlayerPlatform | null;
+  country: string | null;
+  twitch_url: string | null;
+  youtube_url: string | null;
+  twitter_url: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type PlayerProfileInput = Pick<PlayerProfile, 'platform' | 'country' | 'twitch_url' | 'youtube_url' | 'twitter_url'>;
+
+export type PlayerSocialLink = 'twitch_url' | 'youtube_url' | 'twitter_url';
+
+// Links must point at the site they are labelled as.
+const SOCIAL_HOSTS: Record<PlayerSocialLink, { label: string; hosts: string[] }> = {
+  twitch_url: { label: 'Twitch', hosts: ['twitch.tv'] },
+  youtube_url: { label: 'YouTube', hosts: ['youtube.com', 'youtu.be'] },
+  twitter_url: { label: 'Twitter', hosts: ['twitter.com', 'x.com'] },
+};
+
+/**
+ * Checks a profile edit and trims it into the stored shape.
+ * @returns The cleaned input, or an error message for the first invalid field.
+ */
+export function normalizePlayerProfile(input: PlayerProfileInput): { profile: PlayerProfileInput } | { error: string } {
+  if (input.platform && !PLAYER_PLATFORMS.some(p => p.value === input.platform)) {
+    return { error: 'Unknown platform.' };
+  }
+
+  const country = input.country?.trim().toUpperCase() || null;
+  if (country && !/^[A-Z]{2}$/.test(country)) {
+    return { error: 'Country must be a two-letter code, e.g. US.' };
+  }
+
+  const profile: PlayerProfileInput = { platform: input.platform || null, country, twitch_url: null, youtube_url: null, twitter_url: null };
+  for (const key of Object.keys(SOCIAL_HOSTS) as PlayerSocialLink[]) {
+    const value = input[key]?.trim();
+    if (!value) continue;
+    const { label, hosts } = SOCIAL_HOSTS[key];
+    let url: URL;
+    try {
+      url = new URL(value);
+    } catch {
+      return { error: `${label} link is not a valid URL.` };
+    }
+    const host = url.hostname.toLowerCase().replace(/^(www\.|m\.)/, '');
+    if (url.protocol !== 'https:' || !hosts.includes(host)) {
+      return { error: `${label} link must be an https:// link to ${hosts.join(' or ')}.` };
+    }
+    profile[key] = url.toString();
+  }
+  return { profile };
+}
+
+/**
+ * Fetch the profile for a username, or null if the player has none yet.
+ */
+export async function getPlayerProfile(client: SupabaseClient, username: string): Promise<PlayerProfile | null> {
+  const { data, error } = await client
+    .from('players')
+    .select('*')
+    .eq('username', username)
+    .maybeSingle();
+  if (error) {
+    console.error('Error fetching player profile:', error);
+    throw new Error('Could not fetch player profile');
+  }
+  return data as PlayerProfile | null;
+}
+
+/**
+ * Fetch the profile for a username, creating an empty one if needed.
+ * **Must be called with an admin client.**
+ */
+export async function ensurePlayerProfile(client: SupabaseClient, username: string): Promise<PlayerProfile> {
+  const { data, error } = await client
+    .from('players')
+    .upsert({ username }, { onConflict: 'username', ignoreDuplicates: true })
+    .select('*');
+  if (error) {
+    console.error('Error creating player profile:', error);
+    throw new Error('Could not create player profile');
+  }
+  // ignoreDuplicates returns no row when the player already existed.
+  const existing = (data && data[0]) || await getPlayerProfile(client, username);
+  if (!existing) throw new Error('Could not create player profile');
+  return existing as PlayerProfile;
+}
+
+/**
+ * Update the profile details of a player. Input should already be normalized.
+ * **Must be called with an admin client.**
+ */
+export async function updatePlayerProfile(client: SupabaseClient, playerId: string, input: PlayerProfileInput): Promise<PlayerProfile> {
+  const { data, error } = await client
+    .from('players')
+    .update({ ...input, updated_at: new Date().toISOString() })
+    .eq('id', playerId)
+    .select('*')
+    .single();
+  if (error) {
+    console.error('Error updating player profile:', error);
+    throw new Error('Could not update player profile');
+  }
+  return data as PlayerProfile;
+}
@@ -0,0 +1,381 @@
+// lib/public-api.ts
+// Read-only data and response helpers for the versioned public API under
+// /api/v1. The data functions are called with the anon client, so they only
+// ever see what the public pages see: no soft-deleted rows and no hidden P100s.
+// Only the per-IP rate limit counters are written with the admin client.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { createAdminClient } from './supabase-client';
+import { checkRateLimit, getRateLimitStore } from './rate-limit';
+import { getClientIp } from './request-ip';
+
+export type CharacterType = 'killer' | 'survivor';
+
+export interface ApiCharacter {
+  id: string;
+  name: string;
+  type: CharacterType;
+  image_url: string;
+  order: number | null;
+}
+
+export interface ApiCharacterP100 {
+  username: string;
+  added_at: string;
+  p200: boolean;
+  legacy: boolean;
+  favorite: boolean;
+}
+
+export interface ApiPlayerP100 {
+  character_id: string;
+  character_name: string;
+  type: CharacterType;
+  added_at: string;
+  p200: boolean;
+  legacy: boolean;
+  favorite: boolean;
+}
+
+export interface ApiPagination {
+  page: number;
+  per_page: number;
+  total: number;
+  total_pages: number;
+}
+
+export interface ApiPage<T> {
+  items: T[];
+  pagination: ApiPagination;
+}
+
+export interface ApiSearchPlayer {
+  username: string;
+  p100_count: number;
+}
+
+const DEFAULT_PER_PAGE = 50;
+const MAX_PER_PAGE = 100;
+// PostgREST returns at most this many rows per request.
+const FETCH_PAGE_SIZE = 1000;
+
+// Requests per IP. Generous, but enough to stop a runaway bot.
+const API_RATE_LIMIT = 120;
+const API_RATE_WINDOW = 60 * 1000;
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type',
+  'Access-Control-Max-Age': '86400',
+};
+
+const CHARACTER_TABLES: Record<CharacterType, { table: 'killers' | 'survivors'; orderColumn: string; playerColumn: 'killer_id' | 'survivor_id' }> = {
+  killer: { table: 'killers', orderColumn: 'order', playerColumn: 'killer_id' },
+  survivor: { table: 'survivors', orderColumn: 'order_num', playerColumn: 'survivor_id' },
+};
+
+/** Thrown by the data functions below; turned into the error JSON by the routes. */
+export class ApiError extends Error {
+  constructor(public status: number, public code: string, message: string) {
+    super(message);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Responses
+// ---------------------------------------------------------------------------
+
+export function apiResponse(body: Record<string, unknown>, status = 200, headers: Record<string, string> = {}) {
+  return NextResponse.json(body, {
+    status,
+    headers: {
+      ...CORS_HEADERS,
+      ...(status === 200 ? { 'Cache-Control': 'public, s-maxage=60, stale-while-revalidate=300' } : {}),
+      ...headers,
+    },
+  });
+}
+
+/** `{ success: false, error: { code, message } }` with the given status. */
+export function apiError(status: number, code: string, message: string, headers: Record<string, string> = {}) {
+  return apiResponse({ success: false, error: { code, message } }, status, headers);
+}
+
+export function apiPage<T>(page: ApiPage<T>, extra: Record<string, unknown> = {}) {
+  return apiResponse({ success: true, ...extra, data: page.items, pagination: page.pagination });
+}
+
+/** A download with the same CORS and caching headers as the JSON endpoints. */
+export function apiFile(body: string, contentType: string, fileName: string) {
+  return new NextResponse(body, {
+    headers: {
+      ...CORS_HEADERS,
+      'Cache-Control': 'public, s-maxage=60, stale-while-revalidate=300',
+      'Content-Type': contentType,
+      'Content-Disposition': `attachment; filename="${fileName}"`,
+    },
+  });
+}
+
+/** Answers CORS preflight requests. */
+export function apiOptions() {
+  return new NextResponse(null, { status: 204, headers: CORS_HEADERS });
+}
+
+/**
+ * Runs a GET handler with the shared rate limit and error handling, so every
+ * endpoint fails with the same JSON shape.
+ */
+export async function handleApiRequest(request: NextRequest, handler: () => Promise<NextResponse>) {
+  try {
+    const limit = await checkRateLimit(getRateLimitStore(createAdminClient()), `api:ip:${getClientIp(request)}`, API_RATE_LIMIT, API_RATE_WINDOW);
+    if (!limit.allowed) {
+      return apiError(429, 'rate_limited', 'Too many requests. Please try again later.', { 'Retry-After': String(limit.retryAfter) });
+    }
+    return await handler();
+  } catch (error) {
+    if (error instanceof ApiError) return apiError(error.status, error.code, error.message);
+    console.error('Public API error:', error);
+    return apiError(500, 'internal_error', 'Something went wrong. Please try again later.');
+  }
+}
+
+/**
+ * Reads `page` (from 1) and `per_page` (up to 100) from the query string.
+ * @throws ApiError when either is not a positive whole number.
+ */
+export function parsePagination(searchParams: URLSearchParams): { page: number; perPage: number } {
+  const read = (name: string, fallback: number) => {
+    const raw = searchParams.get(name);
+    if (raw === null || raw === '') return fallback;
+    if (!/^\d+$/.test(raw) || Number(raw) < 1) throw new ApiError(400, 'invalid_parameter', `${name} must be a positive whole number.`);
+    return Number(raw);
+  };
+  return { page: read('page', 1), perPage: Math.min(read('per_page', DEFAULT_PER_PAGE), MAX_PER_PAGE) };
+}
+
+function pagination(page: number, perPage: number, total: number): ApiPagination {
+  return { page, per_page: perPage, total, total_pages: Math.ceil(total / perPage) };
+}
+
+/** The `.range()` bounds of a page. */
+function pageRange(page: number, perPage: number): [number, number] {
+  return [(page - 1) * perPage, page * perPage - 1];
+}
+
+// PostgREST answers a counted range past the last row with this error code.
+const isPastLastPage = (error: { code?: string } | null) => error?.code === 'PGRST103';
+
+const pastLastPage = () => new ApiError(400, 'invalid_parameter', 'page is past the last page.');
+
+// ---------------------------------------------------------------------------
+// Data
+// ---------------------------------------------------------------------------
+
+const toApiCharacter = (row: Record<string, any>, type: CharacterType): ApiCharacter =>
+  ({ id: row.id, name: row.name, type, image_url: row.image_url, order: row[CHARACTER_TABLES[type].orderColumn] ?? null });
+
+const toApiCharacterP100 = (p: Record<string, any>): ApiCharacterP100 =>
+  ({ username: p.username, added_at: p.added_at, p200: !!p.p200, legacy: !!p.legacy, favorite: !!p.favorite });
+
+async function getAllCharacters(supabaseClient: SupabaseClient, type: CharacterType): Promise<ApiCharacter[]> {
+  const { table, orderColumn } = CHARACTER_TABLES[type];
+  const { data, error } = await supabaseClient
+    .from(table)
+    .select('*')
+    .is('deleted_at', null)
+    .order(orderColumn, { ascending: true });
+  if (error) {
+    console.error(`Error fetching ${table} for API:`, error);
+    throw new Error(`Could not fetch ${table}`);
+  }
+  return (data || []).map(row => toApiCharacter(row, type));
+}
+
+/** Killers or survivors in site order. */
+export async function listCharacters(supabaseClient: SupabaseClient, type: CharacterType, page: number, perPage: number): Promise<ApiPage<ApiCharacter>> {
+  const { table, orderColumn } = CHARACTER_TABLES[type];
+  const { data, count, error } = await supabaseClient
+    .from(table)
+    .select('*', { count: 'exact' })
+    .is('deleted_at', null)
+    .order(orderColumn, { ascending: true })
+    .order('id', { ascending: true })
+    .range(...pageRange(page, perPage));
+  if (isPastLastPage(error)) throw pastLastPage();
+  if (error) {
+    console.error(`Error fetching ${table} for API:`, error);
+    throw new Error(`Could not fetch ${table}`);
+  }
+  return { items: (data || []).map(row => toApiCharacter(row, type)), pagination: pagination(page, perPage, count ?? 0) };
+}
+
+/** @throws ApiError 404 when the character does not exist. */
+async function getCharacter(supabaseClient: SupabaseClient, type: CharacterType, id: string): Promise<ApiCharacter> {
+  const { data: row, error } = await supabaseClient
+    .from(CHARACTER_TABLES[type].table)
+    .select('*')
+    .is('deleted_at', null)
+    .eq('id', id)
+    .maybeSingle();
+  if (error) {
+    console.error(`Error fetching ${type} for API:`, error);
+    throw new Error(`Could not fetch ${type}`);
+  }
+  if (!row) throw new ApiError(404, 'not_found', `No ${type} with id "${id}".`);
+  return toApiCharacter(row, type);
+}
+
+/**
+ * Public P100 rows of a character, sorted like the character page: priority
+ * first, then oldest first.
+ */
+function characterPlayersQuery(supabaseClient: SupabaseClient, type: CharacterType, key: string, count: boolean) {
+  return supabaseClient
+    .from('p100_players')
+    .select('id, username, added_at, p200, legacy, favorite', count ? { count: 'exact' } : undefined)
+    .is('deleted_at', null)
+    .eq('hidden', false)
+    .eq(CHARACTER_TABLES[type].playerColumn, key)
+    .order('priority', { ascending: false })
+    .order('added_at', { ascending: true })
+    .order('id', { ascending: true });
+}
+
+/**
+ * One character and all its public P100 players, for exports. Like the
+ * character page, it falls back to rows keyed by the lowercased name.
+ * @throws ApiError 404 when the character does not exist.
+ */
+export async function getCharacterP100List(
+  supabaseClient: SupabaseClient,
+  type: CharacterType,
+  id: string
+): Promise<{ character: ApiCharacter; players: ApiCharacterP100[] }> {
+  const character = await getCharacter(supabaseClient, type, id);
+  const fetchAllPlayers = async (key: string) => {
+    const rows: ApiCharacterP100[] = [];
+    for (let from = 0; ; from += FETCH_PAGE_SIZE) {
+      const { data, error } = await characterPlayersQuery(supabaseClient, type, key, false).range(from, from + FETCH_PAGE_SIZE - 1);
+      if (error) {
+        console.error(`Error fetching ${type} P100s for API:`, error);
+        throw new Error('Could not fetch P100 players');
+      }
+      rows.push(...(data || []).map(toApiCharacterP100));
+      if (!data || data.length < FETCH_PAGE_SIZE) return rows;
+    }
+  };
+
+  let players = await fetchAllPlayers(character.id);
+  if (players.length === 0) players = await fetchAllPlayers(character.name.toLowerCase());
+  return { character, players };
+}
+
+/**
+ * One character and one page of its public P100 players, with the same
+ * lowercased-name fallback as {@link getCharacterP100List}.
+ * @throws ApiError 404 when the character does not exist.
+ */
+export async function getCharacterP100s(
+  supabaseClient: SupabaseClient,
+  type: CharacterType,
+  id: string,
+  page: number,
+  perPage: number
+): Promise<{ character: ApiCharacter; players: ApiPage<ApiCharacterP100> }> {
+  const character = await getCharacter(supabaseClient, type, id);
+  const fetchPage = (key: string) => characterPlayersQuery(supabaseClient, type, key, true).range(...pageRange(page, perPage));
+
+  let result = await fetchPage(character.id);
+  if ((!result.error && !result.count) || isPastLastPage(result.error)) {
+    result = await fetchPage(character.name.toLowerCase());
+  }
+  if (isPastLastPage(result.error)) throw pastLastPage();
+  if (result.error) {
+    console.error(`Error fetching ${type} P100s for API:`, result.error);
+    throw new Error('Could not fetch P100 players');
+  }
+  return {
+    character,
+    players: { items: (result.data || []).map(toApiCharacterP100), pagination: pagination(page, perPage, result.count ?? 0) },
+  };
+}
+
+/**
+ * A player's P100s, killers first, each sorted by character id.
+ * @returns Null when the player has no public P100s.
+ */
+export async function getPlayerP100s(supabaseClient: SupabaseClient, username: string, page: number, perPage: number): Promise<ApiPage<ApiPlayerP100> | null> {
+  // Trashing a character trashes its P100 rows too, so every row here has a live character.
+  const { data, count, error } = await supabaseClient
+    .from('p100_players')
+    .select('id, killer_id, survivor_id, added_at, p200, legacy, favorite, killers(name), survivors(name)', { count: 'exact' })
+    .is('deleted_at', null)
+    .eq('hidden', false)
+    .eq('username', username)
+    .order('killer_id', { ascending: true, nullsFirst: false })
+    .order('survivor_id', { ascending: true })
+    .order('id', { ascending: true })
+    .range(...pageRange(page, perPage));
+  if (isPastLastPage(error)) throw pastLastPage();
+  if (error) {
+    console.error('Error fetching player P100s for API:', error);
+    throw new Error('Could not fetch player P100s');
+  }
+  if (!count) return null;
+
+  const embeddedName = (value: unknown) => ((Array.isArray(value) ? value[0] : value) as { name: string } | null)?.name;
+  const items = (data || []).map((row): ApiPlayerP100 => ({
+    character_id: row.killer_id || row.survivor_id,
+    character_name: (row.killer_id ? embeddedName(row.killers) : embeddedName(row.survivors)) || row.killer_id || row.survivor_id,
+    type: row.killer_id ? 'killer' : 'survivor',
+    added_at: row.added_at,
+    p200: !!row.p200,
+    legacy: !!row.legacy,
+    favorite: !!row.favorite,
+  }));
+  return { items, pagination: pagination(page, perPage, count) };
+}
+
+/**
+ * Players with public P100s whose username contains the term, by username.
+ * Characters whose name contains the term come along unpaginated.
+ */
+export async function searchPublicData(
+  supabaseClient: SupabaseClient,
+  term: string,
+  page: number,
+  perPage: number
+): Promise<{ players: ApiPage<ApiSearchPlayer>; characters: ApiCharacter[] }> {
+  const pattern = `%${term.replace(/[\\%_]/g, '\\$&')}%`;
+  // The inner join keeps only players with at least one public P100, so the
+  // count and pages are over players rather than P100 rows.
+  const [playersRes, killers, survivors] = await Promise.all([
+    supabaseClient
+      .from('players')
+      .select('username, p100_players!inner(id)', { count: 'exact' })
+      .is('p100_players.deleted_at', null)
+      .eq('p100_players.hidden', false)
+      .ilike('username', pattern)
+      .order('username', { ascending: true })
+      .range(...pageRange(page, perPage)),
+    getAllCharacters(supabaseClient, 'killer'),
+    getAllCharacters(supabaseClient, 'survivor'),
+  ]);
+  if (isPastLastPage(playersRes.error)) throw pastLastPage();
+  if (playersRes.error) {
+    console.error('Error searching players for API:', playersRes.error);
+    throw new Error('Could not search players');
+  }
+
+  const lower = term.toLowerCase();
+  return {
+    players: {
+      items: (playersRes.data || []).map(row => ({ username: row.username, p100_count: (row.p100_players as unknown[]).length })),
+      pagination: pagination(page, perPage, playersRes.count ?? 0),
+    },
+    characters: [...killers, ...survivors].filter(c => c.name.toLowerCase().includes(lower)),
+  };
+}
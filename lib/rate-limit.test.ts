@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { checkRateLimit, createMemoryRateLimitStore } from './rate-limit';
+
+describe('checkRateLimit with the memory store', () => {
+  it('allows hits up to the limit and refuses the next one', async () => {
+    const store = createMemoryRateLimitStore();
+    for (let i = 0; i < 3; i++) {
+      expect(await checkRateLimit(store, 'ip:1', 3, 60_000)).toEqual({ allowed: true, retryAfter: 0 });
+    }
+    const refused = await checkRateLimit(store, 'ip:1', 3, 60_000);
+    expect(refused.allowed).toBe(false);
+    expect(refused.retryAfter).toBeGreaterThan(0);
+    expect(refused.retryAfter).toBeLessThanOrEqual(60);
+  });
+
+  it('counts each key separately', async () => {
+    const store = createMemoryRateLimitStore();
+    await checkRateLimit(store, 'ip:1', 1, 60_000);
+    expect((await checkRateLimit(store, 'ip:2', 1, 60_000)).allowed).toBe(true);
+  });
+
+  it('starts a new window once the old one has expired', async () => {
+    const store = createMemoryRateLimitStore();
+    await checkRateLimit(store, 'ip:1', 1, 1);
+    await new Promise(resolve => setTimeout(resolve, 5));
+    expect((await checkRateLimit(store, 'ip:1', 1, 1)).allowed).toBe(true);
+  });
+
+  it('does not count anything when the limit is disabled', async () => {
+    const store = createMemoryRateLimitStore();
+    expect(await checkRateLimit(store, 'ip:1', 0, 60_000)).toEqual({ allowed: true, retryAfter: 0 });
+    expect((await store.hit('ip:1', 60_000, 1)).count).toBe(1);
+  });
+
+  it('counts several hits at once', async () => {
+    const store = createMemoryRateLimitStore();
+    expect((await checkRateLimit(store, 'ip:1', 3, 60_000, 3)).allowed).toBe(true);
+    expect((await checkRateLimit(store, 'ip:1', 3, 60_000)).allowed).toBe(false);
+  });
+});
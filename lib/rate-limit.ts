@@ -0,0 +1,82 @@
+// lib/rate-limit.ts
+// Fixed-window rate limiting with a pluggable counter store. The memory store
+// is for development and tests; production uses the rate_limit_hits table so
+// limits hold across server instances.
+
+import { SupabaseClient } from '@supabase/supabase-js';
+
+export interface RateLimitHit {
+  count: number;
+  resetAt: number; // epoch ms
+}
+
+export interface RateLimitStore {
+  /** Counts `hits` hits for the key and returns the total in the current window. */
+  hit(key: string, windowMs: number, hits: number): Promise<RateLimitHit>;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfter: number; // seconds, 0 when allowed
+}
+
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const windows = new Map<string, RateLimitHit>();
+  return {
+    async hit(key, windowMs, hits) {
+      const now = Date.now();
+      const current = windows.get(key);
+      const next = current && current.resetAt > now
+        ? { count: current.count + hits, resetAt: current.resetAt }
+        : { count: hits, resetAt: now + windowMs };
+      windows.set(key, next);
+      return next;
+    },
+  };
+}
+
+/**
+ * Stores counters in Postgres through the rate_limit_hit function.
+ * **Must be called with an admin client.**
+ */
+export function createPostgresRateLimitStore(supabaseClient: SupabaseClient): RateLimitStore {
+  return {
+    async hit(key, windowMs, hits) {
+      const { data, error } = await supabaseClient
+        .rpc('rate_limit_hit', { p_key: key, p_window_seconds: Math.ceil(windowMs / 1000), p_hits: hits })
+        .single();
+      if (error || !data) {
+        console.error('Error recording rate limit hit:', error);
+        throw new Error('Could not check rate limit');
+      }
+      const row = data as { hit_count: number; window_start: string };
+      return { count: row.hit_count, resetAt: new Date(row.window_start).getTime() + windowMs };
+    },
+  };
+}
+
+// Kept at module level so dev and test counters survive between requests.
+let memoryStore: RateLimitStore | null = null;
+
+/**
+ * Picks the store from RATE_LIMIT_STORE ('memory' or 'postgres'), defaulting to
+ * Postgres in production and memory everywhere else.
+ */
+export function getRateLimitStore(supabaseClient: SupabaseClient): RateLimitStore {
+  const configured = process.env.RATE_LIMIT_STORE || (process.env.NODE_ENV === 'production' ? 'postgres' : 'memory');
+  if (configured === 'postgres') return createPostgresRateLimitStore(supabaseClient);
+  memoryStore ??= createMemoryRateLimitStore();
+  return memoryStore;
+}
+
+/**
+ * Counts a hit against the key and reports whether it is within the limit.
+ * A limit of 0 or less disables the check.
+ * @param hits How many hits to count at once, e.g. one per entry of a batch.
+ */
+export async function checkRateLimit(store: RateLimitStore, key: string, limit: number, windowMs: number, hits = 1): Promise<RateLimitResult> {
+  if (limit <= 0) return { allowed: true, retryAfter: 0 };
+  const { count, resetAt } = await store.hit(key, windowMs, hits);
+  if (count <= limit) return { allowed: true, retryAfter: 0 };
+  return { allowed: false, retryAfter: Math.max(1, Math.ceil((resetAt - Date.now()) / 1000)) };
+}
@@ -0,0 +1,134 @@
+// lib/rejection-reasons-service.ts
+// Canned rejection reasons offered in the reject dialogs. Rejected submissions
+// keep the id of the reason used so the most common causes can be reported.
+
+import { SupabaseClient } from '@supabase/supabase-js';
+
+export interface RejectionReason {
+  id: string;
+  label: string;
+  sort_order: number;
+  is_active: boolean;
+  created_at: string;
+}
+
+export interface RejectionReasonWithCount extends RejectionReason {
+  usage_count: number;
+}
+
+export type RejectionReasonInput = Pick<RejectionReason, 'label' | 'sort_order' | 'is_active'>;
+
+/**
+ * Lists rejection reasons in display order.
+ * **Must be called with an admin client.**
+ * @param includeInactive - Also return reasons hidden from the reject dialogs.
+ */
+export async function getRejectionReasons(supabaseClient: SupabaseClient, includeInactive = false): Promise<RejectionReason[]> {
+  let query = supabaseClient
+    .from('rejection_reasons')
+    .select('*')
+    .order('sort_order', { ascending: true })
+    .order('label', { ascending: true });
+  if (!includeInactive) query = query.eq('is_active', true);
+
+  const { data, error } = await query;
+  if (error) {
+    console.error('Error fetching rejection reasons:', error);
+    throw new Error('Could not fetch rejection reasons.');
+  }
+  return (data || []) as RejectionReason[];
+}
+
+/**
+ * Lists every rejection reason with the number of rejected submissions that used it.
+ * **Must be called with an admin client.**
+ */
+export async function getRejectionReasonsWithCounts(supabaseClient: SupabaseClient): Promise<RejectionReasonWithCount[]> {
+  const reasons = await getRejectionReasons(supabaseClient, true);
+  const counts = await Promise.all(reasons.map(reason =>
+    supabaseClient
+      .from('p100_submissions')
+      .select('id', { count: 'exact', head: true })
+      .eq('status', 'rejected')
+      .eq('rejection_reason_id', reason.id)
+  ));
+
+  const failed = counts.find(res => res.error);
+  if (failed) {
+    console.error('Error counting rejection reason usage:', failed.error);
+    throw new Error('Could not count rejection reason usage.');
+  }
+  return reasons.map((reason, i) => ({ ...reason, usage_count: counts[i].count || 0 }));
+}
+
+/**
+ * Looks up a single rejection reason.
+ * **Must be called with an admin client.**
+ */
+export async function getRejectionReasonById(supabaseClient: SupabaseClient, reasonId: string): Promise<RejectionReason | null> {
+  const { data, error } = await supabaseClient
+    .from('rejection_reasons')
+    .select('*')
+    .eq('id', reasonId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching rejection reason:', error);
+    throw new Error('Could not fetch rejection reason.');
+  }
+  return data as RejectionReason | null;
+}
+
+/**
+ * Creates a rejection reason.
+ * **Must be called with an admin client.**
+ */
+export async function createRejectionReason(supabaseClient: SupabaseClient, input: RejectionReasonInput): Promise<RejectionReason> {
+  const { data, error } = await supabaseClient
+    .from('rejection_reasons')
+    .insert([input])
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error creating rejection reason:', error);
+    throw error;
+  }
+  return data as RejectionReason;
+}
+
+/**
+ * Updates a rejection reason.
+ * **Must be called with an admin client.**
+ */
+export async function updateRejectionReason(supabaseClient: SupabaseClient, reasonId: string, updates: Partial<RejectionReasonInput>): Promise<RejectionReason> {
+  const { data, error } = await supabaseClient
+    .from('rejection_reasons')
+    .update(updates)
+    .eq('id', reasonId)
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error updating rejection reason:', error);
+    throw error;
+  }
+  return data as RejectionReason;
+}
+
+/**
+ * Deletes a rejection reason. Submissions that used it keep their reason text;
+ * the foreign key sets their rejection_reason_id to null.
+ * **Must be called with an admin client.**
+ */
+export async function deleteRejectionReason(supabaseClient: SupabaseClient, reasonId: string) {
+  const { error } = await supabaseClient
+    .from('rejection_reasons')
+    .delete()
+    .eq('id', reasonId);
+
+  if (error) {
+    console.error('Error deleting rejection reason:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,26 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { getClientIp } from './request-ip';
+
+const requestWith = (headers: Record<string, string>, ip?: string) =>
+  Object.assign(new Request('http://localhost/', { headers }), { ip });
+
+describe('getClientIp', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('prefers the address resolved by the platform', () => {
+    vi.stubEnv('TRUST_PROXY_HEADERS', 'true');
+    expect(getClientIp(requestWith({ 'x-real-ip': '10.0.0.1' }, '203.0.113.7'))).toBe('203.0.113.7');
+  });
+
+  it('ignores proxy headers unless they are trusted', () => {
+    vi.stubEnv('TRUST_PROXY_HEADERS', '');
+    expect(getClientIp(requestWith({ 'x-real-ip': '10.0.0.1', 'x-forwarded-for': '10.0.0.2' }))).toBe('unknown');
+  });
+
+  it('uses the last forwarded hop behind a trusted proxy', () => {
+    vi.stubEnv('TRUST_PROXY_HEADERS', 'true');
+    expect(getClientIp(requestWith({ 'x-forwarded-for': '1.1.1.1, 198.51.100.4' }))).toBe('198.51.100.4');
+  });
+});
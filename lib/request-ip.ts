@@ -0,0 +1,24 @@
+// lib/request-ip.ts
+
+/**
+ * Client IP for a request.
+ *
+ * Prefers the address the platform resolved from the connection (`request.ip`).
+ * The `x-real-ip` and `X-Forwarded-For` headers are only read when
+ * TRUST_PROXY_HEADERS=true, i.e. the app runs behind a proxy that overwrites
+ * them; otherwise any client could pick its own IP. Even then only the last
+ * X-Forwarded-For hop is used: earlier entries are whatever the client sent.
+ * Falls back to 'unknown' so callers always get a usable key.
+ */
+export function getClientIp(request: Request & { ip?: string }): string {
+  if (request.ip) return request.ip;
+  if (process.env.TRUST_PROXY_HEADERS !== 'true') return 'unknown';
+  const realIp = request.headers.get('x-real-ip')?.trim();
+  if (realIp) return realIp;
+  const forwarded = request.headers.get('x-forwarded-for');
+  if (forwarded) {
+    const last = forwarded.split(',').pop()?.trim();
+    if (last) return last;
+  }
+  return 'unknown';
+}
@@ -0,0 +1,54 @@
+// lib/screenshot-processing.ts
+// Server-only image work for uploaded screenshots. Uses sharp, so it can only be
+// imported from route handlers that run on the Node.js runtime.
+
+import sharp from 'sharp';
+
+/** Longest side of the stored screenshot; larger uploads are scaled down. */
+export const SCREENSHOT_MAX_DIMENSION = 2560;
+const SCREENSHOT_WEBP_QUALITY = 82;
+
+export interface PreparedScreenshot {
+  webp: Buffer;
+  hash: string;
+}
+
+/**
+ * Re-encodes an upload to WebP capped at SCREENSHOT_MAX_DIMENSION. sharp drops
+ * EXIF, GPS and other metadata unless asked to keep it; the EXIF orientation is
+ * applied to the pixels first so rotated phone photos still display upright.
+ */
+export async function prepareScreenshot(image: Buffer): Promise<PreparedScreenshot> {
+  const [webp, hash] = await Promise.all([
+    sharp(image)
+      .rotate()
+      .resize(SCREENSHOT_MAX_DIMENSION, SCREENSHOT_MAX_DIMENSION, { fit: 'inside', withoutEnlargement: true })
+      .webp({ quality: SCREENSHOT_WEBP_QUALITY })
+      .toBuffer(),
+    computeScreenshotHash(image),
+  ]);
+  return { webp, hash };
+}
+
+/**
+ * Difference hash (dHash) of an image as 16 hex characters. The image is shrunk
+ * to 9x8 greyscale and each bit records whether a pixel is brighter than its
+ * right-hand neighbour, so re-compressed or resized copies of the same
+ * screenshot land within a few bits of each other.
+ */
+export async function computeScreenshotHash(image: Buffer): Promise<string> {
+  const pixels = await sharp(image)
+    .rotate()
+    .greyscale()
+    .resize(9, 8, { fit: 'fill' })
+    .raw()
+    .toBuffer();
+
+  let bits = '';
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) {
+      bits += pixels[row * 9 + col] > pixels[row * 9 + col + 1] ? '1' : '0';
+    }
+  }
+  return (bits.match(/.{4}/g) || []).map(nibble => parseInt(nibble, 2).toString(16)).join('');
+}
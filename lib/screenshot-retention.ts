@@ -0,0 +1,115 @@
+// lib/screenshot-retention.ts
+// Deleting screenshots of reviewed submissions, either by hand from the admin
+// panel or on a schedule according to the retention policy in app_settings.
+// A purged submission keeps its row with screenshot_url null and
+// screenshot_purged_at set.
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { ScreenshotRetentionPolicy } from './app-settings';
+import { discardOriginalScreenshot } from './submissions-service';
+
+/** Upper bound on screenshots handled per run, so one job stays short. */
+export const RETENTION_BATCH_SIZE = 500;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface RetentionCandidate {
+  id: string;
+  username: string;
+  status: 'approved' | 'rejected';
+  reviewed_at: string;
+  screenshot_url: string;
+}
+
+export interface RetentionRunResult {
+  dryRun: boolean;
+  candidates: RetentionCandidate[];
+  purged: number;
+  /** Submissions whose screenshot was actually deleted; empty on a dry run. */
+  purgedIds: string[];
+}
+
+/** Path inside the screenshots bucket for a public screenshot URL, or null if it is not one. */
+export function screenshotStoragePath(url: string | null): string | null {
+  const match = url?.match(/storage\/v1\/object\/public\/screenshots\/(.*)/);
+  return match ? decodeURIComponent(match[1]) : null;
+}
+
+/**
+ * Deletes the stored screenshots of the given submissions and marks them purged.
+ * **Must be called with an admin client.**
+ * @returns Ids of the submissions that were purged.
+ */
+export async function purgeScreenshots(supabaseClient: SupabaseClient, submissions: { id: string; screenshot_url: string | null }[]): Promise<string[]> {
+  const targets = submissions
+    .map(sub => ({ id: sub.id, path: screenshotStoragePath(sub.screenshot_url) }))
+    .filter((t): t is { id: string; path: string } => !!t.path);
+  if (targets.length === 0) return [];
+
+  const { error: storageError } = await supabaseClient.storage.from('screenshots').remove(targets.map(t => t.path));
+  if (storageError) {
+    console.error('Error deleting screenshots:', storageError);
+    throw new Error('Could not delete screenshots.');
+  }
+
+  const ids = targets.map(t => t.id);
+  const { error } = await supabaseClient
+    .from('p100_submissions')
+    .update({ screenshot_url: null, screenshot_purged_at: new Date().toISOString() })
+    .in('id', ids);
+  if (error) {
+    console.error('Error marking screenshots purged:', error);
+    throw new Error('Could not mark screenshots purged.');
+  }
+
+  for (const id of ids) await discardOriginalScreenshot(supabaseClient, id);
+  return ids;
+}
+
+/**
+ * Lists reviewed submissions whose screenshot is older than the policy allows,
+ * oldest review first, up to RETENTION_BATCH_SIZE.
+ * **Must be called with an admin client.**
+ */
+export async function findExpiredScreenshots(supabaseClient: SupabaseClient, policy: ScreenshotRetentionPolicy, now = new Date()): Promise<RetentionCandidate[]> {
+  const rules = [
+    { status: 'approved' as const, days: policy.approvedDays },
+    { status: 'rejected' as const, days: policy.rejectedDays },
+  ].filter(rule => rule.days > 0);
+
+  const results = await Promise.all(rules.map(rule =>
+    supabaseClient
+      .from('p100_submissions')
+      .select('id, username, status, reviewed_at, screenshot_url')
+      .eq('status', rule.status)
+      .lt('reviewed_at', new Date(now.getTime() - rule.days * DAY_MS).toISOString())
+      .is('screenshot_purged_at', null)
+      .not('screenshot_url', 'is', null)
+      .order('reviewed_at', { ascending: true })
+      .limit(RETENTION_BATCH_SIZE)
+  ));
+
+  const failed = results.find(res => res.error);
+  if (failed) {
+    console.error('Error finding expired screenshots:', failed.error);
+    throw new Error('Could not find expired screenshots.');
+  }
+
+  return results
+    .flatMap(res => (res.data || []) as RetentionCandidate[])
+    .filter(candidate => screenshotStoragePath(candidate.screenshot_url))
+    .sort((a, b) => a.reviewed_at.localeCompare(b.reviewed_at))
+    .slice(0, RETENTION_BATCH_SIZE);
+}
+
+/**
+ * Applies the retention policy. With dryRun nothing is deleted and the result
+ * only reports what would go.
+ * **Must be called with an admin client.**
+ */
+export async function applyScreenshotRetention(supabaseClient: SupabaseClient, policy: ScreenshotRetentionPolicy, dryRun: boolean): Promise<RetentionRunResult> {
+  const candidates = await findExpiredScreenshots(supabaseClient, policy);
+  if (dryRun || candidates.length === 0) return { dryRun, candidates, purged: 0, purgedIds: [] };
+  const purgedIds = await purgeScreenshots(supabaseClient, candidates);
+  return { dryRun, candidates, purged: purgedIds.length, purgedIds };
+}
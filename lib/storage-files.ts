@@ -0,0 +1,82 @@
+// lib/storage-files.ts
+// Admin storage helpers. Character rows link to storage files by public URL,
+// so moving or deleting a file has to rewrite those links as well.
+
+import { SupabaseClient } from '@supabase/supabase-js';
+
+const CHARACTER_TABLES = ['killers', 'survivors'] as const;
+
+/**
+ * Buckets the Storage tab may list and change. Submission screenshots and
+ * their originals are only handled by the review and retention code.
+ */
+export const MANAGED_STORAGE_BUCKETS = ['killerimages', 'backgrounds', 'survivorbackgrounds', 'survivors', 'artworks'];
+
+export const isManagedStorageBucket = (bucket: unknown): bucket is string =>
+  typeof bucket === 'string' && MANAGED_STORAGE_BUCKETS.includes(bucket);
+
+// image_url is required, so a deleted file is only dropped from the optional columns.
+const SINGLE_URL_COLUMNS = ['image_url', 'background_image_url', 'header_url'];
+const URL_ARRAY_COLUMNS = ['artist_urls', 'legacy_header_urls'];
+
+/**
+ * Storage-safe file name. Keeps Unicode letters and numbers so international
+ * artist names survive; path separators and other punctuation are removed.
+ */
+export function sanitizeFileName(filename: string): string {
+  let decoded = filename;
+  try {
+    decoded = decodeURIComponent(filename);
+  } catch {
+    // Not URI-encoded; use the name as given.
+  }
+  return decoded
+    .replace(/[\\/]/g, '-')
+    .replace(/\s+/g, '-')
+    .replace(/[^\p{L}\p{N}\-_.]/gu, '');
+}
+
+/**
+ * Points every killer and survivor link to `oldUrl` at `newUrl`, or removes
+ * the link when `newUrl` is null. Returns the number of rows changed.
+ * **Must be called with an admin client.**
+ */
+export async function replaceCharacterImageUrl(
+  supabaseClient: SupabaseClient,
+  oldUrl: string,
+  newUrl: string | null
+): Promise<number> {
+  let changed = 0;
+  for (const table of CHARACTER_TABLES) {
+    for (const column of SINGLE_URL_COLUMNS) {
+      if (column === 'image_url' && newUrl === null) continue;
+      const { data, error } = await supabaseClient.from(table).update({ [column]: newUrl }).eq(column, oldUrl).select('id');
+      if (error) {
+        console.error(`Error updating ${table}.${column}:`, error);
+        throw new Error('Could not update character image links.');
+      }
+      changed += data?.length || 0;
+    }
+
+    for (const column of URL_ARRAY_COLUMNS) {
+      const { data: rows, error } = await supabaseClient.from(table).select(`id, ${column}`).contains(column, [oldUrl]);
+      if (error) {
+        console.error(`Error reading ${table}.${column}:`, error);
+        throw new Error('Could not update character image links.');
+      }
+      for (const row of (rows || []) as unknown as Record<string, any>[]) {
+        const urls: string[] = Array.isArray(row[column]) ? row[column] : [];
+        const updated = newUrl === null
+          ? urls.filter(url => url !== oldUrl)
+          : urls.map(url => (url === oldUrl ? newUrl : url));
+        const { error: updateError } = await supabaseClient.from(table).update({ [column]: updated }).eq('id', row.id);
+        if (updateError) {
+          console.error(`Error updating ${table}.${column}:`, updateError);
+          throw new Error('Could not update character image links.');
+        }
+        changed++;
+      }
+    }
+  }
+  return changed;
+}
@@ -0,0 +1,220 @@
+// lib/submission-edits.ts
+// Changes a submitter makes to their own pending submission, authorized by the
+// tracking code from the success dialog. Every change is written to
+// submission_events so moderators can see what was edited before review.
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { hashTrackingCode } from './submission-tracking';
+import { ORIGINAL_SCREENSHOTS_BUCKET, sanitizeSubmissionComment, uploadSubmissionScreenshot } from './submissions-service';
+import { purgeScreenshots, screenshotStoragePath } from './screenshot-retention';
+
+export type SubmissionEventType = 'edited' | 'withdrawn';
+
+export interface SubmissionEvent {
+  id: string;
+  submission_id: string;
+  event: SubmissionEventType;
+  /** Changed fields with their old and new values; null for withdrawals. */
+  changes: Record<string, { from: unknown; to: unknown }> | null;
+  created_at: string;
+}
+
+export interface SubmissionEdit {
+  characterType?: 'killer' | 'survivor';
+  characterId?: string;
+  /** Replacement screenshot, already run through prepareScreenshot. */
+  screenshot?: { file: File; processed: Buffer; hash: string | null };
+  comment?: string;
+}
+
+export type ManageSubmissionResult =
+  | { success: true }
+  | { success: false; status: 400 | 404 | 409; message: string };
+
+const NOT_FOUND: ManageSubmissionResult = { success: false, status: 404, message: 'No submission matches that tracking code.' };
+const NOT_PENDING: ManageSubmissionResult = { success: false, status: 409, message: 'Only pending submissions can be changed.' };
+
+async function findSubmissionByCode(supabaseClient: SupabaseClient, code: string) {
+  const { data, error } = await supabaseClient
+    .from('p100_submissions')
+    .select('id, username, status, killer_id, survivor_id, screenshot_url, original_screenshot_path, comment, legacy')
+    .eq('tracking_code_hash', await hashTrackingCode(code))
+    .is('deleted_at', null)
+    .maybeSingle();
+  if (error) {
+    console.error('Error looking up tracking code:', error);
+    throw new Error('Could not look up submission.');
+  }
+  return data;
+}
+
+/**
+ * Appends to a submission's history. Failures are logged, not thrown, since
+ * the change itself has already been saved.
+ * **Must be called with an admin client.**
+ */
+async function recordSubmissionEvent(supabaseClient: SupabaseClient, submissionId: string, event: SubmissionEventType, changes: SubmissionEvent['changes'] = null) {
+  const { error } = await supabaseClient
+    .from('submission_events')
+    .insert([{ submission_id: submissionId, event, changes }]);
+  if (error) console.error('Error recording submission event:', error);
+}
+
+/**
+ * Lists the submitter's edits and withdrawal for one submission, oldest first.
+ * **Must be called with an admin client.**
+ */
+export async function getSubmissionEvents(supabaseClient: SupabaseClient, submissionId: string): Promise<SubmissionEvent[]> {
+  const { data, error } = await supabaseClient
+    .from('submission_events')
+    .select('*')
+    .eq('submission_id', submissionId)
+    .order('created_at', { ascending: true });
+  if (error) {
+    console.error('Error fetching submission events:', error);
+    throw new Error('Could not fetch submission history.');
+  }
+  return (data || []) as SubmissionEvent[];
+}
+
+/**
+ * Changes the character, screenshot and/or comment of a pending submission.
+ * A new character goes through the same duplicate checks as a new submission.
+ * **Must be called with an admin client.**
+ */
+export async function editSubmission(supabaseClient: SupabaseClient, code: string, edit: SubmissionEdit): Promise<ManageSubmissionResult> {
+  const submission = await findSubmissionByCode(supabaseClient, code);
+  if (!submission) return NOT_FOUND;
+  if (submission.status !== 'pending') return NOT_PENDING;
+
+  const updates: Record<string, unknown> = {};
+  const changes: Record<string, { from: unknown; to: unknown }> = {};
+
+  const currentCharacter = submission.killer_id || submission.survivor_id;
+  if (edit.characterType && edit.characterId && edit.characterId !== currentCharacter) {
+    const column = edit.characterType === 'killer' ? 'killer_id' : 'survivor_id';
+    const { data: character } = await supabaseClient
+      .from(edit.characterType === 'killer' ? 'killers' : 'survivors')
+      .select('id')
+      .eq('id', edit.characterId)
+      .is('deleted_at', null)
+      .maybeSingle();
+    if (!character) {
+      return { success: false, status: 400, message: 'Invalid character selection' };
+    }
+
+    const { data: existing, error } = await supabaseClient
+      .from('p100_submissions')
+      .select('status')
+      .is('deleted_at', null)
+      .in('status', ['pending', 'approved'])
+      .eq('legacy', submission.legacy ?? false)
+      .eq('username', submission.username)
+      .eq(column, edit.characterId)
+      .neq('id', submission.id);
+    if (error) {
+      console.error('Error checking for duplicate submissions:', error);
+      throw new Error('Could not check for duplicate submissions.');
+    }
+    if (existing?.some((row: any) => row.status === 'approved')) {
+      return { success: false, status: 409, message: 'You already have an approved P100 for this character.' };
+    }
+    if (existing && existing.length > 0) {
+      return { success: false, status: 409, message: 'You already have a pending submission for this character.' };
+    }
+
+    updates.killer_id = edit.characterType === 'killer' ? edit.characterId : null;
+    updates.survivor_id = edit.characterType === 'survivor' ? edit.characterId : null;
+    changes.character = { from: currentCharacter, to: edit.characterId };
+  }
+
+  if (edit.comment !== undefined) {
+    const comment = sanitizeSubmissionComment(edit.comment);
+    if (comment !== (submission.comment || '')) {
+      updates.comment = comment;
+      changes.comment = { from: submission.comment, to: comment };
+    }
+  }
+
+  let uploaded: Awaited<ReturnType<typeof uploadSubmissionScreenshot>> = null;
+  if (edit.screenshot) {
+    uploaded = await uploadSubmissionScreenshot(supabaseClient, edit.screenshot.file, edit.screenshot.processed);
+    if (!uploaded) {
+      return { success: false, status: 400, message: 'Invalid file type' };
+    }
+    updates.screenshot_url = uploaded.publicUrl;
+    updates.original_screenshot_path = uploaded.originalPath;
+    updates.screenshot_hash = edit.screenshot.hash;
+    changes.screenshot = { from: submission.screenshot_url, to: uploaded.publicUrl };
+  }
+
+  if (Object.keys(changes).length === 0) {
+    return { success: false, status: 400, message: 'Nothing to change.' };
+  }
+
+  const removeUploaded = async () => {
+    if (!uploaded) return;
+    await supabaseClient.storage.from('screenshots').remove([uploaded.fileName]);
+    await supabaseClient.storage.from(ORIGINAL_SCREENSHOTS_BUCKET).remove([uploaded.originalPath]);
+  };
+
+  // Guarded on status so an edit cannot land on a submission reviewed meanwhile.
+  const { data: updated, error } = await supabaseClient
+    .from('p100_submissions')
+    .update({ ...updates, edited_at: new Date().toISOString() })
+    .eq('id', submission.id)
+    .eq('status', 'pending')
+    .select('id')
+    .maybeSingle();
+  if (error) {
+    console.error('Error editing submission:', error);
+    await removeUploaded();
+    throw new Error('Could not update submission.');
+  }
+  if (!updated) {
+    await removeUploaded();
+    return NOT_PENDING;
+  }
+
+  if (uploaded) {
+    const oldPath = screenshotStoragePath(submission.screenshot_url);
+    if (oldPath) await supabaseClient.storage.from('screenshots').remove([oldPath]);
+    if (submission.original_screenshot_path) {
+      await supabaseClient.storage.from(ORIGINAL_SCREENSHOTS_BUCKET).remove([submission.original_screenshot_path]);
+    }
+  }
+  await recordSubmissionEvent(supabaseClient, submission.id, 'edited', changes);
+  return { success: true };
+}
+
+/**
+ * Withdraws a pending submission. The row is kept with status 'withdrawn' for
+ * the moderators' history; its screenshots are deleted straight away.
+ * **Must be called with an admin client.**
+ */
+export async function withdrawSubmission(supabaseClient: SupabaseClient, code: string): Promise<ManageSubmissionResult> {
+  const submission = await findSubmissionByCode(supabaseClient, code);
+  if (!submission) return NOT_FOUND;
+  if (submission.status !== 'pending') return NOT_PENDING;
+
+  const { data: updated, error } = await supabaseClient
+    .from('p100_submissions')
+    .update({ status: 'withdrawn' })
+    .eq('id', submission.id)
+    .eq('status', 'pending')
+    .select('id')
+    .maybeSingle();
+  if (error) {
+    console.error('Error withdrawing submission:', error);
+    throw new Error('Could not withdraw submission.');
+  }
+  if (!updated) return NOT_PENDING;
+
+  try {
+    await purgeScreenshots(supabaseClient, [submission]);
+  } catch (purgeError) {
+    console.error('Error deleting screenshots of withdrawn submission:', purgeError);
+  }
+  await recordSubmissionEvent(supabaseClient, submission.id, 'withdrawn');
+  return { success: true };
+}
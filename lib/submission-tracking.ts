@@ -0,0 +1,107 @@
+// lib/submission-tracking.ts
+// Private tracking codes for public submissions. The code is shown once in the
+// success dialog; only its SHA-256 hash is stored, in p100_submissions.tracking_code_hash.
+
+import { SupabaseClient } from '@supabase/supabase-js';
+
+// No 0/O, 1/I/L or U, so codes survive being read aloud or retyped.
+const TRACKING_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTVWXYZ23456789';
+const TRACKING_CODE_LENGTH = 12;
+
+export interface TrackedSubmission {
+  status: 'pending' | 'approved' | 'rejected' | 'withdrawn';
+  username: string;
+  character: string;
+  characterType: 'killer' | 'survivor';
+  characterId: string;
+  comment: string | null;
+  submitted_at: string;
+  edited_at: string | null;
+  rejection_reason: string | null;
+}
+
+export interface UsernameStatusSummary {
+  pending: number;
+  approved: number;
+  rejected: number;
+}
+
+/** A new random code, formatted as XXXX-XXXX-XXXX. */
+export function generateTrackingCode(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(TRACKING_CODE_LENGTH));
+  const chars = Array.from(bytes, b => TRACKING_CODE_ALPHABET[b % TRACKING_CODE_ALPHABET.length]);
+  return (chars.join('').match(/.{4}/g) || []).join('-');
+}
+
+/** Hex SHA-256 of a code, ignoring case, spaces and dashes. */
+export async function hashTrackingCode(code: string): Promise<string> {
+  const normalized = code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(normalized));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Looks up a submission by its tracking code. When a username is given it must
+ * match too, so a mistyped code cannot reveal someone else's submission.
+ * **Must be called with an admin client.**
+ */
+export async function getSubmissionByTrackingCode(supabaseClient: SupabaseClient, code: string, username?: string): Promise<TrackedSubmission | null> {
+  const { data, error } = await supabaseClient
+    .from('p100_submissions')
+    .select('status, username, killer_id, survivor_id, comment, submitted_at, edited_at, rejection_reason')
+    .eq('tracking_code_hash', await hashTrackingCode(code))
+    .is('deleted_at', null)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error looking up tracking code:', error);
+    throw new Error('Could not look up submission.');
+  }
+  if (!data) return null;
+  if (username && data.username.toLowerCase() !== username.trim().toLowerCase()) return null;
+
+  const { data: character } = await supabaseClient
+    .from(data.killer_id ? 'killers' : 'survivors')
+    .select('name')
+    .eq('id', data.killer_id || data.survivor_id)
+    .maybeSingle();
+
+  return {
+    status: data.status,
+    username: data.username,
+    character: character?.name || data.killer_id || data.survivor_id || 'Unknown Character',
+    characterType: data.killer_id ? 'killer' : 'survivor',
+    characterId: data.killer_id || data.survivor_id,
+    comment: data.comment,
+    submitted_at: data.submitted_at,
+    edited_at: data.edited_at,
+    rejection_reason: data.status === 'rejected' ? data.rejection_reason : null,
+  };
+}
+
+/**
+ * Counts of a username's submissions per status, without any detail.
+ * **Must be called with an admin client.**
+ */
+export async function getUsernameStatusSummary(supabaseClient: SupabaseClient, username: string): Promise<UsernameStatusSummary> {
+  const statuses = ['pending', 'approved', 'rejected'] as const;
+  const results = await Promise.all(statuses.map(status =>
+    supabaseClient
+      .from('p100_submissions')
+      .select('id', { count: 'exact', head: true })
+      .eq('username', username.trim())
+      .eq('status', status)
+      .is('deleted_at', null)
+  ));
+
+  const failed = results.find(res => res.error);
+  if (failed) {
+    console.error('Error counting submissions:', failed.error);
+    throw new Error('Could not look up submissions.');
+  }
+  return {
+    pending: results[0].count || 0,
+    approved: results[1].count || 0,
+    rejected: results[2].count || 0,
+  };
+}
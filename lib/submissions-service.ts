@@ -0,0 +1,501 @@
+// lib/submissions-service.ts
+import { SupabaseClient } from '@supabase/supabase-js';
+import { generateTrackingCode, hashTrackingCode } from './submission-tracking';
+import { resolveCanonicalUsername } from './player-aliases';
+
+export type ReviewStatus = 'approved' | 'rejected';
+
+export interface ReviewResult {
+  submission: Record<string, any>;
+  player_id: string | null;
+  player_created: boolean;
+}
+
+/**
+ * Approve or reject a submission through the review_submission database
+ * function, which updates the submission and the matching p100_players row
+ * in a single transaction.
+ * @param client Supabase admin client
+ * @param reviewer Username recorded in reviewed_by
+ * @param rejectionReasonId Canned reason from rejection_reasons, if one was picked
+ */
+export async function reviewSubmission(
+  client: SupabaseClient,
+  submissionId: string,
+  status: ReviewStatus,
+  rejectionReason: string | null,
+  reviewer: string,
+  rejectionReasonId: string | null = null
+): Promise<ReviewResult> {
+  const { data, error } = await client.rpc('review_submission', {
+    p_submission_id: submissionId,
+    p_status: status,
+    p_rejection_reason: status === 'rejected' ? rejectionReason : null,
+    p_reviewer: reviewer,
+    p_rejection_reason_id: status === 'rejected' ? rejectionReasonId : null,
+  });
+  if (error) {
+    console.error('Error reviewing submission:', error);
+    throw new Error(error.message || 'Could not review submission');
+  }
+  return data as ReviewResult;
+}
+
+// --- PUBLIC SUBMISSION INTAKE ---
+
+export const SUBMISSION_MAX_FILE_SIZE = 20 * 1024 * 1024;
+export const SUBMISSION_ALLOWED_TYPES = ['image/jpeg', 'image/jpg', 'image/png', 'image/webp'];
+/** Most character + screenshot pairs accepted in one submission. */
+export const SUBMISSION_MAX_BATCH_SIZE = 10;
+/** Largest request body, all screenshots and evidence files together. */
+export const SUBMISSION_MAX_REQUEST_SIZE = 100 * 1024 * 1024;
+
+/** Private bucket holding the untouched upload until the submission is reviewed. */
+export const ORIGINAL_SCREENSHOTS_BUCKET = 'screenshot-originals';
+
+export interface SubmissionClaims {
+  p200: boolean;
+  legacy: boolean;
+  /** Screenshot backing the claim; kept privately until review like the original. */
+  evidence: File | null;
+  notes: string;
+}
+
+export interface NewSubmission {
+  username: string;
+  characterType: 'killer' | 'survivor';
+  characterId: string;
+  /** The file as uploaded; kept privately until review. */
+  screenshot: File;
+  /** Re-encoded WebP from prepareScreenshot; this is what the site shows. */
+  processedScreenshot: Buffer;
+  /** dHash from prepareScreenshot, or null when it could not be computed. */
+  screenshotHash: string | null;
+  comment: string;
+  /** Shared by every entry of a multi-character submission; null for single ones. */
+  batchId?: string | null;
+  /** P200 / legacy status claimed by the submitter; copied to p100_players on approval. */
+  claims?: SubmissionClaims;
+  /** Request IP and browser fingerprint, kept so moderators can ban them. */
+  submitter?: { ip: string | null; fingerprint: string | null };
+}
+
+export type CreateSubmissionResult =
+  | { success: true; submissionId: string; trackingCode: string }
+  | { success: false; status: 400 | 409; message: string };
+
+/**
+ * Strips HTML and script patterns from a submitter comment while keeping emojis
+ * and special characters.
+ */
+export const sanitizeSubmissionComment = (comment: string): string => {
+  if (!comment) return '';
+  return comment
+    .replace(/<script\b[^<]*(?:(?!<\/script>)<[^<]*)*<\/script>/gi, '')
+    .replace(/<[^>]*>/g, '')
+    .replace(/javascript:/gi, '')
+    .replace(/on\w+\s*=\s*['"]/gi, '')
+    .trim();
+};
+
+/**
+ * Checks type and size of an uploaded screenshot before any work is done on it.
+ * @returns An error message, or null when the file is acceptable.
+ */
+export function validateScreenshotFile(screenshot: File): string | null {
+  if (!SUBMISSION_ALLOWED_TYPES.includes(screenshot.type)) return 'Only JPEG, PNG, and WebP images are allowed';
+  if (screenshot.size > SUBMISSION_MAX_FILE_SIZE) return 'File size must be less than 20MB';
+  return null;
+}
+
+/** Returns a user-facing error for an incomplete P200 / legacy claim, or null. */
+export function validateSubmissionClaims(claims: SubmissionClaims): string | null {
+  if (!claims.p200 && !claims.legacy) return null;
+  if (!claims.evidence) return 'Please attach an evidence screenshot for your P200 or legacy claim';
+  const fileError = validateScreenshotFile(claims.evidence);
+  return fileError ? `Evidence: ${fileError}` : null;
+}
+
+export interface UploadedScreenshot {
+  baseName: string;
+  /** Path of the re-encoded WebP in the public screenshots bucket. */
+  fileName: string;
+  /** Path of the untouched upload in ORIGINAL_SCREENSHOTS_BUCKET. */
+  originalPath: string;
+  publicUrl: string;
+}
+
+/**
+ * Stores the re-encoded screenshot publicly and the original privately.
+ * **Must be called with an admin client.**
+ * @returns null when the upload has no file extension.
+ */
+export async function uploadSubmissionScreenshot(client: SupabaseClient, screenshot: File, processed: Buffer): Promise<UploadedScreenshot | null> {
+  const fileExt = screenshot.name.split('.').pop()?.toLowerCase();
+  if (!fileExt) return null;
+  const baseName = `${Date.now()}-${Math.random().toString(36).substring(2)}`;
+  const fileName = `${baseName}.webp`;
+  const originalPath = `${baseName}.${fileExt}`;
+
+  const { error: uploadError } = await client.storage
+    .from('screenshots')
+    .upload(fileName, processed, { contentType: 'image/webp' });
+  if (uploadError) {
+    console.error('Error uploading screenshot:', uploadError);
+    throw new Error('Failed to upload screenshot: ' + uploadError.message);
+  }
+  const { error: originalError } = await client.storage
+    .from(ORIGINAL_SCREENSHOTS_BUCKET)
+    .upload(originalPath, screenshot, { contentType: screenshot.type });
+  if (originalError) {
+    console.error('Error uploading original screenshot:', originalError);
+    await client.storage.from('screenshots').remove([fileName]);
+    throw new Error('Failed to upload screenshot: ' + originalError.message);
+  }
+  const { data: { publicUrl } } = client.storage.from('screenshots').getPublicUrl(fileName);
+  return { baseName, fileName, originalPath, publicUrl };
+}
+
+/**
+ * Validates and stores a public P100 submission: duplicate checks, screenshot
+ * upload and the p100_submissions insert all happen here so the browser cannot
+ * skip them. The caller checks the blacklist first (see isBlacklisted). An old
+ * username of a player who renamed is stored under their current one, so the
+ * P100 lands on the right profile once approved. Earlier rejected or withdrawn
+ * submissions for the same username and character are superseded. The returned
+ * tracking code is not stored in plain text, so it must be shown to the
+ * submitter straight away.
+ * **Must be called with an admin client.**
+ */
+export async function createSubmission(client: SupabaseClient, input: NewSubmission): Promise<CreateSubmissionResult> {
+  const { characterType, characterId, screenshot } = input;
+  const username = (await resolveCanonicalUsername(client, input.username)) ?? input.username;
+  const claims = input.claims ?? { p200: false, legacy: false, evidence: null, notes: '' };
+
+  const fileError = validateScreenshotFile(screenshot) || validateSubmissionClaims(claims);
+  if (fileError) {
+    return { success: false, status: 400, message: fileError };
+  }
+
+  const characterColumn = characterType === 'killer' ? 'killer_id' : 'survivor_id';
+  const { data: character } = await client
+    .from(characterType === 'killer' ? 'killers' : 'survivors')
+    .select('id')
+    .eq('id', characterId)
+    .is('deleted_at', null)
+    .maybeSingle();
+  if (!character) {
+    return { success: false, status: 400, message: 'Invalid character selection' };
+  }
+
+  // An approved P100 for this character cannot be overridden by a new submission.
+  const { data: approved, error: approvedError } = await client
+    .from('p100_submissions')
+    .select('id')
+    .is('deleted_at', null)
+    .eq('status', 'approved')
+    .eq('legacy', claims.legacy)
+    .eq('username', username)
+    .eq(characterColumn, characterId)
+    .limit(1);
+  if (approvedError) {
+    console.warn('Approved check failed (continuing to allow submission):', approvedError.message);
+  }
+  if (approved && approved.length > 0) {
+    return { success: false, status: 409, message: 'You already have an approved P100 for this character.' };
+  }
+
+  // A pending submission is changed through its tracking code, never replaced,
+  // so nobody can wipe out someone else's submission by resubmitting their name.
+  const { data: pending, error: pendingError } = await client
+    .from('p100_submissions')
+    .select('id')
+    .is('deleted_at', null)
+    .eq('status', 'pending')
+    .eq('legacy', claims.legacy)
+    .eq('username', username)
+    .eq(characterColumn, characterId)
+    .limit(1);
+  if (pendingError) {
+    console.warn('Pending check failed (continuing to allow submission):', pendingError.message);
+  }
+  if (pending && pending.length > 0) {
+    return { success: false, status: 409, message: 'A submission for this character is already waiting for review. Use its tracking code to edit it.' };
+  }
+
+  const uploaded = await uploadSubmissionScreenshot(client, screenshot, input.processedScreenshot);
+  if (!uploaded) {
+    return { success: false, status: 400, message: 'Invalid file type' };
+  }
+  const { baseName, fileName, originalPath, publicUrl } = uploaded;
+
+  let evidencePath: string | null = null;
+  if (claims.evidence) {
+    evidencePath = `${baseName}-evidence.${claims.evidence.name.split('.').pop()?.toLowerCase() || 'png'}`;
+    const { error: evidenceError } = await client.storage
+      .from(ORIGINAL_SCREENSHOTS_BUCKET)
+      .upload(evidencePath, claims.evidence, { contentType: claims.evidence.type });
+    if (evidenceError) {
+      console.error('Error uploading claim evidence:', evidenceError);
+      await client.storage.from('screenshots').remove([fileName]);
+      await client.storage.from(ORIGINAL_SCREENSHOTS_BUCKET).remove([originalPath]);
+      throw new Error('Failed to upload evidence screenshot: ' + evidenceError.message);
+    }
+  }
+  const trackingCode = generateTrackingCode();
+
+  const { data, error } = await client
+    .from('p100_submissions')
+    .insert([{
+      username,
+      screenshot_url: publicUrl,
+      original_screenshot_path: originalPath,
+      killer_id: characterType === 'killer' ? characterId : null,
+      survivor_id: characterType === 'survivor' ? characterId : null,
+      status: 'pending',
+      comment: sanitizeSubmissionComment(input.comment),
+      screenshot_hash: input.screenshotHash,
+      tracking_code_hash: await hashTrackingCode(trackingCode),
+      batch_id: input.batchId ?? null,
+      p200: claims.p200,
+      legacy: claims.legacy,
+      claim_notes: claims.p200 || claims.legacy ? sanitizeSubmissionComment(claims.notes) || null : null,
+      claim_evidence_path: evidencePath,
+      submitter_ip: input.submitter?.ip ?? null,
+      submitter_fingerprint: input.submitter?.fingerprint ?? null,
+    }])
+    .select('id')
+    .single();
+  if (error) {
+    console.error('Error creating submission:', error);
+    // Do not leave orphaned screenshots behind.
+    await client.storage.from('screenshots').remove([fileName]);
+    await client.storage.from(ORIGINAL_SCREENSHOTS_BUCKET).remove(evidencePath ? [originalPath, evidencePath] : [originalPath]);
+    throw new Error('Failed to submit P100: ' + error.message);
+  }
+
+  // Only the most recent submission per username + character is listed. Earlier
+  // rejected or withdrawn ones are soft-deleted, keeping the rows and their events.
+  const { error: supersedeError } = await client
+    .from('p100_submissions')
+    .update({ deleted_at: new Date().toISOString(), deleted_by: 'superseded' })
+    .is('deleted_at', null)
+    .in('status', ['rejected', 'withdrawn'])
+    .eq('legacy', claims.legacy)
+    .eq('username', username)
+    .eq(characterColumn, characterId)
+    .neq('id', data.id);
+  if (supersedeError) {
+    console.warn('Failed to supersede previous submissions:', supersedeError.message);
+  }
+  return { success: true, submissionId: data.id, trackingCode };
+}
+
+/** Private uploads kept with a submission until it is reviewed. */
+export type PrivateScreenshotKind = 'original' | 'evidence';
+
+const PRIVATE_SCREENSHOT_COLUMNS: Record<PrivateScreenshotKind, 'original_screenshot_path' | 'claim_evidence_path'> = {
+  original: 'original_screenshot_path',
+  evidence: 'claim_evidence_path',
+};
+
+/**
+ * Deletes the private original of a screenshot, and any claim evidence, once
+ * the submission has been reviewed. Failures are logged, not thrown, since the
+ * review already happened.
+ * **Must be called with an admin client.**
+ */
+export async function discardOriginalScreenshot(client: SupabaseClient, submissionId: string) {
+  const { data, error } = await client
+    .from('p100_submissions')
+    .select('original_screenshot_path, claim_evidence_path')
+    .eq('id', submissionId)
+    .maybeSingle();
+  const paths = [data?.original_screenshot_path, data?.claim_evidence_path].filter((p): p is string => !!p);
+  if (error || paths.length === 0) {
+    if (error) console.error('Error reading original screenshot path:', error);
+    return;
+  }
+
+  const { error: removeError } = await client.storage
+    .from(ORIGINAL_SCREENSHOTS_BUCKET)
+    .remove(paths);
+  if (removeError) {
+    console.error('Error deleting original screenshot:', removeError);
+    return;
+  }
+  const { error: updateError } = await client
+    .from('p100_submissions')
+    .update({ original_screenshot_path: null, claim_evidence_path: null })
+    .eq('id', submissionId);
+  if (updateError) console.error('Error clearing original screenshot path:', updateError);
+}
+
+/**
+ * Short-lived signed URL for the original upload of a pending submission.
+ * **Must be called with an admin client.**
+ * @param kind - 'evidence' signs the P200 / legacy claim evidence instead.
+ * @returns null when the file has already been discarded.
+ */
+export async function getOriginalScreenshotUrl(client: SupabaseClient, submissionId: string, kind: PrivateScreenshotKind = 'original'): Promise<string | null> {
+  const column = PRIVATE_SCREENSHOT_COLUMNS[kind];
+  const { data, error } = await client
+    .from('p100_submissions')
+    .select(column)
+    .eq('id', submissionId)
+    .maybeSingle();
+  if (error) {
+    console.error('Error reading original screenshot path:', error);
+    throw new Error('Could not find original screenshot');
+  }
+  const path = (data as Record<string, string | null> | null)?.[column];
+  if (!path) return null;
+
+  const { data: signed, error: signError } = await client.storage
+    .from(ORIGINAL_SCREENSHOTS_BUCKET)
+    .createSignedUrl(path, 5 * 60);
+  if (signError || !signed) {
+    console.error('Error signing original screenshot URL:', signError);
+    throw new Error('Could not open original screenshot');
+  }
+  return signed.signedUrl;
+}
+
+/**
+ * Changes the P200 / legacy flags of a pending submission, e.g. to approve the
+ * P100 but not an unsupported claim.
+ * **Must be called with an admin client.**
+ */
+export async function updateSubmissionClaims(client: SupabaseClient, submissionId: string, flags: { p200: boolean; legacy: boolean }) {
+  const { data, error } = await client
+    .from('p100_submissions')
+    .update(flags)
+    .eq('id', submissionId)
+    .eq('status', 'pending')
+    .select()
+    .maybeSingle();
+  if (error) {
+    console.error('Error updating submission claims:', error);
+    throw new Error('Could not update submission claims.');
+  }
+  if (!data) throw new Error('Only pending submissions can be changed.');
+  return data;
+}
+
+// --- ADMIN SUBMISSION LIST ---
+
+export interface SubmissionListFilters {
+  status: 'all' | 'pending' | 'approved' | 'rejected' | 'withdrawn';
+  characterType: 'all' | 'killer' | 'survivor';
+  batchId: string | null;
+  sort: 'newest' | 'oldest';
+  offset: number;
+  limit: number;
+}
+
+// Comments, screenshots and submitter details are only shown in the admin panel.
+const SUBMISSION_LIST_COLUMNS = 'id, username, killer_id, survivor_id, screenshot_url, screenshot_purged_at, status, rejection_reason, submitted_at, reviewed_at, reviewed_by, comment, legacy, p200, claim_notes, claim_evidence_path, batch_id, edited_at, submitter_ip, submitter_fingerprint';
+
+/**
+ * One page of the review queue plus the number of submissions matching the filters.
+ * **Must be called with an admin client.**
+ */
+export async function getSubmissionsPage(client: SupabaseClient, filters: SubmissionListFilters) {
+  let query = client
+    .from('p100_submissions')
+    .select(SUBMISSION_LIST_COLUMNS, { count: 'exact' })
+    .is('deleted_at', null);
+  if (filters.status !== 'all') query = query.eq('status', filters.status);
+  if (filters.characterType === 'killer') query = query.not('killer_id', 'is', null);
+  if (filters.characterType === 'survivor') query = query.not('survivor_id', 'is', null);
+  if (filters.batchId) query = query.eq('batch_id', filters.batchId);
+
+  const { data, error, count } = await query
+    .order('submitted_at', { ascending: filters.sort === 'oldest' })
+    .range(filters.offset, filters.offset + filters.limit - 1);
+  if (error) {
+    console.error('Error fetching submissions:', error);
+    throw new Error('Could not fetch submissions.');
+  }
+  return { submissions: data || [], total: count ?? 0 };
+}
+
+// --- SCREENSHOT DUPLICATE DETECTION ---
+
+/** Hashes this many bits apart or fewer are treated as the same screenshot. */
+export const SCREENSHOT_HASH_MAX_DISTANCE = 10;
+
+export interface ScreenshotMatch {
+  id: string;
+  username: string;
+  killer_id: string | null;
+  survivor_id: string | null;
+  status: 'pending' | 'approved';
+  screenshot_url: string;
+  submitted_at: string;
+  distance: number;
+}
+
+/** Number of differing bits between two hex hashes of equal length. */
+export function screenshotHashDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+}
+
+/**
+ * For each given submission, lists pending or approved submissions whose
+ * screenshot hash is within SCREENSHOT_HASH_MAX_DISTANCE, closest first.
+ * Submissions without a hash, or without matches, are left out.
+ * **Must be called with an admin client.**
+ */
+export async function findScreenshotMatches(client: SupabaseClient, submissionIds: string[]): Promise<Record<string, ScreenshotMatch[]>> {
+  if (submissionIds.length === 0) return {};
+  const { data: targets, error } = await client
+    .from('p100_submissions')
+    .select('id, screenshot_hash')
+    .in('id', submissionIds)
+    .not('screenshot_hash', 'is', null);
+  if (error) {
+    console.error('Error fetching screenshot hashes:', error);
+    throw new Error('Could not fetch screenshot hashes');
+  }
+  if (!targets || targets.length === 0) return {};
+
+  // PostgREST caps each response, so read the candidates page by page.
+  const pageSize = 1000;
+  const candidates: (Omit<ScreenshotMatch, 'distance'> & { screenshot_hash: string })[] = [];
+  for (let from = 0; ; from += pageSize) {
+    const { data, error: pageError } = await client
+      .from('p100_submissions')
+      .select('id, username, killer_id, survivor_id, status, screenshot_url, submitted_at, screenshot_hash')
+      .in('status', ['pending', 'approved'])
+      .is('deleted_at', null)
+      .not('screenshot_hash', 'is', null)
+      .order('id')
+      .range(from, from + pageSize - 1);
+    if (pageError) {
+      console.error('Error fetching screenshot hashes:', pageError);
+      throw new Error('Could not fetch screenshot hashes');
+    }
+    candidates.push(...(data || []));
+    if (!data || data.length < pageSize) break;
+  }
+
+  const matches: Record<string, ScreenshotMatch[]> = {};
+  for (const target of targets) {
+    const found = candidates
+      .filter(candidate => candidate.id !== target.id)
+      .map(({ screenshot_hash, ...candidate }) => ({ ...candidate, distance: screenshotHashDistance(target.screenshot_hash, screenshot_hash) }))
+      .filter(candidate => candidate.distance <= SCREENSHOT_HASH_MAX_DISTANCE)
+      .sort((a, b) => a.distance - b.distance);
+    if (found.length > 0) matches[target.id] = found;
+  }
+  return matches;
+}
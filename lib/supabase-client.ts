@@ -4,10 +4,10 @@ import { createClient as createSupabaseClient } from '@supabase/supabase-js';
 export type Database = {
   public: {
     Tables: {
-      killers: { Row: { id: string; name: string; image_url: string; order: number | null; background_image_url: string | null; created_at: string; updated_at: string; header_url: string | null; artist_urls: string[] | null; legacy_header_urls: string[] | null; }; Insert: { id: string; name: string; image_url: string; order?: number | null; background_image_url?: string | null; created_at?: string; updated_at?: string; header_url?: string | null; artist_urls?: string[] | null; legacy_header_urls?: string[] | null; }; Update: { id?: string; name?: string; image_url?: string; order?: number | null; background_image_url?: string | null; created_at?: string; updated_at?: string; header_url?: string | null; artist_urls?: string[] | null; legacy_header_urls?: string[] | null; }; };
-      survivors: { Row: { id: string; name: string; image_url: string; order_num: number | null; background_image_url: string | null; created_at: string; updated_at: string; header_url: string | null; artist_urls: string[] | null; legacy_header_urls: string[] | null; }; Insert: { id: string; name: string; image_url: string; order_num?: number | null; background_image_url?: string | null; created_at?: string; updated_at?: string; header_url?: string | null; artist_urls?: string[] | null; legacy_header_urls?: string[] | null; }; Update: { id?: string; name?: string; image_url?: string; order_num?: number | null; background_image_url?: string | null; created_at?: string; updated_at?: string; header_url?: string | null; artist_urls?: string[] | null; legacy_header_urls?: string[] | null; }; };
-      p100_players: { Row: { id: string; username: string; killer_id: string | null; survivor_id: string | null; added_at: string; p200: boolean | null; legacy: boolean | null; favorite: boolean | null; priority: number | null; }; Insert: { id?: string; username: string; killer_id?: string | null; survivor_id?: string | null; added_at?: string; p200: boolean | null; legacy?: boolean | null; favorite?: boolean | null; priority?: number | null; }; Update: { id?: string; username?: string; killer_id?: string | null; survivor_id?: string | null; added_at?: string; p200: boolean | null; legacy?: boolean | null; favorite?: boolean | null; priority?: number | null; }; };
-      p100_submissions: { Row: { id: string; username: string; killer_id: string | null; survivor_id: string | null; screenshot_url: string; status: 'pending' | 'approved' | 'rejected'; rejection_reason: string | null; submitted_at: string; reviewed_at: string | null; reviewed_by: string | null; created_at: string; updated_at: string; comment: string | null; legacy: boolean | null; }; Insert: { id?: string; username: string; killer_id?: string | null; survivor_id?: string | null; screenshot_url: string; status?: 'pending' | 'approved' | 'rejected'; rejection_reason?: string | null; submitted_at?: string; reviewed_at?: string | null; reviewed_by?: string | null; created_at?: string; updated_at?: string; comment?: string | null; legacy?: boolean | null; }; Update: { id?: string; username?: string; killer_id?: string | null; survivor_id?: string | null; screenshot_url?: string; status?: 'pending' | 'approved' | 'rejected'; rejection_reason?: string | null; submitted_at?: string; reviewed_at?: string | null; reviewed_by?: string | null; created_at?: string; updated_at?: string; comment?: string | null; legacy?: boolean | null; }; };
+      killers: { Row: { id: string; name: string; image_url: string; order: number | null; background_image_url: string | null; created_at: string; updated_at: string; header_url: string | null; artist_urls: string[] | null; legacy_header_urls: string[] | null; deleted_at: string | null; deleted_by: string | null; }; Insert: { id: string; name: string; image_url: string; order?: number | null; background_image_url?: string | null; created_at?: string; updated_at?: string; header_url?: string | null; artist_urls?: string[] | null; legacy_header_urls?: string[] | null; deleted_at?: string | null; deleted_by?: string | null; }; Update: { id?: string; name?: string; image_url?: string; order?: number | null; background_image_url?: string | null; created_at?: string; updated_at?: string; header_url?: string | null; artist_urls?: string[] | null; legacy_header_urls?: string[] | null; deleted_at?: string | null; deleted_by?: string | null; }; };
+      survivors: { Row: { id: string; name: string; image_url: string; order_num: number | null; background_image_url: string | null; created_at: string; updated_at: string; header_url: string | null; artist_urls: string[] | null; legacy_header_urls: string[] | null; deleted_at: string | null; deleted_by: string | null; }; Insert: { id: string; name: string; image_url: string; order_num?: number | null; background_image_url?: string | null; created_at?: string; updated_at?: string; header_url?: string | null; artist_urls?: string[] | null; legacy_header_urls?: string[] | null; deleted_at?: string | null; deleted_by?: string | null; }; Update: { id?: string; name?: string; image_url?: string; order_num?: number | null; background_image_url?: string | null; created_at?: string; updated_at?: string; header_url?: string | null; artist_urls?: string[] | null; legacy_header_urls?: string[] | null; deleted_at?: string | null; deleted_by?: string | null; }; };
+      p100_players: { Row: { id: string; username: string; killer_id: string | null; survivor_id: string | null; added_at: string; p200: boolean | null; legacy: boolean | null; favorite: boolean | null; priority: number | null; hidden: boolean; player_id: string | null; deleted_at: string | null; deleted_by: string | null; }; Insert: { id?: string; username: string; killer_id?: string | null; survivor_id?: string | null; added_at?: string; p200: boolean | null; legacy?: boolean | null; favorite?: boolean | null; priority?: number | null; hidden?: boolean; player_id?: string | null; deleted_at?: string | null; deleted_by?: string | null; }; Update: { id?: string; username?: string; killer_id?: string | null; survivor_id?: string | null; added_at?: string; p200: boolean | null; legacy?: boolean | null; favorite?: boolean | null; priority?: number | null; hidden?: boolean; player_id?: string | null; deleted_at?: string | null; deleted_by?: string | null; }; };
+      p100_submissions: { Row: { id: string; username: string; killer_id: string | null; survivor_id: string | null; screenshot_url: string | null; screenshot_purged_at: string | null; original_screenshot_path: string | null; tracking_code_hash: string | null; batch_id: string | null; claim_notes: string | null; claim_evidence_path: string | null; edited_at: string | null; status: 'pending' | 'approved' | 'rejected' | 'withdrawn'; rejection_reason: string | null; rejection_reason_id: string | null; submitted_at: string; reviewed_at: string | null; reviewed_by: string | null; created_at: string; updated_at: string; comment: string | null; legacy: boolean | null; p200: boolean; deleted_at: string | null; deleted_by: string | null; }; Insert: { id?: string; username: string; killer_id?: string | null; survivor_id?: string | null; screenshot_url?: string | null; screenshot_purged_at?: string | null; original_screenshot_path?: string | null; tracking_code_hash?: string | null; batch_id?: string | null; claim_notes?: string | null; claim_evidence_path?: string | null; edited_at?: string | null; status?: 'pending' | 'approved' | 'rejected' | 'withdrawn'; rejection_reason?: string | null; rejection_reason_id?: string | null; submitted_at?: string; reviewed_at?: string | null; reviewed_by?: string | null; created_at?: string; updated_at?: string; comment?: string | null; legacy?: boolean | null; p200?: boolean; deleted_at?: string | null; deleted_by?: string | null; }; Update: { id?: string; username?: string; killer_id?: string | null; survivor_id?: string | null; screenshot_url?: string | null; screenshot_purged_at?: string | null; original_screenshot_path?: string | null; tracking_code_hash?: string | null; batch_id?: string | null; claim_notes?: string | null; claim_evidence_path?: string | null; edited_at?: string | null; status?: 'pending' | 'approved' | 'rejected' | 'withdrawn'; rejection_reason?: string | null; rejection_reason_id?: string | null; submitted_at?: string; reviewed_at?: string | null; reviewed_by?: string | null; created_at?: string; updated_at?: string; comment?: string | null; legacy?: boolean | null; p200?: boolean; deleted_at?: string | null; deleted_by?: string | null; }; };
       artists: { Row: { id: string; name: string; url: string; platform: 'twitter' | 'instagram' | 'youtube'; slug: string; created_at: string; updated_at: string; }; Insert: { id?: string; name: string; url: string; platform: 'twitter' | 'instagram' | 'youtube'; created_at?: string; updated_at?: string; }; Update: { id?: string; name?: string; url?: string; platform?: 'twitter' | 'instagram' | 'youtube'; created_at?: string; updated_at?: string; }; };
     };
   };
@@ -66,9 +66,11 @@ export const createServerClient = () => {
   });
 };
 
+// Server only. The service role key has no NEXT_PUBLIC_ prefix, so it never
+// reaches the browser bundle and this throws if called from client code.
 export const createAdminClient = () => {
   const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
-  const supabaseServiceKey = process.env.NEXT_PUBLIC_SUPABASE_SERVICE_ROLE_KEY;
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
   
   if (!supabaseUrl || !supabaseServiceKey) {
     throw new Error('Supabase URL and service role key must be defined in environment variables');
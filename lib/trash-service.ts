@@ -0,0 +1,163 @@
+// lib/trash-service.ts
+// Soft delete, restore and purge for characters and P100 players.
+// A character delete cascades to its players and submissions using the same
+// deleted_at timestamp, so restoring the character brings back exactly that set.
+
+import { SupabaseClient } from '@supabase/supabase-js';
+
+export const TRASH_RETENTION_DAYS = 30;
+
+const PAGE_SIZE = 1000;
+
+export type TrashKind = 'killer' | 'survivor' | 'player';
+
+export interface TrashItem {
+  kind: TrashKind;
+  id: string;
+  label: string;
+  detail: string;
+  deleted_at: string;
+  deleted_by: string | null;
+  purgeable: boolean;
+}
+
+const characterColumn = (kind: 'killer' | 'survivor') => (kind === 'killer' ? 'killer_id' : 'survivor_id');
+
+const isPastRetention = (deletedAt: string) =>
+  Date.now() - new Date(deletedAt).getTime() >= TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+
+/**
+ * Moves a character, its P100 players and its submissions to the trash in one
+ * transaction (soft_delete_character).
+ * **Must be called with an admin client.**
+ * @returns The rows as they were before the delete, for the audit log.
+ */
+export async function softDeleteCharacter(supabaseClient: SupabaseClient, kind: 'killer' | 'survivor', characterId: string, actor: string) {
+  const { data, error } = await supabaseClient.rpc('soft_delete_character', {
+    p_kind: kind,
+    p_character_id: characterId,
+    p_actor: actor,
+  });
+  if (error || !data) {
+    console.error('Error deleting character:', error);
+    throw new Error(error?.message || `Could not delete ${kind}.`);
+  }
+  return data as { character: Record<string, unknown>; p100_player_ids: string[]; p100_submission_ids: string[] };
+}
+
+/**
+ * Moves a single P100 player entry to the trash.
+ * **Must be called with an admin client.**
+ */
+export async function softDeletePlayer(supabaseClient: SupabaseClient, playerId: string, actor: string) {
+  const { data, error } = await supabaseClient
+    .from('p100_players')
+    .update({ deleted_at: new Date().toISOString(), deleted_by: actor })
+    .eq('id', playerId)
+    .is('deleted_at', null)
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error deleting player:', error);
+    throw new Error('Could not delete player.');
+  }
+  return data;
+}
+
+async function fetchAll<T>(query: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await query(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+/**
+ * Lists everything in the trash, newest first. Players removed as part of a
+ * character delete are folded into that character's entry.
+ * **Must be called with an admin client.**
+ */
+export async function getTrash(supabaseClient: SupabaseClient): Promise<TrashItem[]> {
+  const [killers, survivors, players] = await Promise.all([
+    fetchAll((from, to) => supabaseClient.from('killers').select('id, name, deleted_at, deleted_by').not('deleted_at', 'is', null).order('id').range(from, to)),
+    fetchAll((from, to) => supabaseClient.from('survivors').select('id, name, deleted_at, deleted_by').not('deleted_at', 'is', null).order('id').range(from, to)),
+    fetchAll((from, to) => supabaseClient.from('p100_players').select('id, username, killer_id, survivor_id, deleted_at, deleted_by').not('deleted_at', 'is', null).order('id').range(from, to)),
+  ]).catch(error => {
+    console.error('Error fetching trash:', error);
+    throw new Error('Could not fetch trash.');
+  });
+
+  const items: TrashItem[] = [];
+  const cascaded = new Set<string>();
+
+  for (const kind of ['killer', 'survivor'] as const) {
+    const rows = kind === 'killer' ? killers : survivors;
+    const column = characterColumn(kind);
+    for (const row of rows) {
+      const related = players.filter((p: any) => p[column] === row.id && p.deleted_at === row.deleted_at);
+      related.forEach((p: any) => cascaded.add(p.id));
+      items.push({
+        kind,
+        id: row.id,
+        label: row.name,
+        detail: `${kind === 'killer' ? 'Killer' : 'Survivor'} with ${related.length} P100 player(s)`,
+        deleted_at: row.deleted_at,
+        deleted_by: row.deleted_by,
+        purgeable: isPastRetention(row.deleted_at),
+      });
+    }
+  }
+
+  for (const player of players) {
+    if (cascaded.has(player.id)) continue;
+    items.push({
+      kind: 'player',
+      id: player.id,
+      label: player.username,
+      detail: `P100 on ${player.killer_id || player.survivor_id}`,
+      deleted_at: player.deleted_at,
+      deleted_by: player.deleted_by,
+      purgeable: isPastRetention(player.deleted_at),
+    });
+  }
+
+  return items.sort((a, b) => new Date(b.deleted_at).getTime() - new Date(a.deleted_at).getTime());
+}
+
+/**
+ * Restores a trashed row in one transaction (restore_trash_item). Restoring a
+ * character also restores the players and submissions that were deleted with it.
+ * **Must be called with an admin client.**
+ * @returns The row as it was in the trash, for the audit log.
+ */
+export async function restoreTrashItem(supabaseClient: SupabaseClient, kind: TrashKind, id: string) {
+  const { data, error } = await supabaseClient.rpc('restore_trash_item', { p_kind: kind, p_id: id });
+  if (error || !data) {
+    console.error('Error restoring trash item:', error);
+    throw new Error(error?.message || 'Could not restore.');
+  }
+  return data as Record<string, unknown>;
+}
+
+/**
+ * Permanently deletes a trashed row once it is past TRASH_RETENTION_DAYS, in
+ * one transaction (purge_trash_item). Purging a character removes all of its
+ * players and submissions.
+ * **Must be called with an admin client.**
+ * @returns The rows that were removed, for the audit log.
+ */
+export async function purgeTrashItem(supabaseClient: SupabaseClient, kind: TrashKind, id: string) {
+  const { data, error } = await supabaseClient.rpc('purge_trash_item', {
+    p_kind: kind,
+    p_id: id,
+    p_retention_days: TRASH_RETENTION_DAYS,
+  });
+  if (error || !data) {
+    console.error('Error purging trash item:', error);
+    throw new Error(error?.message || 'Could not purge.');
+  }
+  return data as Record<string, unknown>;
+}
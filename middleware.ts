@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ADMIN_SESSION_COOKIE, verifyAdminSessionToken } from '@/lib/admin-auth';
+
+const ADMIN_PAGE_PATH = '/admin-panel-x8k2m9p7';
+const PUBLIC_ADMIN_ROUTES = ['/api/admin/login', '/api/admin/logout', '/api/admin/session'];
+
+export async function middleware(request: NextRequest) {
+  const { pathname } = request.nextUrl;
+
+  if (PUBLIC_ADMIN_ROUTES.includes(pathname)) {
+    return NextResponse.next();
+  }
+
+  // The admin page itself renders the login form, so plain page loads pass through.
+  // Server actions are POSTs to the page URL carrying a `Next-Action` header and must be authenticated.
+  const isPageRender = pathname === ADMIN_PAGE_PATH && request.method === 'GET' && !request.headers.has('next-action');
+  if (isPageRender) {
+    return NextResponse.next();
+  }
+
+  const session = await verifyAdminSessionToken(request.cookies.get(ADMIN_SESSION_COOKIE)?.value);
+  if (!session) {
+    return NextResponse.json({ success: false, message: 'Unauthorized' }, { status: 401 });
+  }
+  return NextResponse.next();
+}
+
+export const config = {
+  matcher: ['/admin-panel-x8k2m9p7/:path*', '/api/admin/:path*'],
+};
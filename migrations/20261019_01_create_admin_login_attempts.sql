@@ -0,0 +1,39 @@
+-- Server-side lockout state for the admin login route
+CREATE TABLE IF NOT EXISTS public.admin_login_attempts (
+  ip TEXT PRIMARY KEY,
+  failed_count INTEGER NOT NULL DEFAULT 0,
+  last_failed_at TIMESTAMPTZ,
+  locked_until TIMESTAMPTZ
+);
+
+-- Enable RLS for security
+ALTER TABLE public.admin_login_attempts ENABLE ROW LEVEL SECURITY;
+
+-- Only the service role (login route) may read or write lockout state
+CREATE POLICY "Service role can manage login attempts"
+  ON public.admin_login_attempts FOR ALL
+  USING (auth.role() = 'service_role');
+
+-- Counts one failed login for an IP and starts a lockout once p_max_attempts
+-- is reached. A single upsert, so concurrent attempts cannot both read a stale
+-- count. The next failure after a lock expires starts counting from 1 again.
+CREATE OR REPLACE FUNCTION public.record_failed_admin_login(p_ip TEXT, p_max_attempts INTEGER, p_lockout_seconds INTEGER)
+RETURNS TABLE (attempt_count INTEGER, lock_expires_at TIMESTAMPTZ)
+LANGUAGE sql
+AS $$
+  INSERT INTO public.admin_login_attempts AS a (ip, failed_count, last_failed_at, locked_until)
+  VALUES (p_ip, 1, NOW(), CASE WHEN p_max_attempts <= 1 THEN NOW() + make_interval(secs => p_lockout_seconds) END)
+  ON CONFLICT (ip) DO UPDATE SET
+    failed_count = CASE WHEN a.locked_until <= NOW() THEN 1 ELSE a.failed_count + 1 END,
+    last_failed_at = NOW(),
+    locked_until = CASE
+      WHEN a.locked_until > NOW() THEN a.locked_until
+      WHEN (CASE WHEN a.locked_until IS NULL THEN a.failed_count + 1 ELSE 1 END) >= p_max_attempts
+        THEN NOW() + make_interval(secs => p_lockout_seconds)
+      ELSE NULL
+    END
+  RETURNING a.failed_count, a.locked_until;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_failed_admin_login(TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_failed_admin_login(TEXT, INTEGER, INTEGER) TO service_role;
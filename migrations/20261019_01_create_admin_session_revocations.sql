@@ -0,0 +1,17 @@
+-- Admin sessions ended by logging out. Session cookies are signed tokens, so
+-- clearing the cookie alone would leave a copied token valid until it expires.
+CREATE TABLE IF NOT EXISTS public.admin_session_revocations (
+  jti TEXT PRIMARY KEY,
+  expires_at TIMESTAMPTZ NOT NULL,
+  revoked_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_admin_session_revocations_expires_at ON public.admin_session_revocations (expires_at);
+
+-- Enable RLS for security
+ALTER TABLE public.admin_session_revocations ENABLE ROW LEVEL SECURITY;
+
+-- Only the service role (logout route, admin guard) may read or write revocations
+CREATE POLICY "Service role can manage admin session revocations"
+  ON public.admin_session_revocations FOR ALL
+  USING (auth.role() = 'service_role');
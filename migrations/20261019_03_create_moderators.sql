@@ -0,0 +1,20 @@
+-- Moderator accounts for the admin panel
+CREATE TABLE IF NOT EXISTS public.moderators (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  username TEXT NOT NULL UNIQUE,
+  password_hash TEXT NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('owner', 'reviewer', 'art_curator')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_login_at TIMESTAMPTZ
+);
+
+-- Usernames are matched case-insensitively at login
+CREATE UNIQUE INDEX IF NOT EXISTS idx_moderators_username_lower ON public.moderators (LOWER(username));
+
+-- Enable RLS for security
+ALTER TABLE public.moderators ENABLE ROW LEVEL SECURITY;
+
+-- Password hashes must never be readable with the anon key
+CREATE POLICY "Service role can manage moderators"
+  ON public.moderators FOR ALL
+  USING (auth.role() = 'service_role');
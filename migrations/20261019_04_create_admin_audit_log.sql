@@ -0,0 +1,24 @@
+-- Append-only record of every change made through the admin panel
+CREATE TABLE IF NOT EXISTS public.admin_audit_log (
+  id BIGSERIAL PRIMARY KEY,
+  actor TEXT NOT NULL,              -- moderator username at the time of the action
+  actor_id TEXT NOT NULL,           -- moderator id, or 'admin' for the bootstrap login
+  action TEXT NOT NULL,             -- e.g. 'delete_character', 'blacklist_add'
+  table_name TEXT NOT NULL,
+  record_id TEXT,
+  before_data JSONB,
+  after_data JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_created_at ON public.admin_audit_log (created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_actor ON public.admin_audit_log (actor);
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_table_name ON public.admin_audit_log (table_name);
+
+-- Enable RLS for security
+ALTER TABLE public.admin_audit_log ENABLE ROW LEVEL SECURITY;
+
+-- Only the service role (admin server actions) may read or write the log
+CREATE POLICY "Service role can manage audit log"
+  ON public.admin_audit_log FOR ALL
+  USING (auth.role() = 'service_role');
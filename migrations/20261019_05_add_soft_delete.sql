@@ -0,0 +1,268 @@
+-- Soft delete for characters, players and submissions.
+-- Rows with deleted_at set are hidden from the public site and listed in the
+-- admin Trash tab until they are restored or purged.
+ALTER TABLE public.killers ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+ALTER TABLE public.killers ADD COLUMN IF NOT EXISTS deleted_by TEXT;
+
+ALTER TABLE public.survivors ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+ALTER TABLE public.survivors ADD COLUMN IF NOT EXISTS deleted_by TEXT;
+
+ALTER TABLE public.p100_players ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+ALTER TABLE public.p100_players ADD COLUMN IF NOT EXISTS deleted_by TEXT;
+
+ALTER TABLE public.p100_submissions ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+ALTER TABLE public.p100_submissions ADD COLUMN IF NOT EXISTS deleted_by TEXT;
+
+-- Trash listings only ever look at deleted rows
+CREATE INDEX IF NOT EXISTS idx_killers_deleted_at ON public.killers (deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_survivors_deleted_at ON public.survivors (deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_p100_players_deleted_at ON public.p100_players (deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_p100_submissions_deleted_at ON public.p100_submissions (deleted_at) WHERE deleted_at IS NOT NULL;
+
+-- Public read functions, now skipping soft-deleted rows. Each is dropped first
+-- because its return type may differ from the version created in the dashboard.
+DROP FUNCTION IF EXISTS public.search_players(TEXT);
+CREATE OR REPLACE FUNCTION public.search_players(search_term TEXT)
+RETURNS TABLE (username TEXT, "p100Count" BIGINT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p.username, COUNT(*) AS "p100Count"
+  FROM public.p100_players AS p
+  WHERE p.deleted_at IS NULL
+    AND p.username ILIKE '%' || REPLACE(REPLACE(REPLACE(search_term, '\', '\\'), '%', '\%'), '_', '\_') || '%'
+  GROUP BY p.username
+  ORDER BY
+    LOWER(p.username) = LOWER(search_term) DESC,
+    STARTS_WITH(LOWER(p.username), LOWER(search_term)) DESC,
+    COUNT(*) DESC,
+    p.username
+  LIMIT 10;
+$$;
+
+-- One player with 5+ unique P100s, picked per day from a hash of the date so
+-- every visitor sees the same highlight.
+DROP FUNCTION IF EXISTS public.get_highlight_of_the_day();
+CREATE OR REPLACE FUNCTION public.get_highlight_of_the_day()
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH eligible AS (
+    SELECT p.username, COUNT(DISTINCT COALESCE('k:' || p.killer_id, 's:' || p.survivor_id)) AS p100_count
+    FROM public.p100_players AS p
+    WHERE p.deleted_at IS NULL
+    GROUP BY p.username
+    HAVING COUNT(DISTINCT COALESCE('k:' || p.killer_id, 's:' || p.survivor_id)) >= 5
+  ),
+  pick AS (
+    SELECT username, p100_count FROM eligible ORDER BY MD5(username || CURRENT_DATE::TEXT) LIMIT 1
+  )
+  SELECT jsonb_build_object(
+    'username', pick.username,
+    'p100Count', pick.p100_count,
+    'killers', (
+      SELECT jsonb_agg(jsonb_build_object('id', k.id, 'name', k.name, 'image_url', k.image_url, 'added_at', p.added_at) ORDER BY p.added_at)
+      FROM public.p100_players AS p
+      JOIN public.killers AS k ON k.id = p.killer_id AND k.deleted_at IS NULL
+      WHERE p.username = pick.username AND p.deleted_at IS NULL
+    ),
+    'survivors', (
+      SELECT jsonb_agg(jsonb_build_object('id', s.id, 'name', s.name, 'image_url', s.image_url, 'added_at', p.added_at) ORDER BY p.added_at)
+      FROM public.p100_players AS p
+      JOIN public.survivors AS s ON s.id = p.survivor_id AND s.deleted_at IS NULL
+      WHERE p.username = pick.username AND p.deleted_at IS NULL
+    )
+  )
+  FROM pick;
+$$;
+
+-- Counts for the admin dashboard; trashed submissions are not counted.
+DROP FUNCTION IF EXISTS public.get_submission_stats();
+CREATE OR REPLACE FUNCTION public.get_submission_stats()
+RETURNS TABLE (total BIGINT, pending BIGINT, approved BIGINT, rejected BIGINT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    COUNT(*),
+    COUNT(*) FILTER (WHERE s.status = 'pending'),
+    COUNT(*) FILTER (WHERE s.status = 'approved'),
+    COUNT(*) FILTER (WHERE s.status = 'rejected')
+  FROM public.p100_submissions AS s
+  WHERE s.deleted_at IS NULL;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_players(TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_highlight_of_the_day() TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_submission_stats() TO anon, authenticated;
+
+-- Trash operations for the admin panel. Each runs in one transaction, so a
+-- character and the players and submissions deleted with it always move
+-- together. The character row is locked first so concurrent calls queue up.
+
+-- Moves a character, its P100 players and its submissions to the trash, all
+-- stamped with the same deleted_at so a restore brings back exactly that set.
+CREATE OR REPLACE FUNCTION public.soft_delete_character(p_kind TEXT, p_character_id TEXT, p_actor TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_now TIMESTAMPTZ := NOW();
+  v_character JSONB;
+  v_player_ids UUID[];
+  v_submission_ids UUID[];
+BEGIN
+  IF p_kind NOT IN ('killer', 'survivor') THEN
+    RAISE EXCEPTION 'Invalid character kind: %', p_kind USING ERRCODE = '22023';
+  END IF;
+
+  EXECUTE format('SELECT to_jsonb(c) FROM public.%I AS c WHERE c.id = $1 AND c.deleted_at IS NULL FOR UPDATE', p_kind || 's')
+    INTO v_character USING p_character_id;
+  IF v_character IS NULL THEN
+    RAISE EXCEPTION 'Could not find % "%".', p_kind, p_character_id USING ERRCODE = 'P0002';
+  END IF;
+
+  WITH changed AS (
+    UPDATE public.p100_players SET deleted_at = v_now, deleted_by = p_actor
+    WHERE ((p_kind = 'killer' AND killer_id = p_character_id) OR (p_kind = 'survivor' AND survivor_id = p_character_id))
+      AND deleted_at IS NULL
+    RETURNING id
+  )
+  SELECT COALESCE(array_agg(id), '{}') INTO v_player_ids FROM changed;
+
+  WITH changed AS (
+    UPDATE public.p100_submissions SET deleted_at = v_now, deleted_by = p_actor
+    WHERE ((p_kind = 'killer' AND killer_id = p_character_id) OR (p_kind = 'survivor' AND survivor_id = p_character_id))
+      AND deleted_at IS NULL
+    RETURNING id
+  )
+  SELECT COALESCE(array_agg(id), '{}') INTO v_submission_ids FROM changed;
+
+  EXECUTE format('UPDATE public.%I SET deleted_at = $1, deleted_by = $2 WHERE id = $3', p_kind || 's')
+    USING v_now, p_actor, p_character_id;
+
+  RETURN jsonb_build_object(
+    'character', v_character,
+    'p100_player_ids', to_jsonb(v_player_ids),
+    'p100_submission_ids', to_jsonb(v_submission_ids)
+  );
+END;
+$$;
+
+-- Restores a trashed player, or a character together with the players and
+-- submissions deleted with it. Returns the row as it was in the trash.
+CREATE OR REPLACE FUNCTION public.restore_trash_item(p_kind TEXT, p_id TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_player public.p100_players%ROWTYPE;
+  v_character JSONB;
+  v_deleted_at TIMESTAMPTZ;
+BEGIN
+  IF p_kind = 'player' THEN
+    SELECT * INTO v_player FROM public.p100_players WHERE id = p_id::UUID AND deleted_at IS NOT NULL FOR UPDATE;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Could not find player.' USING ERRCODE = 'P0002';
+    END IF;
+    EXECUTE format('SELECT deleted_at FROM public.%I WHERE id = $1', CASE WHEN v_player.killer_id IS NOT NULL THEN 'killers' ELSE 'survivors' END)
+      INTO v_deleted_at USING COALESCE(v_player.killer_id, v_player.survivor_id);
+    IF v_deleted_at IS NOT NULL THEN
+      RAISE EXCEPTION 'Restore the character this player belongs to first.' USING ERRCODE = '55000';
+    END IF;
+    UPDATE public.p100_players SET deleted_at = NULL, deleted_by = NULL WHERE id = v_player.id;
+    RETURN to_jsonb(v_player);
+  END IF;
+
+  IF p_kind NOT IN ('killer', 'survivor') THEN
+    RAISE EXCEPTION 'Invalid trash kind: %', p_kind USING ERRCODE = '22023';
+  END IF;
+
+  EXECUTE format('SELECT to_jsonb(c), c.deleted_at FROM public.%I AS c WHERE c.id = $1 AND c.deleted_at IS NOT NULL FOR UPDATE', p_kind || 's')
+    INTO v_character, v_deleted_at USING p_id;
+  IF v_character IS NULL THEN
+    RAISE EXCEPTION 'Could not find deleted % "%".', p_kind, p_id USING ERRCODE = 'P0002';
+  END IF;
+
+  UPDATE public.p100_players SET deleted_at = NULL, deleted_by = NULL
+  WHERE ((p_kind = 'killer' AND killer_id = p_id) OR (p_kind = 'survivor' AND survivor_id = p_id))
+    AND deleted_at = v_deleted_at;
+  UPDATE public.p100_submissions SET deleted_at = NULL, deleted_by = NULL
+  WHERE ((p_kind = 'killer' AND killer_id = p_id) OR (p_kind = 'survivor' AND survivor_id = p_id))
+    AND deleted_at = v_deleted_at;
+  EXECUTE format('UPDATE public.%I SET deleted_at = NULL, deleted_by = NULL WHERE id = $1', p_kind || 's') USING p_id;
+
+  RETURN v_character;
+END;
+$$;
+
+-- Permanently deletes a trashed row once it has been in the trash for
+-- p_retention_days. Purging a character removes all of its players and
+-- submissions. Returns the removed rows for the audit log.
+CREATE OR REPLACE FUNCTION public.purge_trash_item(p_kind TEXT, p_id TEXT, p_retention_days INTEGER)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_player public.p100_players%ROWTYPE;
+  v_character JSONB;
+  v_deleted_at TIMESTAMPTZ;
+  v_players JSONB;
+  v_submissions JSONB;
+BEGIN
+  IF p_kind = 'player' THEN
+    SELECT * INTO v_player FROM public.p100_players WHERE id = p_id::UUID AND deleted_at IS NOT NULL FOR UPDATE;
+    v_deleted_at := v_player.deleted_at;
+  ELSIF p_kind IN ('killer', 'survivor') THEN
+    EXECUTE format('SELECT to_jsonb(c), c.deleted_at FROM public.%I AS c WHERE c.id = $1 AND c.deleted_at IS NOT NULL FOR UPDATE', p_kind || 's')
+      INTO v_character, v_deleted_at USING p_id;
+  ELSE
+    RAISE EXCEPTION 'Invalid trash kind: %', p_kind USING ERRCODE = '22023';
+  END IF;
+
+  IF v_deleted_at IS NULL THEN
+    RAISE EXCEPTION 'Could not find that item in the trash.' USING ERRCODE = 'P0002';
+  END IF;
+  IF v_deleted_at > NOW() - make_interval(days => p_retention_days) THEN
+    RAISE EXCEPTION 'Items can only be purged % days after deletion.', p_retention_days USING ERRCODE = '55000';
+  END IF;
+
+  IF p_kind = 'player' THEN
+    DELETE FROM public.p100_players WHERE id = v_player.id;
+    RETURN jsonb_build_object('player', to_jsonb(v_player));
+  END IF;
+
+  WITH removed AS (
+    DELETE FROM public.p100_players
+    WHERE (p_kind = 'killer' AND killer_id = p_id) OR (p_kind = 'survivor' AND survivor_id = p_id)
+    RETURNING *
+  )
+  SELECT COALESCE(jsonb_agg(to_jsonb(removed)), '[]') INTO v_players FROM removed;
+
+  WITH removed AS (
+    DELETE FROM public.p100_submissions
+    WHERE (p_kind = 'killer' AND killer_id = p_id) OR (p_kind = 'survivor' AND survivor_id = p_id)
+    RETURNING *
+  )
+  SELECT COALESCE(jsonb_agg(to_jsonb(removed)), '[]') INTO v_submissions FROM removed;
+
+  EXECUTE format('DELETE FROM public.%I WHERE id = $1', p_kind || 's') USING p_id;
+
+  RETURN jsonb_build_object('character', v_character, 'p100_players', v_players, 'p100_submissions', v_submissions);
+END;
+$$;
+
+-- Only the service role (admin server actions) may move rows in and out of the trash
+REVOKE ALL ON FUNCTION public.soft_delete_character(TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.soft_delete_character(TEXT, TEXT, TEXT) TO service_role;
+REVOKE ALL ON FUNCTION public.restore_trash_item(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.restore_trash_item(TEXT, TEXT) TO service_role;
+REVOKE ALL ON FUNCTION public.purge_trash_item(TEXT, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.purge_trash_item(TEXT, TEXT, INTEGER) TO service_role;
@@ -0,0 +1,91 @@
+-- Atomic approve/reject for P100 submissions.
+-- Approving creates (or updates) the matching p100_players row in the same
+-- transaction, so a submission can no longer end up approved without a player.
+
+ALTER TABLE public.p100_submissions ADD COLUMN IF NOT EXISTS p200 BOOLEAN NOT NULL DEFAULT FALSE;
+
+CREATE OR REPLACE FUNCTION public.review_submission(
+  p_submission_id UUID,
+  p_status TEXT,
+  p_rejection_reason TEXT,
+  p_reviewer TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_submission public.p100_submissions%ROWTYPE;
+  v_player_id UUID;
+  v_player_created BOOLEAN := FALSE;
+BEGIN
+  IF p_status NOT IN ('approved', 'rejected') THEN
+    RAISE EXCEPTION 'Invalid status: %', p_status USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_submission
+  FROM public.p100_submissions
+  WHERE id = p_submission_id AND deleted_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Submission % not found', p_submission_id USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Checked under the row lock, so a submission reviewed by someone else
+  -- in the meantime is never reviewed twice.
+  IF v_submission.status IS DISTINCT FROM 'pending' THEN
+    RAISE EXCEPTION 'This submission was already %.', v_submission.status USING ERRCODE = '55000';
+  END IF;
+
+  UPDATE public.p100_submissions
+  SET status = p_status,
+      rejection_reason = CASE WHEN p_status = 'rejected' THEN p_rejection_reason ELSE NULL END,
+      reviewed_at = NOW(),
+      reviewed_by = p_reviewer
+  WHERE id = p_submission_id
+  RETURNING * INTO v_submission;
+
+  IF p_status = 'approved' THEN
+    SELECT id INTO v_player_id
+    FROM public.p100_players
+    WHERE username = v_submission.username
+      AND deleted_at IS NULL
+      AND (
+        (v_submission.killer_id IS NOT NULL AND killer_id = v_submission.killer_id) OR
+        (v_submission.survivor_id IS NOT NULL AND survivor_id = v_submission.survivor_id)
+      )
+    LIMIT 1
+    FOR UPDATE;
+
+    IF v_player_id IS NULL THEN
+      INSERT INTO public.p100_players (username, killer_id, survivor_id, p200, legacy, favorite)
+      VALUES (
+        v_submission.username,
+        v_submission.killer_id,
+        v_submission.survivor_id,
+        COALESCE(v_submission.p200, FALSE),
+        COALESCE(v_submission.legacy, FALSE),
+        FALSE
+      )
+      RETURNING id INTO v_player_id;
+      v_player_created := TRUE;
+    ELSIF COALESCE(v_submission.p200, FALSE) OR COALESCE(v_submission.legacy, FALSE) THEN
+      -- An approved P200 or legacy claim upgrades an existing P100 entry
+      UPDATE public.p100_players
+      SET p200 = COALESCE(p200, FALSE) OR COALESCE(v_submission.p200, FALSE),
+          legacy = COALESCE(legacy, FALSE) OR COALESCE(v_submission.legacy, FALSE)
+      WHERE id = v_player_id;
+    END IF;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'submission', to_jsonb(v_submission),
+    'player_id', v_player_id,
+    'player_created', v_player_created
+  );
+END;
+$$;
+
+-- Only the service role (admin server actions) may review submissions
+REVOKE ALL ON FUNCTION public.review_submission(UUID, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.review_submission(UUID, TEXT, TEXT, TEXT) TO service_role;
@@ -0,0 +1,16 @@
+-- Public submissions now go through POST /api/submissions, which runs the
+-- blacklist and duplicate checks and writes with the service role. Take away
+-- the direct write path so those checks cannot be skipped.
+REVOKE INSERT, UPDATE, DELETE ON public.p100_submissions FROM anon, authenticated;
+
+-- Uploads to the screenshots bucket are also done by the route only (the
+-- service role bypasses storage RLS). Drop the bucket's public write policies
+-- by name; its public read policy stays so screenshots keep loading, and
+-- policies for other buckets are left alone.
+DROP POLICY IF EXISTS "Anyone can upload screenshots" ON storage.objects;
+DROP POLICY IF EXISTS "Anyone can update screenshots" ON storage.objects;
+DROP POLICY IF EXISTS "Anyone can delete screenshots" ON storage.objects;
+
+CREATE POLICY "Service role can manage screenshots" ON storage.objects
+  FOR ALL USING (bucket_id = 'screenshots' AND auth.role() = 'service_role')
+  WITH CHECK (bucket_id = 'screenshots' AND auth.role() = 'service_role');
@@ -0,0 +1,50 @@
+-- Fixed-window counters for the public submission rate limits
+CREATE TABLE IF NOT EXISTS public.rate_limit_hits (
+  key TEXT PRIMARY KEY,
+  count INTEGER NOT NULL DEFAULT 0,
+  window_start TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Enable RLS for security
+ALTER TABLE public.rate_limit_hits ENABLE ROW LEVEL SECURITY;
+
+-- Only the service role (submission route) may read or write counters
+CREATE POLICY "Service role can manage rate limit hits"
+  ON public.rate_limit_hits FOR ALL
+  USING (auth.role() = 'service_role');
+
+-- Counts p_hits hits for a key and returns the count in the current window.
+-- The upsert is a single statement, so concurrent requests cannot both read a
+-- stale count.
+CREATE OR REPLACE FUNCTION public.rate_limit_hit(p_key TEXT, p_window_seconds INTEGER, p_hits INTEGER DEFAULT 1)
+RETURNS TABLE (hit_count INTEGER, window_start TIMESTAMPTZ)
+LANGUAGE sql
+AS $$
+  INSERT INTO public.rate_limit_hits AS r (key, count, window_start)
+  VALUES (p_key, p_hits, NOW())
+  ON CONFLICT (key) DO UPDATE SET
+    count = CASE WHEN r.window_start <= NOW() - make_interval(secs => p_window_seconds) THEN p_hits ELSE r.count + p_hits END,
+    window_start = CASE WHEN r.window_start <= NOW() - make_interval(secs => p_window_seconds) THEN NOW() ELSE r.window_start END
+  RETURNING r.count, r.window_start;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.rate_limit_hit(TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.rate_limit_hit(TEXT, INTEGER, INTEGER) TO service_role;
+
+-- Key/value settings editable from the admin panel
+CREATE TABLE IF NOT EXISTS public.app_settings (
+  key TEXT PRIMARY KEY,
+  value JSONB NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_by TEXT
+);
+
+ALTER TABLE public.app_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage app settings"
+  ON public.app_settings FOR ALL
+  USING (auth.role() = 'service_role');
+
+INSERT INTO public.app_settings (key, value) VALUES
+  ('submission_rate_limits', '{"perIp": 10, "perUsername": 5, "windowMinutes": 60}')
+ON CONFLICT (key) DO NOTHING;
@@ -0,0 +1,6 @@
+-- Perceptual hash (dHash, 16 hex characters) of each submitted screenshot, used
+-- to flag the same lobby screenshot being reused for other usernames or characters
+ALTER TABLE public.p100_submissions ADD COLUMN IF NOT EXISTS screenshot_hash TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_p100_submissions_screenshot_hash
+  ON public.p100_submissions (status) WHERE screenshot_hash IS NOT NULL AND deleted_at IS NULL;
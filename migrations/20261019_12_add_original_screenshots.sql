@@ -0,0 +1,9 @@
+-- Screenshots are now re-encoded to WebP without metadata before they go into
+-- the public screenshots bucket. The untouched upload is kept in a private
+-- bucket only until the submission is reviewed, then deleted.
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('screenshot-originals', 'screenshot-originals', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- Path inside screenshot-originals; cleared once the original is deleted
+ALTER TABLE public.p100_submissions ADD COLUMN IF NOT EXISTS original_screenshot_path TEXT;
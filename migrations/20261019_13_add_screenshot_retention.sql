@@ -0,0 +1,21 @@
+-- Screenshot retention: reviewed screenshots are deleted N days after review
+-- by the /api/cron/screenshot-retention job. A purged submission has
+-- screenshot_url NULL and screenshot_purged_at set, instead of an empty string.
+ALTER TABLE public.p100_submissions ALTER COLUMN screenshot_url DROP NOT NULL;
+ALTER TABLE public.p100_submissions ADD COLUMN IF NOT EXISTS screenshot_purged_at TIMESTAMPTZ;
+
+-- Screenshots deleted by hand before this change were blanked to ''
+UPDATE public.p100_submissions
+SET screenshot_url = NULL,
+    screenshot_purged_at = COALESCE(reviewed_at, NOW())
+WHERE screenshot_url = '';
+
+-- The job looks for reviewed submissions that still have a screenshot
+CREATE INDEX IF NOT EXISTS idx_p100_submissions_retention
+  ON public.p100_submissions (status, reviewed_at)
+  WHERE screenshot_purged_at IS NULL AND screenshot_url IS NOT NULL;
+
+-- Off until configured in the admin Settings tab (0 keeps screenshots forever)
+INSERT INTO public.app_settings (key, value) VALUES
+  ('screenshot_retention', '{"approvedDays": 0, "rejectedDays": 0}')
+ON CONFLICT (key) DO NOTHING;
@@ -0,0 +1,26 @@
+-- Private tracking codes for the public status page. Only the SHA-256 hash of
+-- the code is stored; the submitter sees the code once after submitting.
+ALTER TABLE public.p100_submissions ADD COLUMN IF NOT EXISTS tracking_code_hash TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_p100_submissions_tracking_code_hash
+  ON public.p100_submissions (tracking_code_hash) WHERE tracking_code_hash IS NOT NULL;
+
+-- Status lookups now go through /api/submissions/status. The public site only
+-- needs the columns behind "Recent P100s", so anon loses access to rejection
+-- reasons, comments, screenshots and tracking hashes.
+REVOKE SELECT ON public.p100_submissions FROM anon;
+GRANT SELECT (id, username, killer_id, survivor_id, status, submitted_at, reviewed_at, deleted_at)
+  ON public.p100_submissions TO anon;
+
+-- The column grant still let anon list who submitted what while it was
+-- pending or rejected. Limit anon to approved, live rows; the restrictive
+-- policy applies on top of whatever read policy the table already has.
+ALTER TABLE public.p100_submissions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read approved submissions" ON public.p100_submissions
+  FOR SELECT TO anon
+  USING (status = 'approved' AND deleted_at IS NULL);
+
+CREATE POLICY "Anon can only read approved submissions" ON public.p100_submissions
+  AS RESTRICTIVE FOR SELECT TO anon
+  USING (status = 'approved' AND deleted_at IS NULL);
@@ -0,0 +1,6 @@
+-- Several P100s submitted in one form become separate rows sharing a batch_id,
+-- so moderators can pull up and review the whole batch together.
+ALTER TABLE public.p100_submissions ADD COLUMN IF NOT EXISTS batch_id UUID;
+
+CREATE INDEX IF NOT EXISTS idx_p100_submissions_batch_id
+  ON public.p100_submissions (batch_id) WHERE batch_id IS NOT NULL;
@@ -0,0 +1,6 @@
+-- P200 / legacy claims from the public submission form. The flags reuse the
+-- existing p200 and legacy columns, which review_submission copies into
+-- p100_players on approval. The evidence screenshot lives in the private
+-- screenshot-originals bucket and is deleted after review, like the original.
+ALTER TABLE public.p100_submissions ADD COLUMN IF NOT EXISTS claim_notes TEXT;
+ALTER TABLE public.p100_submissions ADD COLUMN IF NOT EXISTS claim_evidence_path TEXT;
@@ -0,0 +1,110 @@
+-- Old usernames of players who renamed. The profile page redirects an alias
+-- to its canonical username; merge_player_usernames moves all rows across.
+CREATE TABLE IF NOT EXISTS public.player_aliases (
+  alias TEXT PRIMARY KEY,
+  canonical_username TEXT NOT NULL,
+  merged_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  merged_by TEXT
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_player_aliases_alias_lower ON public.player_aliases (LOWER(alias));
+CREATE INDEX IF NOT EXISTS idx_player_aliases_canonical ON public.player_aliases (canonical_username);
+
+ALTER TABLE public.player_aliases ENABLE ROW LEVEL SECURITY;
+
+-- Aliases are public: profile pages read them to redirect old links.
+CREATE POLICY "Anyone can read player aliases" ON public.player_aliases
+  FOR SELECT USING (true);
+
+CREATE POLICY "Service role can manage player aliases" ON public.player_aliases
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- Moves every p100_players and p100_submissions row from p_from to p_to in one
+-- transaction. Usernames are matched case-insensitively, and trashed rows move
+-- too so restoring them later does not bring back the old name. A live
+-- character both names have is combined into the p_to row, keeping any flag
+-- either row had. Aliases that pointed at p_from are repointed.
+CREATE OR REPLACE FUNCTION public.merge_player_usernames(
+  p_from TEXT,
+  p_to TEXT,
+  p_actor TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_row public.p100_players%ROWTYPE;
+  v_target_id UUID;
+  v_moved INTEGER := 0;
+  v_merged INTEGER := 0;
+  v_submissions INTEGER := 0;
+  v_repointed INTEGER := 0;
+  v_canonical TEXT;
+BEGIN
+  p_from := BTRIM(p_from);
+  p_to := BTRIM(p_to);
+  IF p_from = '' OR p_to = '' THEN
+    RAISE EXCEPTION 'Both usernames are required' USING ERRCODE = '22023';
+  END IF;
+  IF LOWER(p_from) = LOWER(p_to) THEN
+    RAISE EXCEPTION 'Cannot merge a username into itself' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT canonical_username INTO v_canonical FROM public.player_aliases WHERE LOWER(alias) = LOWER(p_to);
+  IF FOUND THEN
+    RAISE EXCEPTION '"%" is an old name of "%"; merge into "%" instead', p_to, v_canonical, v_canonical USING ERRCODE = '22023';
+  END IF;
+
+  FOR v_row IN
+    SELECT * FROM public.p100_players WHERE LOWER(username) = LOWER(p_from) FOR UPDATE
+  LOOP
+    v_target_id := NULL;
+    IF v_row.deleted_at IS NULL THEN
+      SELECT id INTO v_target_id
+      FROM public.p100_players
+      WHERE LOWER(username) = LOWER(p_to)
+        AND deleted_at IS NULL
+        AND killer_id IS NOT DISTINCT FROM v_row.killer_id
+        AND survivor_id IS NOT DISTINCT FROM v_row.survivor_id
+      LIMIT 1
+      FOR UPDATE;
+    END IF;
+
+    IF v_target_id IS NULL THEN
+      UPDATE public.p100_players SET username = p_to WHERE id = v_row.id;
+      v_moved := v_moved + 1;
+    ELSE
+      UPDATE public.p100_players
+      SET p200 = COALESCE(p200, FALSE) OR COALESCE(v_row.p200, FALSE),
+          legacy = COALESCE(legacy, FALSE) OR COALESCE(v_row.legacy, FALSE),
+          favorite = COALESCE(favorite, FALSE) OR COALESCE(v_row.favorite, FALSE)
+      WHERE id = v_target_id;
+      DELETE FROM public.p100_players WHERE id = v_row.id;
+      v_merged := v_merged + 1;
+    END IF;
+  END LOOP;
+
+  UPDATE public.p100_submissions SET username = p_to WHERE LOWER(username) = LOWER(p_from);
+  GET DIAGNOSTICS v_submissions = ROW_COUNT;
+
+  UPDATE public.player_aliases SET canonical_username = p_to WHERE LOWER(canonical_username) = LOWER(p_from);
+  GET DIAGNOSTICS v_repointed = ROW_COUNT;
+
+  -- The unique index is on LOWER(alias), so an alias differing only in case is
+  -- replaced rather than hitting ON CONFLICT (alias).
+  DELETE FROM public.player_aliases WHERE LOWER(alias) = LOWER(p_from);
+  INSERT INTO public.player_aliases (alias, canonical_username, merged_by)
+  VALUES (p_from, p_to, p_actor);
+
+  RETURN jsonb_build_object(
+    'players_moved', v_moved,
+    'players_merged', v_merged,
+    'submissions_moved', v_submissions,
+    'aliases_repointed', v_repointed
+  );
+END;
+$$;
+
+-- Only the service role (admin server actions) may merge usernames
+REVOKE ALL ON FUNCTION public.merge_player_usernames(TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.merge_player_usernames(TEXT, TEXT, TEXT) TO service_role;
@@ -0,0 +1,84 @@
+-- Players as their own entity, so a profile can carry a platform, country and
+-- social links. p100_players rows link to it through player_id, which a trigger
+-- keeps in sync with the username so every existing insert path still works.
+CREATE TABLE IF NOT EXISTS public.players (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  username TEXT NOT NULL UNIQUE,
+  platform TEXT CHECK (platform IN ('steam', 'epic', 'xbox', 'playstation', 'switch')),
+  country TEXT CHECK (country ~ '^[A-Z]{2}$'),
+  twitch_url TEXT,
+  youtube_url TEXT,
+  twitter_url TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.players ENABLE ROW LEVEL SECURITY;
+
+-- Profiles are public; only admin server actions change them.
+CREATE POLICY "Anyone can read players" ON public.players
+  FOR SELECT USING (true);
+
+CREATE POLICY "Service role can manage players" ON public.players
+  FOR ALL USING (auth.role() = 'service_role');
+
+ALTER TABLE public.p100_players ADD COLUMN IF NOT EXISTS player_id UUID REFERENCES public.players(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_p100_players_player_id ON public.p100_players (player_id);
+
+-- Backfill one player per distinct username.
+INSERT INTO public.players (username)
+SELECT DISTINCT username FROM public.p100_players
+ON CONFLICT (username) DO NOTHING;
+
+UPDATE public.p100_players AS pp
+SET player_id = p.id
+FROM public.players AS p
+WHERE p.username = pp.username AND pp.player_id IS DISTINCT FROM p.id;
+
+CREATE OR REPLACE FUNCTION public.link_p100_player()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.players (username) VALUES (NEW.username) ON CONFLICT (username) DO NOTHING;
+  SELECT id INTO NEW.player_id FROM public.players WHERE username = NEW.username;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS p100_players_link_player ON public.p100_players;
+CREATE TRIGGER p100_players_link_player
+  BEFORE INSERT OR UPDATE OF username ON public.p100_players
+  FOR EACH ROW EXECUTE FUNCTION public.link_p100_player();
+
+-- Merging usernames also merges their player profiles. merge_player_usernames
+-- records every merge as an alias pointing at the new name, so this runs in
+-- the same transaction. It keeps the profile details of the old name wherever
+-- the new one has none; the p100_players rows were already relinked by
+-- link_p100_player().
+CREATE OR REPLACE FUNCTION public.merge_alias_player_profile()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  INSERT INTO public.players (username) VALUES (NEW.canonical_username) ON CONFLICT (username) DO NOTHING;
+  UPDATE public.players AS target
+  SET platform = COALESCE(target.platform, source.platform),
+      country = COALESCE(target.country, source.country),
+      twitch_url = COALESCE(target.twitch_url, source.twitch_url),
+      youtube_url = COALESCE(target.youtube_url, source.youtube_url),
+      twitter_url = COALESCE(target.twitter_url, source.twitter_url),
+      updated_at = NOW()
+  FROM public.players AS source
+  WHERE target.username = NEW.canonical_username AND source.username = NEW.alias;
+  DELETE FROM public.players WHERE username = NEW.alias;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS player_aliases_merge_profile ON public.player_aliases;
+CREATE TRIGGER player_aliases_merge_profile
+  AFTER INSERT OR UPDATE OF canonical_username ON public.player_aliases
+  FOR EACH ROW EXECUTE FUNCTION public.merge_alias_player_profile();
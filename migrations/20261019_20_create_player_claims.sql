@@ -0,0 +1,90 @@
+-- Players verifying that they own a profile. A claim stores the public code the
+-- player posts on their channel and the SHA-256 hash of the private claim key
+-- that later authorizes their profile edits. At most one claim per player is verified.
+CREATE TABLE IF NOT EXISTS public.player_claims (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  player_id UUID NOT NULL REFERENCES public.players(id) ON DELETE CASCADE,
+  verification_code TEXT NOT NULL,
+  claim_key_hash TEXT NOT NULL UNIQUE,
+  proof_url TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'verified', 'rejected', 'revoked')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  proof_submitted_at TIMESTAMPTZ,
+  reviewed_at TIMESTAMPTZ,
+  reviewed_by TEXT
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_player_claims_one_verified ON public.player_claims (player_id) WHERE status = 'verified';
+CREATE INDEX IF NOT EXISTS idx_player_claims_status ON public.player_claims (status, created_at DESC);
+
+ALTER TABLE public.player_claims ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage player claims" ON public.player_claims
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- Verified players can hide individual P100s from the public pages.
+ALTER TABLE public.p100_players ADD COLUMN IF NOT EXISTS hidden BOOLEAN NOT NULL DEFAULT false;
+
+-- Search and the highlight of the day leave hidden P100s out as well.
+DROP FUNCTION IF EXISTS public.search_players(TEXT);
+CREATE OR REPLACE FUNCTION public.search_players(search_term TEXT)
+RETURNS TABLE (username TEXT, "p100Count" BIGINT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p.username, COUNT(*) AS "p100Count"
+  FROM public.p100_players AS p
+  WHERE p.deleted_at IS NULL AND p.hidden = false
+    AND p.username ILIKE '%' || REPLACE(REPLACE(REPLACE(search_term, '\', '\\'), '%', '\%'), '_', '\_') || '%'
+  GROUP BY p.username
+  ORDER BY
+    LOWER(p.username) = LOWER(search_term) DESC,
+    STARTS_WITH(LOWER(p.username), LOWER(search_term)) DESC,
+    COUNT(*) DESC,
+    p.username
+  LIMIT 10;
+$$;
+
+-- One player with 5+ unique P100s, picked per day from a hash of the date so
+-- every visitor sees the same highlight.
+DROP FUNCTION IF EXISTS public.get_highlight_of_the_day();
+CREATE OR REPLACE FUNCTION public.get_highlight_of_the_day()
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH eligible AS (
+    SELECT p.username, COUNT(DISTINCT COALESCE('k:' || p.killer_id, 's:' || p.survivor_id)) AS p100_count
+    FROM public.p100_players AS p
+    WHERE p.deleted_at IS NULL AND p.hidden = false
+    GROUP BY p.username
+    HAVING COUNT(DISTINCT COALESCE('k:' || p.killer_id, 's:' || p.survivor_id)) >= 5
+  ),
+  pick AS (
+    SELECT username, p100_count FROM eligible ORDER BY MD5(username || CURRENT_DATE::TEXT) LIMIT 1
+  )
+  SELECT jsonb_build_object(
+    'username', pick.username,
+    'p100Count', pick.p100_count,
+    'killers', (
+      SELECT jsonb_agg(jsonb_build_object('id', k.id, 'name', k.name, 'image_url', k.image_url, 'added_at', p.added_at) ORDER BY p.added_at)
+      FROM public.p100_players AS p
+      JOIN public.killers AS k ON k.id = p.killer_id AND k.deleted_at IS NULL
+      WHERE p.username = pick.username AND p.deleted_at IS NULL AND p.hidden = false
+    ),
+    'survivors', (
+      SELECT jsonb_agg(jsonb_build_object('id', s.id, 'name', s.name, 'image_url', s.image_url, 'added_at', p.added_at) ORDER BY p.added_at)
+      FROM public.p100_players AS p
+      JOIN public.survivors AS s ON s.id = p.survivor_id AND s.deleted_at IS NULL
+      WHERE p.username = pick.username AND p.deleted_at IS NULL AND p.hidden = false
+    )
+  )
+  FROM pick;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_players(TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_highlight_of_the_day() TO anon, authenticated;
@@ -0,0 +1,41 @@
+-- Blacklist rules. Entries used to be usernames, optionally "super" (contains
+-- matching); each row is now a rule with a type and an optional expiry, checked
+-- server-side only. Blocked attempts are logged to blacklist_blocks.
+ALTER TABLE public.blacklisted_users RENAME COLUMN username TO value;
+ALTER TABLE public.blacklisted_users DROP CONSTRAINT IF EXISTS blacklisted_users_username_key;
+ALTER TABLE public.blacklisted_users ADD COLUMN IF NOT EXISTS rule_type TEXT NOT NULL DEFAULT 'username'
+  CHECK (rule_type IN ('username', 'contains', 'regex', 'ip', 'fingerprint'));
+ALTER TABLE public.blacklisted_users ADD COLUMN IF NOT EXISTS expires_at TIMESTAMPTZ;
+
+UPDATE public.blacklisted_users SET rule_type = 'contains' WHERE is_super;
+ALTER TABLE public.blacklisted_users DROP COLUMN IF EXISTS is_super;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_blacklisted_users_rule ON public.blacklisted_users (rule_type, value);
+
+-- Only the server reads the blacklist now; the public could see every rule.
+DROP POLICY IF EXISTS "Blacklist is viewable by everyone" ON public.blacklisted_users;
+
+CREATE TABLE IF NOT EXISTS public.blacklist_blocks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  rule_id UUID REFERENCES public.blacklisted_users(id) ON DELETE SET NULL,
+  -- Copied from the rule so the log still reads correctly after it is removed.
+  rule_type TEXT NOT NULL,
+  rule_value TEXT NOT NULL,
+  context TEXT NOT NULL,            -- e.g. 'submission', 'claim'
+  username TEXT,
+  ip TEXT,
+  fingerprint TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_blacklist_blocks_created_at ON public.blacklist_blocks (created_at DESC);
+
+ALTER TABLE public.blacklist_blocks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage blacklist blocks" ON public.blacklist_blocks
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- Kept with each submission so moderators can ban the IP or device behind it.
+-- Not part of the anon column grant on p100_submissions.
+ALTER TABLE public.p100_submissions ADD COLUMN IF NOT EXISTS submitter_ip TEXT;
+ALTER TABLE public.p100_submissions ADD COLUMN IF NOT EXISTS submitter_fingerprint TEXT;
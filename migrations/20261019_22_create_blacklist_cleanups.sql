@@ -0,0 +1,127 @@
+-- Cleanups of a blacklisted user's existing entries. Each row records exactly
+-- which p100_players rows were hidden or moved to the trash and which pending
+-- submissions were removed, so the cleanup can be undone if the ban is lifted.
+CREATE TABLE IF NOT EXISTS public.blacklist_cleanups (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  rule_id UUID REFERENCES public.blacklisted_users(id) ON DELETE SET NULL,
+  rule_value TEXT NOT NULL,
+  mode TEXT NOT NULL CHECK (mode IN ('hide', 'remove')),
+  player_ids UUID[] NOT NULL DEFAULT '{}',
+  submission_ids UUID[] NOT NULL DEFAULT '{}',
+  -- The deleted_at written to removed rows; undo only restores rows still carrying it.
+  deleted_at TIMESTAMPTZ NOT NULL,
+  created_by TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  undone_at TIMESTAMPTZ,
+  undone_by TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_blacklist_cleanups_rule_id ON public.blacklist_cleanups (rule_id);
+
+ALTER TABLE public.blacklist_cleanups ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage blacklist cleanups" ON public.blacklist_cleanups
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- Hides or trashes the given rows and records the cleanup in one transaction.
+-- Only rows that actually change are recorded, so undo never touches others.
+CREATE OR REPLACE FUNCTION public.apply_blacklist_cleanup(
+  p_rule_id UUID,
+  p_mode TEXT,
+  p_player_ids UUID[],
+  p_submission_ids UUID[],
+  p_actor TEXT
+)
+RETURNS public.blacklist_cleanups
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_rule public.blacklisted_users%ROWTYPE;
+  v_cleanup public.blacklist_cleanups%ROWTYPE;
+  v_now TIMESTAMPTZ := NOW();
+  v_player_ids UUID[];
+  v_submission_ids UUID[];
+BEGIN
+  IF p_mode NOT IN ('hide', 'remove') THEN
+    RAISE EXCEPTION 'Invalid cleanup mode: %', p_mode USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_rule FROM public.blacklisted_users WHERE id = p_rule_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Could not find that blacklist rule.' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF p_mode = 'hide' THEN
+    WITH changed AS (
+      UPDATE public.p100_players SET hidden = TRUE
+      WHERE id = ANY(p_player_ids) AND deleted_at IS NULL AND hidden = FALSE
+      RETURNING id
+    )
+    SELECT COALESCE(array_agg(id), '{}') INTO v_player_ids FROM changed;
+  ELSE
+    WITH changed AS (
+      UPDATE public.p100_players SET deleted_at = v_now, deleted_by = p_actor
+      WHERE id = ANY(p_player_ids) AND deleted_at IS NULL
+      RETURNING id
+    )
+    SELECT COALESCE(array_agg(id), '{}') INTO v_player_ids FROM changed;
+  END IF;
+
+  WITH changed AS (
+    UPDATE public.p100_submissions SET deleted_at = v_now, deleted_by = p_actor
+    WHERE id = ANY(p_submission_ids) AND deleted_at IS NULL AND status = 'pending'
+    RETURNING id
+  )
+  SELECT COALESCE(array_agg(id), '{}') INTO v_submission_ids FROM changed;
+
+  IF cardinality(v_player_ids) = 0 AND cardinality(v_submission_ids) = 0 THEN
+    RAISE EXCEPTION 'Nothing to clean up for this rule.' USING ERRCODE = '55000';
+  END IF;
+
+  INSERT INTO public.blacklist_cleanups (rule_id, rule_value, mode, player_ids, submission_ids, deleted_at, created_by)
+  VALUES (v_rule.id, v_rule.value, p_mode, v_player_ids, v_submission_ids, v_now, p_actor)
+  RETURNING * INTO v_cleanup;
+  RETURN v_cleanup;
+END;
+$$;
+
+-- Reverses a cleanup in one transaction. Rows changed since (unhidden,
+-- restored from the trash or deleted again) are left alone.
+CREATE OR REPLACE FUNCTION public.undo_blacklist_cleanup(p_cleanup_id UUID, p_actor TEXT)
+RETURNS public.blacklist_cleanups
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_cleanup public.blacklist_cleanups%ROWTYPE;
+BEGIN
+  SELECT * INTO v_cleanup FROM public.blacklist_cleanups WHERE id = p_cleanup_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Could not find that cleanup.' USING ERRCODE = 'P0002';
+  END IF;
+  IF v_cleanup.undone_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This cleanup has already been undone.' USING ERRCODE = '55000';
+  END IF;
+
+  IF v_cleanup.mode = 'hide' THEN
+    UPDATE public.p100_players SET hidden = FALSE
+    WHERE id = ANY(v_cleanup.player_ids) AND hidden = TRUE;
+  ELSE
+    UPDATE public.p100_players SET deleted_at = NULL, deleted_by = NULL
+    WHERE id = ANY(v_cleanup.player_ids) AND deleted_at = v_cleanup.deleted_at;
+  END IF;
+
+  UPDATE public.p100_submissions SET deleted_at = NULL, deleted_by = NULL
+  WHERE id = ANY(v_cleanup.submission_ids) AND deleted_at = v_cleanup.deleted_at;
+
+  UPDATE public.blacklist_cleanups SET undone_at = NOW(), undone_by = p_actor
+  WHERE id = p_cleanup_id
+  RETURNING * INTO v_cleanup;
+  RETURN v_cleanup;
+END;
+$$;
+
+-- Only the service role (admin server actions) may run cleanups
+REVOKE ALL ON FUNCTION public.apply_blacklist_cleanup(UUID, TEXT, UUID[], UUID[], TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.apply_blacklist_cleanup(UUID, TEXT, UUID[], UUID[], TEXT) TO service_role;
+REVOKE ALL ON FUNCTION public.undo_blacklist_cleanup(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.undo_blacklist_cleanup(UUID, TEXT) TO service_role;
@@ -0,0 +1,70 @@
+-- Bulk import of P100 lists from the admin panel.
+-- The admin action works out the diff first; this applies it in one
+-- transaction so a failed import leaves nothing half-written.
+
+CREATE OR REPLACE FUNCTION public.import_p100_players(
+  p_inserts JSONB,
+  p_updates JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_row JSONB;
+  v_id UUID;
+  v_inserted UUID[] := '{}';
+  v_updated UUID[] := '{}';
+  v_skipped INTEGER := 0;
+BEGIN
+  FOR v_row IN SELECT * FROM jsonb_array_elements(COALESCE(p_inserts, '[]'::jsonb)) LOOP
+    IF ((v_row->>'killer_id') IS NULL) = ((v_row->>'survivor_id') IS NULL) THEN
+      RAISE EXCEPTION 'Each row needs exactly one of killer_id or survivor_id' USING ERRCODE = '22023';
+    END IF;
+
+    -- Someone may have added the same P100 since the preview; keep theirs.
+    IF EXISTS (
+      SELECT 1 FROM public.p100_players
+      WHERE lower(username) = lower(v_row->>'username')
+        AND deleted_at IS NULL
+        AND (killer_id = v_row->>'killer_id' OR survivor_id = v_row->>'survivor_id')
+    ) THEN
+      v_skipped := v_skipped + 1;
+      CONTINUE;
+    END IF;
+
+    INSERT INTO public.p100_players (username, killer_id, survivor_id, p200, legacy, favorite, added_at)
+    VALUES (
+      v_row->>'username',
+      v_row->>'killer_id',
+      v_row->>'survivor_id',
+      COALESCE((v_row->>'p200')::BOOLEAN, FALSE),
+      COALESCE((v_row->>'legacy')::BOOLEAN, FALSE),
+      FALSE,
+      COALESCE((v_row->>'added_at')::TIMESTAMPTZ, NOW())
+    )
+    RETURNING id INTO v_id;
+    v_inserted := v_inserted || v_id;
+  END LOOP;
+
+  FOR v_row IN SELECT * FROM jsonb_array_elements(COALESCE(p_updates, '[]'::jsonb)) LOOP
+    UPDATE public.p100_players
+    SET p200 = COALESCE((v_row->>'p200')::BOOLEAN, p200),
+        legacy = COALESCE((v_row->>'legacy')::BOOLEAN, legacy)
+    WHERE id = (v_row->>'id')::UUID AND deleted_at IS NULL
+    RETURNING id INTO v_id;
+    IF FOUND THEN
+      v_updated := v_updated || v_id;
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'inserted_ids', to_jsonb(v_inserted),
+    'updated_ids', to_jsonb(v_updated),
+    'skipped', v_skipped
+  );
+END;
+$$;
+
+-- Only the service role (admin server actions) may import
+REVOKE ALL ON FUNCTION public.import_p100_players(JSONB, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.import_p100_players(JSONB, JSONB) TO service_role;
@@ -7,6 +7,12 @@ const nextConfig = {
   eslint: {
     ignoreDuringBuilds: true,
   },
+  experimental: {
+    // Admin uploads (artworks, character images) are sent through server actions.
+    serverActions: {
+      bodySizeLimit: '25mb',
+    },
+  },
   images: {
     // This is the correct configuration for next start
     remotePatterns: [